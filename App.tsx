@@ -9,18 +9,64 @@ import CalendarView from './components/CalendarView';
 import SettingsView from './components/SettingsView';
 import ClientList from './components/ClientList';
 import MyBusinessView from './components/MyBusinessView';
+import ReviewsView from './components/ReviewsView';
 import SavePointsView from './components/SavePointsView';
 import LoginView from './components/LoginView';
 import OnboardingTutorial from './components/OnboardingTutorial';
 import AIChatPanel from './components/AIChatPanel'; // Import Chat Panel
 import HaloLogo from './components/HaloLogo';
 import { PWAInstallPrompt, OfflineIndicator } from './components/PWAInstallPrompt';
-import RatingPage from './components/RatingPage';
+import SyncConflictModal from './components/SyncConflictModal';
+import SyncStatusIndicator from './components/SyncStatusIndicator';
 import { useAuth, getUserEmailFromToken } from './services/authContext';
 import { AppSnapshot } from './services/snapshotMigration';
-import { loadUserData, saveUserData, logout as apiLogout } from './services/apiService';
-import { LayoutDashboard, Users, Calendar as CalendarIcon, Settings, Link, Briefcase, Moon, Sun, MessageSquare, Sparkles, Globe, Copy, Check, LogIn, LogOut, User, Menu, X as XIcon, HardDrive, Play, BookOpen } from 'lucide-react';
-import { toLocalDateStr } from './constants';
+import {
+  loadUserData, saveUserData, logout as apiLogout, logoutAllDevices, ApiResponse, UserData, ServerUserData, normalizeUserData,
+  createClient, updateClient, deleteClient,
+  createAppointment, updateAppointment, deleteAppointment,
+  createExpense, updateExpense, deleteExpense,
+  createBonusEntry, updateBonusEntry, deleteBonusEntry,
+  createRating, updateRating, deleteRating, createRatingLink, getBookingLink, sendEmail
+} from './services/apiService';
+import { LayoutDashboard, Users, Calendar as CalendarIcon, Settings, Link, Briefcase, Moon, Sun, MessageSquare, Sparkles, Globe, Copy, Check, LogIn, LogOut, User, Menu, X as XIcon, HardDrive, Play, BookOpen, Star } from 'lucide-react';
+import { toLocalDateStr, businessTimeZone } from './constants';
+import { fromWallTime, toWallTime, deviceTimeZone } from './backend/lib/timeZone';
+import { replayMutations, onMutationReplayed, listMutations, clearMutations, discardMutation } from './services/syncQueue';
+import { conflictingSections, resolveConflict, sameData, diffById, ConflictChoice, ConflictSection } from './services/syncConflict';
+import { occurrencesOn } from './backend/lib/recurrence';
+
+type Collection = Exclude<ConflictSection, 'businessProfile'>;
+
+const COLLECTION_API: Record<Collection, {
+  create: (item: any) => Promise<ApiResponse<unknown>>;
+  update: (item: any) => Promise<ApiResponse<unknown>>;
+  remove: (id: string) => Promise<ApiResponse<unknown>>;
+}> = {
+  clients: { create: createClient, update: updateClient, remove: deleteClient },
+  appointments: { create: createAppointment, update: updateAppointment, remove: deleteAppointment },
+  expenses: { create: createExpense, update: updateExpense, remove: deleteExpense },
+  ratings: { create: createRating, update: updateRating, remove: deleteRating },
+  bonusEntries: { create: createBonusEntry, update: updateBonusEntry, remove: deleteBonusEntry }
+};
+
+/**
+ * The per-entity writes that turn the collections in `before` into those in
+ * `after`. Bulk changes (restores, resets, resolved conflicts) go through these
+ * rather than /save, so they only touch what changed and never delete rows
+ * this device hasn't seen, such as a booking made since it loaded.
+ */
+function collectionWrites(before: Partial<UserData>, after: Partial<UserData>): { label: string; request: () => Promise<ApiResponse<unknown>> }[] {
+  return (Object.keys(COLLECTION_API) as Collection[]).flatMap(key => {
+    if (!after[key]) return [];
+    const api = COLLECTION_API[key];
+    const { created, updated, removed } = diffById<{ id: string }>(before[key] || [], after[key]);
+    return [
+      ...created.map(item => ({ label: `add ${key}`, request: () => api.create(item) })),
+      ...updated.map(item => ({ label: `update ${key}`, request: () => api.update(item) })),
+      ...removed.map(item => ({ label: `remove ${key}`, request: () => api.remove(item.id) }))
+    ];
+  });
+}
 
 const App: React.FC = () => {
   // Use auth context instead of local state to prevent auth loops
@@ -63,61 +109,6 @@ const App: React.FC = () => {
   const [dataLoaded, setDataLoaded] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
 
-  const parseLocalDate = (dateStr: string): Date => new Date(`${dateStr}T12:00:00`);
-
-  const isOccurrenceOnDate = (appt: Appointment, targetDateStr: string): boolean => {
-    if (appt.date === targetDateStr) return true;
-    if (!appt.recurrence) return false;
-
-    const apptDate = parseLocalDate(appt.date);
-    const targetDate = parseLocalDate(targetDateStr);
-    if (targetDate < apptDate) return false;
-    if (appt.recurrence.endDate && targetDate > parseLocalDate(appt.recurrence.endDate)) return false;
-
-    const diffTime = Math.abs(targetDate.getTime() - apptDate.getTime());
-    const diffDays = Math.round(diffTime / (1000 * 60 * 60 * 24));
-
-    if (appt.recurrence.frequency === 'WEEKLY') {
-      if (appt.recurrence.daysOfWeek && appt.recurrence.daysOfWeek.length > 0) {
-        const targetDayOfWeek = targetDate.getDay();
-        if (!appt.recurrence.daysOfWeek.includes(targetDayOfWeek)) return false;
-        const getWeekStart = (d: Date) => {
-          const date = new Date(d);
-          date.setDate(date.getDate() - date.getDay());
-          date.setHours(12, 0, 0, 0);
-          return date;
-        };
-        const weeksDiff = Math.round(
-          (getWeekStart(targetDate).getTime() - getWeekStart(apptDate).getTime()) / (7 * 24 * 60 * 60 * 1000)
-        );
-        return weeksDiff >= 0 && weeksDiff % appt.recurrence.interval === 0;
-      }
-      if (diffDays % 7 !== 0) return false;
-      return (diffDays / 7) % appt.recurrence.interval === 0;
-    }
-
-    if (appt.recurrence.frequency === 'MONTHLY') {
-      if (targetDate.getDate() !== apptDate.getDate()) return false;
-      const monthDiff = (targetDate.getFullYear() - apptDate.getFullYear()) * 12 +
-                        (targetDate.getMonth() - apptDate.getMonth());
-      return monthDiff % appt.recurrence.interval === 0;
-    }
-
-    return false;
-  };
-
-  const isOverriddenRecurringOnDate = (appt: Appointment, dateStr: string): boolean => {
-    if (!appt.recurrence) return false;
-    return appointments.some(candidate =>
-      !candidate.recurrence &&
-      (candidate.id.endsWith('_completed') || candidate.id.endsWith('_cancelled')) &&
-      candidate.date === dateStr &&
-      candidate.time === appt.time &&
-      candidate.serviceId === appt.serviceId &&
-      candidate.clientName === appt.clientName
-    );
-  };
-
   // Load user data from API when authenticated
   useEffect(() => {
     if (!authLoading && isAuthenticated && !dataLoaded) {
@@ -145,6 +136,8 @@ const App: React.FC = () => {
           const email = userEmail || emailFromToken || businessProfile.email;
           console.log('🔄 Loading data for user:', email || 'unknown');
           
+          // Push changes queued while offline first, so the load includes them
+          await replayMutations();
           const result = await loadUserData();
           
           if (result.error) {
@@ -158,6 +151,7 @@ const App: React.FC = () => {
             // This ensures cross-device sync when backend is available
             if (result.error === 'API_UNAVAILABLE') {
               console.warn('⚠️ Backend API not available - using localStorage (data will NOT sync across devices)');
+              setApiUnavailable(true);
               if (email && email !== DEFAULT_BUSINESS.email) {
                 const storageKey = getStorageKey(email);
                 const saved = localStorage.getItem(storageKey);
@@ -182,6 +176,9 @@ const App: React.FC = () => {
               console.error('❌ Backend API error (not using localStorage fallback):', result.error);
             }
           } else if (result.data) {
+            revisionRef.current = result.data.revision;
+            lastSavedProfileRef.current = result.data.businessProfile;
+
             // Update business profile email if we got it from backend or token
             if (email && (!businessProfile.email || businessProfile.email === DEFAULT_BUSINESS.email)) {
               setBusinessProfile(prev => ({ ...prev, email }));
@@ -236,8 +233,11 @@ const App: React.FC = () => {
                   
                   // Save merged data to backend immediately
                   setTimeout(async () => {
-                    const saveResult = await saveUserData(mergedData);
-                    if (!saveResult.error) {
+                    const results = await Promise.all([
+                      saveToBackend({ businessProfile: mergedData.businessProfile }),
+                      ...collectionWrites(result.data, mergedData).map(write => write.request())
+                    ]);
+                    if (results.every(r => !r.error)) {
                       console.log('✅ Migrated data to backend successfully');
                     }
                   }, 500);
@@ -259,63 +259,101 @@ const App: React.FC = () => {
     }
   }, [authLoading, isAuthenticated, accessToken, dataLoaded]);
 
-  // Save user data to API whenever it changes (if authenticated)
+  // Set when the backend can't be reached; local state is then mirrored to localStorage
+  const [apiUnavailable, setApiUnavailable] = useState(false);
+
+  // Optimistic concurrency for /save: the revision our data is based on, and the
+  // server's state when a save was rejected because another device saved first
+  const revisionRef = useRef<number | undefined>(undefined);
+  const lastSavedProfileRef = useRef<BusinessProfile | null>(null);
+  const saveChainRef = useRef<Promise<unknown>>(Promise.resolve());
+  // `queuedSeq` is set when the rejected save came from the offline queue
+  const [syncConflict, setSyncConflict] = useState<{ server: ServerUserData; pending: Partial<UserData>; queuedSeq?: number } | null>(null);
+
+  // Saves run one at a time so each one is based on the revision the previous one produced
+  const saveToBackend = (data: Pick<UserData, 'businessProfile'>) => {
+    const run = saveChainRef.current.then(async () => {
+      const result = await saveUserData(data, revisionRef.current);
+      if (result.data) {
+        revisionRef.current = result.data.revision;
+        lastSavedProfileRef.current = data.businessProfile;
+      } else if (result.error === 'CONFLICT' && result.conflict) {
+        console.warn('⚠️ Data changed on another device - asking how to resolve');
+        setSyncConflict({ server: result.conflict, pending: data });
+      }
+      return result;
+    });
+    saveChainRef.current = run.catch(() => undefined);
+    return run;
+  };
+
+  // Changes queued while offline are replayed later (possibly by the service worker);
+  // keep the revision current and surface conflicts the same way as live saves
+  useEffect(() => onMutationReplayed(({ mutation, status, body }) => {
+    if (status < 300) setApiUnavailable(false);
+    if (!mutation.url.endsWith('/save')) return;
+    if (status < 300 && typeof body?.revision === 'number') {
+      revisionRef.current = body.revision;
+      const { revision, ...saved } = mutation.body as any;
+      if (saved.businessProfile !== undefined) lastSavedProfileRef.current = saved.businessProfile;
+    } else if (status === 409 && body?.serverData) {
+      const { revision, ...pending } = mutation.body as any;
+      setSyncConflict({ server: normalizeUserData(body.serverData), pending, queuedSeq: mutation.seq });
+    }
+  }), []);
+
+  const canSyncToBackend = () =>
+    isAuthenticated && !isDemoMode && dataLoaded && !!businessProfile.email && businessProfile.email !== DEFAULT_BUSINESS.email;
+
+  // Write one entity change through the per-entity API (state is already updated optimistically)
+  const syncMutation = async (label: string, request: () => Promise<ApiResponse<unknown>>) => {
+    if (!canSyncToBackend()) return;
+    try {
+      const result = await request();
+      if (result.error === 'API_UNAVAILABLE' || result.error === 'QUEUED') {
+        console.warn(`⚠️ Backend API not available - queued "${label}"; keeping a local copy until it syncs`);
+        setApiUnavailable(true);
+      } else if (result.error === 'CONFLICT') {
+        // Resolved through the conflict dialog
+      } else if (result.error) {
+        console.warn(`Failed to ${label}:`, result.error);
+      } else {
+        setApiUnavailable(false);
+      }
+    } catch (error) {
+      console.error(`Error trying to ${label}:`, error);
+    }
+  };
+
+  // Save the business profile (incl. services and staff) whenever it changes.
+  // Entity collections are written individually by the handlers below.
   // Debounce saves to avoid too many API calls
   useEffect(() => {
-    if (isAuthenticated && !isDemoMode && businessProfile.email && businessProfile.email !== DEFAULT_BUSINESS.email && dataLoaded) {
+    // Hold off while a conflict is waiting to be resolved
+    if (canSyncToBackend() && !syncConflict) {
       // Debounce saves - wait 1 second after last change
       const timeoutId = setTimeout(async () => {
         if (isSaving) return; // Don't save if already saving
+        if (sameData(businessProfile, lastSavedProfileRef.current)) return; // Nothing new to save
         
         setIsSaving(true);
         try {
-          const result = await saveUserData({
-            businessProfile,
-            clients,
-            appointments,
-            expenses,
-            ratings,
-            bonusEntries
-          });
+          const result = await saveToBackend({ businessProfile });
           
-          if (result.error) {
-            // If API is unavailable, silently fall back to localStorage (this is expected)
-            if (result.error === 'API_UNAVAILABLE') {
+          if (result.error === 'CONFLICT') {
+            // Resolved through the conflict dialog
+          } else if (result.error) {
+            if (result.error === 'API_UNAVAILABLE' || result.error === 'QUEUED') {
               console.warn('⚠️ Backend API not available - data will NOT sync across devices. Please configure VITE_API_URL.');
+              setApiUnavailable(true);
             } else {
-              console.warn('Failed to save data to API:', result.error);
+              console.warn('Failed to save profile to API:', result.error);
             }
-            // Fall back to localStorage if API fails
-            const storageKey = getStorageKey(businessProfile.email);
-            const dataToSave = {
-              businessProfile,
-              clients,
-              appointments,
-              expenses,
-              ratings,
-              bonusEntries
-            };
-            localStorage.setItem(storageKey, JSON.stringify(dataToSave));
           } else {
-            console.log('✅ Saved data to backend:', {
-              appointments: appointments.length,
-              clients: clients.length,
-              expenses: expenses.length
-            });
+            console.log('✅ Saved business profile to backend');
           }
         } catch (error) {
-          console.error('Error saving user data:', error);
-          // Fall back to localStorage
-          const storageKey = getStorageKey(businessProfile.email);
-          const dataToSave = {
-            businessProfile,
-            clients,
-            appointments,
-            expenses,
-            ratings,
-            bonusEntries
-          };
-          localStorage.setItem(storageKey, JSON.stringify(dataToSave));
+          console.error('Error saving business profile:', error);
         } finally {
           setIsSaving(false);
         }
@@ -323,26 +361,58 @@ const App: React.FC = () => {
 
       return () => clearTimeout(timeoutId);
     }
-  }, [businessProfile, clients, appointments, expenses, ratings, bonusEntries, isAuthenticated, dataLoaded, isSaving]);
+  }, [businessProfile, isAuthenticated, dataLoaded, syncConflict]);
+
+  // Apply the user's choices from the conflict dialog, then write back whatever differs from the server
+  const handleResolveConflict = (choices: Partial<Record<ConflictSection, ConflictChoice>>) => {
+    if (!syncConflict) return;
+    const { server, queuedSeq } = syncConflict;
+    if (queuedSeq !== undefined) discardMutation(queuedSeq); // superseded by the resolution
+    const local: UserData = { businessProfile, clients, appointments, expenses, ratings, bonusEntries };
+    const resolved = resolveConflict(local, server, choices);
+
+    if (resolved.businessProfile) setBusinessProfile(resolved.businessProfile);
+    setClients(resolved.clients);
+    setAppointments(resolved.appointments);
+    setExpenses(resolved.expenses);
+    setRatings(resolved.ratings);
+    setBonusEntries(resolved.bonusEntries);
+
+    revisionRef.current = server.revision;
+    lastSavedProfileRef.current = server.businessProfile;
+    setSyncConflict(null);
+
+    if (!sameData(resolved.businessProfile, server.businessProfile)) {
+      syncMutation('save resolved profile', () => saveToBackend({ businessProfile: resolved.businessProfile }));
+    }
+    collectionWrites(server, resolved).forEach(write => syncMutation(write.label, write.request));
+  };
+
+  // While the backend is unreachable, keep a full local copy so nothing is lost on reload
+  useEffect(() => {
+    if (!apiUnavailable || isDemoMode || !dataLoaded) return;
+    if (!businessProfile.email || businessProfile.email === DEFAULT_BUSINESS.email) return;
+    const storageKey = getStorageKey(businessProfile.email);
+    localStorage.setItem(storageKey, JSON.stringify({
+      businessProfile,
+      clients,
+      appointments,
+      expenses,
+      ratings,
+      bonusEntries
+    }));
+  }, [apiUnavailable, businessProfile, clients, appointments, expenses, ratings, bonusEntries, dataLoaded]);
 
   // Chat State
   const [isChatOpen, setIsChatOpen] = useState(false);
 
-  // Check for rating page URL on mount
+  // Anchor appointment times to a time zone: accounts from before zones were
+  // stored (and new ones) take the zone of the device they're opened on
   useEffect(() => {
-    const path = window.location.pathname;
-    const params = new URLSearchParams(window.location.search);
-    
-    // Check if we're on a rating page: /rate/:appointmentId?token=...
-    if (path.startsWith('/rate/')) {
-      const appointmentId = path.split('/rate/')[1]?.split('?')[0];
-      const token = params.get('token');
-      
-      if (appointmentId && token) {
-        setCurrentView(ViewState.RATING_PAGE);
-      }
+    if (dataLoaded && !businessProfile.timeZone) {
+      setBusinessProfile(prev => ({ ...prev, timeZone: deviceTimeZone() }));
     }
-  }, []);
+  }, [dataLoaded, businessProfile.timeZone]);
 
   // Apply Theme Effect
   useEffect(() => {
@@ -365,10 +435,12 @@ const App: React.FC = () => {
     const notifyWindowMs = 10 * 60 * 1000;
 
     const checkUpcomingEvents = () => {
-      const now = new Date();
-      const today = toLocalDateStr(now);
+      const now = Date.now();
+      // Appointment times are wall-clock times where the business is
+      const timeZone = businessTimeZone(businessProfile);
+      const today = toWallTime(now, timeZone).date;
 
-      appointments.forEach(appt => {
+      occurrencesOn<Appointment>(appointments, today).forEach(({ entry: appt }) => {
         if (
           appt.status === AppointmentStatus.CANCELLED ||
           appt.status === AppointmentStatus.COMPLETED ||
@@ -376,10 +448,8 @@ const App: React.FC = () => {
         ) {
           return;
         }
-        if (!isOccurrenceOnDate(appt, today) || isOverriddenRecurringOnDate(appt, today)) return;
 
-        const startTime = new Date(`${today}T${appt.time}:00`);
-        const timeUntilStart = startTime.getTime() - now.getTime();
+        const timeUntilStart = fromWallTime(today, appt.time, timeZone) - now;
         if (timeUntilStart <= 0 || timeUntilStart > notifyWindowMs) return;
 
         const reminderKey = `${appt.id}_${today}_${appt.time}`;
@@ -404,7 +474,7 @@ const App: React.FC = () => {
     checkUpcomingEvents();
     const intervalId = window.setInterval(checkUpcomingEvents, 30 * 1000);
     return () => window.clearInterval(intervalId);
-  }, [appointments, businessProfile.calendarNotificationsEnabled, businessProfile.services]);
+  }, [appointments, businessProfile.calendarNotificationsEnabled, businessProfile.services, businessProfile.timeZone]);
 
   // Handlers
   const handleLogin = async (email?: string) => {
@@ -458,6 +528,13 @@ const App: React.FC = () => {
   };
 
   const handleLogout = async () => {
+    // Changes still waiting to sync belong to this account; they can't be replayed after sign-out
+    const unsynced = await listMutations().catch(() => []);
+    if (unsynced.length > 0 && !confirm(`${unsynced.length} change${unsynced.length === 1 ? ' has' : 's have'} not synced yet and will be lost if you sign out. Sign out anyway?`)) {
+      return;
+    }
+    await clearMutations().catch(() => undefined);
+
     // Logout from API
     try {
       await apiLogout();
@@ -473,17 +550,31 @@ const App: React.FC = () => {
     setExpenses([]);
     setRatings([]);
     setBonusEntries([]);
+    revisionRef.current = undefined;
+    lastSavedProfileRef.current = null;
+    setSyncConflict(null);
     setDataLoaded(false); // Reset data loaded flag
     setIsDemoMode(false); // Reset demo mode
     setCurrentView(ViewState.DASHBOARD); // Reset view on logout
   };
 
+  const handleLogoutAllDevices = async () => {
+    if (!confirm('Sign out of Halo on every device, including this one?')) return;
+    const result = await logoutAllDevices();
+    if (result.error) {
+      alert(`Could not sign out of all devices: ${result.error}`);
+      return;
+    }
+    await handleLogout();
+  };
+
   const handleUpdateBusiness = (updatedProfile: BusinessProfile) => {
     setBusinessProfile(updatedProfile);
   };
 
   const handleAddClient = (newClient: Client) => {
-    setClients([...clients, newClient]);
+    setClients(prev => [...prev, newClient]);
+    syncMutation('add client', () => createClient(newClient));
   };
 
   const handleUpdateClient = (updatedClient: Client) => {
@@ -491,14 +582,22 @@ const App: React.FC = () => {
     if (selectedClient && selectedClient.id === updatedClient.id) {
         setSelectedClient(updatedClient);
     }
+    syncMutation('update client', () => updateClient(updatedClient));
   };
 
   const handleRemoveClient = (clientId: string) => {
     setClients(prev => prev.filter(c => c.id !== clientId));
+    syncMutation('remove client', () => deleteClient(clientId));
   };
 
   const handleUpdateAppointment = async (updatedAppt: Appointment) => {
     // Update appointment in state (or insert if it doesn't exist)
+    const isExisting = appointments.some(a => a.id === updatedAppt.id);
+    syncMutation(
+      isExisting ? 'update appointment' : 'add appointment',
+      () => isExisting ? updateAppointment(updatedAppt) : createAppointment(updatedAppt)
+    );
+
     let shouldSendRatingEmail = false;
     setAppointments(prev => {
       const idx = prev.findIndex(a => a.id === updatedAppt.id);
@@ -519,30 +618,35 @@ const App: React.FC = () => {
     if (shouldSendRatingEmail) {
       try {
         const client = clients.find(c => c.id === updatedAppt.clientId);
-        if (client && client.email) {
+        // The server signs the link; without one there's nothing safe to send
+        const link = client?.email ? await createRatingLink(updatedAppt.id, updatedAppt.date, client.id) : null;
+        if (link?.error) console.warn(`No rating link for ${client.email}: ${link.error}`);
+        if (client && client.email && link?.data) {
           const service = businessProfile.services.find(s => s.id === updatedAppt.serviceId);
-          const ratingLink = `${window.location.origin}/rate/${updatedAppt.id}?token=${encodeURIComponent(btoa(updatedAppt.id + ':' + client.id))}`;
+          const ratingLink = link.data.url;
+
+          const staff = businessProfile.staff?.find(s => s.id === updatedAppt.staffId);
 
-          const { sendEmail, generateRatingEmailHTML } = await import('./services/emailService');
+          const { buildRatingEmail } = await import('./services/emailService');
           const { formatTime } = await import('./constants');
 
-          const emailSent = await sendEmail({
+          const sent = await sendEmail({
             to: client.email,
-            subject: `Rate Your Experience at ${businessProfile.name}`,
-            html: generateRatingEmailHTML(
-              client.name,
-              businessProfile.name,
-              updatedAppt.date,
-              formatTime(updatedAppt.time),
-              service?.name || 'Service',
+            kind: 'RATING_REQUEST',
+            ...buildRatingEmail(businessProfile, {
+              clientName: client.name,
+              date: updatedAppt.date,
+              time: formatTime(updatedAppt.time),
+              serviceName: service?.name || 'Service',
+              staffName: staff?.name,
               ratingLink
-            )
+            })
           });
 
-          if (emailSent) {
+          if (sent.data) {
             console.log(`Rating email sent to ${client.email}`);
           } else {
-            console.warn(`Failed to send rating email to ${client.email}`);
+            console.warn(`Failed to send rating email to ${client.email}: ${sent.error}`);
           }
         }
       } catch (err) {
@@ -553,30 +657,37 @@ const App: React.FC = () => {
 
   const handleAddAppointment = (newAppt: Appointment) => {
     setAppointments(prev => [...prev, newAppt]);
+    syncMutation('add appointment', () => createAppointment(newAppt));
   };
 
   const handleRemoveAppointment = (appointmentId: string) => {
     setAppointments(prev => prev.filter(a => a.id !== appointmentId));
+    syncMutation('remove appointment', () => deleteAppointment(appointmentId));
   };
 
   const handleAddExpense = (newExpense: Expense) => {
-    setExpenses([...expenses, newExpense]);
+    setExpenses(prev => [...prev, newExpense]);
+    syncMutation('add expense', () => createExpense(newExpense));
   };
 
   const handleDeleteExpense = (id: string) => {
-    setExpenses(expenses.filter(e => e.id !== id));
+    setExpenses(prev => prev.filter(e => e.id !== id));
+    syncMutation('delete expense', () => deleteExpense(id));
   };
 
   const handleAddBonus = (entry: BonusEntry) => {
     setBonusEntries(prev => [...prev, entry]);
+    syncMutation('add bonus', () => createBonusEntry(entry));
   };
 
   const handleUpdateBonus = (updated: BonusEntry) => {
     setBonusEntries(prev => prev.map(b => b.id === updated.id ? updated : b));
+    syncMutation('update bonus', () => updateBonusEntry(updated));
   };
 
   const handleDeleteBonus = (id: string) => {
     setBonusEntries(prev => prev.filter(b => b.id !== id));
+    syncMutation('delete bonus', () => deleteBonusEntry(id));
   };
 
   // Demo mode state
@@ -687,7 +798,17 @@ const App: React.FC = () => {
     setExpenses(snapshot.expenses || []);
     setRatings(snapshot.ratings || []);
     setBonusEntries(snapshot.bonusEntries || []);
-    // State will auto-save to backend via the debounced useEffect
+    // Write only what differs from what we have (the profile follows via the debounced useEffect)
+    collectionWrites(
+      { clients, appointments, expenses, ratings, bonusEntries },
+      {
+        clients: snapshot.clients || [],
+        appointments: snapshot.appointments || [],
+        expenses: snapshot.expenses || [],
+        ratings: snapshot.ratings || [],
+        bonusEntries: snapshot.bonusEntries || []
+      }
+    ).forEach(write => syncMutation(`restore save point (${write.label})`, write.request));
   };
 
   const handleResetEarnings = async () => {
@@ -742,7 +863,7 @@ const App: React.FC = () => {
       }));
 
       // Generate and send reset email
-      const { sendEmail, generateEarningsResetEmailHTML } = await import('./services/emailService');
+      const { buildEarningsResetEmail } = await import('./services/emailService');
       const resetDate = new Date().toLocaleDateString('en-US', { 
         year: 'numeric', 
         month: 'long', 
@@ -751,33 +872,35 @@ const App: React.FC = () => {
         minute: '2-digit'
       });
 
-      const emailSent = await sendEmail({
-        to: businessProfile.email || 'noreply@halo.app',
-        subject: `Earnings Reset - ${businessProfile.name}`,
-        html: generateEarningsResetEmailHTML(
-          businessProfile.name,
-          businessProfile.ownerName,
+      const sent = businessProfile.email ? await sendEmail({
+        to: businessProfile.email,
+        kind: 'EARNINGS_REPORT',
+        ...buildEarningsResetEmail(businessProfile, {
           resetDate,
-          completedAppointments.length,
           grossRevenue,
           totalExpenses,
           estimatedTax,
           netEarnings,
-          appointmentData,
-          expenseData
-        )
-      });
+          appointments: appointmentData,
+          expenses: expenseData
+        })
+      }) : null;
 
-      if (emailSent) {
+      if (sent?.data) {
         console.log('Earnings reset email sent successfully');
       } else {
-        console.warn('Failed to send earnings reset email');
+        console.warn('Failed to send earnings reset email:', sent ? sent.error : 'no business email set');
       }
 
       // Clear completed appointments, all expenses, and bonus entries
-      setAppointments(prev => prev.filter(a => a.status !== AppointmentStatus.COMPLETED));
+      const remainingAppointments = appointments.filter(a => a.status !== AppointmentStatus.COMPLETED);
+      setAppointments(remainingAppointments);
       setExpenses([]);
       setBonusEntries([]);
+      collectionWrites(
+        { appointments, expenses, bonusEntries },
+        { appointments: remainingAppointments, expenses: [], bonusEntries: [] }
+      ).forEach(write => syncMutation(`reset earnings (${write.label})`, write.request));
 
       alert('Earnings have been reset. A summary email has been sent to your email address.');
     } catch (error) {
@@ -791,7 +914,8 @@ const App: React.FC = () => {
       ...rating,
       id: `rating_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
     };
-    setRatings([...ratings, newRating]);
+    setRatings(prev => [...prev, newRating]);
+    syncMutation('save rating', () => createRating(newRating));
     // Also update the appointment with the rating
     setAppointments(prev => prev.map(a => 
       a.id === rating.appointmentId 
@@ -800,6 +924,14 @@ const App: React.FC = () => {
     ));
   };
 
+  const handleUpdateRating = (updated: ClientRating) => {
+    setRatings(prev => prev.map(r => r.id === updated.id ? updated : r));
+    setAppointments(prev => prev.map(a =>
+      a.rating?.id === updated.id ? { ...a, rating: updated } : a
+    ));
+    syncMutation('update review', () => updateRating(updated));
+  };
+
   const handlePublicBooking = (newAppt: Appointment, newClients: Client[]) => {
       // Handle all clients (single or multiple)
       const clientsToAdd: Client[] = [];
@@ -837,12 +969,26 @@ const App: React.FC = () => {
         setClients(prev => [...prev, ...clientsToAdd]);
       }
       setAppointments(prev => [...prev, newAppt]);
+      syncMutation('save booking', async () => {
+        for (const client of clientsToAdd) {
+          const result = await createClient(client);
+          if (result.error) return result;
+        }
+        return createAppointment(newAppt);
+      });
   };
 
-  const handleCopyLink = () => {
-      // Simulate copying a real URL
-      const mockUrl = `https://halo.app/book/${businessProfile.name.toLowerCase().replace(/\s+/g, '-')}`;
-      navigator.clipboard.writeText(mockUrl);
+  const handleCopyLink = async () => {
+      // The slug is assigned by the backend the first time the link is requested
+      const result = await getBookingLink();
+      if (!result.data) {
+        alert(result.error === 'Not authenticated'
+          ? 'Sign in to get your booking link.'
+          : 'Could not get your booking link. Please try again.');
+        return;
+      }
+      const url = `${window.location.origin}/book/${result.data.slug}`;
+      await navigator.clipboard.writeText(url);
       setLinkCopied(true);
       setTimeout(() => setLinkCopied(false), 3000);
   };
@@ -858,40 +1004,19 @@ const App: React.FC = () => {
     }
   }, [authLoading, isAuthenticated, showLoginModal]);
 
-  // 1. Check for Rating Page - accessible without auth
-  if (currentView === ViewState.RATING_PAGE) {
-    const path = window.location.pathname;
-    const params = new URLSearchParams(window.location.search);
-    const appointmentId = path.split('/rate/')[1]?.split('?')[0] || '';
-    const token = params.get('token') || '';
-    
-    const appointment = appointments.find(a => a.id === appointmentId);
-    const client = appointment ? clients.find(c => c.id === appointment.clientId) : undefined;
-    
-    return (
-      <RatingPage
-        appointmentId={appointmentId}
-        token={token}
-        appointment={appointment}
-        client={client}
-        business={businessProfile}
-        onSubmitRating={handleAddRating}
-      />
-    );
-  }
-
-  // 2. Check for Public View (Booking Form) - accessible without auth
+  // 1. Check for Public View (Booking Form) - accessible without auth
   if (currentView === ViewState.BOOKING_PUBLIC) {
       return (
         <BookingForm 
             business={businessProfile} 
             onBackToAdmin={() => navigateTo(ViewState.DASHBOARD)} 
             onBookAppointment={handlePublicBooking}
+            busy={appointments}
         />
       );
   }
 
-  // 3. Show loading state while auth is being restored (prevents redirect loops)
+  // 2. Show loading state while auth is being restored (prevents redirect loops)
   if (authLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-zinc-50 dark:bg-black">
@@ -909,9 +1034,11 @@ const App: React.FC = () => {
       case ViewState.CALENDAR:
         return <CalendarView 
             appointments={appointments} 
+            clients={clients}
             business={businessProfile} 
             onUpdateAppointment={handleUpdateAppointment}
             onAddAppointment={handleAddAppointment}
+            onAddClient={handleAddClient}
         />;
 
       case ViewState.SETTINGS:
@@ -919,6 +1046,7 @@ const App: React.FC = () => {
           business={businessProfile} 
           onUpdate={handleUpdateBusiness} 
           onLogout={handleLogout}
+          onLogoutAllDevices={handleLogoutAllDevices}
           isAuthenticated={isAuthenticated}
         />;
 
@@ -950,6 +1078,16 @@ const App: React.FC = () => {
             onDeleteBonus={handleDeleteBonus}
         />;
 
+      case ViewState.REVIEWS:
+        return <ReviewsView
+            business={businessProfile}
+            ratings={ratings}
+            appointments={appointments}
+            clients={clients}
+            onUpdateRating={handleUpdateRating}
+            onUpdateBusiness={handleUpdateBusiness}
+        />;
+
       case ViewState.CLIENTS:
         if (selectedClient) {
             return (
@@ -987,6 +1125,7 @@ const App: React.FC = () => {
             onAddAppointment={handleAddAppointment}
             onRemoveAppointment={handleRemoveAppointment}
             onNavigateToCalendar={() => navigateTo(ViewState.CALENDAR)}
+            onViewReviews={() => navigateTo(ViewState.REVIEWS)}
         />;
     }
   };
@@ -1061,6 +1200,14 @@ const App: React.FC = () => {
             <span className="font-medium uppercase tracking-wide text-sm">My Business</span>
           </button>
 
+          <button 
+            onClick={() => navigateTo(ViewState.REVIEWS)}
+            className={`w-full flex items-center gap-3 lg:gap-4 p-3 lg:p-4 transition-all duration-200 border-l-2 ${currentView === ViewState.REVIEWS ? 'border-orange-600 bg-zinc-50 dark:bg-zinc-900 text-zinc-900 dark:text-white' : 'border-transparent text-zinc-500 hover:text-zinc-900 dark:hover:text-white hover:bg-zinc-50 dark:hover:bg-zinc-900'}`}
+          >
+            <Star className="w-5 h-5 flex-shrink-0" />
+            <span className="font-medium uppercase tracking-wide text-sm">Reviews</span>
+          </button>
+
           <button 
             onClick={() => navigateTo(ViewState.SAVE_POINTS)}
             className={`w-full flex items-center gap-3 lg:gap-4 p-3 lg:p-4 transition-all duration-200 border-l-2 ${currentView === ViewState.SAVE_POINTS ? 'border-orange-600 bg-zinc-50 dark:bg-zinc-900 text-zinc-900 dark:text-white' : 'border-transparent text-zinc-500 hover:text-zinc-900 dark:hover:text-white hover:bg-zinc-50 dark:hover:bg-zinc-900'}`}
@@ -1108,6 +1255,7 @@ const App: React.FC = () => {
          <div className="fixed lg:absolute top-4 right-4 z-30">
            {isAuthenticated ? (
              <div className="flex items-center gap-3">
+               <SyncStatusIndicator />
                {businessProfile.email && businessProfile.email !== 'demo@halo.app' && (
                  <span className="hidden md:block text-sm text-zinc-500 dark:text-zinc-400 uppercase tracking-wide">
                    {businessProfile.email}
@@ -1269,6 +1417,19 @@ const App: React.FC = () => {
         onAddAppointment={handleAddAppointment}
       />
 
+      {/* Save conflict with another device */}
+      {syncConflict && (
+        <SyncConflictModal
+          local={{ businessProfile, clients, appointments, expenses, ratings, bonusEntries }}
+          server={syncConflict.server}
+          sections={conflictingSections({ businessProfile, clients, appointments, expenses, ratings, bonusEntries }, syncConflict.server)}
+          initialChoices={Object.fromEntries(
+            Object.keys(syncConflict.pending).map(key => [key, 'mine'])
+          ) as Partial<Record<ConflictSection, ConflictChoice>>}
+          onResolve={handleResolveConflict}
+        />
+      )}
+
       {/* Login Modal */}
       {showLoginModal && (
         <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4 overflow-y-auto" onClick={() => setShowLoginModal(false)}>
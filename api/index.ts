@@ -7,8 +7,20 @@ import cors from 'cors';
 import cookieParser from 'cookie-parser';
 import { createClient } from '@supabase/supabase-js';
 import bcrypt from 'bcryptjs';
+import * as sessions from '../backend/lib/sessions.js';
+import { requestPasswordReset, confirmPasswordReset } from '../backend/lib/passwordReset.js';
+import { loadBusinessData, saveBusinessProfile } from '../backend/lib/entities.js';
+import { createEntityRouter } from '../backend/lib/entityRoutes.js';
+import { createPublicBookingRouter } from '../backend/lib/publicBookingRoutes.js';
+import { createCalendarFeedRouter } from '../backend/lib/calendarFeedRoutes.js';
+import { createReminderRouter } from '../backend/lib/reminderRoutes.js';
+import { createAppointmentLinkRouter } from '../backend/lib/appointmentLinkRoutes.js';
+import { createRatingLinkRouter } from '../backend/lib/ratingLinkRoutes.js';
+import { createEmailRouter } from '../backend/lib/emailRoutes.js';
 
 const app = express();
+// Behind Vercel's proxy; req.ip is then the visitor's address, which the booking rate limit counts by
+app.set('trust proxy', true);
 
 // Middleware
 app.use(cors({
@@ -38,49 +50,10 @@ function requireDB(res: express.Response): boolean {
   return true;
 }
 
-// Session storage (Vercel serverless = ephemeral, so sessions are per-invocation)
-// For production persistence, we use a DB-backed session check
-const sessions = new Map<string, { email: string; expires: number }>();
-
-const verifySession = (req: express.Request): string | null => {
-  const sessionId = req.cookies?.sessionId;
-  if (!sessionId) return null;
-
-  // Check in-memory first
-  const session = sessions.get(sessionId);
-  if (session && session.expires > Date.now()) {
-    return session.email;
-  }
-  sessions.delete(sessionId);
-
-  // For serverless: decode the session ID which embeds the email
-  // Format: session_<timestamp>_<random>_<base64email>
-  try {
-    const parts = sessionId.split('_');
-    if (parts.length >= 4) {
-      const email = Buffer.from(parts[3], 'base64').toString('utf-8');
-      if (email && email.includes('@')) return email;
-    }
-  } catch (_) {}
-
-  return null;
-};
-
-function createSession(email: string, res: express.Response): string {
-  const emailB64 = Buffer.from(email).toString('base64');
-  const sessionId = `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}_${emailB64}`;
-  sessions.set(sessionId, { email, expires: Date.now() + 30 * 24 * 60 * 60 * 1000 });
-
-  res.cookie('sessionId', sessionId, {
-    httpOnly: true,
-    secure: process.env.NODE_ENV === 'production' || process.env.VERCEL === '1',
-    sameSite: 'lax',
-    maxAge: 30 * 24 * 60 * 60 * 1000,
-    path: '/'
-  });
-
-  return sessionId;
-}
+// Sessions are HMAC-signed tokens backed by the `sessions` table (see backend/lib/sessions.ts)
+const verifySession = (req: express.Request) => sessions.verifySession(supabase, req);
+const createSession = (email: string, req: express.Request, res: express.Response) =>
+  sessions.createSession(supabase, email, req, res);
 
 // ================================================================
 // AUTH ROUTES
@@ -105,16 +78,7 @@ app.post('/api/auth/google', async (req, res) => {
     if (!existingUser) {
       const { error: insertError } = await supabase!
         .from('user_data')
-        .insert({
-          email,
-          password_hash: null,
-          business_profile: null,
-          clients: [],
-          appointments: [],
-          expenses: [],
-          ratings: [],
-          bonus_entries: []
-        });
+        .insert({ email, password_hash: null, business_profile: null });
       if (insertError) {
         console.error('Google auth - user record creation error:', insertError);
         // Don't fail login, just log the error — save endpoint will retry with upsert
@@ -123,7 +87,7 @@ app.post('/api/auth/google', async (req, res) => {
       }
     }
 
-    const sessionId = createSession(email, res);
+    const sessionId = await createSession(email, req, res);
     res.json({ email, sessionId });
   } catch (error) {
     console.error('Google auth error:', error);
@@ -146,10 +110,10 @@ app.post('/api/auth/signup', async (req, res) => {
     const passwordHash = await bcrypt.hash(password, 10);
     const { error: insertError } = await supabase!
       .from('user_data')
-      .insert({ email, password_hash: passwordHash, business_profile: null, clients: [], appointments: [], expenses: [], ratings: [], bonus_entries: [] });
+      .insert({ email, password_hash: passwordHash, business_profile: null });
     if (insertError) { console.error('Signup error:', insertError); return res.status(500).json({ error: 'Failed to create account' }); }
 
-    const sessionId = createSession(email, res);
+    const sessionId = await createSession(email, req, res);
     res.json({ email, sessionId });
   } catch (error) {
     console.error('Signup error:', error);
@@ -177,7 +141,7 @@ app.post('/api/auth/email', async (req, res) => {
       return res.status(401).json({ error: 'This account uses Google Sign-In. Please sign in with Google.' });
     }
 
-    const sessionId = createSession(email, res);
+    const sessionId = await createSession(email, req, res);
     res.json({ email, sessionId });
   } catch (error) {
     console.error('Email auth error:', error);
@@ -185,17 +149,69 @@ app.post('/api/auth/email', async (req, res) => {
   }
 });
 
+app.post('/api/auth/reset/request', async (req, res) => {
+  try {
+    if (!requireDB(res)) return;
+    const email = (req.body.email || '').toLowerCase().trim();
+    if (!email || !email.includes('@')) return res.status(400).json({ error: 'Valid email required' });
+
+    const result = await requestPasswordReset(supabase!, email);
+    if (result.ok === false) return res.status(result.status).json({ error: result.error });
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Reset request error:', error);
+    res.status(500).json({ error: 'Failed to send reset code' });
+  }
+});
+
+app.post('/api/auth/reset/confirm', async (req, res) => {
+  try {
+    if (!requireDB(res)) return;
+    const email = (req.body.email || '').toLowerCase().trim();
+    const code = String(req.body.code || '').trim();
+    const newPassword = req.body.newPassword;
+    if (!email || !email.includes('@')) return res.status(400).json({ error: 'Valid email required' });
+    if (!/^\d{6}$/.test(code)) return res.status(400).json({ error: 'Invalid or expired code' });
+    if (!newPassword || newPassword.length < 6) return res.status(400).json({ error: 'Password must be at least 6 characters' });
+
+    const result = await confirmPasswordReset(supabase!, email, code, newPassword);
+    if (result.ok === false) return res.status(result.status).json({ error: result.error });
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Reset confirm error:', error);
+    res.status(500).json({ error: 'Failed to reset password' });
+  }
+});
+
 app.get('/api/me', async (req, res) => {
-  const email = verifySession(req);
+  const email = await verifySession(req);
   if (!email) return res.status(401).json({ error: 'Not authenticated' });
   res.json({ email });
 });
 
-app.post('/api/logout', (req, res) => {
-  const sessionId = req.cookies?.sessionId;
-  if (sessionId) sessions.delete(sessionId);
-  res.clearCookie('sessionId', { path: '/' });
-  res.json({ success: true });
+app.post('/api/logout', async (req, res) => {
+  try {
+    await sessions.revokeSession(supabase, req, res);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Logout error:', error);
+    res.status(500).json({ error: 'Failed to logout' });
+  }
+});
+
+app.post('/api/logout-all', async (req, res) => {
+  try {
+    if (!requireDB(res)) return;
+    const email = await verifySession(req);
+    if (!email) return res.status(401).json({ error: 'Not authenticated' });
+
+    const revoked = await sessions.revokeAllSessions(supabase, email);
+    await sessions.revokeSession(supabase, req, res);
+    res.json({ success: true, revoked });
+  } catch (error) {
+    console.error('Logout all error:', error);
+    res.status(500).json({ error: 'Failed to sign out of all devices' });
+  }
 });
 
 // ================================================================
@@ -205,25 +221,23 @@ app.post('/api/logout', (req, res) => {
 app.post('/api/save', async (req, res) => {
   try {
     if (!requireDB(res)) return;
-    const email = verifySession(req);
+    const email = await verifySession(req);
     if (!email) return res.status(401).json({ error: 'Not authenticated' });
 
-    const { businessProfile, clients, appointments, expenses, ratings, bonusEntries } = req.body;
-    const { error } = await supabase!
-      .from('user_data')
-      .upsert({
-        email,
-        business_profile: businessProfile,
-        clients: clients || [],
-        appointments: appointments || [],
-        expenses: expenses || [],
-        ratings: ratings || [],
-        bonus_entries: bonusEntries || [],
-        updated_at: new Date().toISOString()
-      }, { onConflict: 'email' });
-
-    if (error) { console.error('Save error:', error); return res.status(500).json({ error: 'Failed to save data' }); }
-    res.json({ success: true });
+    const { revision, businessProfile } = req.body;
+    if (revision !== undefined && !Number.isInteger(revision)) return res.status(400).json({ error: 'revision must be an integer' });
+    if (['clients', 'appointments', 'expenses', 'ratings', 'bonusEntries'].some(key => req.body[key] !== undefined)) {
+      return res.status(400).json({ error: 'Clients, appointments, expenses, ratings and bonus entries are saved through their own endpoints' });
+    }
+    if (businessProfile === undefined) return res.status(400).json({ error: 'businessProfile is required' });
+
+    // Reject writes based on stale data; the client resolves against the current state
+    const claim = await saveBusinessProfile(supabase!, email, businessProfile, revision);
+    if (!claim.ok) {
+      return res.status(409).json({ error: 'Data was changed on another device', serverData: await loadBusinessData(supabase!, email) });
+    }
+
+    res.json({ success: true, revision: claim.revision });
   } catch (error) {
     console.error('Save error:', error);
     res.status(500).json({ error: 'Failed to save data' });
@@ -233,32 +247,60 @@ app.post('/api/save', async (req, res) => {
 app.get('/api/load', async (req, res) => {
   try {
     if (!requireDB(res)) return;
-    const email = verifySession(req);
+    const email = await verifySession(req);
     if (!email) return res.status(401).json({ error: 'Not authenticated' });
 
-    const { data, error } = await supabase!
-      .from('user_data').select('*').eq('email', email).single();
-
-    if (error && error.code !== 'PGRST116') { console.error('Load error:', error); return res.status(500).json({ error: 'Failed to load data' }); }
-
-    if (!data) {
-      return res.json({ businessProfile: null, clients: [], appointments: [], expenses: [], ratings: [], bonusEntries: [] });
-    }
-
-    res.json({
-      businessProfile: data.business_profile,
-      clients: data.clients || [],
-      appointments: data.appointments || [],
-      expenses: data.expenses || [],
-      ratings: data.ratings || [],
-      bonusEntries: data.bonus_entries || []
-    });
+    res.json(await loadBusinessData(supabase!, email));
   } catch (error) {
     console.error('Load error:', error);
     res.status(500).json({ error: 'Failed to load data' });
   }
 });
 
+// ================================================================
+// PER-ENTITY CRUD (/api/clients, /api/appointments, /api/expenses, ..., /api/waitlist)
+// ================================================================
+
+app.use('/api', createEntityRouter({ db: supabase, verifySession }));
+
+// ================================================================
+// PUBLIC BOOKING (/api/public/:slug, /api/public/:slug/bookings, /api/public/:slug/waitlist,
+//                 /api/waitlist-offers/:token, /api/booking-link)
+// ================================================================
+
+app.use('/api', createPublicBookingRouter({ db: supabase, verifySession }));
+
+// ================================================================
+// CALENDAR FEED (/api/calendar/:token.ics, /api/calendar-feed)
+// ================================================================
+
+app.use('/api', createCalendarFeedRouter({ db: supabase, verifySession }));
+
+// ================================================================
+// REMINDERS (/api/cron/reminders, /api/appointment-reminders/:id)
+// ================================================================
+
+app.use('/api', createReminderRouter({ db: supabase, verifySession }));
+
+// ================================================================
+// APPOINTMENT LINKS (/api/appointment-links/:token, .../confirm, .../cancel, .../slots, .../reschedule)
+// ================================================================
+
+app.use('/api', createAppointmentLinkRouter({ db: supabase }));
+
+// ================================================================
+// RATING LINKS (/api/rating-links, /api/public/ratings/:token)
+// Mounted after public booking so a business whose slug is "ratings" keeps its booking routes
+// ================================================================
+
+app.use('/api', createRatingLinkRouter({ db: supabase, verifySession }));
+
+// ================================================================
+// EMAIL (/api/email/send, /api/email/log)
+// ================================================================
+
+app.use('/api', createEmailRouter({ db: supabase, verifySession }));
+
 // ================================================================
 // DEVICE FINGERPRINT HELPERS
 // ================================================================
@@ -311,7 +353,7 @@ async function upsertDevice(email: string, fingerprint: string, userAgent: strin
 app.post('/api/savepoints', async (req, res) => {
   try {
     if (!requireDB(res)) return;
-    const email = verifySession(req);
+    const email = await verifySession(req);
     if (!email) return res.status(401).json({ error: 'Not authenticated' });
 
     const { label, snapshot, snapshotVersion } = req.body;
@@ -357,7 +399,7 @@ app.post('/api/savepoints', async (req, res) => {
 app.get('/api/savepoints', async (req, res) => {
   try {
     if (!requireDB(res)) return;
-    const email = verifySession(req);
+    const email = await verifySession(req);
     if (!email) return res.status(401).json({ error: 'Not authenticated' });
 
     const { data, error } = await supabase!
@@ -378,7 +420,7 @@ app.get('/api/savepoints', async (req, res) => {
 app.get('/api/savepoints/:id', async (req, res) => {
   try {
     if (!requireDB(res)) return;
-    const email = verifySession(req);
+    const email = await verifySession(req);
     if (!email) return res.status(401).json({ error: 'Not authenticated' });
 
     const { data, error } = await supabase!
@@ -394,7 +436,7 @@ app.get('/api/savepoints/:id', async (req, res) => {
 app.delete('/api/savepoints/:id', async (req, res) => {
   try {
     if (!requireDB(res)) return;
-    const email = verifySession(req);
+    const email = await verifySession(req);
     if (!email) return res.status(401).json({ error: 'Not authenticated' });
 
     const { error } = await supabase!
@@ -0,0 +1,92 @@
+/**
+ * Client self-service routes for the manage link in booking and reminder
+ * emails, mounted by both servers (no auth; the signed token is the key):
+ *   GET  /appointment-links/:token              the appointment and whether it can still change
+ *   POST /appointment-links/:token/confirm      confirm it
+ *   POST /appointment-links/:token/cancel       cancel it
+ *   GET  /appointment-links/:token/slots?date=  open times it could move to that day
+ *   POST /appointment-links/:token/reschedule   move it ({ date, time }); returns a new token
+ */
+import express from 'express';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  getAppointmentLink,
+  confirmAppointmentLink,
+  cancelAppointmentLink,
+  getRescheduleSlots,
+  rescheduleAppointmentLink
+} from './appointmentLinks.js';
+import { appUrl } from './env.js';
+
+type DB = SupabaseClient<any, any, any> | null;
+
+interface AppointmentLinkRouterOptions {
+  db: DB;
+}
+
+export function createAppointmentLinkRouter({ db }: AppointmentLinkRouterOptions): express.Router {
+  const router = express.Router();
+
+  router.get('/appointment-links/:token', async (req, res) => {
+    try {
+      if (!db) return res.status(503).json({ error: 'Database not configured' });
+      const result = await getAppointmentLink(db, req.params.token);
+      if (result.ok === false) return res.status(result.status).json({ error: result.error });
+      res.json(result.appointment);
+    } catch (error) {
+      console.error('Appointment link error:', error);
+      res.status(500).json({ error: 'Failed to load the appointment' });
+    }
+  });
+
+  router.post('/appointment-links/:token/confirm', async (req, res) => {
+    try {
+      if (!db) return res.status(503).json({ error: 'Database not configured' });
+      const result = await confirmAppointmentLink(db, req.params.token);
+      if (result.ok === false) return res.status(result.status).json({ error: result.error });
+      res.json({ status: result.status });
+    } catch (error) {
+      console.error('Confirm appointment error:', error);
+      res.status(500).json({ error: 'Failed to confirm the appointment' });
+    }
+  });
+
+  router.post('/appointment-links/:token/cancel', async (req, res) => {
+    try {
+      if (!db) return res.status(503).json({ error: 'Database not configured' });
+      const result = await cancelAppointmentLink(db, req.params.token, appUrl());
+      if (result.ok === false) return res.status(result.status).json({ error: result.error });
+      res.json({ status: result.status });
+    } catch (error) {
+      console.error('Cancel appointment error:', error);
+      res.status(500).json({ error: 'Failed to cancel the appointment' });
+    }
+  });
+
+  router.get('/appointment-links/:token/slots', async (req, res) => {
+    try {
+      if (!db) return res.status(503).json({ error: 'Database not configured' });
+      const result = await getRescheduleSlots(db, req.params.token, String(req.query.date || ''));
+      if (result.ok === false) return res.status(result.status).json({ error: result.error });
+      res.json(result.slots);
+    } catch (error) {
+      console.error('Reschedule slots error:', error);
+      res.status(500).json({ error: 'Failed to load open times' });
+    }
+  });
+
+  router.post('/appointment-links/:token/reschedule', async (req, res) => {
+    try {
+      if (!db) return res.status(503).json({ error: 'Database not configured' });
+      const result = await rescheduleAppointmentLink(db, req.params.token, req.body || {}, appUrl());
+      if (result.ok === false) return res.status(result.status).json({ error: result.error });
+      const { ok, ...moved } = result;
+      res.json(moved);
+    } catch (error) {
+      console.error('Reschedule appointment error:', error);
+      res.status(500).json({ error: 'Failed to reschedule the appointment' });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,343 @@
+/**
+ * Client self-service: the signed link in booking and reminder emails opens
+ * /appointment/<token>, where the client can confirm, cancel or move their
+ * appointment to another open time without signing in.
+ *
+ * Cancelling and rescheduling close a set number of hours before the start
+ * (BusinessProfile.cancellationWindowHours; unset = until it starts). Either
+ * change frees the old time for the waitlist and is emailed to the owner.
+ *
+ * Dates and times are in the business's time zone, like appointments.
+ */
+import crypto from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { deleteEntity, getEntity, insertEntity, listEntities, updateEntity } from './entities.js';
+import { occurrencesBetween, overrideLink, withExceptionDate } from './recurrence.js';
+import { checkSlot, durationsOf, findConflicts, getAvailableSlots } from './availability.js';
+import { addDays, fromWallTime, resolveTimeZone, toWallTime } from './timeZone.js';
+import { escapeHtml } from './mailer.js';
+import { sendLoggedMail } from './emailLog.js';
+import { signLink, readLink, LinkPayload } from './signedLinks.js';
+import { offerCancelledTime } from './waitlist.js';
+
+type DB = SupabaseClient<any, any, any>;
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_RE = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const HOUR_MS = 60 * 60 * 1000;
+const MAX_WINDOW_HOURS = 14 * 24;
+const RESCHEDULE_DAYS = 60; // how far ahead a client can move to, like the booking page
+
+/** The statuses a client can still change. */
+const CHANGEABLE = ['CONFIRMED', 'PENDING'];
+
+type Failure = { ok: false; status: number; error: string };
+
+export type AppointmentLinkResult =
+  | {
+      ok: true;
+      appointment: {
+        businessName: string;
+        contactEmail?: string;
+        serviceName: string;
+        staffName?: string;
+        clientName: string;
+        date: string;
+        time: string;
+        durationMin: number;
+        timeZone: string;
+        status: string;
+        canChange: boolean; // cancel or reschedule are still open
+        changeDeadline?: string; // ISO timestamp they close at, when the business has a cancellation window
+      };
+    }
+  | Failure;
+
+export type AppointmentActionResult = { ok: true; status: string } | Failure;
+
+export type RescheduleSlotsResult = { ok: true; slots: string[] } | Failure;
+
+export type RescheduleResult = { ok: true; status: string; date: string; time: string; token: string } | Failure;
+
+/** Hours before an appointment that clients can no longer cancel or move it; 0 when there's no window. */
+export const cancellationWindowOf = (profile: any): number => {
+  const hours = profile?.cancellationWindowHours;
+  return Number.isInteger(hours) && hours > 0 ? Math.min(hours, MAX_WINDOW_HOURS) : 0;
+};
+
+interface Linked {
+  link: LinkPayload;
+  entry: any; // the appointment, or its occurrence on link.date
+  parent?: any; // set when `entry` is an occurrence of this series, not yet an appointment of its own
+  profile: any;
+  timeZone: string;
+}
+
+/**
+ * The appointment a link is for. For a recurring appointment that's the
+ * linked occurrence, or the one-off that has since replaced it.
+ */
+async function findLinked(db: DB, token: string): Promise<Linked | Failure> {
+  const link = readLink(token, 'appointment');
+  if (!link) return { ok: false, status: 404, error: 'This link has expired or is not valid' };
+
+  const [appointment, { data: user }] = await Promise.all([
+    getEntity(db, 'appointments', link.email, link.id),
+    db.from('user_data').select('business_profile').eq('email', link.email).maybeSingle()
+  ]);
+  const gone: Failure = { ok: false, status: 404, error: 'This appointment is no longer scheduled' };
+  if (!appointment) return gone;
+  const profile = user?.business_profile || {};
+  const found = { link, profile, timeZone: resolveTimeZone(profile.timeZone) };
+  if (!appointment.recurrence) return { ...found, entry: appointment };
+
+  const appointments = await listEntities(db, 'appointments', link.email);
+  const override = appointments.find(a => a.recurrenceParentId === appointment.id && (a.occurrenceDate || a.date) === link.date);
+  if (override) return { ...found, entry: override };
+  const occurs = occurrencesBetween([appointment], link.date, link.date).length > 0;
+  return occurs ? { ...found, entry: { ...appointment, date: link.date }, parent: appointment } : gone;
+}
+
+const startOf = (found: Linked) => fromWallTime(found.entry.date, found.entry.time, found.timeZone);
+
+// Cancelling or moving must happen before the window closes; null when it still can
+function changeRefusal(found: Linked, now = Date.now()): Failure | null {
+  const { entry, profile } = found;
+  if (!CHANGEABLE.includes(entry.status)) return { ok: false, status: 409, error: 'This appointment can no longer be changed' };
+  const startsAt = startOf(found);
+  if (startsAt <= now) return { ok: false, status: 409, error: 'This appointment has already started' };
+  const hours = cancellationWindowOf(profile);
+  if (startsAt - hours * HOUR_MS <= now) {
+    return { ok: false, status: 409, error: `Changes close ${hours} hours before the appointment. Please contact ${profile.name || 'the business'} directly.` };
+  }
+  return null;
+}
+
+/** What a manage link is for, for the page it opens. */
+export async function getAppointmentLink(db: DB, token: string): Promise<AppointmentLinkResult> {
+  const found = await findLinked(db, token);
+  if ('ok' in found) return found;
+  const { link, entry, profile, timeZone } = found;
+
+  const [services, staff] = await Promise.all([
+    listEntities(db, 'services', link.email),
+    listEntities(db, 'staff', link.email)
+  ]);
+  const service = services.find(s => s.id === entry.serviceId);
+  const hours = cancellationWindowOf(profile);
+  return {
+    ok: true,
+    appointment: {
+      businessName: profile.name || '',
+      contactEmail: profile.email || link.email,
+      serviceName: service?.name || 'Appointment',
+      staffName: staff.find(s => s.id === entry.staffId)?.name,
+      clientName: entry.clientName || '',
+      date: entry.date,
+      time: entry.time,
+      durationMin: entry.durationMin || service?.durationMin || 60,
+      timeZone,
+      status: entry.status,
+      canChange: changeRefusal(found) === null,
+      changeDeadline: hours ? new Date(startOf(found) - hours * HOUR_MS).toISOString() : undefined
+    }
+  };
+}
+
+/** Confirm the linked appointment; a PENDING one becomes CONFIRMED. */
+export async function confirmAppointmentLink(db: DB, token: string): Promise<AppointmentActionResult> {
+  const found = await findLinked(db, token);
+  if ('ok' in found) return found;
+  const { link, entry, parent } = found;
+
+  if (entry.status === 'CANCELLED') return { ok: false, status: 409, error: 'This appointment was cancelled' };
+  if (entry.status !== 'PENDING') return { ok: true, status: entry.status };
+  // A pending series is confirmed as a whole
+  await updateEntity(db, 'appointments', link.email, { ...(parent || entry), status: 'CONFIRMED' });
+  return { ok: true, status: 'CONFIRMED' };
+}
+
+/**
+ * Cancel the linked appointment (just this occurrence of a recurring one),
+ * offer its time to the waitlist and let the owner know.
+ */
+export async function cancelAppointmentLink(db: DB, token: string, appUrl: string | null): Promise<AppointmentActionResult> {
+  const found = await findLinked(db, token);
+  if ('ok' in found) return found;
+  const { link, entry, parent } = found;
+
+  if (entry.status === 'CANCELLED') return { ok: true, status: 'CANCELLED' };
+  const refusal = changeRefusal(found);
+  if (refusal) return refusal;
+
+  const cancelled = parent
+    ? await insertEntity(db, 'appointments', link.email, {
+        ...parent,
+        ...overrideLink(parent, link.date),
+        id: crypto.randomUUID(),
+        date: link.date,
+        status: 'CANCELLED'
+      })
+    : await updateEntity(db, 'appointments', link.email, { ...entry, status: 'CANCELLED' });
+  if (!cancelled) return { ok: false, status: 409, error: 'This appointment was just changed. Please reload and try again.' };
+
+  await afterChange(db, found, appUrl, `${entry.clientName || 'A client'} cancelled`, `their appointment on ${describe(entry)}`);
+  return { ok: true, status: 'CANCELLED' };
+}
+
+// ================================================================
+// RESCHEDULING
+// ================================================================
+
+/**
+ * Everything else on the calendar: the linked appointment (or its
+ * occurrence) is left out so it doesn't block its own new time.
+ */
+function othersThan(found: Linked, appointments: any[]): any[] {
+  const { entry, parent, link } = found;
+  if (!parent) return appointments.filter(a => a.id !== entry.id);
+  return appointments.map(a => a.id === parent.id ? { ...a, recurrence: withExceptionDate(a.recurrence, link.date) } : a);
+}
+
+async function loadCalendar(db: DB, found: Linked) {
+  const email = found.link.email;
+  const [appointments, services, staff] = await Promise.all([
+    listEntities(db, 'appointments', email),
+    listEntities(db, 'services', email),
+    listEntities(db, 'staff', email)
+  ]);
+  const hours = found.profile.workingHours;
+  return {
+    entries: othersThan(found, appointments),
+    serviceDurations: durationsOf(services),
+    durationMin: found.entry.durationMin || services.find(s => s.id === found.entry.serviceId)?.durationMin || 60,
+    workingHours: hours?.start && hours?.end ? hours : { start: '00:00', end: '24:00' },
+    bufferMin: found.profile.bufferMin || 0,
+    staff,
+    // Clients stay with the staff member they booked; unassigned appointments go to whoever is free
+    staffId: found.entry.staffId || undefined,
+    serviceId: found.entry.serviceId
+  };
+}
+
+// The earliest a client may move to: after the window, so the new time can still be changed
+const earliestStart = (found: Linked, now = Date.now()) => now + cancellationWindowOf(found.profile) * HOUR_MS;
+
+function checkDate(found: Linked, date: string): Failure | null {
+  const today = toWallTime(Date.now(), found.timeZone).date;
+  if (!date || !DATE_RE.test(date) || isNaN(Date.parse(date))) return { ok: false, status: 400, error: 'Please choose a valid date' };
+  if (date < today || date > addDays(today, RESCHEDULE_DAYS)) return { ok: false, status: 400, error: 'Please choose a date within the next two months' };
+  return null;
+}
+
+/** Open times on `date` the linked appointment could move to. */
+export async function getRescheduleSlots(db: DB, token: string, date: string): Promise<RescheduleSlotsResult> {
+  const found = await findLinked(db, token);
+  if ('ok' in found) return found;
+  const refusal = changeRefusal(found) || checkDate(found, date);
+  if (refusal) return refusal;
+
+  const calendar = await loadCalendar(db, found);
+  const earliest = earliestStart(found);
+  const slots = getAvailableSlots({ ...calendar, date })
+    .map(slot => slot.time)
+    .filter(time => fromWallTime(date, time, found.timeZone) > earliest)
+    .filter(time => date !== found.entry.date || time !== found.entry.time);
+  return { ok: true, slots };
+}
+
+/**
+ * Move the linked appointment to `date` at `time` (just this occurrence of
+ * a recurring one). The new time goes through the same checks as a public
+ * booking; the old one is offered to the waitlist. Returns a fresh token,
+ * since the old link expires at the old start time.
+ */
+export async function rescheduleAppointmentLink(
+  db: DB,
+  token: string,
+  input: { date?: string; time?: string },
+  appUrl: string | null
+): Promise<RescheduleResult> {
+  const found = await findLinked(db, token);
+  if ('ok' in found) return found;
+  const { link, entry, parent, timeZone } = found;
+  const date = String(input.date || '');
+  const time = String(input.time || '');
+
+  const refusal = changeRefusal(found) || checkDate(found, date);
+  if (refusal) return refusal;
+  if (!TIME_RE.test(time)) return { ok: false, status: 400, error: 'Please choose a valid time' };
+  if (date === entry.date && time === entry.time) return { ok: false, status: 400, error: 'That is already your appointment time' };
+  if (fromWallTime(date, time, timeZone) <= earliestStart(found)) {
+    return { ok: false, status: 400, error: 'That time is too soon to move to' };
+  }
+
+  const calendar = await loadCalendar(db, found);
+  // Who takes the appointment at its new time with `entries` on the calendar, or null when they leave no room for it
+  const assignStaff = (entries: any[], staffId = entry.staffId): string | undefined | null => {
+    const freeStaff = checkSlot({ ...calendar, entries, date, time, staffId: staffId || undefined });
+    if (freeStaff === null) return null;
+    const assigned = staffId || freeStaff[0];
+    const moved = { ...entry, date, time, staffId: assigned };
+    // The same check public bookings get; clients are never moved onto a conflict
+    const conflicts = findConflicts(parent ? { ...moved, id: '', recurrence: undefined } : moved, entries, calendar.serviceDurations);
+    return conflicts.some(c => c.reason !== 'OVERLAP' || !assigned) ? null : assigned;
+  };
+  const taken: Failure = { ok: false, status: 409, error: 'That time is no longer available' };
+
+  const staffId = assignStaff(calendar.entries);
+  if (staffId === null) return taken;
+  const moved = { ...entry, date, time, staffId };
+
+  const saved = parent
+    ? await insertEntity(db, 'appointments', link.email, { ...moved, ...overrideLink(parent, link.date), id: crypto.randomUUID() })
+    : await updateEntity(db, 'appointments', link.email, moved);
+  if (!saved) return { ok: false, status: 409, error: 'This appointment was just changed. Please reload and try again.' };
+
+  // Another booking or move can take the time between the check and the
+  // save, so check again with the move saved and undo it if anything now
+  // conflicts. Two moves landing at once are both undone, never both kept.
+  const after = othersThan(found, await listEntities(db, 'appointments', link.email)).filter(a => a.id !== saved.id);
+  if (assignStaff(after, staffId) === null) {
+    if (parent) await deleteEntity(db, 'appointments', link.email, saved.id);
+    else await updateEntity(db, 'appointments', link.email, entry);
+    return taken;
+  }
+
+  await afterChange(db, found, appUrl, `${entry.clientName || 'A client'} rescheduled`, `their appointment from ${describe(entry)} to ${describe(moved)}`);
+  return {
+    ok: true,
+    status: saved.status,
+    date,
+    time,
+    // Parent occurrences keep resolving through link.date to the new override
+    token: signLink({ ...link, exp: fromWallTime(date, time, timeZone) })
+  };
+}
+
+// ================================================================
+// OWNER NOTICES
+// ================================================================
+
+const describe = (entry: any) => `${entry.date} at ${entry.time}`;
+
+// Offer the freed time to the waitlist and email the owner; neither should undo the client's change
+async function afterChange(db: DB, found: Linked, appUrl: string | null, what: string, detail: string) {
+  const { link, entry, profile } = found;
+  try {
+    await offerCancelledTime(db, link.email, entry, appUrl);
+  } catch (error) {
+    console.error('Waitlist offer error:', error);
+  }
+
+  const services = await listEntities(db, 'services', link.email);
+  const serviceName = services.find(s => s.id === entry.serviceId)?.name || 'appointment';
+  const mail = await sendLoggedMail(db, link.email, 'OWNER_NOTICE', {
+    to: profile.email || link.email,
+    subject: `${what}: ${serviceName}, ${describe(entry)}`,
+    text: `${what} ${detail} (${serviceName}).\nTimes are in ${found.timeZone}.${appUrl ? `\nOpen your calendar: ${appUrl}` : ''}`,
+    html: `<p>${escapeHtml(what)} ${escapeHtml(detail)} (<strong>${escapeHtml(serviceName)}</strong>).</p><p>Times are in ${escapeHtml(found.timeZone)}.</p>${appUrl ? `<p><a href="${escapeHtml(appUrl)}">Open your calendar</a></p>` : ''}`
+  });
+  if (!mail.ok) console.error('Owner notice error:', mail.error);
+}
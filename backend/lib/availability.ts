@@ -0,0 +1,226 @@
+/**
+ * Availability engine: which start times are open for a service on a date.
+ * Takes working hours, existing (and recurring) appointments, BLOCKED entries,
+ * a buffer between appointments and staff assignment into account, including
+ * each staff member's weekly hours, time off and the services they perform.
+ *
+ * Pure (no Node or browser APIs) so the booking page, CalendarView, the AI
+ * assistant and the public booking API all share the same rules.
+ */
+import { occurrencesBetween, RecurringEntry } from './recurrence.js';
+import { addDays } from './timeZone.js';
+
+/** Anything that occupies time on the calendar (structurally an Appointment). */
+export interface ScheduleEntry extends RecurringEntry {
+  durationMin?: number; // defaults to the service's duration
+  status?: string;
+  staffId?: string;
+  eventType?: string;
+}
+
+/** A day's working hours; null when the staff member doesn't work that day. */
+export type DayHours = { start: string; end: string } | null;
+
+/** When a staff member can take bookings (structurally a Staff). */
+export interface StaffAvailability {
+  id: string;
+  schedule?: DayHours[]; // Sunday first; unset = the business's hours every day
+  timeOff?: { startDate: string; endDate: string }[]; // whole days, inclusive
+  serviceIds?: string[]; // services they perform; unset or empty = all
+}
+
+export interface AvailabilityRequest {
+  date: string;
+  durationMin: number;
+  workingHours: { start: string; end: string };
+  entries: ScheduleEntry[];
+  serviceDurations?: Record<string, number>; // serviceId -> minutes, for entries without durationMin
+  staff?: StaffAvailability[]; // staff who can take bookings; empty = the business is a single calendar
+  staffId?: string; // only offer times when this staff member is free
+  serviceId?: string; // only staff who perform this service can take it
+  bufferMin?: number; // minutes kept free before and after each appointment
+  stepMin?: number; // spacing between offered start times (default 30)
+  notBefore?: string; // HH:mm; hide earlier start times (e.g. today, already past)
+  ignoreId?: string; // the entry being edited, so it doesn't conflict with itself
+}
+
+export interface Slot {
+  time: string; // HH:mm
+  staffIds: string[]; // staff free at this time (empty when there are no staff lanes)
+}
+
+const DEFAULT_STEP_MIN = 30;
+const DEFAULT_DURATION_MIN = 60;
+const EVENT_DURATION_MIN = 30; // meetings/tasks without a real service
+
+export const toMinutes = (time: string): number => {
+  const [h, m] = time.split(':').map(Number);
+  return h * 60 + (m || 0);
+};
+
+export const fromMinutes = (minutes: number): string =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+/** How long `entry` takes, in minutes. */
+export function durationOf(entry: ScheduleEntry, serviceDurations: Record<string, number> = {}): number {
+  if (entry.durationMin) return entry.durationMin;
+  if (entry.serviceId && serviceDurations[entry.serviceId]) return serviceDurations[entry.serviceId];
+  return entry.eventType && entry.eventType !== 'APPOINTMENT' ? EVENT_DURATION_MIN : DEFAULT_DURATION_MIN;
+}
+
+export interface BusyInterval {
+  date: string;
+  start: number; // minutes from midnight
+  end: number;
+  staffId?: string;
+  blocksAll: boolean; // BLOCKED entries without a staff member close the whole business
+  entry: ScheduleEntry;
+}
+
+/** Busy intervals for every day from `from` to `to` inclusive (recurring entries expanded, cancellations skipped). */
+export function busyIntervalsBetween(from: string, to: string, entries: ScheduleEntry[], serviceDurations: Record<string, number> = {}): BusyInterval[] {
+  return occurrencesBetween(entries, from, to)
+    .filter(({ entry }) => entry.status !== 'CANCELLED')
+    .map(({ entry, date }) => {
+      const start = toMinutes(entry.time);
+      return {
+        date,
+        start,
+        end: start + durationOf(entry, serviceDurations),
+        staffId: entry.staffId || undefined,
+        blocksAll: entry.status === 'BLOCKED' && !entry.staffId,
+        entry
+      };
+    });
+}
+
+/** Everything that occupies time on `date`. */
+export const busyIntervalsOn = (date: string, entries: ScheduleEntry[], serviceDurations: Record<string, number> = {}) =>
+  busyIntervalsBetween(date, date, entries, serviceDurations);
+
+const weekday = (date: string) => new Date(`${date}T00:00:00Z`).getUTCDay();
+
+/** The staff member's hours on `date`: null when they're off, undefined when they follow the business's hours. */
+export function staffHoursOn(member: StaffAvailability, date: string): DayHours | undefined {
+  if (member.timeOff?.some(off => off.startDate <= date && date <= off.endDate)) return null;
+  return member.schedule ? member.schedule[weekday(date)] ?? null : undefined;
+}
+
+/** Whether `member` works all of [start, end) on `date`. */
+export function isWorking(member: StaffAvailability, date: string, start: number, end: number): boolean {
+  const hours = staffHoursOn(member, date);
+  if (hours === null) return false;
+  return !hours || (toMinutes(hours.start) <= start && end <= toMinutes(hours.end));
+}
+
+/** Whether `member` performs the service `serviceId`. */
+export const performs = (member: StaffAvailability, serviceId?: string): boolean =>
+  !serviceId || !member.serviceIds?.length || member.serviceIds.includes(serviceId);
+
+/** Staff free for [start, end) on `date` — or, without staff lanes, [] if free and null if taken. */
+function freeStaff(date: string, start: number, end: number, busy: BusyInterval[], request: AvailabilityRequest): string[] | null {
+  const buffer = request.bufferMin || 0;
+  const overlapping = busy.filter(b => start < b.end + buffer && b.start - buffer < end);
+  if (overlapping.some(b => b.blocksAll)) return null;
+
+  const roster = [...(request.staff || [])];
+  // A staff member who isn't on the roster can still be booked; they have no hours to check
+  if (request.staffId && !roster.some(s => s.id === request.staffId)) roster.push({ id: request.staffId });
+  if (roster.length === 0) return overlapping.length === 0 ? [] : null;
+
+  const available = roster.filter(s => isWorking(s, date, start, end) && !overlapping.some(b => b.staffId === s.id));
+  const free = available
+    .filter(s => performs(s, request.serviceId) && (!request.staffId || s.id === request.staffId))
+    .map(s => s.id);
+  // Unassigned appointments still need someone; each one takes an available staff member
+  const unassigned = overlapping.filter(b => !b.staffId).length;
+  return free.length > 0 && available.length - unassigned > 0 ? free : null;
+}
+
+/** Open start times for a booking of `durationMin` on `date`. */
+export function getAvailableSlots(request: AvailabilityRequest): Slot[] {
+  const { date, durationMin, workingHours } = request;
+  const step = request.stepMin || DEFAULT_STEP_MIN;
+  const busy = busyIntervalsOn(
+    date,
+    request.entries.filter(e => !request.ignoreId || e.id !== request.ignoreId),
+    request.serviceDurations
+  );
+
+  const open = toMinutes(workingHours.start);
+  const close = toMinutes(workingHours.end);
+  const earliest = request.notBefore ? Math.max(open, toMinutes(request.notBefore)) : open;
+
+  const slots: Slot[] = [];
+  for (let start = open; start + durationMin <= close; start += step) {
+    if (start < earliest) continue;
+    const staffIds = freeStaff(date, start, start + durationMin, busy, request);
+    if (staffIds) slots.push({ time: fromMinutes(start), staffIds });
+  }
+  return slots;
+}
+
+/**
+ * Whether a specific start time is open. Unlike getAvailableSlots this
+ * doesn't require the time to be on the step grid.
+ * Returns the free staff (possibly empty) or null when the time is taken.
+ */
+export function checkSlot(request: AvailabilityRequest & { time: string }): string[] | null {
+  const start = toMinutes(request.time);
+  const end = start + request.durationMin;
+  if (start < toMinutes(request.workingHours.start) || end > toMinutes(request.workingHours.end)) return null;
+  const busy = busyIntervalsOn(
+    request.date,
+    request.entries.filter(e => !request.ignoreId || e.id !== request.ignoreId),
+    request.serviceDurations
+  );
+  return freeStaff(request.date, start, end, busy, request);
+}
+
+export type ConflictReason =
+  | 'BLOCKED' // blocked time, for everyone or for the staff member
+  | 'STAFF' // the same staff member is already booked
+  | 'OVERLAP'; // overlaps an entry without a staff member (or the business has no staff lanes)
+
+export interface Conflict extends BusyInterval {
+  reason: ConflictReason;
+}
+
+function conflictReason(entry: ScheduleEntry, other: BusyInterval): ConflictReason | null {
+  if (entry.status === 'BLOCKED') return !entry.staffId || other.staffId === entry.staffId ? 'BLOCKED' : null;
+  if (other.entry.status === 'BLOCKED') return other.blocksAll || (!!entry.staffId && other.staffId === entry.staffId) ? 'BLOCKED' : null;
+  if (entry.staffId && other.staffId) return entry.staffId === other.staffId ? 'STAFF' : null;
+  return 'OVERLAP';
+}
+
+/**
+ * What `entry` would clash with: blocked time, the same staff member's other
+ * bookings, and anything at the same time when either side has no staff
+ * member. Durations follow durationOf; a recurring entry is checked on each
+ * of its occurrences within `horizonDays`.
+ */
+export function findConflicts(
+  entry: ScheduleEntry,
+  entries: ScheduleEntry[],
+  serviceDurations: Record<string, number> = {},
+  horizonDays = 365
+): Conflict[] {
+  if (entry.status === 'CANCELLED') return [];
+  const to = entry.recurrence ? addDays(entry.date, horizonDays) : entry.date;
+  const busy = busyIntervalsBetween(entry.date, to, [...entries.filter(e => e.id !== entry.id), entry], serviceDurations);
+
+  const own = busy.filter(b => b.entry.id === entry.id);
+  const conflicts: Conflict[] = [];
+  for (const b of busy) {
+    // Its own overrides replace occurrences, they don't clash with them
+    if (b.entry.id === entry.id || b.entry.recurrenceParentId === entry.id) continue;
+    if (!own.some(o => o.date === b.date && o.start < b.end && b.start < o.end)) continue;
+    const reason = conflictReason(entry, b);
+    if (reason) conflicts.push({ ...b, reason });
+  }
+  return conflicts;
+}
+
+/** serviceId -> duration map for a list of services. */
+export const durationsOf = (services: { id: string; durationMin: number }[]): Record<string, number> =>
+  Object.fromEntries(services.map(s => [s.id, s.durationMin]));
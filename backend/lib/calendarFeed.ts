@@ -0,0 +1,52 @@
+/**
+ * Subscribable calendar feed: each business can get a secret token whose URL
+ * (/calendar/<token>.ics) serves its appointments as iCalendar, so calendar
+ * apps can subscribe without signing in. Anyone with the URL can read the
+ * calendar, so the token can be reset to revoke it.
+ */
+import crypto from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { listEntities } from './entities.js';
+import { buildCalendar } from './ical.js';
+
+type DB = SupabaseClient<any, any, any>;
+
+const TOKEN_RE = /^[A-Za-z0-9_-]{32}$/;
+
+const newToken = () => crypto.randomBytes(24).toString('base64url');
+
+async function saveToken(db: DB, businessEmail: string, token: string): Promise<string> {
+  const { error } = await db.from('user_data').update({ calendar_token: token }).eq('email', businessEmail);
+  if (error) throw new Error(`Failed to save calendar token: ${error.message}`);
+  return token;
+}
+
+/** The business's feed token, created the first time it's asked for. */
+export async function ensureCalendarToken(db: DB, businessEmail: string): Promise<string> {
+  const { data, error } = await db.from('user_data').select('calendar_token').eq('email', businessEmail).single();
+  if (error) throw new Error(`Failed to load account: ${error.message}`);
+  if (data.calendar_token) return data.calendar_token;
+  return saveToken(db, businessEmail, newToken());
+}
+
+/** Replace the feed token; the old URL stops working. */
+export const resetCalendarToken = (db: DB, businessEmail: string) => saveToken(db, businessEmail, newToken());
+
+/** The .ics document for `token`, or null if no business uses it. */
+export async function getCalendarFeed(db: DB, token: string): Promise<string | null> {
+  if (!TOKEN_RE.test(token)) return null;
+  const { data } = await db
+    .from('user_data').select('email, business_profile').eq('calendar_token', token).maybeSingle();
+  if (!data) return null;
+
+  const [appointments, services] = await Promise.all([
+    listEntities(db, 'appointments', data.email),
+    listEntities(db, 'services', data.email)
+  ]);
+  return buildCalendar({
+    name: data.business_profile?.name || 'Halo',
+    entries: appointments,
+    services,
+    timeZone: data.business_profile?.timeZone
+  });
+}
@@ -0,0 +1,63 @@
+/**
+ * Calendar feed routes, mounted by both servers:
+ *   GET  /calendar/:token.ics    the business's appointments as iCalendar (no auth)
+ *   GET  /calendar-feed          the signed-in owner's feed token
+ *   POST /calendar-feed/reset    replace the token, revoking the old URL
+ */
+import express from 'express';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { ensureCalendarToken, resetCalendarToken, getCalendarFeed } from './calendarFeed.js';
+
+type DB = SupabaseClient<any, any, any> | null;
+
+interface CalendarFeedRouterOptions {
+  db: DB;
+  verifySession: (req: express.Request) => Promise<string | null>;
+}
+
+export function createCalendarFeedRouter({ db, verifySession }: CalendarFeedRouterOptions): express.Router {
+  const router = express.Router();
+
+  router.get('/calendar/:token.ics', async (req, res) => {
+    try {
+      if (!db) return res.status(503).json({ error: 'Database not configured' });
+      const calendar = await getCalendarFeed(db, req.params.token);
+      if (!calendar) return res.status(404).json({ error: 'Calendar not found' });
+      res.set({
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="halo.ics"',
+        'Cache-Control': 'private, max-age=300'
+      });
+      res.send(calendar);
+    } catch (error) {
+      console.error('Calendar feed error:', error);
+      res.status(500).json({ error: 'Failed to load calendar' });
+    }
+  });
+
+  router.get('/calendar-feed', async (req, res) => {
+    try {
+      if (!db) return res.status(503).json({ error: 'Database not configured' });
+      const email = await verifySession(req);
+      if (!email) return res.status(401).json({ error: 'Not authenticated' });
+      res.json({ token: await ensureCalendarToken(db, email) });
+    } catch (error) {
+      console.error('Calendar feed token error:', error);
+      res.status(500).json({ error: 'Failed to get calendar feed' });
+    }
+  });
+
+  router.post('/calendar-feed/reset', async (req, res) => {
+    try {
+      if (!db) return res.status(503).json({ error: 'Database not configured' });
+      const email = await verifySession(req);
+      if (!email) return res.status(401).json({ error: 'Not authenticated' });
+      res.json({ token: await resetCalendarToken(db, email) });
+    } catch (error) {
+      console.error('Calendar feed reset error:', error);
+      res.status(500).json({ error: 'Failed to reset calendar feed' });
+    }
+  });
+
+  return router;
+}
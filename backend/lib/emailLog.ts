@@ -0,0 +1,89 @@
+/**
+ * Email log: every email sent on a business's behalf, with whether it went
+ * out. Each attempt is written to `email_log` after the transport answers, so
+ * the owner can see what their clients were sent and what failed.
+ * Only the recipient, subject and outcome are kept, not the body.
+ */
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { sendMail, MailMessage, MailResult } from './mailer.js';
+
+type DB = SupabaseClient<any, any, any>;
+
+// What an email was for; the app's own sends (POST /email/send) pick from the first four
+export const EMAIL_KINDS = [
+  'MESSAGE', 'RATING_REQUEST', 'FOLLOW_UP', 'EARNINGS_REPORT',
+  'BOOKING', 'REMINDER', 'WAITLIST_OFFER', 'OWNER_NOTICE', 'PASSWORD_RESET'
+] as const;
+
+export type EmailKind = typeof EMAIL_KINDS[number];
+
+const MAX_PAGE = 100;
+
+export interface EmailLogEntry {
+  id: number;
+  to: string;
+  subject: string;
+  kind: EmailKind;
+  status: 'SENT' | 'FAILED';
+  transport?: string;
+  providerId?: string; // the transport's message id
+  error?: string;
+  sentAt: string; // ISO timestamp
+}
+
+/** Send `message` for `businessEmail` and record the attempt. Never throws, like sendMail. */
+export async function sendLoggedMail(db: DB, businessEmail: string, kind: EmailKind, message: MailMessage): Promise<MailResult> {
+  const result = await sendMail(message);
+  const { error } = await db.from('email_log').insert({
+    business_email: businessEmail,
+    to_address: message.to,
+    subject: message.subject.slice(0, 500),
+    kind,
+    status: result.ok ? 'SENT' : 'FAILED',
+    transport: result.transport,
+    provider_id: result.id,
+    error: result.error?.slice(0, 500)
+  });
+  // The email went (or didn't) either way; a missing log row shouldn't change that
+  if (error) console.error('Email log insert error:', error);
+  return result;
+}
+
+/** How many emails the business sent (or tried to) since `since`. */
+export async function countSentSince(db: DB, businessEmail: string, kinds: readonly EmailKind[], since: Date): Promise<number> {
+  const { count, error } = await db
+    .from('email_log').select('id', { count: 'exact', head: true })
+    .eq('business_email', businessEmail).in('kind', kinds as EmailKind[]).gte('sent_at', since.toISOString());
+  if (error) throw new Error(`Failed to count email_log: ${error.message}`);
+  return count || 0;
+}
+
+/** The business's email log, newest first; `before` (an entry id) pages back. */
+export async function listEmailLog(
+  db: DB,
+  businessEmail: string,
+  options: { limit?: number; before?: number; status?: string; kind?: string } = {}
+): Promise<EmailLogEntry[]> {
+  let query = db
+    .from('email_log').select('*')
+    .eq('business_email', businessEmail)
+    .order('id', { ascending: false })
+    .limit(Math.min(Math.max(1, options.limit || 50), MAX_PAGE));
+  if (options.before) query = query.lt('id', options.before);
+  if (options.status) query = query.eq('status', options.status);
+  if (options.kind) query = query.eq('kind', options.kind);
+
+  const { data, error } = await query;
+  if (error) throw new Error(`Failed to load email_log: ${error.message}`);
+  return (data || []).map((row: any) => ({
+    id: row.id,
+    to: row.to_address,
+    subject: row.subject,
+    kind: row.kind,
+    status: row.status,
+    transport: row.transport || undefined,
+    providerId: row.provider_id || undefined,
+    error: row.error || undefined,
+    sentAt: row.sent_at
+  }));
+}
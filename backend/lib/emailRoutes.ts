@@ -0,0 +1,81 @@
+/**
+ * Email routes, mounted by both servers:
+ *   POST /email/send   send an email from the signed-in owner's app ({ to, subject, html, text?, kind? })
+ *   GET  /email/log    the owner's sent emails, newest first (?limit=&before=&status=&kind=)
+ */
+import express from 'express';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { sendLoggedMail, countSentSince, listEmailLog, EmailKind } from './emailLog.js';
+
+type DB = SupabaseClient<any, any, any> | null;
+
+interface EmailRouterOptions {
+  db: DB;
+  verifySession: (req: express.Request) => Promise<string | null>;
+}
+
+// Kinds the app may send as; the rest are sent by the server itself
+const APP_KINDS: readonly EmailKind[] = ['MESSAGE', 'RATING_REQUEST', 'FOLLOW_UP', 'EARNINGS_REPORT'];
+
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const MAX_SUBJECT_LENGTH = 200;
+const MAX_BODY_LENGTH = 200_000;
+const MAX_SENDS_PER_DAY = 200; // keeps a leaked session from turning the account into a spam relay
+
+export function createEmailRouter({ db, verifySession }: EmailRouterOptions): express.Router {
+  const router = express.Router();
+
+  router.post('/email/send', async (req, res) => {
+    try {
+      if (!db) return res.status(503).json({ error: 'Database not configured' });
+      const email = await verifySession(req);
+      if (!email) return res.status(401).json({ error: 'Not authenticated' });
+
+      const { to, subject, html, text, kind = 'MESSAGE' } = req.body || {};
+      if (typeof to !== 'string' || !EMAIL_RE.test(to.trim())) return res.status(400).json({ error: 'A valid recipient address is required' });
+      if (typeof subject !== 'string' || !subject.trim() || subject.length > MAX_SUBJECT_LENGTH) {
+        return res.status(400).json({ error: `subject is required (at most ${MAX_SUBJECT_LENGTH} characters)` });
+      }
+      if (typeof html !== 'string' || !html.trim() || html.length > MAX_BODY_LENGTH) return res.status(400).json({ error: 'html is required' });
+      if (text !== undefined && (typeof text !== 'string' || text.length > MAX_BODY_LENGTH)) return res.status(400).json({ error: 'text must be a string' });
+      if (!APP_KINDS.includes(kind)) return res.status(400).json({ error: `kind must be one of ${APP_KINDS.join(', ')}` });
+
+      const sentToday = await countSentSince(db, email, APP_KINDS, new Date(Date.now() - 24 * 60 * 60 * 1000));
+      if (sentToday >= MAX_SENDS_PER_DAY) return res.status(429).json({ error: 'Daily email limit reached. Please try again tomorrow.' });
+
+      // Replies go to the business, not the no-reply sender
+      const { data: user } = await db.from('user_data').select('business_profile').eq('email', email).maybeSingle();
+      const mail = await sendLoggedMail(db, email, kind, {
+        to: to.trim(),
+        subject: subject.trim(),
+        html,
+        text,
+        replyTo: user?.business_profile?.email || email
+      });
+      if (!mail.ok) return res.status(502).json({ error: `Failed to send email: ${mail.error}` });
+      res.json({ id: mail.id });
+    } catch (error) {
+      console.error('Send email error:', error);
+      res.status(500).json({ error: 'Failed to send email' });
+    }
+  });
+
+  router.get('/email/log', async (req, res) => {
+    try {
+      if (!db) return res.status(503).json({ error: 'Database not configured' });
+      const email = await verifySession(req);
+      if (!email) return res.status(401).json({ error: 'Not authenticated' });
+      res.json(await listEmailLog(db, email, {
+        limit: Number(req.query.limit) || undefined,
+        before: Number(req.query.before) || undefined,
+        status: typeof req.query.status === 'string' ? req.query.status : undefined,
+        kind: typeof req.query.kind === 'string' ? req.query.kind : undefined
+      }));
+    } catch (error) {
+      console.error('Email log error:', error);
+      res.status(500).json({ error: 'Failed to load the email log' });
+    }
+  });
+
+  return router;
+}
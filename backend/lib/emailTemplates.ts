@@ -0,0 +1,292 @@
+/**
+ * Email templates: the owner-editable emails the app sends (rating requests,
+ * follow-ups, earnings reports), rendered to branded HTML and plain text.
+ *
+ * A template is a subject, a heading, a body and an optional button label.
+ * Each of them is plain text with named variables:
+ *   {{client.name}}                     replaced with the value (escaped in the HTML)
+ *   {{#appointment.staff}}...{{/appointment.staff}}   kept only when the variable has a value
+ * Blank lines in the body start a new paragraph. Some variables hold a
+ * pre-rendered block (e.g. a table) with its own HTML and text forms.
+ * The layout around the body (header with the business's name and avatar,
+ * button, footer) is fixed, so every email stays readable.
+ *
+ * Pure (no Node or browser APIs) so the server and the app share it.
+ */
+
+export type TemplateKey = 'RATING_REQUEST' | 'FOLLOW_UP' | 'EARNINGS_REPORT';
+
+/** Structurally the EmailTemplate in types.ts */
+export interface EmailTemplate {
+  subject: string;
+  heading: string;
+  body: string;
+  buttonLabel?: string; // only for templates with a button
+}
+
+/** Content rendered ahead of time, e.g. a table; used as-is in the HTML */
+export interface BlockContent {
+  html: string;
+  text: string;
+}
+
+export type TemplateValue = string | number | BlockContent | undefined;
+export type TemplateVariables = Record<string, TemplateValue>;
+
+export interface Branding {
+  businessName: string;
+  avatarUrl?: string; // shown in the header when it's an http(s) URL
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+interface TemplateDefinition {
+  label: string;
+  description: string;
+  button?: string; // the variable holding the button's link
+  variables: { name: string; description: string }[];
+  defaults: EmailTemplate;
+  sample: TemplateVariables; // values for the preview
+}
+
+const ACCENT = '#ea580c';
+
+const COMMON_VARIABLES = [
+  { name: 'business.name', description: 'Your business name' },
+  { name: 'business.email', description: 'Your business email' },
+  { name: 'owner.name', description: "The owner's name" }
+];
+
+const COMMON_SAMPLE: TemplateVariables = {
+  'business.name': 'Studio Halo',
+  'business.email': 'hello@studiohalo.com',
+  'owner.name': 'Alex Rivera'
+};
+
+/** `text` safe to interpolate into HTML. */
+export const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]!));
+
+/** A table as a block variable: an HTML table and one text line per row. */
+export function tableBlock(headers: string[], rows: string[][], emptyText: string, alignRight: number[] = []): BlockContent {
+  const cell = (value: string, i: number, tag: 'td' | 'th') =>
+    `<${tag} style="padding:8px;border-bottom:1px solid #eee;text-align:${alignRight.includes(i) ? 'right' : 'left'};${tag === 'th' ? 'font-size:12px;text-transform:uppercase;color:#666;background:#f4f4f5;' : ''}">${escapeHtml(value)}</${tag}>`;
+  const body = rows.length > 0
+    ? rows.map(row => `<tr>${row.map((v, i) => cell(v, i, 'td')).join('')}</tr>`).join('')
+    : `<tr><td colspan="${headers.length}" style="padding:8px;text-align:center;color:#999;">${escapeHtml(emptyText)}</td></tr>`;
+  return {
+    html: `<table style="width:100%;border-collapse:collapse;margin:15px 0;"><thead><tr>${headers.map((h, i) => cell(h, i, 'th')).join('')}</tr></thead><tbody>${body}</tbody></table>`,
+    text: rows.length > 0 ? rows.map(row => `- ${row.join(' | ')}`).join('\n') : emptyText
+  };
+}
+
+export const EMAIL_TEMPLATES: Record<TemplateKey, TemplateDefinition> = {
+  RATING_REQUEST: {
+    label: 'Rating Request',
+    description: 'Sent to a client when their appointment is marked completed.',
+    button: 'links.rating',
+    variables: [
+      ...COMMON_VARIABLES,
+      { name: 'client.name', description: "The client's full name" },
+      { name: 'client.firstName', description: "The client's first name" },
+      { name: 'appointment.service', description: 'Service name' },
+      { name: 'appointment.date', description: 'Appointment date' },
+      { name: 'appointment.time', description: 'Appointment time' },
+      { name: 'appointment.staff', description: 'Staff member, if any' },
+      { name: 'links.rating', description: 'Link to the rating page (the button)' }
+    ],
+    defaults: {
+      subject: 'Rate Your Experience at {{business.name}}',
+      heading: 'Thank You, {{client.firstName}}!',
+      body: 'We hope you enjoyed your recent visit to {{business.name}}.\n\n'
+        + '{{appointment.service}} on {{appointment.date}} at {{appointment.time}}{{#appointment.staff}} with {{appointment.staff}}{{/appointment.staff}}.\n\n'
+        + 'Your feedback helps us improve. Please take a moment to rate your experience.',
+      buttonLabel: 'Rate Your Experience'
+    },
+    sample: {
+      ...COMMON_SAMPLE,
+      'client.name': 'Jordan Lee',
+      'client.firstName': 'Jordan',
+      'appointment.service': 'Haircut',
+      'appointment.date': 'Tuesday, March 3',
+      'appointment.time': '2:30 PM',
+      'appointment.staff': 'Sam',
+      'links.rating': 'https://example.com/rate/sample'
+    }
+  },
+  FOLLOW_UP: {
+    label: 'Follow-up',
+    description: 'Sent from a client profile with the message you write there.',
+    variables: [
+      ...COMMON_VARIABLES,
+      { name: 'client.name', description: "The client's full name" },
+      { name: 'client.firstName', description: "The client's first name" },
+      { name: 'message', description: 'The message you write when sending' }
+    ],
+    defaults: {
+      subject: 'Follow-up from {{business.name}}',
+      heading: 'Hello {{client.firstName}}!',
+      body: 'We wanted to follow up with you from {{business.name}}.\n\n'
+        + '{{message}}\n\n'
+        + '{{#business.email}}If you have any questions, reply to this email or contact us at {{business.email}}.{{/business.email}}'
+    },
+    sample: {
+      ...COMMON_SAMPLE,
+      'client.name': 'Jordan Lee',
+      'client.firstName': 'Jordan',
+      message: 'Thanks for coming in last week! How is the new cut holding up?\nWe have openings next month if you would like a trim.'
+    }
+  },
+  EARNINGS_REPORT: {
+    label: 'Earnings Report',
+    description: 'Sent to you when you reset earnings, as a record of what was cleared.',
+    variables: [
+      ...COMMON_VARIABLES,
+      { name: 'report.date', description: 'When earnings were reset' },
+      { name: 'report.appointmentCount', description: 'Completed appointments cleared' },
+      { name: 'report.gross', description: 'Gross revenue' },
+      { name: 'report.expenseTotal', description: 'Total expenses' },
+      { name: 'report.tax', description: 'Estimated tax' },
+      { name: 'report.net', description: 'Net earnings' },
+      { name: 'report.appointments', description: 'Table of cleared appointments' },
+      { name: 'report.expenses', description: 'Table of cleared expenses' }
+    ],
+    defaults: {
+      subject: 'Earnings Reset - {{business.name}}',
+      heading: 'Earnings Reset',
+      body: 'Hello {{owner.name}},\n\n'
+        + 'This confirms that your earnings data was reset on {{report.date}}. Please save this email for your records.\n\n'
+        + 'Appointments: {{report.appointmentCount}}\nGross revenue: {{report.gross}}\nExpenses: {{report.expenseTotal}}\nEstimated tax: {{report.tax}}\nNet earnings: {{report.net}}\n\n'
+        + 'Cleared appointments:\n\n{{report.appointments}}\n\n'
+        + 'Cleared expenses:\n\n{{report.expenses}}'
+    },
+    sample: {
+      ...COMMON_SAMPLE,
+      'report.date': 'March 31, 2026, 06:00 PM',
+      'report.appointmentCount': 2,
+      'report.gross': '$120.00',
+      'report.expenseTotal': '$30.00',
+      'report.tax': '$18.00',
+      'report.net': '$72.00',
+      'report.appointments': tableBlock(
+        ['Date', 'Time', 'Client', 'Service', 'Amount'],
+        [['2026-03-02', '10:00 AM', 'Jordan Lee', 'Haircut', '$60.00'], ['2026-03-05', '1:00 PM', 'Riley Kim', 'Haircut', '$60.00']],
+        'No appointments to clear',
+        [4]
+      ),
+      'report.expenses': tableBlock(['Date', 'Description', 'Category', 'Amount'], [['2026-03-01', 'Shampoo', 'Supplies', '-$30.00']], 'No expenses to clear', [3])
+    }
+  }
+};
+
+const VARIABLE_RE = /\{\{\s*([\w.]+)\s*\}\}/g;
+const SECTION_RE = /\{\{#\s*([\w.]+)\s*\}\}([\s\S]*?)\{\{\/\s*\1\s*\}\}/g;
+
+const isBlock = (value: TemplateValue): value is BlockContent => typeof value === 'object' && value !== null;
+const hasValue = (value: TemplateValue) => value !== undefined && value !== null && value !== '';
+
+// Keep or drop {{#name}}...{{/name}} sections
+function applySections(source: string, variables: TemplateVariables): string {
+  return source.replace(SECTION_RE, (_, name: string, inner: string) => (hasValue(variables[name]) ? inner : ''));
+}
+
+// Replace {{name}} in `source`; in HTML mode the template's own text is escaped too
+function fill(source: string, variables: TemplateVariables, mode: 'html' | 'text'): string {
+  let out = '';
+  let last = 0;
+  for (const match of source.matchAll(VARIABLE_RE)) {
+    const literal = source.slice(last, match.index);
+    out += mode === 'html' ? escapeHtml(literal) : literal;
+    const value = variables[match[1]];
+    if (isBlock(value)) out += mode === 'html' ? value.html : value.text;
+    else if (hasValue(value)) out += mode === 'html' ? escapeHtml(String(value)) : String(value);
+    last = match.index! + match[0].length;
+  }
+  const rest = source.slice(last);
+  return out + (mode === 'html' ? escapeHtml(rest) : rest);
+}
+
+/** The owner's template for `key`, with any blank part falling back to the default. */
+export function templateFor(key: TemplateKey, custom?: Partial<EmailTemplate>): EmailTemplate {
+  const defaults = EMAIL_TEMPLATES[key].defaults;
+  return {
+    subject: custom?.subject?.trim() || defaults.subject,
+    heading: custom?.heading?.trim() || defaults.heading,
+    body: custom?.body?.trim() || defaults.body,
+    buttonLabel: EMAIL_TEMPLATES[key].button ? custom?.buttonLabel?.trim() || defaults.buttonLabel : undefined
+  };
+}
+
+/** Variables a template uses that `key` doesn't provide, for warning the owner while editing. */
+export function unknownVariables(key: TemplateKey, template: Partial<EmailTemplate>): string[] {
+  const known = new Set(EMAIL_TEMPLATES[key].variables.map(v => v.name));
+  const used = [template.subject, template.heading, template.body, template.buttonLabel]
+    .flatMap(part => [...(part || '').matchAll(/\{\{\s*[#/]?\s*([\w.]+)\s*\}\}/g)].map(m => m[1]));
+  return [...new Set(used)].filter(name => !known.has(name));
+}
+
+/** Render the `key` email from the owner's template (or the default) and `variables`. */
+export function renderEmail(
+  key: TemplateKey,
+  custom: Partial<EmailTemplate> | undefined,
+  variables: TemplateVariables,
+  branding: Branding
+): RenderedEmail {
+  const template = templateFor(key, custom);
+  const link = EMAIL_TEMPLATES[key].button ? variables[EMAIL_TEMPLATES[key].button!] : undefined;
+  const buttonUrl = typeof link === 'string' && /^https?:\/\//.test(link) ? link : undefined;
+
+  // A subject is one line of text, whatever the variables hold
+  const subject = fill(applySections(template.subject, variables), variables, 'text').replace(/\s+/g, ' ').trim();
+  const heading = applySections(template.heading, variables);
+  const paragraphs = applySections(template.body, variables).split(/\n\s*\n/).map(p => p.trim()).filter(Boolean);
+  const buttonLabel = template.buttonLabel ? applySections(template.buttonLabel, variables) : '';
+
+  const bodyHtml = paragraphs.map(paragraph => {
+    // A paragraph that is just a block variable (a table) goes in without a <p>
+    const only = paragraph.match(/^\{\{\s*([\w.]+)\s*\}\}$/);
+    if (only && isBlock(variables[only[1]])) return (variables[only[1]] as BlockContent).html;
+    return `<p style="margin:0 0 16px;">${fill(paragraph, variables, 'html').replace(/\n/g, '<br>')}</p>`;
+  }).join('');
+
+  const logo = branding.avatarUrl && /^https?:\/\//.test(branding.avatarUrl)
+    ? `<img src="${escapeHtml(branding.avatarUrl)}" alt="" width="64" height="64" style="display:block;margin:0 auto 12px;border-radius:50%;object-fit:cover;">`
+    : '';
+  const button = buttonUrl && buttonLabel
+    ? `<div style="text-align:center;margin:24px 0;"><a href="${escapeHtml(buttonUrl)}" style="display:inline-block;background:${ACCENT};color:#000;padding:12px 24px;text-decoration:none;font-weight:bold;border-radius:4px;">${fill(buttonLabel, variables, 'html')}</a></div>`
+      + `<p style="margin:24px 0 0;font-size:12px;color:#666;">If the button doesn't work, copy and paste this link into your browser:<br><a href="${escapeHtml(buttonUrl)}" style="color:${ACCENT};">${escapeHtml(buttonUrl)}</a></p>`
+    : '';
+  const businessName = escapeHtml(branding.businessName || '');
+
+  const html = `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(subject)}</title>
+</head>
+<body style="margin:0;padding:0;background:#f4f4f5;font-family:Arial,sans-serif;line-height:1.6;color:#333;">
+<div style="max-width:600px;margin:0 auto;padding:20px;">
+<div style="background:${ACCENT};color:#000;padding:24px;text-align:center;">
+${logo}${businessName ? `<p style="margin:0;font-size:12px;font-weight:bold;letter-spacing:2px;text-transform:uppercase;">${businessName}</p>` : ''}
+<h1 style="margin:8px 0 0;font-size:24px;">${fill(heading, variables, 'html')}</h1>
+</div>
+<div style="background:#ffffff;padding:30px;">${bodyHtml}${button}</div>
+<div style="text-align:center;padding:20px;color:#666;font-size:12px;">${businessName ? `Sent by ${businessName}` : ''}</div>
+</div>
+</body>
+</html>`;
+
+  const text = [
+    fill(heading, variables, 'text'),
+    ...paragraphs.map(p => fill(p, variables, 'text')),
+    buttonUrl && buttonLabel ? `${fill(buttonLabel, variables, 'text')}: ${buttonUrl}` : '',
+    branding.businessName ? `-- \n${branding.businessName}` : ''
+  ].filter(Boolean).join('\n\n');
+
+  return { subject, html, text };
+}
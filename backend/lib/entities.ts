@@ -0,0 +1,375 @@
+/**
+ * Relational storage for business data.
+ * Each entity (clients, appointments, services, ...) lives in its own table
+ * keyed by (business_email, id). The column maps below translate between the
+ * camelCase objects the frontend uses (types.ts) and snake_case columns.
+ */
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+type DB = SupabaseClient<any, any, any>;
+
+export interface EntityDef {
+  table: string;
+  columns: Record<string, string>; // camelCase field -> column
+  ordered?: boolean; // rows keep the array order via a `position` column
+  defaults?: Record<string, any>; // values for fields that are NULL in the row
+}
+
+export const ENTITIES = {
+  services: {
+    table: 'services',
+    ordered: true,
+    columns: {
+      id: 'id',
+      name: 'name',
+      durationMin: 'duration_min',
+      price: 'price',
+      description: 'description',
+      pricePerPerson: 'price_per_person'
+    }
+  },
+  staff: {
+    table: 'staff',
+    ordered: true,
+    columns: {
+      id: 'id',
+      name: 'name',
+      role: 'role',
+      email: 'email',
+      phone: 'phone',
+      schedule: 'schedule',
+      timeOff: 'time_off',
+      serviceIds: 'service_ids'
+    }
+  },
+  clients: {
+    table: 'clients',
+    defaults: { notes: [], lastVisit: null }, // always present on Client
+    columns: {
+      id: 'id',
+      name: 'name',
+      email: 'email',
+      phone: 'phone',
+      notes: 'notes',
+      preferences: 'preferences',
+      lastVisit: 'last_visit'
+    }
+  },
+  appointments: {
+    table: 'appointments',
+    columns: {
+      id: 'id',
+      clientId: 'client_id',
+      clientName: 'client_name',
+      clientIds: 'client_ids',
+      clientNames: 'client_names',
+      serviceId: 'service_id',
+      date: 'date',
+      time: 'time',
+      status: 'status',
+      notes: 'notes',
+      recurrence: 'recurrence',
+      staffId: 'staff_id',
+      numberOfPeople: 'number_of_people',
+      overridePrice: 'override_price',
+      eventType: 'event_type',
+      recurrenceParentId: 'recurrence_parent_id',
+      occurrenceDate: 'occurrence_date',
+      durationMin: 'duration_min'
+    }
+  },
+  expenses: {
+    table: 'expenses',
+    columns: {
+      id: 'id',
+      name: 'name',
+      amount: 'amount',
+      date: 'date',
+      category: 'category'
+    }
+  },
+  ratings: {
+    table: 'ratings',
+    columns: {
+      id: 'id',
+      appointmentId: 'appointment_id',
+      clientId: 'client_id',
+      businessRating: 'business_rating',
+      staffRating: 'staff_rating',
+      staffId: 'staff_id',
+      comment: 'comment',
+      date: 'submitted_at',
+      hidden: 'hidden',
+      flagged: 'flagged',
+      featured: 'featured',
+      reply: 'reply',
+      repliedAt: 'replied_at',
+      answers: 'answers'
+    }
+  },
+  waitlist: {
+    table: 'waitlist',
+    columns: {
+      id: 'id',
+      clientName: 'client_name',
+      clientEmail: 'client_email',
+      clientPhone: 'client_phone',
+      serviceId: 'service_id',
+      staffId: 'staff_id',
+      startDate: 'start_date',
+      endDate: 'end_date',
+      preferredTimes: 'preferred_times',
+      status: 'status',
+      offerDate: 'offer_date',
+      offerTime: 'offer_time',
+      offerStaffId: 'offer_staff_id',
+      offerToken: 'offer_token',
+      offerExpiresAt: 'offer_expires_at',
+      declinedSlots: 'declined_slots',
+      appointmentId: 'appointment_id'
+    }
+  },
+  bonusEntries: {
+    table: 'bonus_entries',
+    columns: {
+      id: 'id',
+      description: 'description',
+      amount: 'amount',
+      date: 'date'
+    }
+  }
+} satisfies Record<string, EntityDef>;
+
+export type EntityName = keyof typeof ENTITIES;
+
+export interface BusinessData {
+  businessProfile: any;
+  clients: any[];
+  appointments: any[];
+  expenses: any[];
+  ratings: any[];
+  bonusEntries: any[];
+}
+
+/** What /load returns: the app state plus the revision it was read at. */
+export interface LoadedBusinessData extends BusinessData {
+  revision: number;
+}
+
+export type RevisionClaim = { ok: true; revision: number } | { ok: false; revision: number };
+
+export function toRow(def: EntityDef, businessEmail: string, entity: any, position?: number): Record<string, any> {
+  const row: Record<string, any> = { business_email: businessEmail };
+  for (const [field, column] of Object.entries(def.columns)) {
+    const value = entity[field];
+    // Empty strings in date columns (e.g. lastVisit: '') can't be stored as DATE
+    row[column] = value === undefined || (value === '' && /date|visit/.test(column)) ? null : value;
+  }
+  if (def.ordered && position !== undefined) row.position = position;
+  row.updated_at = new Date().toISOString();
+  return row;
+}
+
+export function fromRow(def: EntityDef, row: Record<string, any>): any {
+  const entity: Record<string, any> = def.defaults ? structuredClone(def.defaults) : {};
+  for (const [field, column] of Object.entries(def.columns)) {
+    const value = row[column];
+    if (value !== null && value !== undefined) entity[field] = value;
+  }
+  return entity;
+}
+
+export async function listEntities(db: DB, name: EntityName, businessEmail: string): Promise<any[]> {
+  const def: EntityDef = ENTITIES[name];
+  let query = db.from(def.table).select('*').eq('business_email', businessEmail);
+  query = def.ordered
+    ? query.order('position', { ascending: true })
+    : query.order('created_at', { ascending: true }).order('id', { ascending: true });
+
+  const { data, error } = await query;
+  if (error) throw new Error(`Failed to load ${def.table}: ${error.message}`);
+  return (data || []).map(row => fromRow(def, row));
+}
+
+/**
+ * Make the table for `name` hold exactly `items` for this business:
+ * upsert every item and delete rows whose id is no longer present.
+ */
+export async function replaceEntities(db: DB, name: EntityName, businessEmail: string, items: any[]): Promise<void> {
+  const def: EntityDef = ENTITIES[name];
+  const valid = (items || []).filter(item => item && typeof item.id === 'string' && item.id);
+
+  if (valid.length > 0) {
+    const rows = valid.map((item, index) => toRow(def, businessEmail, item, index));
+    const { error } = await db.from(def.table).upsert(rows, { onConflict: 'business_email,id' });
+    if (error) throw new Error(`Failed to save ${def.table}: ${error.message}`);
+  }
+
+  const { data: existing, error: listError } = await db
+    .from(def.table).select('id').eq('business_email', businessEmail);
+  if (listError) throw new Error(`Failed to list ${def.table}: ${listError.message}`);
+
+  const keep = new Set(valid.map(item => item.id));
+  const stale = (existing || []).map((row: any) => row.id).filter((id: string) => !keep.has(id));
+  if (stale.length > 0) {
+    const { error } = await db.from(def.table).delete().eq('business_email', businessEmail).in('id', stale);
+    if (error) throw new Error(`Failed to prune ${def.table}: ${error.message}`);
+  }
+}
+
+/** Assemble the full app state for a business from the relational tables. */
+export async function loadBusinessData(db: DB, businessEmail: string): Promise<LoadedBusinessData> {
+  const { data: user, error } = await db
+    .from('user_data').select('business_profile, revision').eq('email', businessEmail).single();
+  if (error && error.code !== 'PGRST116') throw new Error(`Failed to load profile: ${error.message}`);
+
+  const [services, staff, clients, appointments, expenses, ratings, bonusEntries] = await Promise.all([
+    listEntities(db, 'services', businessEmail),
+    listEntities(db, 'staff', businessEmail),
+    listEntities(db, 'clients', businessEmail),
+    listEntities(db, 'appointments', businessEmail),
+    listEntities(db, 'expenses', businessEmail),
+    listEntities(db, 'ratings', businessEmail),
+    listEntities(db, 'bonusEntries', businessEmail)
+  ]);
+
+  // Appointments carry a copy of their rating for the views that display it
+  const ratingByAppointment = new Map(ratings.map(r => [r.appointmentId, r]));
+  appointments.forEach(a => {
+    const rating = ratingByAppointment.get(a.id);
+    if (rating) a.rating = rating;
+  });
+
+  const profile = user?.business_profile;
+  return {
+    businessProfile: profile ? { ...profile, services, staff } : null,
+    clients,
+    appointments,
+    expenses,
+    ratings,
+    bonusEntries,
+    revision: user?.revision ?? 0
+  };
+}
+
+async function getRevision(db: DB, businessEmail: string): Promise<number | null> {
+  const { data, error } = await db
+    .from('user_data').select('revision').eq('email', businessEmail).maybeSingle();
+  if (error) throw new Error(`Failed to read revision: ${error.message}`);
+  return data ? data.revision ?? 0 : null;
+}
+
+/**
+ * Optimistic concurrency for /save: move the business's revision from
+ * `expected` to expected + 1 with a compare-and-set. Fails (returning the
+ * current revision) when someone else saved since `expected` was loaded.
+ * Without `expected` (older clients) the revision is bumped unconditionally.
+ */
+export async function claimRevision(db: DB, businessEmail: string, expected?: number): Promise<RevisionClaim> {
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const current = await getRevision(db, businessEmail);
+    if (current === null) return { ok: true, revision: 0 }; // no account row yet; the save creates it
+    if (expected !== undefined && expected !== current) return { ok: false, revision: current };
+
+    const { data, error } = await db
+      .from('user_data')
+      .update({ revision: current + 1 })
+      .eq('email', businessEmail)
+      .eq('revision', current)
+      .select('revision');
+    if (error) throw new Error(`Failed to update revision: ${error.message}`);
+    if (data && data.length > 0) return { ok: true, revision: current + 1 };
+    // Another save won the race; re-read and try again
+  }
+  return { ok: false, revision: (await getRevision(db, businessEmail)) ?? 0 };
+}
+
+// Give back a claimed revision whose save failed, unless another save has already moved past it
+async function releaseRevision(db: DB, businessEmail: string, claimed: number): Promise<void> {
+  if (claimed <= 0) return; // nothing was claimed
+  const { error } = await db
+    .from('user_data')
+    .update({ revision: claimed - 1 })
+    .eq('email', businessEmail)
+    .eq('revision', claimed);
+  if (error) console.error('Release revision error:', error);
+}
+
+/**
+ * /save: write the business profile, with its services and staff, if
+ * `expected` is still the current revision. The other collections are only
+ * written through the per-entity routes, so a save from a stale device can't
+ * delete rows it never saw.
+ *
+ * The writes are not one transaction. If one fails the revision is given
+ * back, so the client's retry (from the same revision) rewrites everything
+ * instead of being told someone else saved.
+ */
+export async function saveBusinessProfile(db: DB, businessEmail: string, businessProfile: any, expected?: number): Promise<RevisionClaim> {
+  const claim = await claimRevision(db, businessEmail, expected);
+  if (!claim.ok) return claim;
+
+  try {
+    const { services = [], staff = [], ...profile } = businessProfile || {};
+    const { error } = await db
+      .from('user_data')
+      .upsert({
+        email: businessEmail,
+        business_profile: businessProfile ? profile : null,
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'email' });
+    if (error) throw new Error(`Failed to save profile: ${error.message}`);
+
+    await Promise.all([
+      replaceEntities(db, 'services', businessEmail, services),
+      replaceEntities(db, 'staff', businessEmail, staff)
+    ]);
+  } catch (error) {
+    await releaseRevision(db, businessEmail, claim.revision);
+    throw error;
+  }
+  return claim;
+}
+
+// ================================================================
+// SINGLE-ENTITY ACCESS (per-entity REST API)
+// ================================================================
+
+export async function getEntity(db: DB, name: EntityName, businessEmail: string, id: string): Promise<any | null> {
+  const def: EntityDef = ENTITIES[name];
+  const { data, error } = await db
+    .from(def.table).select('*').eq('business_email', businessEmail).eq('id', id).maybeSingle();
+  if (error) throw new Error(`Failed to load ${def.table}: ${error.message}`);
+  return data ? fromRow(def, data) : null;
+}
+
+/** Insert a new entity. Returns null when one with the same id already exists. */
+export async function insertEntity(db: DB, name: EntityName, businessEmail: string, entity: any): Promise<any | null> {
+  const def: EntityDef = ENTITIES[name];
+  const { data, error } = await db
+    .from(def.table).insert(toRow(def, businessEmail, entity)).select('*').single();
+  if (error) {
+    if (error.code === '23505') return null; // unique_violation
+    throw new Error(`Failed to create ${def.table}: ${error.message}`);
+  }
+  return fromRow(def, data);
+}
+
+/** Replace the stored entity with `entity` (already merged by the caller). Returns null if it doesn't exist. */
+export async function updateEntity(db: DB, name: EntityName, businessEmail: string, entity: any): Promise<any | null> {
+  const def: EntityDef = ENTITIES[name];
+  const { business_email, ...row } = toRow(def, businessEmail, entity);
+  const { data, error } = await db
+    .from(def.table).update(row).eq('business_email', business_email).eq('id', entity.id).select('*').maybeSingle();
+  if (error) throw new Error(`Failed to update ${def.table}: ${error.message}`);
+  return data ? fromRow(def, data) : null;
+}
+
+/** Delete an entity. Returns false if it didn't exist. */
+export async function deleteEntity(db: DB, name: EntityName, businessEmail: string, id: string): Promise<boolean> {
+  const def: EntityDef = ENTITIES[name];
+  const { data, error } = await db
+    .from(def.table).delete().eq('business_email', businessEmail).eq('id', id).select('id');
+  if (error) throw new Error(`Failed to delete ${def.table}: ${error.message}`);
+  return (data?.length || 0) > 0;
+}
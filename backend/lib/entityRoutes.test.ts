@@ -0,0 +1,81 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import express from 'express';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import { createEntityRouter } from './entityRoutes.js';
+import { withClearedFields } from './validation.js';
+import { fakeDb, FakeDb } from './testing/fakeDb.js';
+
+const OWNER = 'owner@example.com';
+
+let db: FakeDb;
+let server: Server;
+let base: string;
+
+beforeAll(async () => {
+  const app = express();
+  app.use(express.json());
+  // The router reads `db` when it's created, so hand it one that always points at the current test's
+  const current = { from: (table: string) => db.from(table) } as unknown as FakeDb;
+  app.use(createEntityRouter({ db: current, verifySession: async () => OWNER }));
+  server = app.listen(0);
+  await new Promise(resolve => server.once('listening', resolve));
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => new Promise(resolve => server.close(resolve)));
+
+beforeEach(() => {
+  db = fakeDb();
+});
+
+// The body goes through JSON as it does from the app, dropping undefined values
+const send = async (method: string, path: string, body?: unknown) => {
+  const response = await fetch(`${base}${path}`, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  });
+  return { status: response.status, body: await response.json() };
+};
+
+const appointment = {
+  id: 'a1',
+  clientId: 'c1',
+  clientName: 'Jane',
+  serviceId: 's1',
+  date: '2025-01-06',
+  time: '09:00',
+  status: 'CONFIRMED',
+  staffId: 'st1',
+  durationMin: 90,
+  numberOfPeople: 3,
+  recurrence: { frequency: 'WEEKLY', interval: 1 }
+};
+
+describe('PATCH /appointments/:id', () => {
+  it('clears the fields an update leaves unset, and they stay cleared', async () => {
+    expect((await send('POST', '/appointments', appointment)).status).toBe(201);
+
+    const edited = { ...appointment, recurrence: undefined, staffId: undefined, durationMin: undefined, numberOfPeople: undefined };
+    const patched = await send('PATCH', '/appointments/a1', withClearedFields('appointments', edited));
+    expect(patched.status).toBe(200);
+
+    const reloaded = await send('GET', '/appointments/a1');
+    expect(reloaded.body).toEqual({ id: 'a1', clientId: 'c1', clientName: 'Jane', serviceId: 's1', date: '2025-01-06', time: '09:00', status: 'CONFIRMED' });
+  });
+
+  it('keeps the fields a partial body leaves out', async () => {
+    await send('POST', '/appointments', appointment);
+    await send('PATCH', '/appointments/a1', { notes: 'Bring the blue dye' });
+
+    const reloaded = await send('GET', '/appointments/a1');
+    expect(reloaded.body).toMatchObject({ staffId: 'st1', durationMin: 90, notes: 'Bring the blue dye', recurrence: { frequency: 'WEEKLY' } });
+  });
+
+  it('refuses to clear a required field', async () => {
+    await send('POST', '/appointments', appointment);
+    const patched = await send('PATCH', '/appointments/a1', { clientName: null });
+    expect(patched).toMatchObject({ status: 400, body: { details: ['clientName cannot be null'] } });
+  });
+});
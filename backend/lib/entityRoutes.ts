@@ -0,0 +1,147 @@
+/**
+ * Per-entity REST routes, mounted by both servers:
+ *   GET    /<resource>       list
+ *   GET    /<resource>/:id   fetch one
+ *   POST   /<resource>       create (body is the full entity; id optional)
+ *   PATCH  /<resource>/:id   update (body is a partial entity; null clears a field)
+ *   DELETE /<resource>/:id   delete
+ * for clients, appointments, expenses, bonus-entries, ratings and waitlist.
+ * Cancelling an appointment offers its time to the waitlist.
+ */
+import crypto from 'crypto';
+import express from 'express';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { EntityName, getEntity, insertEntity, updateEntity, deleteEntity, listEntities } from './entities.js';
+import { validateEntity } from './validation.js';
+import { offerCancelledTime } from './waitlist.js';
+import { appUrl } from './env.js';
+
+type DB = SupabaseClient<any, any, any> | null;
+
+const RESOURCES: { path: string; entity: EntityName; label: string }[] = [
+  { path: 'clients', entity: 'clients', label: 'Client' },
+  { path: 'appointments', entity: 'appointments', label: 'Appointment' },
+  { path: 'expenses', entity: 'expenses', label: 'Expense' },
+  { path: 'bonus-entries', entity: 'bonusEntries', label: 'Bonus entry' },
+  { path: 'ratings', entity: 'ratings', label: 'Rating' },
+  { path: 'waitlist', entity: 'waitlist', label: 'Waitlist entry' }
+];
+
+interface EntityRouterOptions {
+  db: DB;
+  verifySession: (req: express.Request) => Promise<string | null>;
+}
+
+export function createEntityRouter({ db, verifySession }: EntityRouterOptions): express.Router {
+  const router = express.Router();
+
+  // Resolve the signed-in business or answer 503/401
+  const authorize = async (req: express.Request, res: express.Response): Promise<string | null> => {
+    if (!db) {
+      res.status(503).json({ error: 'Database not configured' });
+      return null;
+    }
+    const email = await verifySession(req);
+    if (!email) {
+      res.status(401).json({ error: 'Not authenticated' });
+      return null;
+    }
+    return email;
+  };
+
+  // A newly cancelled appointment frees its time for the waitlist; the save itself already succeeded
+  const offerIfCancelled = async (req: express.Request, email: string, before: any, after: any) => {
+    if (after?.status !== 'CANCELLED' || before?.status === 'CANCELLED') return;
+    try {
+      await offerCancelledTime(db!, email, after, appUrl());
+    } catch (error) {
+      console.error('Waitlist offer error:', error);
+    }
+  };
+
+  for (const { path, entity, label } of RESOURCES) {
+    router.get(`/${path}`, async (req, res) => {
+      try {
+        const email = await authorize(req, res);
+        if (!email) return;
+        res.json(await listEntities(db!, entity, email));
+      } catch (error) {
+        console.error(`List ${path} error:`, error);
+        res.status(500).json({ error: `Failed to list ${path}` });
+      }
+    });
+
+    router.get(`/${path}/:id`, async (req, res) => {
+      try {
+        const email = await authorize(req, res);
+        if (!email) return;
+        const found = await getEntity(db!, entity, email, req.params.id);
+        if (!found) return res.status(404).json({ error: `${label} not found` });
+        res.json(found);
+      } catch (error) {
+        console.error(`Get ${path} error:`, error);
+        res.status(500).json({ error: `Failed to get ${label.toLowerCase()}` });
+      }
+    });
+
+    router.post(`/${path}`, async (req, res) => {
+      try {
+        const email = await authorize(req, res);
+        if (!email) return;
+
+        const body = { ...req.body, id: req.body?.id || crypto.randomUUID() };
+        const errors = validateEntity(entity, body);
+        if (errors.length > 0) return res.status(400).json({ error: `Invalid ${label.toLowerCase()}`, details: errors });
+
+        const created = await insertEntity(db!, entity, email, body);
+        if (!created) return res.status(409).json({ error: `${label} already exists` });
+        if (entity === 'appointments') await offerIfCancelled(req, email, null, created);
+        res.status(201).json(created);
+      } catch (error) {
+        console.error(`Create ${path} error:`, error);
+        res.status(500).json({ error: `Failed to create ${label.toLowerCase()}` });
+      }
+    });
+
+    router.patch(`/${path}/:id`, async (req, res) => {
+      try {
+        const email = await authorize(req, res);
+        if (!email) return;
+
+        const errors = validateEntity(entity, req.body, { partial: true });
+        if (errors.length > 0) return res.status(400).json({ error: `Invalid ${label.toLowerCase()}`, details: errors });
+
+        const existing = await getEntity(db!, entity, email, req.params.id);
+        if (!existing) return res.status(404).json({ error: `${label} not found` });
+
+        // The id in the URL wins; the merged result must still be a valid entity
+        const merged = { ...existing, ...req.body, id: req.params.id };
+        const mergedErrors = validateEntity(entity, merged);
+        if (mergedErrors.length > 0) return res.status(400).json({ error: `Invalid ${label.toLowerCase()}`, details: mergedErrors });
+
+        const updated = await updateEntity(db!, entity, email, merged);
+        if (!updated) return res.status(404).json({ error: `${label} not found` });
+        if (entity === 'appointments') await offerIfCancelled(req, email, existing, updated);
+        res.json(updated);
+      } catch (error) {
+        console.error(`Update ${path} error:`, error);
+        res.status(500).json({ error: `Failed to update ${label.toLowerCase()}` });
+      }
+    });
+
+    router.delete(`/${path}/:id`, async (req, res) => {
+      try {
+        const email = await authorize(req, res);
+        if (!email) return;
+        const deleted = await deleteEntity(db!, entity, email, req.params.id);
+        if (!deleted) return res.status(404).json({ error: `${label} not found` });
+        res.json({ success: true });
+      } catch (error) {
+        console.error(`Delete ${path} error:`, error);
+        res.status(500).json({ error: `Failed to delete ${label.toLowerCase()}` });
+      }
+    });
+  }
+
+  return router;
+}
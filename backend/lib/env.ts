@@ -0,0 +1,37 @@
+/**
+ * Server settings from the environment that several modules depend on.
+ *
+ * SESSION_SECRET is required in production: a random per-process secret
+ * would log everyone out and break every emailed link on each restart (on
+ * Vercel, every cold start). Locally a random one is used with a warning.
+ */
+import crypto from 'crypto';
+
+/** Deployed (on Vercel, or NODE_ENV=production) rather than local development */
+export const isProduction = () => process.env.NODE_ENV === 'production' || process.env.VERCEL === '1';
+
+let secret = process.env.SESSION_SECRET || '';
+if (!secret) {
+  if (isProduction()) throw new Error('SESSION_SECRET must be set in production');
+  secret = crypto.randomBytes(32).toString('hex');
+  console.warn('⚠️  SESSION_SECRET not set — using a random per-process secret (sessions and emailed links will not survive restarts)');
+}
+
+/** Signs session cookies */
+export const sessionKey = secret;
+
+/** Signs emailed links; derived, so link tokens can never pass as session tokens or the reverse */
+export const linkKey = crypto.createHmac('sha256', secret).update('links').digest();
+
+const frontendUrl = (process.env.FRONTEND_URL || '').replace(/\/+$/, '');
+if (!frontendUrl && isProduction()) {
+  console.warn('⚠️  FRONTEND_URL not set — emails that need a link to the app (booking, reminder, waitlist) will not be sent');
+}
+
+/**
+ * Where links in emails point: FRONTEND_URL, or localhost in development.
+ * Null in production without FRONTEND_URL, and callers then skip those emails.
+ * Never taken from the request: its Origin is whatever the caller sends, and
+ * a signed link pointing at someone else's site would hand them the token.
+ */
+export const appUrl = (): string | null => frontendUrl || (isProduction() ? null : 'http://localhost:3000');
@@ -0,0 +1,353 @@
+/**
+ * iCalendar (RFC 5545) output for appointments, used for the .ics download in
+ * CalendarView and the subscribable feed served by the API, and parsing of
+ * .ics files for import.
+ *
+ * Times are written in the business's time zone as TZID date-times (calendar
+ * apps resolve IANA zone names without a VTIMEZONE), or as floating local
+ * times when the business has no zone set. Recurring appointments become
+ * RRULEs; overrides of single occurrences become RECURRENCE-ID events sharing
+ * the parent's UID.
+ *
+ * Pure (no Node or browser APIs) so the browser and server share it.
+ */
+import { toRRule, parseRRule, occursOn, isOverride, RecurrenceRule } from './recurrence.js';
+import { durationOf, fromMinutes, toMinutes, ScheduleEntry } from './availability.js';
+import { toWallTime, convertWallTime, isValidTimeZone, resolveTimeZone, deviceTimeZone, WallTime } from './timeZone.js';
+
+/** The fields of an Appointment that end up in the calendar */
+export interface CalendarEntry extends ScheduleEntry {
+  id: string;
+  clientNames?: string[];
+  notes?: string;
+}
+
+export interface CalendarOptions {
+  name: string; // shown as the calendar's name in subscribing apps
+  entries: CalendarEntry[];
+  services: { id: string; name: string; durationMin: number }[];
+  timeZone?: string; // IANA zone the entries' times are in; floating times without it
+  now?: Date; // DTSTAMP; defaults to the current time
+}
+
+const PRODID = '-//Halo//Calendar//EN';
+const UID_DOMAIN = 'halo.app';
+
+// TEXT values escape backslashes, semicolons, commas and newlines
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Lines longer than 75 octets are folded onto continuation lines starting with a space
+function fold(line: string): string {
+  const bytes = new TextEncoder().encode(line);
+  if (bytes.length <= 75) return line;
+  const parts: string[] = [];
+  let current = '';
+  let size = 0;
+  for (const char of line) {
+    const charSize = new TextEncoder().encode(char).length;
+    if (size + charSize > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+      size = 0;
+    }
+    current += char;
+    size += charSize;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+const localDateTime = (date: string, time: string) => `${date.replace(/-/g, '')}T${time.replace(':', '')}00`;
+
+const utcStamp = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+function addMinutes(date: string, time: string, minutes: number): string {
+  const total = toMinutes(time) + minutes;
+  const days = Math.floor(total / 1440);
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return localDateTime(d.toISOString().slice(0, 10), fromMinutes(total - days * 1440));
+}
+
+function summaryOf(entry: CalendarEntry, serviceName?: string): string {
+  const names = entry.clientNames && entry.clientNames.length > 0 ? entry.clientNames.join(', ') : entry.clientName || '';
+  if (entry.status === 'BLOCKED') return entry.clientName || 'Blocked';
+  switch (entry.eventType) {
+    case 'MEETING': return `Meeting: ${names}`;
+    case 'INTERVIEW': return `Interview: ${names}`;
+    case 'TASK': return `Task: ${entry.clientName || entry.notes || ''}`;
+    default: return [serviceName, names].filter(Boolean).join(' - ') || 'Appointment';
+  }
+}
+
+const STATUS: Record<string, string> = {
+  CONFIRMED: 'CONFIRMED',
+  COMPLETED: 'CONFIRMED',
+  BLOCKED: 'CONFIRMED',
+  PENDING: 'TENTATIVE',
+  CANCELLED: 'CANCELLED'
+};
+
+/** The recurring appointment an override replaces (linked by id, or matched for older overrides). */
+function parentOf(entry: CalendarEntry, entries: CalendarEntry[]): CalendarEntry | undefined {
+  if (entry.recurrenceParentId) return entries.find(e => e.id === entry.recurrenceParentId && e.recurrence);
+  return entries.find(e =>
+    e.recurrence && e.time === entry.time && e.serviceId === entry.serviceId &&
+    e.clientName === entry.clientName && occursOn(e, entry.date)
+  );
+}
+
+function eventLines(entry: CalendarEntry, options: CalendarOptions, stamp: string): string[] {
+  const services = new Map(options.services.map(s => [s.id, s]));
+  const durations = Object.fromEntries(options.services.map(s => [s.id, s.durationMin]));
+  const service = entry.serviceId ? services.get(entry.serviceId) : undefined;
+
+  const parent = isOverride(entry) ? parentOf(entry, options.entries) : undefined;
+  const tzid = options.timeZone ? `;TZID=${options.timeZone}` : '';
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${parent ? parent.id : entry.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${stamp}`
+  ];
+  if (parent) lines.push(`RECURRENCE-ID${tzid}:${localDateTime(entry.occurrenceDate || entry.date, parent.time)}`);
+  lines.push(
+    `DTSTART${tzid}:${localDateTime(entry.date, entry.time)}`,
+    `DTEND${tzid}:${addMinutes(entry.date, entry.time, durationOf(entry, durations))}`,
+    `SUMMARY:${escapeText(summaryOf(entry, service?.name))}`
+  );
+  if (entry.notes && entry.eventType !== 'TASK') lines.push(`DESCRIPTION:${escapeText(entry.notes)}`);
+  lines.push(
+    `STATUS:${STATUS[entry.status || ''] || 'CONFIRMED'}`,
+    `CATEGORIES:${entry.status === 'BLOCKED' ? 'BLOCKED' : entry.eventType || 'APPOINTMENT'}`,
+    // Blocked time shows as busy; cancelled appointments don't take up time
+    `TRANSP:${entry.status === 'CANCELLED' ? 'TRANSPARENT' : 'OPAQUE'}`
+  );
+  if (entry.status === 'BLOCKED') lines.push('X-MICROSOFT-CDO-BUSYSTATUS:BUSY');
+  if (entry.recurrence && !parent) lines.push(...toRRule(entry.recurrence, entry, options.timeZone).split('\n'));
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+/** A VCALENDAR document with one event per appointment (CRLF line endings). */
+export function buildCalendar(options: CalendarOptions): string {
+  if (options.timeZone && !isValidTimeZone(options.timeZone)) options = { ...options, timeZone: undefined };
+  const stamp = utcStamp(options.now || new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(options.name)}`,
+    ...(options.timeZone ? [`X-WR-TIMEZONE:${options.timeZone}`] : []),
+    ...options.entries.flatMap(entry => eventLines(entry, options, stamp)),
+    'END:VCALENDAR'
+  ];
+  return lines.map(fold).join('\r\n') + '\r\n';
+}
+
+// ========== IMPORT ==========
+
+export interface ParsedAttendee {
+  name?: string;
+  email?: string;
+}
+
+/** One VEVENT, with its times converted to wall-clock times in the target zone */
+export interface ParsedEvent {
+  uid: string;
+  summary: string;
+  description?: string;
+  date: string; // YYYY-MM-DD
+  time: string; // HH:mm ('00:00' for all-day events)
+  durationMin: number;
+  allDay: boolean;
+  status?: string; // CONFIRMED | TENTATIVE | CANCELLED
+  categories: string[];
+  busy: boolean; // false for TRANSP:TRANSPARENT
+  attendees: ParsedAttendee[];
+  recurrence?: RecurrenceRule;
+  unsupportedRule?: string; // an RRULE the app can't represent; only the first occurrence is kept
+  recurrenceId?: string; // on overrides: the date of the parent occurrence this replaces
+}
+
+export interface ParseOptions {
+  timeZone?: string; // zone to convert times into; defaults to the device's
+}
+
+interface Property {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+const unescapeText = (value: string) =>
+  value.replace(/\\([\\;,nN])/g, (_, char) => (char === 'n' || char === 'N' ? '\n' : char));
+
+// Split on `separator` outside double quotes (parameter values may contain ; and :)
+function splitUnquoted(text: string, separator: string, limit = Infinity): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (const char of text) {
+    if (char === '"') quoted = !quoted;
+    if (char === separator && !quoted && parts.length < limit - 1) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts;
+}
+
+function parseLine(line: string): Property | null {
+  const [head, value] = splitUnquoted(line, ':', 2);
+  if (value === undefined) return null;
+  const [name, ...rawParams] = splitUnquoted(head, ';');
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const eq = param.indexOf('=');
+    if (eq > 0) params[param.slice(0, eq).toUpperCase()] = param.slice(eq + 1).replace(/^"|"$/g, '');
+  }
+  return { name: name.toUpperCase(), params, value };
+}
+
+const expandDate = (value: string) => `${value.slice(0, 4)}-${value.slice(4, 6)}-${value.slice(6, 8)}`;
+
+interface DateValue extends WallTime {
+  allDay: boolean;
+}
+
+/**
+ * A DATE or DATE-TIME value as wall-clock time in `zone`. UTC and TZID times
+ * are converted; floating times and TZIDs this runtime doesn't know (e.g.
+ * Windows zone names) are taken as they are.
+ */
+function parseDateValue(prop: Property, zone: string): DateValue | null {
+  const match = /^(\d{8})(?:T(\d{2})(\d{2})\d{2}(Z)?)?$/.exec(prop.value.trim());
+  if (!match) return null;
+  const date = expandDate(match[1]);
+  if (!match[2]) return { date, time: '00:00', allDay: true };
+  const time = `${match[2]}:${match[3]}`;
+  if (match[4]) return { ...toWallTime(Date.parse(`${date}T${time}:00Z`), zone), allDay: false };
+  const tzid = prop.params.TZID?.replace(/^\//, '');
+  if (tzid && isValidTimeZone(tzid)) return { ...convertWallTime(date, time, tzid, zone), allDay: false };
+  return { date, time, allDay: false };
+}
+
+// DURATION values such as PT45M, P1D or P1DT2H30M
+function parseDuration(value: string): number | null {
+  const match = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim());
+  if (!match) return null;
+  const [, sign, weeks, days, hours, minutes] = match;
+  const total = (Number(weeks) || 0) * 10080 + (Number(days) || 0) * 1440 + (Number(hours) || 0) * 60 + (Number(minutes) || 0);
+  return sign === '-' ? -total : total;
+}
+
+const minutesBetween = (start: WallTime, end: WallTime) =>
+  (Date.parse(`${end.date}T${end.time}:00Z`) - Date.parse(`${start.date}T${start.time}:00Z`)) / 60000;
+
+const dayDiff = (from: string, to: string) => Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000);
+
+function toEvent(props: Property[], zone: string): ParsedEvent | null {
+  const get = (name: string) => props.find(p => p.name === name);
+  const dtstart = get('DTSTART');
+  const start = dtstart && parseDateValue(dtstart, zone);
+  if (!start) return null;
+
+  let durationMin: number | null = null;
+  const dtend = get('DTEND');
+  const end = dtend && parseDateValue(dtend, zone);
+  if (end) durationMin = minutesBetween(start, end);
+  else if (get('DURATION')) durationMin = parseDuration(get('DURATION')!.value);
+  if (!durationMin || durationMin <= 0) durationMin = start.allDay ? 1440 : 60;
+
+  const event: ParsedEvent = {
+    uid: get('UID')?.value.trim() || '',
+    summary: unescapeText(get('SUMMARY')?.value || '').trim(),
+    date: start.date,
+    time: start.time,
+    durationMin,
+    allDay: start.allDay,
+    categories: props
+      .filter(p => p.name === 'CATEGORIES')
+      .flatMap(p => splitUnquoted(p.value, ','))
+      .map(c => unescapeText(c).trim().toUpperCase())
+      .filter(Boolean),
+    busy: get('TRANSP')?.value.trim().toUpperCase() !== 'TRANSPARENT',
+    attendees: props
+      .filter(p => p.name === 'ATTENDEE')
+      .map(p => ({
+        name: p.params.CN ? unescapeText(p.params.CN).trim() : undefined,
+        email: /^mailto:/i.test(p.value) ? p.value.replace(/^mailto:/i, '').trim().toLowerCase() : undefined
+      }))
+      .filter(a => a.name || a.email)
+  };
+
+  const description = unescapeText(get('DESCRIPTION')?.value || '').trim();
+  if (description) event.description = description;
+  const status = get('STATUS')?.value.trim().toUpperCase();
+  if (status) event.status = status;
+
+  const recurrenceIdProp = get('RECURRENCE-ID');
+  const recurrenceId = recurrenceIdProp && parseDateValue(recurrenceIdProp, zone);
+  if (recurrenceId) event.recurrenceId = recurrenceId.date;
+
+  const rrule = get('RRULE');
+  if (rrule && !recurrenceId) {
+    const rule = parseRRule(rrule.value, start.date, zone);
+    if (!rule) {
+      event.unsupportedRule = rrule.value;
+    } else {
+      // Converting into another zone can move the start onto a neighbouring
+      // day; the weekdays it repeats on move with it
+      const original = /^(\d{8})/.exec(dtstart.value.trim());
+      const shift = original ? dayDiff(expandDate(original[1]), start.date) : 0;
+      if (shift && rule.daysOfWeek) {
+        rule.daysOfWeek = [...new Set(rule.daysOfWeek.map(d => (d + shift + 7) % 7))].sort((a, b) => a - b);
+      }
+      const exceptionDates = props
+        .filter(p => p.name === 'EXDATE')
+        .flatMap(p => p.value.split(',').map(value => parseDateValue({ ...p, value }, zone)))
+        .filter((value): value is DateValue => !!value)
+        .map(value => value.date);
+      if (exceptionDates.length > 0) rule.exceptionDates = [...new Set(exceptionDates)].sort();
+      event.recurrence = rule;
+    }
+  }
+  return event;
+}
+
+/**
+ * The events in an .ics document. Components other than VEVENT (time zone
+ * definitions, to-dos, alarms) are skipped, as are events without a start.
+ */
+export function parseCalendar(text: string, options: ParseOptions = {}): ParsedEvent[] {
+  const zone = resolveTimeZone(options.timeZone, deviceTimeZone());
+  // Unfold continuation lines (CRLF followed by a space or tab)
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+
+  const events: ParsedEvent[] = [];
+  const stack: string[] = [];
+  let props: Property[] = [];
+  for (const line of lines) {
+    const prop = parseLine(line);
+    if (!prop) continue;
+    if (prop.name === 'BEGIN') {
+      stack.push(prop.value.trim().toUpperCase());
+      if (stack[stack.length - 1] === 'VEVENT') props = [];
+    } else if (prop.name === 'END') {
+      const component = stack.pop();
+      if (component === 'VEVENT') {
+        const event = toEvent(props, zone);
+        if (event) events.push(event);
+      }
+    } else if (stack[stack.length - 1] === 'VEVENT') {
+      props.push(prop);
+    }
+  }
+  return events;
+}
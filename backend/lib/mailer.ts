@@ -0,0 +1,127 @@
+/**
+ * Server-side email delivery through a pluggable transport:
+ *   resend   sends through Resend (the default when RESEND_API_KEY is set)
+ *   console  logs the message; the default in development without an API
+ *            key, so local development works without an email provider
+ *   file     writes each message as JSON to EMAIL_FILE_DIR (default .mail),
+ *            for inspecting emails in development and tests
+ * EMAIL_TRANSPORT picks one explicitly; setMailTransport swaps in another.
+ * In production nothing falls back to the console: without a working
+ * transport every send fails (and is logged as FAILED) rather than printing
+ * codes and links to the server log and reporting them sent.
+ */
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Resend } from 'resend';
+import { isProduction } from './env.js';
+
+export { escapeHtml } from './emailTemplates.js';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text?: string;
+  from?: string;
+  replyTo?: string;
+}
+
+export interface MailResult {
+  ok: boolean;
+  id?: string;
+  error?: string;
+  transport?: string; // which transport handled it
+}
+
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage & { from: string }): Promise<{ id?: string; error?: string }>;
+}
+
+const DEFAULT_FROM = process.env.EMAIL_FROM || 'Halo Assistant <noreply@halo.app>';
+
+export function resendTransport(apiKey: string): MailTransport {
+  const resend = new Resend(apiKey);
+  return {
+    name: 'resend',
+    async send(message) {
+      const { data, error } = await resend.emails.send({
+        from: message.from,
+        to: message.to,
+        subject: message.subject,
+        html: message.html,
+        text: message.text,
+        replyTo: message.replyTo
+      });
+      return error ? { error: error.message } : { id: data?.id };
+    }
+  };
+}
+
+export const consoleTransport: MailTransport = {
+  name: 'console',
+  async send(message) {
+    console.log(`📧 [dev mail] to=${message.to} subject="${message.subject}"`);
+    if (message.text) console.log(message.text);
+    return { id: `console_${Date.now()}` };
+  }
+};
+
+export function fileTransport(dir: string): MailTransport {
+  return {
+    name: 'file',
+    async send(message) {
+      const id = `file_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+      await fs.mkdir(dir, { recursive: true });
+      await fs.writeFile(path.join(dir, `${id}.json`), JSON.stringify({ id, sentAt: new Date().toISOString(), ...message }, null, 2));
+      return { id };
+    }
+  };
+}
+
+/** Fails every send; what production gets when no transport is configured. */
+const unconfiguredTransport: MailTransport = {
+  name: 'none',
+  async send() {
+    return { error: 'No mail transport configured' };
+  }
+};
+
+function transportFromEnv(): MailTransport {
+  const production = isProduction();
+  const name = process.env.EMAIL_TRANSPORT || (process.env.RESEND_API_KEY ? 'resend' : production ? 'none' : 'console');
+  const fallback = production ? unconfiguredTransport : consoleTransport;
+  const instead = production ? 'emails will fail' : 'logging emails to the console';
+  if (name === 'file') return fileTransport(process.env.EMAIL_FILE_DIR || '.mail');
+  if (name === 'resend') {
+    if (process.env.RESEND_API_KEY) return resendTransport(process.env.RESEND_API_KEY);
+    console.warn(`⚠️ EMAIL_TRANSPORT=resend but RESEND_API_KEY is not set; ${instead}`);
+  } else if (name === 'console') {
+    if (!production) return consoleTransport;
+    console.warn('⚠️ EMAIL_TRANSPORT=console is for development only; emails will fail');
+  } else if (name === 'none') {
+    console.warn('⚠️ No mail transport configured (set RESEND_API_KEY); emails will fail');
+  } else {
+    console.warn(`⚠️ Unknown EMAIL_TRANSPORT "${name}"; ${instead}`);
+  }
+  return fallback;
+}
+
+let transport: MailTransport = transportFromEnv();
+
+/** Send through `next` from now on; null goes back to the one the environment picks. */
+export function setMailTransport(next: MailTransport | null): void {
+  transport = next || transportFromEnv();
+}
+
+/** Send `message`. Never throws; a failed send comes back as `{ ok: false, error }`. */
+export async function sendMail(message: MailMessage): Promise<MailResult> {
+  const from = message.from || DEFAULT_FROM;
+  try {
+    const { id, error } = await transport.send({ ...message, from });
+    if (error) return { ok: false, error, transport: transport.name };
+    return { ok: true, id, transport: transport.name };
+  } catch (err: any) {
+    return { ok: false, error: err?.message || 'Email send failed', transport: transport.name };
+  }
+}
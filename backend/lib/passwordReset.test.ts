@@ -0,0 +1,101 @@
+import { afterAll, beforeEach, describe, expect, it } from 'vitest';
+import bcrypt from 'bcryptjs';
+import { requestPasswordReset, confirmPasswordReset } from './passwordReset.js';
+import { setMailTransport } from './mailer.js';
+import { fakeDb, FakeDb } from './testing/fakeDb.js';
+
+const OWNER = 'owner@example.com';
+
+let db: FakeDb;
+let sent: string[];
+
+// Keep the codes that are emailed instead of sending them
+setMailTransport({
+  name: 'test',
+  async send(message) {
+    sent.push(message.text || '');
+    return { id: String(sent.length) };
+  }
+});
+
+afterAll(() => setMailTransport(null));
+
+beforeEach(() => {
+  db = fakeDb({
+    user_data: [{ email: OWNER, password_hash: 'old' }],
+    sessions: [{ id: 's1', user_email: OWNER, expires_at: new Date(Date.now() + 60_000).toISOString() }]
+  });
+  sent = [];
+});
+
+/** Request a reset for the owner and return the emailed code. */
+const requestCode = async () => {
+  expect(await requestPasswordReset(db, OWNER)).toEqual({ ok: true });
+  return sent[sent.length - 1].match(/\d{6}/)![0];
+};
+
+const wrongCode = (code: string) => (code === '000000' ? '111111' : '000000');
+
+const reset = () => db.tables.password_resets[db.tables.password_resets.length - 1];
+
+describe('password reset', () => {
+  it('sets the new password and signs out every session', async () => {
+    const code = await requestCode();
+    expect(await confirmPasswordReset(db, OWNER, code, 'new password')).toEqual({ ok: true });
+
+    expect(await bcrypt.compare('new password', db.tables.user_data[0].password_hash)).toBe(true);
+    expect(db.tables.sessions[0].revoked_at).toBeTruthy();
+  });
+
+  it('accepts a code only once', async () => {
+    const code = await requestCode();
+    await confirmPasswordReset(db, OWNER, code, 'new password');
+    expect(await confirmPasswordReset(db, OWNER, code, 'another')).toMatchObject({ ok: false, status: 400 });
+  });
+
+  it('only accepts the newest code', async () => {
+    const first = await requestCode();
+    await requestCode();
+    expect(await confirmPasswordReset(db, OWNER, first, 'new password')).toMatchObject({ ok: false, status: 400 });
+  });
+
+  it('rejects an expired code', async () => {
+    const code = await requestCode();
+    reset().expires_at = new Date(Date.now() - 1000).toISOString();
+    expect(await confirmPasswordReset(db, OWNER, code, 'new password')).toMatchObject({ ok: false, status: 400 });
+  });
+
+  it('sends nothing for an unknown email', async () => {
+    expect(await requestPasswordReset(db, 'nobody@example.com')).toEqual({ ok: true });
+    expect(sent).toEqual([]);
+  });
+
+  it('stops checking a code after five wrong guesses', async () => {
+    const code = await requestCode();
+    for (let i = 0; i < 5; i++) {
+      expect(await confirmPasswordReset(db, OWNER, wrongCode(code), 'x')).toMatchObject({ ok: false, status: 400 });
+    }
+
+    expect(await confirmPasswordReset(db, OWNER, code, 'new password')).toMatchObject({ ok: false, status: 429 });
+    expect(reset().attempts).toBe(5);
+  });
+
+  it('counts parallel guesses one at a time, so the limit still holds', async () => {
+    const code = await requestCode();
+    reset().attempts = 4;
+
+    const results = await Promise.all([
+      confirmPasswordReset(db, OWNER, wrongCode(code), 'x'),
+      confirmPasswordReset(db, OWNER, wrongCode(code), 'x')
+    ]);
+
+    expect(results.map(r => (r.ok === false ? r.status : 200)).sort()).toEqual([400, 429]);
+    expect(reset().attempts).toBe(5);
+    expect(await confirmPasswordReset(db, OWNER, code, 'new password')).toMatchObject({ ok: false, status: 429 });
+  });
+
+  it('limits how many codes can be requested an hour', async () => {
+    for (let i = 0; i < 5; i++) await requestCode();
+    expect(await requestPasswordReset(db, OWNER)).toMatchObject({ ok: false, status: 429 });
+  });
+});
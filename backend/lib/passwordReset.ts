@@ -0,0 +1,130 @@
+/**
+ * Password reset codes.
+ * Codes are 6 digits, stored bcrypt-hashed in `password_resets`, expire after
+ * 15 minutes, are single-use, and are rate-limited both per email (how many
+ * can be requested) and per code (how many guesses it allows).
+ */
+import crypto from 'crypto';
+import bcrypt from 'bcryptjs';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { sendLoggedMail } from './emailLog.js';
+import { revokeAllSessions } from './sessions.js';
+
+type DB = SupabaseClient<any, any, any>;
+
+const CODE_TTL_MS = 15 * 60 * 1000;
+const REQUEST_WINDOW_MS = 60 * 60 * 1000;
+const MAX_REQUESTS_PER_WINDOW = 5;
+const MAX_ATTEMPTS_PER_CODE = 5;
+
+export type ResetResult = { ok: true } | { ok: false; status: number; error: string };
+
+/**
+ * Create a reset code for `email` and send it.
+ * Succeeds silently for unknown emails so the endpoint can't be used to probe accounts.
+ */
+export async function requestPasswordReset(db: DB, email: string): Promise<ResetResult> {
+  const since = new Date(Date.now() - REQUEST_WINDOW_MS).toISOString();
+  const { count } = await db
+    .from('password_resets')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_email', email)
+    .gte('created_at', since);
+  if ((count || 0) >= MAX_REQUESTS_PER_WINDOW) {
+    return { ok: false, status: 429, error: 'Too many reset requests. Please try again later.' };
+  }
+
+  const { data: user } = await db.from('user_data').select('email').eq('email', email).single();
+  if (!user) return { ok: true };
+
+  // Only the newest code is valid
+  await db
+    .from('password_resets')
+    .update({ used_at: new Date().toISOString() })
+    .eq('user_email', email)
+    .is('used_at', null);
+
+  const code = crypto.randomInt(100000, 1000000).toString();
+  const { error } = await db.from('password_resets').insert({
+    user_email: email,
+    code_hash: await bcrypt.hash(code, 10),
+    expires_at: new Date(Date.now() + CODE_TTL_MS).toISOString()
+  });
+  if (error) {
+    console.error('Password reset insert error:', error);
+    return { ok: false, status: 500, error: 'Failed to create reset code' };
+  }
+
+  const mail = await sendLoggedMail(db, email, 'PASSWORD_RESET', {
+    to: email,
+    subject: 'Your Halo password reset code',
+    text: `Your Halo password reset code is ${code}. It expires in 15 minutes. If you didn't request this, you can ignore this email.`,
+    html: `<p>Your Halo password reset code is:</p><p style="font-size:24px;font-weight:bold;letter-spacing:4px;">${code}</p><p>It expires in 15 minutes. If you didn't request this, you can ignore this email.</p>`
+  });
+  if (!mail.ok) {
+    console.error('Password reset email error:', mail.error);
+    return { ok: false, status: 502, error: 'Failed to send reset email' };
+  }
+
+  return { ok: true };
+}
+
+/**
+ * Check `code` against the newest outstanding reset for `email` and, if it
+ * matches, set the new password and sign out every existing session.
+ */
+export async function confirmPasswordReset(db: DB, email: string, code: string, newPassword: string): Promise<ResetResult> {
+  const invalid: ResetResult = { ok: false, status: 400, error: 'Invalid or expired code' };
+
+  const { data: reset } = await db
+    .from('password_resets')
+    .select('id, code_hash, expires_at, attempts')
+    .eq('user_email', email)
+    .is('used_at', null)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .single();
+
+  if (!reset || new Date(reset.expires_at).getTime() < Date.now()) return invalid;
+  if (reset.attempts >= MAX_ATTEMPTS_PER_CODE) {
+    return { ok: false, status: 429, error: 'Too many attempts. Request a new code.' };
+  }
+
+  // Count the guess before checking it. The update only applies while
+  // attempts is still what we read, so parallel guesses can't share a slot
+  // and the cap holds; a guess that loses the race is rejected unchecked.
+  const { data: claimed } = await db
+    .from('password_resets')
+    .update({ attempts: reset.attempts + 1 })
+    .eq('id', reset.id)
+    .eq('attempts', reset.attempts)
+    .is('used_at', null)
+    .select('id');
+  if (!claimed || claimed.length === 0) {
+    return { ok: false, status: 429, error: 'Too many attempts at once. Please try again.' };
+  }
+
+  const matches = await bcrypt.compare(code, reset.code_hash);
+  if (!matches) return invalid;
+
+  // Consume the code before changing the password so it can't be replayed
+  const { data: consumed } = await db
+    .from('password_resets')
+    .update({ used_at: new Date().toISOString() })
+    .eq('id', reset.id)
+    .is('used_at', null)
+    .select('id');
+  if (!consumed || consumed.length === 0) return invalid;
+
+  const { error } = await db
+    .from('user_data')
+    .update({ password_hash: await bcrypt.hash(newPassword, 10) })
+    .eq('email', email);
+  if (error) {
+    console.error('Password reset update error:', error);
+    return { ok: false, status: 500, error: 'Failed to reset password' };
+  }
+
+  await revokeAllSessions(db, email);
+  return { ok: true };
+}
@@ -0,0 +1,65 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { allowBookingAttempt, createPublicBooking, pruneBookingAttempts } from './publicBooking.js';
+import { addDays, toWallTime } from './timeZone.js';
+import { fakeDb, FakeDb } from './testing/fakeDb.js';
+
+const OWNER = 'owner@example.com';
+const nextWeek = addDays(toWallTime(Date.now(), 'UTC').date, 7);
+
+let db: FakeDb;
+
+beforeEach(() => {
+  db = fakeDb({
+    user_data: [{
+      email: OWNER,
+      booking_slug: 'salon',
+      business_profile: { name: 'Salon', timeZone: 'UTC', workingHours: { start: '09:00', end: '17:00' } }
+    }],
+    services: [{ business_email: OWNER, id: 's1', name: 'Cut', duration_min: 60, position: 0 }]
+  });
+});
+
+const book = (name: string, time = '10:00') =>
+  createPublicBooking(db, 'salon', { serviceId: 's1', date: nextWeek, time, clients: [{ name, email: `${name.toLowerCase()}@example.com` }] });
+
+describe('createPublicBooking', () => {
+  it('books a free time as pending', async () => {
+    const result = await book('Ana');
+    expect(result).toMatchObject({ ok: true, booking: { date: nextWeek, time: '10:00', status: 'PENDING' } });
+    expect(db.tables.appointments).toHaveLength(1);
+  });
+
+  it('refuses a time that is already booked', async () => {
+    await book('Ana');
+    expect(await book('Ben', '10:30')).toMatchObject({ ok: false, status: 409 });
+  });
+
+  it('keeps only one of two bookings made for the same time at once', async () => {
+    const results = await Promise.all([book('Ana'), book('Ben')]);
+
+    expect(results.filter(r => r.ok)).toHaveLength(1);
+    expect(results.filter(r => !r.ok)).toEqual([{ ok: false, status: 409, error: 'That time is no longer available' }]);
+    expect(db.tables.appointments).toHaveLength(1);
+    // The turned-away client isn't left behind either
+    expect(db.tables.clients.map(c => c.id)).toEqual([db.tables.appointments[0].client_id]);
+  });
+});
+
+describe('allowBookingAttempt', () => {
+  it('allows ten attempts an hour per visitor, counted in the database', async () => {
+    for (let i = 0; i < 10; i++) expect(await allowBookingAttempt(db, '1.2.3.4:salon')).toBe(true);
+
+    expect(await allowBookingAttempt(db, '1.2.3.4:salon')).toBe(false);
+    expect(await allowBookingAttempt(db, '5.6.7.8:salon')).toBe(true);
+    expect(db.tables.booking_attempts).toHaveLength(11);
+  });
+
+  it('stops counting attempts older than an hour, and prunes them', async () => {
+    const old = new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString();
+    db.tables.booking_attempts = Array.from({ length: 10 }, () => ({ client_key: '1.2.3.4:salon', created_at: old }));
+
+    expect(await allowBookingAttempt(db, '1.2.3.4:salon')).toBe(true);
+    await pruneBookingAttempts(db);
+    expect(db.tables.booking_attempts).toHaveLength(1);
+  });
+});
@@ -0,0 +1,384 @@
+/**
+ * Public booking: the client-facing side of a business, reached through its
+ * booking slug (halo.app/book/<slug>) without signing in.
+ * Only what a client needs is exposed — services, staff names and hours,
+ * working hours and busy times (never other clients' names or details).
+ *
+ * Dates and times are in the business's time zone; the page converts them to
+ * the visitor's zone for display.
+ */
+import crypto from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { listEntities, insertEntity, deleteEntity } from './entities.js';
+import { validateEntity } from './validation.js';
+import { busyIntervalsBetween, checkSlot, durationsOf, findConflicts, fromMinutes, performs } from './availability.js';
+import { addDays, fromWallTime, resolveTimeZone, toWallTime } from './timeZone.js';
+import { escapeHtml } from './mailer.js';
+import { sendLoggedMail } from './emailLog.js';
+import { appointmentUrl } from './signedLinks.js';
+
+type DB = SupabaseClient<any, any, any>;
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_RE = /^([01]\d|2[0-3]):[0-5]\d$/;
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const SLUG_RE = /^[a-z0-9](?:[a-z0-9-]{0,38}[a-z0-9])?$/;
+
+const AVAILABILITY_DAYS = 60; // how far ahead busy times are published
+const ATTEMPT_WINDOW_MS = 60 * 60 * 1000;
+const MAX_ATTEMPTS_PER_WINDOW = 10;
+const MAX_GROUP_SIZE = 20;
+const MAX_TESTIMONIALS = 6;
+
+export type PublicBookingResult =
+  | { ok: true; booking: { appointmentId: string; date: string; time: string; status: string } }
+  | { ok: false; status: number; error: string };
+
+export interface PublicBookingInput {
+  serviceId?: string;
+  staffId?: string;
+  date?: string;
+  time?: string;
+  notes?: string;
+  clients?: { name?: string; email?: string; phone?: string }[];
+}
+
+// ================================================================
+// SLUGS
+// ================================================================
+
+export function slugify(name: string): string {
+  const slug = (name || '')
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 40)
+    .replace(/-+$/, '');
+  return slug || 'business';
+}
+
+export const isValidSlug = (slug: string) => SLUG_RE.test(slug);
+
+async function slugTaken(db: DB, slug: string): Promise<boolean> {
+  const { data } = await db.from('user_data').select('email').eq('booking_slug', slug).maybeSingle();
+  return !!data;
+}
+
+/** The business's booking slug, created from its name the first time it's asked for. */
+export async function ensureBookingSlug(db: DB, businessEmail: string): Promise<string> {
+  const { data: user, error } = await db
+    .from('user_data').select('booking_slug, business_profile').eq('email', businessEmail).single();
+  if (error) throw new Error(`Failed to load account: ${error.message}`);
+  if (user.booking_slug) return user.booking_slug;
+
+  const base = slugify(user.business_profile?.name);
+  let slug = base;
+  for (let n = 2; await slugTaken(db, slug); n++) {
+    slug = n <= 9 ? `${base}-${n}` : `${base}-${crypto.randomBytes(3).toString('hex')}`;
+  }
+
+  const { error: updateError } = await db.from('user_data').update({ booking_slug: slug }).eq('email', businessEmail);
+  if (updateError) throw new Error(`Failed to save booking slug: ${updateError.message}`);
+  return slug;
+}
+
+/** The business behind a booking slug, or null if no business uses it. */
+export async function findBusiness(db: DB, slug: string): Promise<{ email: string; profile: any } | null> {
+  if (!isValidSlug(slug)) return null;
+  const { data } = await db
+    .from('user_data').select('email, business_profile').eq('booking_slug', slug).maybeSingle();
+  if (!data || !data.business_profile) return null;
+  return { email: data.email, profile: data.business_profile };
+}
+
+// ================================================================
+// PUBLIC VIEW
+// ================================================================
+
+// Businesses that haven't chosen a zone are treated as UTC
+const timeZoneOf = (profile: any) => resolveTimeZone(profile?.timeZone);
+
+const today = (timeZone: string) => toWallTime(Date.now(), timeZone).date;
+
+/**
+ * Busy times (no client details) between `from` and `to`, inclusive, with
+ * recurring appointments expanded. Shaped as availability entries so the
+ * booking page can run the same availability engine.
+ */
+function busyTimes(appointments: any[], services: any[], from: string, to: string) {
+  return busyIntervalsBetween(from, to, appointments, durationsOf(services)).map(b => ({
+    date: b.date,
+    time: fromMinutes(b.start),
+    durationMin: b.end - b.start,
+    staffId: b.staffId,
+    status: b.blocksAll ? 'BLOCKED' : undefined
+  }));
+}
+
+// "Jane Doe" -> "Jane D."; testimonials never show a client's full name
+const shortName = (name: string) => {
+  const [first, ...rest] = (name || '').trim().split(/\s+/);
+  const last = rest.pop();
+  return last ? `${first} ${last[0].toUpperCase()}.` : first || 'A client';
+};
+
+/** Reviews the owner featured, newest first, unless hidden or flagged since. */
+async function testimonialsOf(db: DB, businessEmail: string) {
+  const [ratings, clients] = await Promise.all([
+    listEntities(db, 'ratings', businessEmail),
+    listEntities(db, 'clients', businessEmail)
+  ]);
+  return ratings
+    .filter(r => r.featured && !r.hidden && !r.flagged && r.comment)
+    .sort((a, b) => (b.date || '').localeCompare(a.date || ''))
+    .slice(0, MAX_TESTIMONIALS)
+    .map(r => ({
+      rating: r.businessRating,
+      comment: r.comment,
+      name: shortName(clients.find(c => c.id === r.clientId)?.name),
+      date: (r.date || '').slice(0, 10),
+      reply: r.reply
+    }));
+}
+
+/** Everything the booking page needs for `slug`, or null if no business uses it. */
+export async function getPublicBusiness(db: DB, slug: string) {
+  const business = await findBusiness(db, slug);
+  if (!business) return null;
+
+  const [services, staff, appointments, testimonials] = await Promise.all([
+    listEntities(db, 'services', business.email),
+    listEntities(db, 'staff', business.email),
+    listEntities(db, 'appointments', business.email),
+    business.profile.showTestimonials ? testimonialsOf(db, business.email) : []
+  ]);
+  const { profile } = business;
+  const timeZone = timeZoneOf(profile);
+  const from = today(timeZone);
+  const to = addDays(from, AVAILABILITY_DAYS);
+
+  return {
+    slug,
+    business: {
+      name: profile.name,
+      category: profile.category,
+      avatarUrl: profile.avatarUrl,
+      workingHours: profile.workingHours,
+      bufferMin: profile.bufferMin || 0,
+      timeZone,
+      services,
+      staff: staff.map(s => ({
+        id: s.id,
+        name: s.name,
+        role: s.role,
+        schedule: s.schedule,
+        // Only the dates; the reason stays private
+        timeOff: (s.timeOff || [])
+          .filter((off: any) => off.endDate >= from && off.startDate <= to)
+          .map((off: any) => ({ startDate: off.startDate, endDate: off.endDate })),
+        serviceIds: s.serviceIds
+      })),
+      testimonials
+    },
+    availability: {
+      from,
+      to,
+      busy: busyTimes(appointments, services, from, to)
+    }
+  };
+}
+
+// ================================================================
+// BOOKINGS
+// ================================================================
+
+/**
+ * Bookings are unauthenticated, so cap how many one visitor (`key`, their IP
+ * and the booking slug) can make an hour. Counted in the database, since
+ * serverless instances share no memory. Returns false once over the limit.
+ */
+export async function allowBookingAttempt(db: DB, key: string): Promise<boolean> {
+  const since = new Date(Date.now() - ATTEMPT_WINDOW_MS).toISOString();
+  const { count, error } = await db
+    .from('booking_attempts')
+    .select('id', { count: 'exact', head: true })
+    .eq('client_key', key)
+    .gte('created_at', since);
+  if (error) throw new Error(`Failed to count booking attempts: ${error.message}`);
+  if ((count || 0) >= MAX_ATTEMPTS_PER_WINDOW) return false;
+
+  const { error: insertError } = await db.from('booking_attempts').insert({ client_key: key });
+  if (insertError) throw new Error(`Failed to record booking attempt: ${insertError.message}`);
+  return true;
+}
+
+/** Delete booking attempts too old to count. */
+export async function pruneBookingAttempts(db: DB): Promise<void> {
+  const since = new Date(Date.now() - ATTEMPT_WINDOW_MS).toISOString();
+  const { error } = await db.from('booking_attempts').delete().lt('created_at', since);
+  if (error) throw new Error(`Failed to prune booking attempts: ${error.message}`);
+}
+
+/**
+ * Book an appointment on behalf of a client. The appointment is created as
+ * PENDING for the owner to confirm; clients are matched to existing ones by
+ * email, otherwise created. With `appUrl`, clients are emailed a link to
+ * manage the booking (see appointmentLinks.ts).
+ */
+export async function createPublicBooking(db: DB, slug: string, input: PublicBookingInput, appUrl?: string): Promise<PublicBookingResult> {
+  const business = await findBusiness(db, slug);
+  if (!business) return { ok: false, status: 404, error: 'Booking page not found' };
+  const { email: businessEmail, profile } = business;
+
+  const [services, staff] = await Promise.all([
+    listEntities(db, 'services', businessEmail),
+    listEntities(db, 'staff', businessEmail)
+  ]);
+
+  const service = services.find(s => s.id === input.serviceId);
+  if (!service) return { ok: false, status: 400, error: 'Please choose a service' };
+  const member = input.staffId ? staff.find(s => s.id === input.staffId) : undefined;
+  if (input.staffId && !member) return { ok: false, status: 400, error: 'Unknown staff member' };
+  if (member && !performs(member, service.id)) {
+    return { ok: false, status: 400, error: `${member.name} doesn't offer this service` };
+  }
+
+  const { date, time } = input;
+  if (!date || !DATE_RE.test(date) || isNaN(Date.parse(date))) return { ok: false, status: 400, error: 'Please choose a valid date' };
+  if (!time || !TIME_RE.test(time)) return { ok: false, status: 400, error: 'Please choose a valid time' };
+  if (fromWallTime(date, time, timeZoneOf(profile)) <= Date.now()) return { ok: false, status: 400, error: 'That time has already passed' };
+
+  const hours = profile.workingHours;
+  const workingHours = hours?.start && hours?.end ? hours : { start: '00:00', end: '24:00' };
+  const slot = {
+    date,
+    time,
+    durationMin: service.durationMin || 60,
+    workingHours,
+    bufferMin: profile.bufferMin || 0,
+    staffId: input.staffId || undefined,
+    serviceId: service.id,
+    staff
+  };
+  if (checkSlot({ ...slot, entries: [] }) === null) {
+    return { ok: false, status: 400, error: 'That time is outside working hours' };
+  }
+
+  const people = (Array.isArray(input.clients) ? input.clients : [])
+    .map(c => ({
+      name: String(c?.name || '').trim().slice(0, 100),
+      email: String(c?.email || '').trim().toLowerCase().slice(0, 200),
+      phone: String(c?.phone || '').trim().slice(0, 40)
+    }));
+  if (people.length === 0 || people.some(p => !p.name)) return { ok: false, status: 400, error: 'Please enter a name for each client' };
+  if (people.length > (service.pricePerPerson ? MAX_GROUP_SIZE : 1)) return { ok: false, status: 400, error: 'Too many clients for this service' };
+  if (people.some(p => p.email && !EMAIL_RE.test(p.email))) return { ok: false, status: 400, error: 'Please enter a valid email address' };
+
+  // Who takes the booking with `appointments` on the calendar, or null when they leave no room for it
+  const assignStaff = (appointments: any[], staffId = input.staffId): string | undefined | null => {
+    const freeStaff = checkSlot({ ...slot, staffId: staffId || undefined, entries: busyTimes(appointments, services, date, date) });
+    if (freeStaff === null) return null;
+    const assigned = staffId || freeStaff[0];
+    // The same check the app's edit forms warn with; clients never get booked over a conflict
+    const conflicts = findConflicts(
+      { id: '', date, time, serviceId: service.id, durationMin: service.durationMin || 60, staffId: assigned },
+      appointments,
+      durationsOf(services)
+    );
+    return conflicts.some(c => c.reason !== 'OVERLAP' || !assigned) ? null : assigned;
+  };
+  const taken: PublicBookingResult = { ok: false, status: 409, error: 'That time is no longer available' };
+
+  // The slot must still be free (another client may have just taken it)
+  const staffId = assignStaff(await listEntities(db, 'appointments', businessEmail));
+  if (staffId === null) return taken;
+
+  // Reuse existing clients by email
+  const existing = await listEntities(db, 'clients', businessEmail);
+  const clients: any[] = [];
+  const added: string[] = [];
+  for (const person of people) {
+    const match = person.email && existing.find(c => (c.email || '').toLowerCase() === person.email);
+    if (match) {
+      clients.push(match);
+      continue;
+    }
+    const client = {
+      id: crypto.randomUUID(),
+      name: person.name,
+      email: person.email,
+      phone: person.phone,
+      notes: [],
+      preferences: 'New Client via Online Booking',
+      lastVisit: null
+    };
+    const errors = validateEntity('clients', client);
+    if (errors.length > 0) return { ok: false, status: 400, error: errors[0] };
+    clients.push(await insertEntity(db, 'clients', businessEmail, client));
+    added.push(client.id);
+  }
+
+  const appointment = {
+    id: crypto.randomUUID(),
+    clientId: clients[0].id,
+    clientName: clients[0].name,
+    clientIds: clients.map(c => c.id),
+    clientNames: clients.map(c => c.name),
+    serviceId: service.id,
+    date,
+    time,
+    status: 'PENDING',
+    staffId,
+    numberOfPeople: service.pricePerPerson ? clients.length : undefined,
+    notes: input.notes ? String(input.notes).trim().slice(0, 1000) || undefined : undefined
+  };
+  const errors = validateEntity('appointments', appointment);
+  if (errors.length > 0) return { ok: false, status: 400, error: errors[0] };
+  await insertEntity(db, 'appointments', businessEmail, appointment);
+
+  // Two requests for one time can both pass the check above, so check again
+  // now that this booking is saved, against the appointments saved before it
+  // (listed in creation order). Of two racing bookings only the first stays.
+  const saved = await listEntities(db, 'appointments', businessEmail);
+  const before = saved.slice(0, Math.max(0, saved.findIndex(a => a.id === appointment.id)));
+  if (assignStaff(before, staffId) === null) {
+    await deleteEntity(db, 'appointments', businessEmail, appointment.id);
+    await Promise.all(added.map(id => deleteEntity(db, 'clients', businessEmail, id)));
+    return taken;
+  }
+
+  if (appUrl) {
+    const link = appointmentUrl(appUrl, { email: businessEmail, id: appointment.id, date, startsAt: fromWallTime(date, time, timeZoneOf(profile)) });
+    for (const client of clients.filter(c => c.email)) {
+      const mail = await sendLoggedMail(db, businessEmail, 'BOOKING', bookingEmail({ client, businessName: profile.name || '', serviceName: service.name, date, time, timeZone: timeZoneOf(profile), link }));
+      // The booking stands either way; the owner still sees it
+      if (!mail.ok) console.error(`Booking email error for ${client.email}:`, mail.error);
+    }
+  }
+
+  return { ok: true, booking: { appointmentId: appointment.id, date, time, status: appointment.status } };
+}
+
+function bookingEmail(options: {
+  client: { name: string; email: string };
+  businessName: string;
+  serviceName: string;
+  date: string;
+  time: string;
+  timeZone: string;
+  link: string;
+}) {
+  const { client, businessName, serviceName, date, time, timeZone, link } = options;
+  const when = new Date(fromWallTime(date, time, timeZone)).toLocaleString('en-US', {
+    timeZone, weekday: 'long', month: 'long', day: 'numeric', hour: 'numeric', minute: '2-digit', timeZoneName: 'short'
+  });
+  const at = businessName ? ` at ${businessName}` : '';
+  return {
+    to: client.email,
+    subject: `Booking received: ${serviceName}${at}, ${when}`,
+    text: `Hi ${client.name}, we've received your booking for ${serviceName}${at} on ${when}. It's pending until the business confirms it.\nNeed to change it? Reschedule or cancel here: ${link}`,
+    html: `<p>Hi ${escapeHtml(client.name)},</p><p>We've received your booking for <strong>${escapeHtml(serviceName)}</strong>${escapeHtml(at)} on <strong>${when}</strong>. It's pending until the business confirms it.</p><p>Need to change it? <a href="${link}">Reschedule or cancel</a></p>`
+  };
+}
@@ -0,0 +1,122 @@
+/**
+ * Public booking routes, mounted by both servers:
+ *   GET  /public/:slug            business info + busy times (no auth)
+ *   POST /public/:slug/bookings   book a pending appointment (no auth)
+ *   POST /public/:slug/waitlist   join the waitlist (no auth)
+ *   GET  /waitlist-offers/:token  what a waitlist claim link offers (no auth)
+ *   POST /waitlist-offers/:token/claim    book the offered time (no auth)
+ *   POST /waitlist-offers/:token/decline  pass it on to the next client (no auth)
+ *   GET  /booking-link            the signed-in owner's booking slug
+ */
+import express from 'express';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getPublicBusiness, createPublicBooking, ensureBookingSlug, allowBookingAttempt } from './publicBooking.js';
+import { joinWaitlist, getWaitlistOffer, claimWaitlistOffer, declineWaitlistOffer } from './waitlist.js';
+import { appUrl } from './env.js';
+
+type DB = SupabaseClient<any, any, any> | null;
+
+interface PublicBookingRouterOptions {
+  db: DB;
+  verifySession: (req: express.Request) => Promise<string | null>;
+}
+
+export function createPublicBookingRouter({ db, verifySession }: PublicBookingRouterOptions): express.Router {
+  const router = express.Router();
+
+  router.get('/public/:slug', async (req, res) => {
+    try {
+      if (!db) return res.status(503).json({ error: 'Database not configured' });
+      const page = await getPublicBusiness(db, req.params.slug.toLowerCase());
+      if (!page) return res.status(404).json({ error: 'Booking page not found' });
+      res.json(page);
+    } catch (error) {
+      console.error('Public booking page error:', error);
+      res.status(500).json({ error: 'Failed to load booking page' });
+    }
+  });
+
+  router.post('/public/:slug/bookings', async (req, res) => {
+    try {
+      if (!db) return res.status(503).json({ error: 'Database not configured' });
+      const slug = req.params.slug.toLowerCase();
+      if (!(await allowBookingAttempt(db, `${req.ip}:${slug}`))) {
+        return res.status(429).json({ error: 'Too many bookings. Please try again later.' });
+      }
+
+      const result = await createPublicBooking(db, slug, req.body || {}, appUrl() ?? undefined);
+      if (result.ok === false) return res.status(result.status).json({ error: result.error });
+      res.status(201).json(result.booking);
+    } catch (error) {
+      console.error('Public booking error:', error);
+      res.status(500).json({ error: 'Failed to book appointment' });
+    }
+  });
+
+  router.post('/public/:slug/waitlist', async (req, res) => {
+    try {
+      if (!db) return res.status(503).json({ error: 'Database not configured' });
+      const slug = req.params.slug.toLowerCase();
+      if (!(await allowBookingAttempt(db, `${req.ip}:${slug}`))) {
+        return res.status(429).json({ error: 'Too many requests. Please try again later.' });
+      }
+
+      const result = await joinWaitlist(db, slug, req.body || {});
+      if (result.ok === false) return res.status(result.status).json({ error: result.error });
+      res.status(201).json({ entryId: result.entryId });
+    } catch (error) {
+      console.error('Join waitlist error:', error);
+      res.status(500).json({ error: 'Failed to join the waitlist' });
+    }
+  });
+
+  router.get('/waitlist-offers/:token', async (req, res) => {
+    try {
+      if (!db) return res.status(503).json({ error: 'Database not configured' });
+      const result = await getWaitlistOffer(db, req.params.token, appUrl());
+      if (result.ok === false) return res.status(result.status).json({ error: result.error });
+      res.json(result.offer);
+    } catch (error) {
+      console.error('Waitlist offer error:', error);
+      res.status(500).json({ error: 'Failed to load the offer' });
+    }
+  });
+
+  router.post('/waitlist-offers/:token/claim', async (req, res) => {
+    try {
+      if (!db) return res.status(503).json({ error: 'Database not configured' });
+      const result = await claimWaitlistOffer(db, req.params.token, appUrl());
+      if (result.ok === false) return res.status(result.status).json({ error: result.error });
+      res.status(201).json(result.booking);
+    } catch (error) {
+      console.error('Claim waitlist offer error:', error);
+      res.status(500).json({ error: 'Failed to book the offered time' });
+    }
+  });
+
+  router.post('/waitlist-offers/:token/decline', async (req, res) => {
+    try {
+      if (!db) return res.status(503).json({ error: 'Database not configured' });
+      const result = await declineWaitlistOffer(db, req.params.token, req.body?.leave === true, appUrl());
+      if (result.ok === false) return res.status(result.status).json({ error: result.error });
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Decline waitlist offer error:', error);
+      res.status(500).json({ error: 'Failed to pass on the offer' });
+    }
+  });
+
+  router.get('/booking-link', async (req, res) => {
+    try {
+      if (!db) return res.status(503).json({ error: 'Database not configured' });
+      const email = await verifySession(req);
+      if (!email) return res.status(401).json({ error: 'Not authenticated' });
+      res.json({ slug: await ensureBookingSlug(db, email) });
+    } catch (error) {
+      console.error('Booking link error:', error);
+      res.status(500).json({ error: 'Failed to get booking link' });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,67 @@
+/**
+ * Rating link routes, mounted by both servers:
+ *   POST /rating-links             sign a rating link for a completed appointment ({ appointmentId, date, clientId })
+ *   GET  /public/ratings/:token    the appointment, business and staff a rating link is for (no auth)
+ *   POST /public/ratings/:token    store the client's rating and survey answers (no auth, once per link)
+ */
+import express from 'express';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createRatingLink, getRatingLink, submitRating } from './ratingLinks.js';
+import { appUrl } from './env.js';
+
+type DB = SupabaseClient<any, any, any> | null;
+
+interface RatingLinkRouterOptions {
+  db: DB;
+  verifySession: (req: express.Request) => Promise<string | null>;
+}
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+export function createRatingLinkRouter({ db, verifySession }: RatingLinkRouterOptions): express.Router {
+  const router = express.Router();
+
+  router.post('/rating-links', async (req, res) => {
+    try {
+      const email = await verifySession(req);
+      if (!email) return res.status(401).json({ error: 'Not authenticated' });
+      const { appointmentId, date, clientId } = req.body || {};
+      if (typeof appointmentId !== 'string' || !appointmentId || typeof clientId !== 'string' || !clientId || !DATE_RE.test(String(date))) {
+        return res.status(400).json({ error: 'appointmentId, date and clientId are required' });
+      }
+      const base = appUrl();
+      if (!base) return res.status(503).json({ error: 'FRONTEND_URL is not configured' });
+      // The appointment may not be saved yet; the link is checked against it when it's opened
+      res.json({ url: createRatingLink(base, email, { id: appointmentId, date }, clientId) });
+    } catch (error) {
+      console.error('Rating link error:', error);
+      res.status(500).json({ error: 'Failed to create rating link' });
+    }
+  });
+
+  router.get('/public/ratings/:token', async (req, res) => {
+    try {
+      if (!db) return res.status(503).json({ error: 'Database not configured' });
+      const result = await getRatingLink(db, req.params.token);
+      if (result.ok === false) return res.status(result.status).json({ error: result.error });
+      res.json(result.rating);
+    } catch (error) {
+      console.error('Load rating link error:', error);
+      res.status(500).json({ error: 'Failed to load the rating page' });
+    }
+  });
+
+  router.post('/public/ratings/:token', async (req, res) => {
+    try {
+      if (!db) return res.status(503).json({ error: 'Database not configured' });
+      const result = await submitRating(db, req.params.token, req.body || {});
+      if (result.ok === false) return res.status(result.status).json({ error: result.error });
+      res.status(201).json({ id: result.id });
+    } catch (error) {
+      console.error('Submit rating error:', error);
+      res.status(500).json({ error: 'Failed to save your rating' });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,84 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { createRatingLink, submitRating } from './ratingLinks.js';
+import { signLink } from './signedLinks.js';
+import { fakeDb, FakeDb } from './testing/fakeDb.js';
+
+const OWNER = 'owner@example.com';
+const appointment = { id: 'a1', date: '2025-01-06' };
+
+let db: FakeDb;
+
+beforeEach(() => {
+  db = fakeDb({
+    user_data: [{ email: OWNER, business_profile: { name: 'Salon' } }],
+    appointments: [{
+      business_email: OWNER,
+      id: 'a1',
+      client_id: 'c1',
+      client_name: 'Ana',
+      service_id: 's1',
+      date: '2025-01-06',
+      time: '10:00',
+      status: 'COMPLETED'
+    }],
+    ratings: []
+  });
+});
+
+const tokenOf = (url: string) => url.split('/rate/')[1];
+const link = (clientId = 'c1') => tokenOf(createRatingLink('https://halo.test', OWNER, appointment, clientId));
+
+describe('submitRating', () => {
+  it('stores the rating with the business', async () => {
+    expect(await submitRating(db, link(), { businessRating: 5, comment: ' Lovely ' })).toEqual({ ok: true, id: 'rating_a1_c1' });
+    expect(db.tables.ratings).toMatchObject([{ business_email: OWNER, appointment_id: 'a1', client_id: 'c1', business_rating: 5, comment: 'Lovely' }]);
+  });
+
+  it('refuses a second rating from the same link', async () => {
+    const token = link();
+    await submitRating(db, token, { businessRating: 5 });
+
+    expect(await submitRating(db, token, { businessRating: 1 })).toMatchObject({ ok: false, status: 409 });
+    expect(db.tables.ratings).toHaveLength(1);
+  });
+
+  it('keeps only one of two ratings submitted at once', async () => {
+    const token = link();
+    const results = await Promise.all([submitRating(db, token, { businessRating: 5 }), submitRating(db, token, { businessRating: 1 })]);
+
+    expect(results.filter(r => r.ok)).toHaveLength(1);
+    expect(results.filter(r => !r.ok)).toMatchObject([{ status: 409 }]);
+    expect(db.tables.ratings).toHaveLength(1);
+  });
+
+  it('lets each client on the appointment rate it', async () => {
+    await submitRating(db, link('c1'), { businessRating: 5 });
+    expect(await submitRating(db, link('c2'), { businessRating: 4 })).toEqual({ ok: true, id: 'rating_a1_c2' });
+  });
+
+  it('refuses an appointment that is not completed', async () => {
+    db.tables.appointments[0].status = 'CONFIRMED';
+    expect(await submitRating(db, link(), { businessRating: 5 })).toMatchObject({ ok: false, status: 409 });
+    expect(db.tables.ratings).toEqual([]);
+  });
+
+  it('refuses an expired link', async () => {
+    const token = signLink({ kind: 'rating', email: OWNER, id: 'a1', date: '2025-01-06', client: 'c1', exp: Date.now() - 1000 });
+    expect(await submitRating(db, token, { businessRating: 5 })).toMatchObject({ ok: false, status: 404 });
+  });
+
+  it('refuses a tampered link', async () => {
+    const [, signature] = link().split('.');
+    const forged = Buffer.from(JSON.stringify({ kind: 'rating', email: OWNER, id: 'a1', date: '2025-01-06', client: 'c9', exp: Date.now() + 60_000 })).toString('base64url');
+    expect(await submitRating(db, `${forged}.${signature}`, { businessRating: 5 })).toMatchObject({ ok: false, status: 404 });
+  });
+
+  it('refuses an appointment link used as a rating link', async () => {
+    const token = signLink({ kind: 'appointment', email: OWNER, id: 'a1', date: '2025-01-06', exp: Date.now() + 60_000 });
+    expect(await submitRating(db, token, { businessRating: 5 })).toMatchObject({ ok: false, status: 404 });
+  });
+
+  it('requires an overall rating', async () => {
+    expect(await submitRating(db, link(), { comment: 'Nice' })).toMatchObject({ ok: false, status: 400 });
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * Rating links: when an appointment is completed the owner's app asks for a
+ * signed link (one per client) to put in the "rate your experience" email.
+ * The link opens /rate/<token>, which loads the appointment's context and
+ * stores the client's rating with the business, no sign-in needed.
+ *
+ * Links expire after RATING_LINK_DAYS and can be used once: a rating gets an
+ * id derived from its appointment and client, so a second one is refused.
+ * The business's survey questions for the appointment's service are asked
+ * alongside the stars (see survey.ts).
+ */
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getEntity, insertEntity, listEntities } from './entities.js';
+import { validateEntity } from './validation.js';
+import { resolveTimeZone } from './timeZone.js';
+import { signLink, readLink, LinkPayload } from './signedLinks.js';
+import { surveyQuestionsOf, questionsForService, readAnswers, SurveyQuestion } from './survey.js';
+
+type DB = SupabaseClient<any, any, any>;
+
+const RATING_LINK_DAYS = 30;
+const MAX_COMMENT_LENGTH = 2000;
+
+type Failure = { ok: false; status: number; error: string };
+
+export type RatingLinkResult =
+  | {
+      ok: true;
+      rating: {
+        businessName: string;
+        avatarUrl?: string;
+        serviceName: string;
+        clientName: string;
+        date: string;
+        time: string;
+        timeZone: string;
+        staffId?: string; // who the appointment was with, preselected on the form
+        staff: { id: string; name: string }[];
+        questions: SurveyQuestion[]; // survey questions for this appointment's service
+        alreadyRated: boolean;
+      };
+    }
+  | Failure;
+
+export type SubmitRatingResult = { ok: true; id: string } | Failure;
+
+export interface RatingInput {
+  businessRating?: number;
+  staffRating?: number;
+  staffId?: string;
+  comment?: string;
+  answers?: { questionId: string; value: number | string }[];
+}
+
+/** A rating link for `clientId` on one of the business's appointments. */
+export function createRatingLink(
+  appUrl: string,
+  businessEmail: string,
+  appointment: { id: string; date: string },
+  clientId: string
+): string {
+  const token = signLink({
+    kind: 'rating',
+    email: businessEmail,
+    id: appointment.id,
+    date: appointment.date,
+    client: clientId,
+    exp: Date.now() + RATING_LINK_DAYS * 24 * 60 * 60 * 1000
+  });
+  return `${appUrl}/rate/${token}`;
+}
+
+const ratingIdOf = (appointmentId: string, clientId: string) => `rating_${appointmentId}_${clientId}`;
+
+interface Rated {
+  link: LinkPayload & { client: string };
+  appointment: any;
+  alreadyRated: boolean;
+}
+
+// The completed appointment a rating link is for, and whether its client already rated it
+async function findRated(db: DB, token: string): Promise<Rated | Failure> {
+  const link = readLink(token, 'rating');
+  if (!link || !link.client) return { ok: false, status: 404, error: 'This rating link has expired or is not valid' };
+
+  const [appointment, ratings] = await Promise.all([
+    getEntity(db, 'appointments', link.email, link.id),
+    listEntities(db, 'ratings', link.email)
+  ]);
+  if (!appointment) return { ok: false, status: 404, error: 'This appointment is no longer on record' };
+  if (appointment.status !== 'COMPLETED') {
+    return { ok: false, status: 409, error: 'This appointment has not been marked as completed yet' };
+  }
+  const alreadyRated = ratings.some(r => r.appointmentId === appointment.id && r.clientId === link.client);
+  return { link: { ...link, client: link.client }, appointment, alreadyRated };
+}
+
+/** What a rating link is for, for the rating page. */
+export async function getRatingLink(db: DB, token: string): Promise<RatingLinkResult> {
+  const found = await findRated(db, token);
+  if ('ok' in found) return found;
+  const { link, appointment, alreadyRated } = found;
+
+  const [{ data: user }, services, staff, client] = await Promise.all([
+    db.from('user_data').select('business_profile').eq('email', link.email).maybeSingle(),
+    listEntities(db, 'services', link.email),
+    listEntities(db, 'staff', link.email),
+    getEntity(db, 'clients', link.email, link.client)
+  ]);
+  const profile = user?.business_profile || {};
+  return {
+    ok: true,
+    rating: {
+      businessName: profile.name || '',
+      avatarUrl: profile.avatarUrl,
+      serviceName: services.find(s => s.id === appointment.serviceId)?.name || 'Appointment',
+      clientName: client?.name || appointment.clientName || '',
+      date: appointment.date,
+      time: appointment.time,
+      timeZone: resolveTimeZone(profile.timeZone),
+      staffId: appointment.staffId,
+      // Names only; the rest of the staff record stays private
+      staff: staff.map(s => ({ id: s.id, name: s.name })),
+      questions: questionsForService(surveyQuestionsOf(profile), appointment.serviceId),
+      alreadyRated
+    }
+  };
+}
+
+/** Store the client's rating with the business. */
+export async function submitRating(db: DB, token: string, input: RatingInput): Promise<SubmitRatingResult> {
+  const found = await findRated(db, token);
+  if ('ok' in found) return found;
+  const { link, appointment, alreadyRated } = found;
+  const taken: Failure = { ok: false, status: 409, error: 'You have already rated this appointment. Thank you!' };
+  if (alreadyRated) return taken;
+
+  const staffId = input.staffId ? String(input.staffId) : undefined;
+  if (staffId && !(await getEntity(db, 'staff', link.email, staffId))) {
+    return { ok: false, status: 400, error: 'Unknown staff member' };
+  }
+  const { data: user } = await db.from('user_data').select('business_profile').eq('email', link.email).maybeSingle();
+  const survey = readAnswers(questionsForService(surveyQuestionsOf(user?.business_profile), appointment.serviceId), input.answers);
+  if (survey.ok === false) return { ok: false, status: 400, error: survey.error };
+
+  const rating = {
+    id: ratingIdOf(appointment.id, link.client),
+    appointmentId: appointment.id,
+    clientId: link.client,
+    businessRating: input.businessRating,
+    staffRating: staffId ? input.staffRating || undefined : undefined,
+    staffId,
+    comment: input.comment ? String(input.comment).trim().slice(0, MAX_COMMENT_LENGTH) || undefined : undefined,
+    answers: survey.answers.length > 0 ? survey.answers : undefined,
+    date: new Date().toISOString()
+  };
+  if (!rating.businessRating) return { ok: false, status: 400, error: 'Please rate your overall experience' };
+  const errors = validateEntity('ratings', rating);
+  if (errors.length > 0) return { ok: false, status: 400, error: errors[0] };
+
+  // Two submissions racing each other collide on the id
+  const saved = await insertEntity(db, 'ratings', link.email, rating);
+  if (!saved) return taken;
+  return { ok: true, id: saved.id };
+}
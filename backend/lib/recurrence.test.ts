@@ -0,0 +1,200 @@
+import { describe, expect, it } from 'vitest';
+import {
+  RecurrenceRule,
+  RecurringEntry,
+  expandDates,
+  moveSeries,
+  occurrencesBetween,
+  parseRRule,
+  relinkOverrides,
+  splitSeries,
+  toRRule
+} from './recurrence.js';
+import { buildCalendar, parseCalendar } from './ical.js';
+
+// 2025-01-06 is a Monday
+const series = (date: string, recurrence: RecurrenceRule, extra: Partial<RecurringEntry> = {}): RecurringEntry =>
+  ({ id: 'p', date, time: '09:00', serviceId: 's1', clientName: 'Jane', recurrence, ...extra });
+
+const datesOf = (entries: RecurringEntry[], from: string, to: string) =>
+  occurrencesBetween(entries, from, to).map(o => `${o.entry.id} ${o.date}`);
+
+describe('expandDates', () => {
+  it('repeats every other day until UNTIL, inclusive', () => {
+    const entry = series('2025-01-01', { frequency: 'DAILY', interval: 2, endDate: '2025-01-09' });
+    expect(expandDates(entry, '2024-12-01', '2025-02-01')).toEqual(['2025-01-01', '2025-01-03', '2025-01-05', '2025-01-07', '2025-01-09']);
+  });
+
+  it('stops after COUNT occurrences', () => {
+    const entry = series('2025-01-06', { frequency: 'WEEKLY', interval: 1, count: 4 });
+    expect(expandDates(entry, '2025-01-01', '2025-12-31')).toEqual(['2025-01-06', '2025-01-13', '2025-01-20', '2025-01-27']);
+  });
+
+  it('repeats on several weekdays every other week', () => {
+    const entry = series('2025-01-06', { frequency: 'WEEKLY', interval: 2, daysOfWeek: [1, 3] });
+    expect(expandDates(entry, '2025-01-01', '2025-01-22')).toEqual(['2025-01-06', '2025-01-08', '2025-01-20', '2025-01-22']);
+  });
+
+  it('skips months without the start day rather than moving to the month end', () => {
+    const entry = series('2025-01-31', { frequency: 'MONTHLY', interval: 1 });
+    expect(expandDates(entry, '2025-01-01', '2025-12-31')).toEqual([
+      '2025-01-31', '2025-03-31', '2025-05-31', '2025-07-31', '2025-08-31', '2025-10-31', '2025-12-31'
+    ]);
+  });
+
+  it('does not count skipped months towards COUNT', () => {
+    const entry = series('2025-01-31', { frequency: 'MONTHLY', interval: 1, count: 3 });
+    expect(expandDates(entry, '2025-01-01', '2025-12-31')).toEqual(['2025-01-31', '2025-03-31', '2025-05-31']);
+  });
+
+  it('picks the nth weekday of the month with BYSETPOS', () => {
+    const entry = series('2025-01-14', { frequency: 'MONTHLY', interval: 1, daysOfWeek: [2], setPos: 2 });
+    expect(expandDates(entry, '2025-01-01', '2025-03-31')).toEqual(['2025-01-14', '2025-02-11', '2025-03-11']);
+  });
+
+  it('picks the last weekday of the month with a negative BYSETPOS', () => {
+    const entry = series('2025-01-31', { frequency: 'MONTHLY', interval: 1, daysOfWeek: [1, 2, 3, 4, 5], setPos: -1 });
+    expect(expandDates(entry, '2025-01-01', '2025-05-31')).toEqual(['2025-01-31', '2025-02-28', '2025-03-31', '2025-04-30', '2025-05-30']);
+  });
+
+  it('picks the nth weekday of the start month every year', () => {
+    const entry = series('2025-11-27', { frequency: 'YEARLY', interval: 1, daysOfWeek: [4], setPos: 4 });
+    expect(expandDates(entry, '2025-01-01', '2027-12-31')).toEqual(['2025-11-27', '2026-11-26', '2027-11-25']);
+  });
+
+  it('counts BYSETPOS occurrences towards COUNT', () => {
+    const entry = series('2025-01-06', { frequency: 'MONTHLY', interval: 1, daysOfWeek: [1], setPos: 1, count: 3 });
+    expect(expandDates(entry, '2025-01-01', '2025-12-31')).toEqual(['2025-01-06', '2025-02-03', '2025-03-03']);
+  });
+
+  it('leaves out exception dates', () => {
+    const entry = series('2025-01-06', { frequency: 'WEEKLY', interval: 1, exceptionDates: ['2025-01-13'] });
+    expect(expandDates(entry, '2025-01-01', '2025-01-31')).toEqual(['2025-01-06', '2025-01-20', '2025-01-27']);
+  });
+});
+
+describe('occurrencesBetween', () => {
+  const parent = series('2025-01-06', { frequency: 'WEEKLY', interval: 1 });
+
+  it('lists an override on its own date in place of the occurrence it replaces', () => {
+    const moved: RecurringEntry = { id: 'o', date: '2025-01-14', time: '10:00', recurrenceParentId: 'p', occurrenceDate: '2025-01-13' };
+    expect(datesOf([parent, moved], '2025-01-06', '2025-01-20')).toEqual(['p 2025-01-06', 'o 2025-01-14', 'p 2025-01-20']);
+  });
+
+  it('recognises overrides saved before they were linked by parent id', () => {
+    const legacy: RecurringEntry = { id: 'p_20250113_completed', date: '2025-01-13', time: '09:00', serviceId: 's1', clientName: 'Jane' };
+    expect(datesOf([parent, legacy], '2025-01-13', '2025-01-13')).toEqual(['p_20250113_completed 2025-01-13']);
+  });
+
+  it('sorts by date, then time', () => {
+    const early: RecurringEntry = { id: 'e', date: '2025-01-06', time: '08:00' };
+    expect(datesOf([parent, early], '2025-01-06', '2025-01-06')).toEqual(['e 2025-01-06', 'p 2025-01-06']);
+  });
+});
+
+describe('splitSeries', () => {
+  it('divides the occurrences between the two halves, COUNT and exceptions included', () => {
+    const parent = series('2025-01-06', { frequency: 'WEEKLY', interval: 1, count: 6, exceptionDates: ['2025-01-13', '2025-02-03'] });
+    const { before, rest } = splitSeries(parent, '2025-01-20');
+
+    expect(before.recurrence).toMatchObject({ endDate: '2025-01-19', count: undefined, exceptionDates: ['2025-01-13'] });
+    expect(rest.recurrence).toMatchObject({ count: 4, exceptionDates: ['2025-02-03'] });
+    expect(rest.date).toBe('2025-01-20');
+    expect([...expandDates(before, '2025-01-01', '2025-12-31'), ...expandDates(rest, '2025-01-01', '2025-12-31')])
+      .toEqual(expandDates(parent, '2025-01-01', '2025-12-31'));
+  });
+});
+
+describe('moveSeries', () => {
+  it('shifts the weekdays and exception dates with the start date', () => {
+    const parent = series('2025-01-06', { frequency: 'WEEKLY', interval: 1, daysOfWeek: [1, 3], exceptionDates: ['2025-01-08'] });
+    const moved = moveSeries(parent, '2025-01-07');
+    expect(moved.date).toBe('2025-01-07');
+    expect(moved.recurrence).toMatchObject({ daysOfWeek: [2, 4], exceptionDates: ['2025-01-09'] });
+  });
+});
+
+describe('relinkOverrides', () => {
+  it('keeps an override replacing its occurrence after the series is split and moved', () => {
+    const parent = series('2025-01-06', { frequency: 'WEEKLY', interval: 1 });
+    const kept: RecurringEntry = { id: 'k', date: '2025-01-06', time: '09:00', recurrenceParentId: 'p', occurrenceDate: '2025-01-06' };
+    const cancelled: RecurringEntry = { id: 'c', date: '2025-01-20', time: '09:00', recurrenceParentId: 'p', occurrenceDate: '2025-01-20' };
+
+    // "This and following" from the 13th, moved from Mondays to Tuesdays
+    const { before, rest } = splitSeries(parent, '2025-01-13');
+    const moved = moveSeries({ ...rest, id: 's' }, '2025-01-14');
+    const relinked = relinkOverrides([parent, kept, cancelled], parent, '2025-01-13', moved);
+
+    expect(relinked).toEqual([{ ...cancelled, recurrenceParentId: 's', occurrenceDate: '2025-01-21' }]);
+    expect(datesOf([before, moved, kept, ...relinked], '2025-01-01', '2025-01-31'))
+      .toEqual(['k 2025-01-06', 's 2025-01-14', 'c 2025-01-20', 's 2025-01-28']);
+  });
+});
+
+describe('toRRule / parseRRule', () => {
+  it('round-trips a yearly weekday rule through BYMONTH', () => {
+    const rule: RecurrenceRule = { frequency: 'YEARLY', interval: 1, daysOfWeek: [2], setPos: 2 };
+    const text = toRRule(rule, { date: '2025-03-11' });
+    expect(text).toBe('RRULE:FREQ=YEARLY;BYDAY=TU;BYSETPOS=2;BYMONTH=3');
+    expect(parseRRule(text, '2025-03-11')).toEqual(rule);
+  });
+
+  it('rejects yearly weekday rules without BYMONTH or in another month', () => {
+    expect(parseRRule('FREQ=YEARLY;BYDAY=2TU', '2025-03-11')).toBeNull();
+    expect(parseRRule('FREQ=YEARLY;BYDAY=TU;BYSETPOS=2;BYMONTH=4', '2025-03-11')).toBeNull();
+  });
+
+  it('reads a single BYDAY ordinal as BYSETPOS and rejects ordinals on several days', () => {
+    expect(parseRRule('RRULE:FREQ=MONTHLY;BYDAY=-1FR')).toEqual({ frequency: 'MONTHLY', interval: 1, daysOfWeek: [5], setPos: -1 });
+    expect(parseRRule('FREQ=MONTHLY;BYDAY=1MO,3WE')).toBeNull();
+    expect(parseRRule('FREQ=MONTHLY;BYDAY=1MO,1WE')).toBeNull();
+  });
+
+  it('round-trips COUNT, UNTIL and exception dates at a time of day', () => {
+    const rule: RecurrenceRule = { frequency: 'WEEKLY', interval: 2, endDate: '2025-06-30', exceptionDates: ['2025-01-20'] };
+    const text = toRRule(rule, { date: '2025-01-06', time: '09:30' });
+    expect(text).toBe('RRULE:FREQ=WEEKLY;INTERVAL=2;UNTIL=20250630T235959\nEXDATE:20250120T093000');
+    expect(parseRRule(text, '2025-01-06')).toEqual(rule);
+    expect(parseRRule('FREQ=DAILY;COUNT=5')).toEqual({ frequency: 'DAILY', interval: 1, count: 5 });
+  });
+
+  it('writes UNTIL in UTC and EXDATE with the TZID for a zoned series, and reads them back', () => {
+    const rule: RecurrenceRule = { frequency: 'WEEKLY', interval: 1, endDate: '2025-06-30', exceptionDates: ['2025-01-20'] };
+    const text = toRRule(rule, { date: '2025-01-06', time: '09:30' }, 'America/New_York');
+    expect(text).toBe('RRULE:FREQ=WEEKLY;UNTIL=20250701T035959Z\nEXDATE;TZID=America/New_York:20250120T093000');
+    expect(parseRRule(text, '2025-01-06', 'America/New_York')).toEqual(rule);
+  });
+
+  it('converts UTC UNTIL and EXDATE values into the series zone', () => {
+    const text = 'RRULE:FREQ=DAILY;UNTIL=20250701T035959Z\nEXDATE:20250121T023000Z';
+    expect(parseRRule(text, '2025-01-06', 'America/New_York')).toMatchObject({ endDate: '2025-06-30', exceptionDates: ['2025-01-20'] });
+    expect(parseRRule(text, '2025-01-06')).toMatchObject({ endDate: '2025-07-01', exceptionDates: ['2025-01-21'] });
+    expect(parseRRule('FREQ=DAILY;UNTIL=20250630', '2025-01-06', 'Asia/Tokyo')).toMatchObject({ endDate: '2025-06-30' });
+  });
+});
+
+describe('calendar export and import', () => {
+  it('keeps the end date of a zoned series whose UNTIL is written in UTC', () => {
+    // The last occurrence, 30 June 09:30 in New York, ends the UTC day after
+    const entry = { ...series('2025-01-06', { frequency: 'DAILY', interval: 1, endDate: '2025-06-30' }), id: 'a1', time: '09:30' };
+    const text = buildCalendar({ name: 'Test', entries: [entry], services: [{ id: 's1', name: 'Cut', durationMin: 30 }], timeZone: 'America/New_York' });
+    expect(text).toContain('RRULE:FREQ=DAILY;UNTIL=20250701T035959Z');
+
+    const [event] = parseCalendar(text, { timeZone: 'America/New_York' });
+    expect(event.recurrence).toEqual({ frequency: 'DAILY', interval: 1, endDate: '2025-06-30' });
+    expect(expandDates({ ...entry, recurrence: event.recurrence }, '2025-06-28', '2025-07-05')).toEqual(['2025-06-28', '2025-06-29', '2025-06-30']);
+  });
+
+  it('moves exception and end dates with the occurrences when importing into another zone', () => {
+    // Mondays 21:30 in New York are Tuesdays in UTC
+    const entry = { ...series('2025-01-06', { frequency: 'WEEKLY', interval: 1, endDate: '2025-06-30', exceptionDates: ['2025-01-20'] }), id: 'a1', time: '21:30' };
+    const text = buildCalendar({ name: 'Test', entries: [entry], services: [{ id: 's1', name: 'Cut', durationMin: 30 }], timeZone: 'America/New_York' });
+
+    const [event] = parseCalendar(text, { timeZone: 'UTC' });
+    expect(event).toMatchObject({ date: '2025-01-07', time: '02:30' });
+    expect(event.recurrence).toEqual({ frequency: 'WEEKLY', interval: 1, endDate: '2025-07-01', exceptionDates: ['2025-01-21'] });
+    const imported = { ...entry, date: event.date, recurrence: event.recurrence };
+    expect(expandDates(imported, '2025-01-01', '2025-01-31')).toEqual(['2025-01-07', '2025-01-14', '2025-01-28']);
+    expect(expandDates(imported, '2025-06-20', '2025-07-10')).toEqual(['2025-06-24', '2025-07-01']);
+  });
+});
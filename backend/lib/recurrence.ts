@@ -0,0 +1,462 @@
+/**
+ * Recurrence engine: expands recurring appointments over dates.
+ *
+ * A recurring appointment (the parent) repeats from its `date` according to
+ * its rule. Single occurrences are changed without touching the rule:
+ *   - exception dates on the rule skip an occurrence entirely;
+ *   - an override is a one-off appointment linked to the parent by
+ *     `recurrenceParentId` + `occurrenceDate` that replaces that occurrence
+ *     (e.g. it was completed, cancelled or moved).
+ *
+ * Pure (no Node or browser APIs) so every view and the server share it.
+ */
+import { fromWallTime, toWallTime } from './timeZone.js';
+
+/** Structurally the RecurrenceRule in types.ts; a subset of RFC 5545 RRULE */
+export interface RecurrenceRule {
+  frequency: string; // DAILY | WEEKLY | MONTHLY | YEARLY
+  interval: number;
+  endDate?: string; // YYYY-MM-DD, inclusive (UNTIL)
+  count?: number; // stop after this many occurrences (COUNT)
+  daysOfWeek?: number[]; // 0=Sun ... 6=Sat (BYDAY)
+  setPos?: number; // with daysOfWeek on MONTHLY/YEARLY: 1 = first, 2 = second, -1 = last (BYSETPOS)
+  exceptionDates?: string[]; // occurrences that were removed (EXDATE)
+}
+
+/** The fields of an Appointment the engine looks at */
+export interface RecurringEntry {
+  id?: string;
+  date: string; // YYYY-MM-DD
+  time: string; // HH:mm
+  serviceId?: string;
+  clientName?: string;
+  recurrence?: RecurrenceRule | null;
+  recurrenceParentId?: string; // set on overrides
+  occurrenceDate?: string; // the parent's occurrence an override replaces
+}
+
+export interface Occurrence<T> {
+  entry: T;
+  date: string; // the date this occurrence falls on
+}
+
+const DAY_MS = 86400000;
+const MAX_COUNT_SCAN_DAYS = 366 * 50;
+
+// Dates are handled as whole days in UTC so results don't depend on the host's time zone
+const dayNumber = (date: string) => Math.round(Date.parse(`${date}T00:00:00Z`) / DAY_MS);
+const fromDayNumber = (day: number) => new Date(day * DAY_MS).toISOString().slice(0, 10);
+const weekdayOf = (date: string) => new Date(`${date}T00:00:00Z`).getUTCDay();
+
+const monthIndex = (date: string) => Number(date.slice(0, 4)) * 12 + Number(date.slice(5, 7)) - 1;
+
+/** Days of `date`'s month falling on `daysOfWeek`, picked by `setPos` when given. */
+function weekdaysInMonth(date: string, daysOfWeek: number[], setPos?: number): string[] {
+  const firstDay = dayNumber(`${date.slice(0, 8)}01`);
+  const matches: string[] = [];
+  for (let day = firstDay; fromDayNumber(day).slice(0, 7) === date.slice(0, 7); day++) {
+    const candidate = fromDayNumber(day);
+    if (daysOfWeek.includes(weekdayOf(candidate))) matches.push(candidate);
+  }
+  if (!setPos) return matches;
+  const picked = setPos > 0 ? matches[setPos - 1] : matches[matches.length + setPos];
+  return picked ? [picked] : [];
+}
+
+/** Whether `rule`, starting on `start`, produces an occurrence on `date` (COUNT and exception dates aside). */
+function matchesRule(rule: RecurrenceRule, start: string, date: string): boolean {
+  if (date < start) return false;
+  if (rule.endDate && date > rule.endDate) return false;
+
+  const interval = rule.interval || 1;
+  const days = rule.daysOfWeek && rule.daysOfWeek.length > 0 ? rule.daysOfWeek : null;
+
+  if (rule.frequency === 'DAILY') {
+    if (days && !days.includes(weekdayOf(date))) return false;
+    return (dayNumber(date) - dayNumber(start)) % interval === 0;
+  }
+  if (rule.frequency === 'WEEKLY') {
+    if (days) {
+      if (!days.includes(weekdayOf(date))) return false;
+      // Weeks start on Sunday
+      const startWeek = dayNumber(start) - weekdayOf(start);
+      const targetWeek = dayNumber(date) - weekdayOf(date);
+      return ((targetWeek - startWeek) / 7) % interval === 0;
+    }
+    const diff = dayNumber(date) - dayNumber(start);
+    return diff % 7 === 0 && (diff / 7) % interval === 0;
+  }
+  if (rule.frequency === 'MONTHLY') {
+    if ((monthIndex(date) - monthIndex(start)) % interval !== 0) return false;
+    if (days) return weekdaysInMonth(date, days, rule.setPos).includes(date);
+    return date.slice(8) === start.slice(8);
+  }
+  if (rule.frequency === 'YEARLY') {
+    if ((Number(date.slice(0, 4)) - Number(start.slice(0, 4))) % interval !== 0) return false;
+    if (date.slice(5, 7) !== start.slice(5, 7)) return false;
+    if (days) return weekdaysInMonth(date, days, rule.setPos).includes(date);
+    return date.slice(8) === start.slice(8);
+  }
+  return false;
+}
+
+/** The last date a COUNT-limited rule reaches, or null when it's unlimited. */
+function lastCountedDate(rule: RecurrenceRule, start: string): string | null {
+  if (!rule.count) return null;
+  // The start date counts as the first occurrence even if the rule wouldn't produce it
+  let remaining = rule.count - 1;
+  let day = dayNumber(start);
+  // Some rules never match (e.g. yearly on 30 February), so don't walk forever
+  const limit = rule.endDate ? dayNumber(rule.endDate) : day + MAX_COUNT_SCAN_DAYS;
+  while (remaining > 0 && day < limit) {
+    day++;
+    if (matchesRule(rule, start, fromDayNumber(day))) remaining--;
+  }
+  return fromDayNumber(day);
+}
+
+// COUNT needs a walk from the start date; cache it per rule object
+const countCache = new WeakMap<RecurrenceRule, Map<string, string | null>>();
+
+function countEnd(rule: RecurrenceRule, start: string): string | null {
+  if (!rule.count) return null;
+  let byStart = countCache.get(rule);
+  if (!byStart) countCache.set(rule, byStart = new Map());
+  if (!byStart.has(start)) byStart.set(start, lastCountedDate(rule, start));
+  return byStart.get(start)!;
+}
+
+/** Whether `entry` has an occurrence on `date`. Overrides are not considered; see occurrencesBetween. */
+export function occursOn(entry: RecurringEntry, date: string): boolean {
+  const rule = entry.recurrence;
+  if (!rule) return entry.date === date;
+  if (rule.exceptionDates?.includes(date)) return false;
+  if (entry.date === date) return true;
+  const end = countEnd(rule, entry.date);
+  if (end && date > end) return false;
+  return matchesRule(rule, entry.date, date);
+}
+
+/** Occurrence dates of `entry` between `from` and `to`, inclusive. */
+export function expandDates(entry: RecurringEntry, from: string, to: string): string[] {
+  if (!entry.recurrence) return entry.date >= from && entry.date <= to ? [entry.date] : [];
+  const first = Math.max(dayNumber(from), dayNumber(entry.date));
+  const end = [entry.recurrence.endDate, countEnd(entry.recurrence, entry.date)].filter(Boolean) as string[];
+  const last = Math.min(dayNumber(to), ...end.map(dayNumber));
+  const dates: string[] = [];
+  for (let day = first; day <= last; day++) {
+    const date = fromDayNumber(day);
+    if (occursOn(entry, date)) dates.push(date);
+  }
+  return dates;
+}
+
+// Overrides made before they were linked by parent id: a one-off completed/cancelled
+// copy of the parent, recognised by its id suffix and matching time/service/client
+const isLegacyOverride = (entry: RecurringEntry) =>
+  !entry.recurrence && !entry.recurrenceParentId &&
+  !!entry.id && (entry.id.endsWith('_completed') || entry.id.endsWith('_cancelled'));
+
+const legacyKey = (date: string, entry: RecurringEntry) =>
+  `${date}_${entry.time}_${entry.serviceId}_${entry.clientName}`;
+
+export const isOverride = (entry: RecurringEntry) => !!entry.recurrenceParentId || isLegacyOverride(entry);
+
+export interface OverrideIndex {
+  /** Whether the occurrence of `parent` on `date` has been replaced by an override. */
+  has(parent: RecurringEntry, date: string): boolean;
+}
+
+/** Index the overrides in `entries` so per-occurrence lookups are cheap. */
+export function indexOverrides(entries: RecurringEntry[]): OverrideIndex {
+  const linked = new Set<string>();
+  const legacy = new Set<string>();
+  for (const entry of entries) {
+    if (entry.recurrenceParentId) linked.add(`${entry.recurrenceParentId}_${entry.occurrenceDate || entry.date}`);
+    else if (isLegacyOverride(entry)) legacy.add(legacyKey(entry.date, entry));
+  }
+  return {
+    has: (parent, date) => !!parent.recurrence && (
+      linked.has(`${parent.id}_${date}`) || legacy.has(legacyKey(date, parent))
+    )
+  };
+}
+
+/**
+ * Every occurrence of `entries` between `from` and `to`, inclusive, sorted by
+ * date and time. Recurring entries are expanded; occurrences replaced by an
+ * override are left out (the override itself is listed on its own date).
+ */
+export function occurrencesBetween<T extends RecurringEntry>(entries: T[], from: string, to: string): Occurrence<T>[] {
+  const overrides = indexOverrides(entries);
+  const result: Occurrence<T>[] = [];
+  for (const entry of entries) {
+    for (const date of expandDates(entry, from, to)) {
+      if (!overrides.has(entry, date)) result.push({ entry, date });
+    }
+  }
+  return result.sort((a, b) => a.date.localeCompare(b.date) || a.entry.time.localeCompare(b.entry.time));
+}
+
+export const occurrencesOn = <T extends RecurringEntry>(entries: T[], date: string): Occurrence<T>[] =>
+  occurrencesBetween(entries, date, date);
+
+/** The fields that turn a copy of `parent` into the override for its occurrence on `date`. */
+export const overrideLink = (parent: RecurringEntry, date: string) => ({
+  recurrenceParentId: parent.id,
+  occurrenceDate: date,
+  recurrence: undefined
+});
+
+/** `rule` with the occurrence on `date` skipped. */
+export const withExceptionDate = <R extends RecurrenceRule>(rule: R, date: string): R => ({
+  ...rule,
+  exceptionDates: [...(rule.exceptionDates || []).filter(d => d !== date), date].sort()
+});
+
+/**
+ * Split `parent` at its occurrence on `date`, for changes to "this and all
+ * following" occurrences: `before` ends the day before, `rest` repeats the
+ * same rule from `date` with what's left of its COUNT. `rest` keeps the
+ * parent's id; give it a new one before saving it as a separate appointment.
+ */
+export function splitSeries<T extends RecurringEntry>(parent: T, date: string): { before: T; rest: T } {
+  const rule = parent.recurrence!;
+  const dayBefore = fromDayNumber(dayNumber(date) - 1);
+  // COUNT includes removed occurrences, so count every date the rule produced before the split
+  let used = 0;
+  if (rule.count) {
+    for (let day = dayNumber(parent.date); day < dayNumber(date); day++) {
+      const d = fromDayNumber(day);
+      if (d === parent.date || matchesRule(rule, parent.date, d)) used++;
+    }
+  }
+  const exceptionsBefore = (rule.exceptionDates || []).filter(d => d < date);
+  const exceptionsAfter = (rule.exceptionDates || []).filter(d => d >= date);
+  return {
+    before: {
+      ...parent,
+      recurrence: {
+        ...rule,
+        count: undefined,
+        endDate: rule.endDate && rule.endDate < dayBefore ? rule.endDate : dayBefore,
+        exceptionDates: exceptionsBefore.length > 0 ? exceptionsBefore : undefined
+      }
+    },
+    rest: {
+      ...parent,
+      date,
+      recurrence: {
+        ...rule,
+        count: rule.count ? Math.max(1, rule.count - used) : undefined,
+        exceptionDates: exceptionsAfter.length > 0 ? exceptionsAfter : undefined
+      }
+    }
+  };
+}
+
+/**
+ * `entry` moved to start on `date`. A series keeps its shape: its weekdays
+ * and removed occurrences move by the same number of days.
+ */
+export function moveSeries<T extends RecurringEntry>(entry: T, date: string): T {
+  const rule = entry.recurrence;
+  const shift = dayNumber(date) - dayNumber(entry.date);
+  if (!rule || shift === 0) return { ...entry, date };
+  return {
+    ...entry,
+    date,
+    recurrence: {
+      ...rule,
+      daysOfWeek: rule.daysOfWeek?.map(d => (((d + shift) % 7) + 7) % 7).sort((a, b) => a - b),
+      exceptionDates: rule.exceptionDates?.map(d => fromDayNumber(dayNumber(d) + shift))
+    }
+  };
+}
+
+/**
+ * After the occurrences of `parent` from `from` on became `series` (split off
+ * with splitSeries and/or moved with moveSeries), the overrides among
+ * `entries` that replaced those occurrences, linked to `series` instead. Their
+ * occurrence dates shift with the series so each still replaces the same
+ * occurrence; the overrides themselves stay on their own dates.
+ */
+export function relinkOverrides<T extends RecurringEntry>(entries: T[], parent: RecurringEntry, from: string, series: RecurringEntry): T[] {
+  const shift = dayNumber(series.date) - dayNumber(from);
+  return entries
+    .filter(entry => entry.recurrenceParentId === parent.id && (entry.occurrenceDate || entry.date) >= from)
+    .map(entry => ({
+      ...entry,
+      recurrenceParentId: series.id,
+      occurrenceDate: fromDayNumber(dayNumber(entry.occurrenceDate || entry.date) + shift)
+    }));
+}
+
+// ================================================================
+// RRULE STRINGS (RFC 5545)
+// ================================================================
+
+const RRULE_DAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const FREQUENCIES = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+
+const compactDate = (date: string) => date.replace(/-/g, '');
+const expandDate = (value: string) => `${value.slice(0, 4)}-${value.slice(4, 6)}-${value.slice(6, 8)}`;
+
+// The date of a DATE or DATE-TIME value; UTC date-times are converted into `timeZone` first
+function dateOf(value: string, timeZone = 'UTC'): string | null {
+  const match = /^(\d{8})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value);
+  if (!match) return null;
+  if (!match[5]) return expandDate(match[1]);
+  return toWallTime(Date.parse(`${expandDate(match[1])}T${match[2]}:${match[3]}:${match[4]}Z`), timeZone).date;
+}
+
+/**
+ * `rule` as RRULE text, followed by an EXDATE line when occurrences were removed.
+ * `start` is the series' first occurrence. Its date gives yearly weekday rules
+ * their BYMONTH (without it, "2nd Tuesday" means of the year, not of the
+ * month). With a start time (HH:mm) UNTIL and EXDATE are written as
+ * date-times, as RFC 5545 requires for events that start at a time of day.
+ * With `timeZone` too, the event starts at a TZID time: UNTIL is then given
+ * in UTC and EXDATE carries the same TZID.
+ */
+export function toRRule(rule: RecurrenceRule, start?: { date: string; time?: string }, timeZone?: string): string {
+  const startTime = start?.time;
+  const dateTime = (date: string, time: string) => `${compactDate(date)}T${time.replace(':', '')}00`;
+  const until = (date: string) => {
+    if (!startTime) return compactDate(date);
+    if (!timeZone) return `${compactDate(date)}T235959`;
+    const end = new Date(fromWallTime(date, '23:59', timeZone) + 59000);
+    return end.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  };
+  const parts = [`FREQ=${rule.frequency}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  if (rule.endDate) parts.push(`UNTIL=${until(rule.endDate)}`);
+  if (rule.daysOfWeek && rule.daysOfWeek.length > 0) {
+    parts.push(`BYDAY=${[...rule.daysOfWeek].sort((a, b) => a - b).map(d => RRULE_DAYS[d]).join(',')}`);
+    if (rule.setPos) parts.push(`BYSETPOS=${rule.setPos}`);
+    if (rule.frequency === 'YEARLY' && start) parts.push(`BYMONTH=${Number(start.date.slice(5, 7))}`);
+  }
+  const lines = [`RRULE:${parts.join(';')}`];
+  if (rule.exceptionDates && rule.exceptionDates.length > 0) {
+    lines.push(startTime
+      ? `EXDATE${timeZone ? `;TZID=${timeZone}` : ''}:${rule.exceptionDates.map(d => dateTime(d, startTime)).join(',')}`
+      : `EXDATE;VALUE=DATE:${rule.exceptionDates.map(compactDate).join(',')}`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Parse RRULE text (with or without the `RRULE:` prefix, optionally with
+ * EXDATE lines). `start` is the first occurrence, used to check BYMONTHDAY /
+ * BYMONTH against it. `timeZone` is the zone the series' dates are in: UNTIL
+ * and EXDATE given in UTC (as toRRule writes UNTIL for zoned series) are
+ * converted into it. Returns null for rules this app can't represent.
+ */
+export function parseRRule(text: string, start?: string, timeZone?: string): RecurrenceRule | null {
+  const lines = text.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+  const ruleLine = lines.find(line => !/^EXDATE[;:]/i.test(line));
+  if (!ruleLine) return null;
+
+  const fields = new Map<string, string>();
+  for (const part of ruleLine.replace(/^RRULE:/i, '').split(';')) {
+    const [key, value] = part.split('=');
+    if (!key || value === undefined) return null;
+    fields.set(key.toUpperCase(), value.toUpperCase());
+  }
+
+  const frequency = fields.get('FREQ');
+  if (!frequency || !FREQUENCIES.includes(frequency)) return null;
+  const rule: RecurrenceRule = { frequency, interval: 1 };
+
+  for (const [key, value] of fields) {
+    switch (key) {
+      case 'FREQ':
+      case 'WKST':
+        break;
+      case 'INTERVAL':
+      case 'COUNT': {
+        const n = Number(value);
+        if (!Number.isInteger(n) || n < 1) return null;
+        if (key === 'INTERVAL') rule.interval = n;
+        else rule.count = n;
+        break;
+      }
+      case 'UNTIL': {
+        const endDate = dateOf(value, timeZone);
+        if (!endDate) return null;
+        rule.endDate = endDate;
+        break;
+      }
+      case 'BYDAY': {
+        // Either plain days (MO,WE) or a single day with an ordinal (2TU, -1FR).
+        // Ordinals on several days (1MO,3WE) pick one date per day, which
+        // BYSETPOS over the combined days can't express
+        const days: number[] = [];
+        const ordinals = new Set<string>();
+        for (const item of value.split(',')) {
+          const match = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/.exec(item);
+          if (!match) return null;
+          ordinals.add(match[1] || '');
+          days.push(RRULE_DAYS.indexOf(match[2]));
+        }
+        if (ordinals.size > 1) return null;
+        const ordinal = [...ordinals][0];
+        if (ordinal && days.length > 1) return null;
+        if (ordinal) {
+          if (fields.has('BYSETPOS')) return null;
+          rule.setPos = Number(ordinal);
+        }
+        rule.daysOfWeek = [...new Set(days)].sort((a, b) => a - b);
+        break;
+      }
+      case 'BYSETPOS': {
+        const n = Number(value);
+        if (!Number.isInteger(n) || n === 0 || Math.abs(n) > 5) return null;
+        rule.setPos = n;
+        break;
+      }
+      case 'BYMONTHDAY':
+        // Only the start date's own day of the month is representable
+        if (!/^\d{1,2}$/.test(value) || (start && Number(value) !== Number(start.slice(8)))) return null;
+        break;
+      case 'BYMONTH':
+        // Yearly rules repeat in the start date's month; any other month can't be represented
+        if (frequency !== 'YEARLY' || !/^\d{1,2}$/.test(value) || (start && Number(value) !== Number(start.slice(5, 7)))) return null;
+        break;
+      default:
+        return null;
+    }
+  }
+  if (rule.setPos && (!rule.daysOfWeek || !['MONTHLY', 'YEARLY'].includes(frequency))) return null;
+  // Yearly weekdays without BYMONTH range over the whole year, not the start month
+  if (frequency === 'YEARLY' && rule.daysOfWeek && !fields.has('BYMONTH')) return null;
+
+  const exceptionDates = lines
+    .filter(line => /^EXDATE[;:]/i.test(line))
+    .flatMap(line => line.slice(line.indexOf(':') + 1).split(','))
+    .map(value => dateOf(value.trim(), timeZone))
+    .filter((date): date is string => !!date);
+  if (exceptionDates.length > 0) rule.exceptionDates = [...new Set(exceptionDates)].sort();
+
+  return rule;
+}
+
+const ORDINALS: Record<number, string> = { 1: 'first', 2: 'second', 3: 'third', 4: 'fourth', 5: 'fifth', [-1]: 'last' };
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/** A short English description, e.g. "Every 2 weeks on Monday, Wednesday, 10 times". */
+export function describeRule(rule: RecurrenceRule): string {
+  const unit = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month', YEARLY: 'year' }[rule.frequency] || 'time';
+  let text = rule.interval > 1 ? `Every ${rule.interval} ${unit}s` : `Every ${unit}`;
+  const days = rule.daysOfWeek || [];
+  if (days.length > 0) {
+    const names = days.length === 5 && [1, 2, 3, 4, 5].every(d => days.includes(d))
+      ? (rule.setPos ? 'weekday' : 'weekdays')
+      : days.map(d => DAY_NAMES[d]).join(', ');
+    text += rule.setPos ? ` on the ${ORDINALS[rule.setPos] || `#${rule.setPos}`} ${names}` : ` on ${names}`;
+  }
+  if (rule.count) text += `, ${rule.count} times`;
+  if (rule.endDate) text += `, until ${rule.endDate}`;
+  return text;
+}
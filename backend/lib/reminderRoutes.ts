@@ -0,0 +1,70 @@
+/**
+ * Appointment reminder routes, mounted by both servers:
+ *   POST /cron/reminders                   send due reminders, sweep waitlist offers and booking attempts (CRON_SECRET)
+ *   GET  /appointment-reminders/:id        reminders sent for the signed-in owner's appointment
+ */
+import crypto from 'crypto';
+import express from 'express';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { sendDueReminders, listReminderDeliveries } from './reminders.js';
+import { expireAllWaitlistOffers } from './waitlist.js';
+import { pruneBookingAttempts } from './publicBooking.js';
+import { appUrl } from './env.js';
+
+type DB = SupabaseClient<any, any, any> | null;
+
+interface ReminderRouterOptions {
+  db: DB;
+  verifySession: (req: express.Request) => Promise<string | null>;
+}
+
+// Scheduled calls send the secret as `x-cron-secret`, `Authorization: Bearer` or `{ "secret": ... }`
+function isCronRequest(req: express.Request): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return false;
+  const bearer = req.get('authorization')?.replace(/^Bearer\s+/i, '');
+  const given = String(req.get('x-cron-secret') || bearer || req.body?.secret || '');
+  const expected = Buffer.from(secret);
+  const actual = Buffer.from(given);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+/**
+ * Send due reminders, move on expired waitlist offers and prune old booking
+ * attempts. Also run on a timer by the local server.
+ */
+export async function runScheduledJobs(db: NonNullable<DB>, appUrl: string | null) {
+  const reminders = await sendDueReminders(db, appUrl);
+  await expireAllWaitlistOffers(db, appUrl);
+  await pruneBookingAttempts(db);
+  return reminders;
+}
+
+export function createReminderRouter({ db, verifySession }: ReminderRouterOptions): express.Router {
+  const router = express.Router();
+
+  router.post('/cron/reminders', async (req, res) => {
+    try {
+      if (!db) return res.status(503).json({ error: 'Database not configured' });
+      if (!isCronRequest(req)) return res.status(401).json({ error: 'Unauthorized' });
+      res.json(await runScheduledJobs(db, appUrl()));
+    } catch (error) {
+      console.error('Reminder sweep error:', error);
+      res.status(500).json({ error: 'Failed to send reminders' });
+    }
+  });
+
+  router.get('/appointment-reminders/:id', async (req, res) => {
+    try {
+      if (!db) return res.status(503).json({ error: 'Database not configured' });
+      const email = await verifySession(req);
+      if (!email) return res.status(401).json({ error: 'Not authenticated' });
+      res.json(await listReminderDeliveries(db, email, req.params.id));
+    } catch (error) {
+      console.error('List reminders error:', error);
+      res.status(500).json({ error: 'Failed to load reminders' });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,217 @@
+/**
+ * Appointment reminder emails.
+ *
+ * Businesses pick how long before an appointment clients are reminded
+ * (BusinessProfile.reminderHours, e.g. [24, 2]). A scheduled sweep emails
+ * every client whose reminder is due, with a signed link to confirm, cancel
+ * or reschedule (see appointmentLinks.ts). Each attempt is recorded in
+ * `appointment_reminders`, which also keeps a reminder from going out twice.
+ *
+ * Dates and times are in the business's time zone, like appointments.
+ */
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { listEntities } from './entities.js';
+import { occurrencesBetween } from './recurrence.js';
+import { fromWallTime, resolveTimeZone, toWallTime } from './timeZone.js';
+import { escapeHtml } from './mailer.js';
+import { sendLoggedMail } from './emailLog.js';
+import { appointmentUrl } from './signedLinks.js';
+
+type DB = SupabaseClient<any, any, any>;
+
+const HOUR_MS = 60 * 60 * 1000;
+const MAX_REMINDER_HOURS = 7 * 24;
+
+/** The statuses a client is reminded of. */
+const REMINDED = ['CONFIRMED', 'PENDING'];
+
+export interface ReminderSweepResult {
+  sent: number;
+  failed: number;
+}
+
+/** One reminder email, as recorded on the appointment. */
+export interface ReminderDelivery {
+  appointmentId: string;
+  date: string; // the occurrence reminded of
+  hoursBefore: number;
+  status: 'SENT' | 'FAILED';
+  error?: string;
+  sentAt: string; // ISO timestamp
+}
+
+/** The reminder times a business asked for, largest first; empty when reminders are off. */
+export const reminderHoursOf = (profile: any): number[] =>
+  (Array.isArray(profile?.reminderHours) ? profile.reminderHours : [])
+    .filter((h: any) => Number.isInteger(h) && h > 0 && h <= MAX_REMINDER_HOURS)
+    .sort((a: number, b: number) => b - a);
+
+/**
+ * Which reminder is due for an appointment starting at `startsAt`, or null.
+ * Only the latest due reminder is sent: one that was missed (e.g. the
+ * appointment was booked after it) is skipped rather than sent late.
+ */
+export function dueReminder(hours: number[], startsAt: number, now: number, alreadySent: number[]): number | null {
+  if (startsAt <= now) return null;
+  const due = hours.filter(h => startsAt - h * HOUR_MS <= now);
+  if (due.length === 0) return null;
+  const latest = Math.min(...due);
+  return alreadySent.some(h => h <= latest) ? null : latest;
+}
+
+const isClientAppointment = (entry: any) =>
+  REMINDED.includes(entry.status) && (!entry.eventType || entry.eventType === 'APPOINTMENT') && entry.serviceId !== 'EVENT';
+
+// ================================================================
+// SCHEDULED SWEEP
+// ================================================================
+
+/**
+ * Email every reminder that is due, across all businesses. Meant to run
+ * every few minutes (see README); a reminder is sent at most once however
+ * often it runs.
+ */
+export async function sendDueReminders(db: DB, appUrl: string | null, now = Date.now()): Promise<ReminderSweepResult> {
+  // Reminders are built around their confirm / reschedule / cancel links
+  if (!appUrl) return { sent: 0, failed: 0 };
+  const { data, error } = await db.from('user_data').select('email, business_profile');
+  if (error) throw new Error(`Failed to load businesses: ${error.message}`);
+
+  const result: ReminderSweepResult = { sent: 0, failed: 0 };
+  for (const row of data || []) {
+    if (reminderHoursOf(row.business_profile).length === 0) continue;
+    try {
+      const { sent, failed } = await sendBusinessReminders(db, { email: row.email, profile: row.business_profile }, appUrl, now);
+      result.sent += sent;
+      result.failed += failed;
+    } catch (error) {
+      // One business's bad data shouldn't hold up everyone else's reminders
+      console.error(`Reminders error for ${row.email}:`, error);
+    }
+  }
+  return result;
+}
+
+async function sendBusinessReminders(
+  db: DB,
+  business: { email: string; profile: any },
+  appUrl: string,
+  now: number
+): Promise<ReminderSweepResult> {
+  const { email: businessEmail, profile } = business;
+  const hours = reminderHoursOf(profile);
+  const timeZone = resolveTimeZone(profile.timeZone);
+  const today = toWallTime(now, timeZone).date;
+  const lastDay = toWallTime(now + hours[0] * HOUR_MS, timeZone).date;
+
+  const [appointments, clients, services, staff, { data: records, error }] = await Promise.all([
+    listEntities(db, 'appointments', businessEmail),
+    listEntities(db, 'clients', businessEmail),
+    listEntities(db, 'services', businessEmail),
+    listEntities(db, 'staff', businessEmail),
+    db.from('appointment_reminders')
+      .select('appointment_id, occurrence_date, hours_before')
+      .eq('business_email', businessEmail)
+      .gte('occurrence_date', today)
+  ]);
+  if (error) throw new Error(`Failed to load appointment_reminders: ${error.message}`);
+
+  const sentBefore = new Map<string, number[]>();
+  for (const record of records || []) {
+    const key = `${record.appointment_id} ${record.occurrence_date}`;
+    sentBefore.set(key, [...(sentBefore.get(key) || []), record.hours_before]);
+  }
+
+  const result: ReminderSweepResult = { sent: 0, failed: 0 };
+  for (const { entry, date } of occurrencesBetween(appointments, today, lastDay)) {
+    if (!isClientAppointment(entry)) continue;
+    const startsAt = fromWallTime(date, entry.time, timeZone);
+    const hoursBefore = dueReminder(hours, startsAt, now, sentBefore.get(`${entry.id} ${date}`) || []);
+    if (hoursBefore === null) continue;
+
+    const ids: string[] = entry.clientIds?.length ? entry.clientIds : [entry.clientId];
+    const recipients = clients.filter(c => ids.includes(c.id) && c.email);
+    if (recipients.length === 0) continue;
+
+    // Claim the reminder first so overlapping sweeps can't both send it
+    const { data: claimed, error: claimError } = await db.from('appointment_reminders').upsert({
+      business_email: businessEmail,
+      appointment_id: entry.id,
+      occurrence_date: date,
+      hours_before: hoursBefore,
+      status: 'SENT',
+      sent_at: new Date(now).toISOString()
+    }, { onConflict: 'business_email,appointment_id,occurrence_date,hours_before', ignoreDuplicates: true }).select('appointment_id');
+    if (claimError) throw new Error(`Failed to record reminder: ${claimError.message}`);
+    if (!claimed?.length) continue;
+
+    const link = appointmentUrl(appUrl, { email: businessEmail, id: entry.id, date, startsAt });
+    const errors: string[] = [];
+    for (const client of recipients) {
+      const mail = await sendLoggedMail(db, businessEmail, 'REMINDER', reminderEmail({
+        client,
+        businessName: profile.name || '',
+        serviceName: services.find(s => s.id === entry.serviceId)?.name || 'appointment',
+        staffName: staff.find(s => s.id === entry.staffId)?.name,
+        startsAt,
+        timeZone,
+        pending: entry.status === 'PENDING',
+        link
+      }));
+      if (!mail.ok) errors.push(`${client.email}: ${mail.error}`);
+    }
+
+    if (errors.length === recipients.length) {
+      result.failed++;
+      await db.from('appointment_reminders')
+        .update({ status: 'FAILED', error: errors.join('; ').slice(0, 500) })
+        .eq('business_email', businessEmail).eq('appointment_id', entry.id)
+        .eq('occurrence_date', date).eq('hours_before', hoursBefore);
+    } else {
+      result.sent++;
+    }
+  }
+  return result;
+}
+
+function reminderEmail(options: {
+  client: { name: string; email: string };
+  businessName: string;
+  serviceName: string;
+  staffName?: string;
+  startsAt: number;
+  timeZone: string;
+  pending: boolean;
+  link: string;
+}) {
+  const { client, businessName, serviceName, staffName, startsAt, timeZone, pending, link } = options;
+  const when = new Date(startsAt).toLocaleString('en-US', {
+    timeZone, weekday: 'long', month: 'long', day: 'numeric', hour: 'numeric', minute: '2-digit', timeZoneName: 'short'
+  });
+  const at = businessName ? ` at ${businessName}` : '';
+  const with_ = staffName ? ` with ${staffName}` : '';
+  const ask = pending ? 'Please confirm you can make it' : "If you can't make it, please let us know";
+  return {
+    to: client.email,
+    subject: `Reminder: ${serviceName}${at}, ${when}`,
+    text: `Hi ${client.name}, this is a reminder of your ${serviceName}${with_}${at} on ${when}.\n${ask}.\nConfirm: ${link}?action=confirm\nReschedule: ${link}?action=reschedule\nCancel: ${link}?action=cancel`,
+    html: `<p>Hi ${escapeHtml(client.name)},</p><p>This is a reminder of your <strong>${escapeHtml(serviceName)}</strong>${escapeHtml(with_ + at)} on <strong>${when}</strong>.</p><p>${ask}.</p><p><a href="${link}?action=confirm">Confirm</a> &middot; <a href="${link}?action=reschedule">Reschedule</a> &middot; <a href="${link}?action=cancel">Cancel appointment</a></p>`
+  };
+}
+
+/** The reminders sent for one appointment, oldest first. */
+export async function listReminderDeliveries(db: DB, businessEmail: string, appointmentId: string): Promise<ReminderDelivery[]> {
+  const { data, error } = await db
+    .from('appointment_reminders').select('*')
+    .eq('business_email', businessEmail).eq('appointment_id', appointmentId)
+    .order('sent_at', { ascending: true });
+  if (error) throw new Error(`Failed to load appointment_reminders: ${error.message}`);
+  return (data || []).map((row: any) => ({
+    appointmentId: row.appointment_id,
+    date: row.occurrence_date,
+    hoursBefore: row.hours_before,
+    status: row.status,
+    error: row.error || undefined,
+    sentAt: row.sent_at
+  }));
+}
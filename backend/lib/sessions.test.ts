@@ -0,0 +1,100 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import type express from 'express';
+import { createSession, verifySession, revokeSession, revokeAllSessions, SESSION_COOKIE } from './sessions.js';
+import { fakeDb, FakeDb } from './testing/fakeDb.js';
+
+const OWNER = 'owner@example.com';
+
+let db: FakeDb;
+
+beforeEach(() => {
+  db = fakeDb({ sessions: [] });
+});
+
+// Just enough of a request and response for the session cookie
+const request = (token?: string) =>
+  ({ cookies: token ? { [SESSION_COOKIE]: token } : {}, headers: { 'user-agent': 'test' } }) as unknown as express.Request;
+
+const response = () => {
+  const cookies: Record<string, string | null> = {};
+  const res = {
+    cookie: (name: string, value: string) => { cookies[name] = value; },
+    clearCookie: (name: string) => { cookies[name] = null; }
+  } as unknown as express.Response;
+  return { res, cookies };
+};
+
+/** Sign in as `email`, returning the session id and cookie token. */
+const signIn = async (email = OWNER, token?: string) => {
+  const { res, cookies } = response();
+  const sid = await createSession(db, email, request(token), res);
+  return { sid, token: cookies[SESSION_COOKIE] as string };
+};
+
+const row = (sid: string) => db.tables.sessions.find(s => s.id === sid);
+
+describe('sessions', () => {
+  it('accepts the cookie it sets', async () => {
+    const { sid, token } = await signIn();
+    expect(row(sid)).toMatchObject({ user_email: OWNER, user_agent: 'test' });
+    expect(await verifySession(db, request(token))).toBe(OWNER);
+  });
+
+  it('rejects a missing or tampered cookie', async () => {
+    const { token } = await signIn();
+    const [body, signature] = token.split('.');
+    const forged = Buffer.from(JSON.stringify({ ...JSON.parse(Buffer.from(body, 'base64url').toString()), email: 'other@example.com' })).toString('base64url');
+
+    expect(await verifySession(db, request())).toBeNull();
+    expect(await verifySession(db, request(`${forged}.${signature}`))).toBeNull();
+    expect(await verifySession(db, request(`${body}.${signature.slice(1)}`))).toBeNull();
+  });
+
+  it('rejects a session that was revoked or has expired in the table', async () => {
+    const revoked = await signIn();
+    const expired = await signIn();
+    row(revoked.sid).revoked_at = new Date().toISOString();
+    row(expired.sid).expires_at = new Date(Date.now() - 1000).toISOString();
+
+    expect(await verifySession(db, request(revoked.token))).toBeNull();
+    expect(await verifySession(db, request(expired.token))).toBeNull();
+  });
+
+  it('rejects a session whose row is missing or for another email', async () => {
+    const gone = await signIn();
+    const moved = await signIn();
+    db.tables.sessions = db.tables.sessions.filter(s => s.id !== gone.sid);
+    row(moved.sid).user_email = 'other@example.com';
+
+    expect(await verifySession(db, request(gone.token))).toBeNull();
+    expect(await verifySession(db, request(moved.token))).toBeNull();
+  });
+
+  it('revokes the previous session when signing in again', async () => {
+    const first = await signIn();
+    const second = await signIn(OWNER, first.token);
+
+    expect(await verifySession(db, request(first.token))).toBeNull();
+    expect(await verifySession(db, request(second.token))).toBe(OWNER);
+  });
+
+  it('revokes the session on logout and clears the cookie', async () => {
+    const { token } = await signIn();
+    const { res, cookies } = response();
+    await revokeSession(db, request(token), res);
+
+    expect(cookies[SESSION_COOKIE]).toBeNull();
+    expect(await verifySession(db, request(token))).toBeNull();
+  });
+
+  it('revokes every active session for an email', async () => {
+    const a = await signIn();
+    const b = await signIn();
+    const other = await signIn('other@example.com');
+    row(a.sid).revoked_at = new Date().toISOString();
+
+    expect(await revokeAllSessions(db, OWNER)).toBe(1);
+    expect(await verifySession(db, request(b.token))).toBeNull();
+    expect(await verifySession(db, request(other.token))).toBe('other@example.com');
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Session subsystem shared by the Vercel function (api/index.ts) and the
+ * local Express server (backend/server.ts).
+ *
+ * Tokens are `<base64url payload>.<base64url HMAC-SHA256>` where the payload
+ * carries the session id, email and expiry. The signature makes tokens
+ * unforgeable; the `sessions` table makes them revocable (logout, sign out
+ * of all devices) even though serverless instances share no memory.
+ */
+import crypto from 'crypto';
+import type express from 'express';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { sessionKey, isProduction } from './env.js';
+
+export const SESSION_COOKIE = 'sessionId';
+export const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+type DB = SupabaseClient<any, any, any> | null;
+
+interface SessionPayload {
+  sid: string;
+  email: string;
+  exp: number; // epoch ms
+}
+
+function sign(data: string): string {
+  return crypto.createHmac('sha256', sessionKey).update(data).digest('base64url');
+}
+
+function encodeToken(payload: SessionPayload): string {
+  const body = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${body}.${sign(body)}`;
+}
+
+function decodeToken(token: string): SessionPayload | null {
+  const [body, signature] = token.split('.');
+  if (!body || !signature) return null;
+
+  const expected = Buffer.from(sign(body));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) return null;
+
+  try {
+    const payload = JSON.parse(Buffer.from(body, 'base64url').toString('utf-8'));
+    if (typeof payload?.sid !== 'string' || typeof payload?.email !== 'string' || typeof payload?.exp !== 'number') return null;
+    return payload;
+  } catch (_) {
+    return null;
+  }
+}
+
+function cookieOptions(): express.CookieOptions {
+  return {
+    httpOnly: true,
+    secure: isProduction(),
+    sameSite: 'lax',
+    path: '/'
+  };
+}
+
+function readSession(req: express.Request): SessionPayload | null {
+  const token = req.cookies?.[SESSION_COOKIE];
+  if (!token || typeof token !== 'string') return null;
+  const payload = decodeToken(token);
+  if (!payload || payload.exp < Date.now()) return null;
+  return payload;
+}
+
+/**
+ * Resolve the signed-in email for a request, or null.
+ * With a database configured the session must also exist and not be revoked.
+ */
+export async function verifySession(db: DB, req: express.Request): Promise<string | null> {
+  const payload = readSession(req);
+  if (!payload) return null;
+  if (!db) return payload.email;
+
+  const { data, error } = await db
+    .from('sessions')
+    .select('user_email, expires_at, revoked_at')
+    .eq('id', payload.sid)
+    .single();
+
+  if (error || !data) return null;
+  if (data.revoked_at) return null;
+  if (new Date(data.expires_at).getTime() < Date.now()) return null;
+  if (data.user_email !== payload.email) return null;
+  return payload.email;
+}
+
+/**
+ * Issue a fresh session for `email` and set it as the session cookie.
+ * Any session presented with the request is revoked first (rotation on login).
+ */
+export async function createSession(db: DB, email: string, req: express.Request, res: express.Response): Promise<string> {
+  const previous = readSession(req);
+  if (previous && db) {
+    await db.from('sessions').update({ revoked_at: new Date().toISOString() }).eq('id', previous.sid);
+  }
+
+  const payload: SessionPayload = {
+    sid: crypto.randomBytes(24).toString('base64url'),
+    email,
+    exp: Date.now() + SESSION_TTL_MS
+  };
+
+  if (db) {
+    const { error } = await db.from('sessions').insert({
+      id: payload.sid,
+      user_email: email,
+      user_agent: (req.headers['user-agent'] || '').slice(0, 512),
+      expires_at: new Date(payload.exp).toISOString()
+    });
+    if (error) throw new Error(`Failed to persist session: ${error.message}`);
+  }
+
+  const token = encodeToken(payload);
+  res.cookie(SESSION_COOKIE, token, { ...cookieOptions(), maxAge: SESSION_TTL_MS });
+  return payload.sid;
+}
+
+/** Revoke the session presented with the request and clear the cookie. */
+export async function revokeSession(db: DB, req: express.Request, res: express.Response): Promise<void> {
+  const payload = readSession(req);
+  if (payload && db) {
+    await db.from('sessions').update({ revoked_at: new Date().toISOString() }).eq('id', payload.sid);
+  }
+  res.clearCookie(SESSION_COOKIE, cookieOptions());
+}
+
+/** Revoke every active session for `email` (sign out of all devices). Returns how many were revoked. */
+export async function revokeAllSessions(db: DB, email: string): Promise<number> {
+  if (!db) return 0;
+  const { data, error } = await db
+    .from('sessions')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('user_email', email)
+    .is('revoked_at', null)
+    .select('id');
+  if (error) throw new Error(`Failed to revoke sessions: ${error.message}`);
+  return data?.length || 0;
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { signLink, readLink, LinkPayload } from './signedLinks.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const link = (overrides: Partial<LinkPayload> = {}): LinkPayload => ({
+  kind: 'appointment',
+  email: 'owner@example.com',
+  id: 'a1',
+  date: '2025-01-06',
+  exp: Date.now() + HOUR_MS,
+  ...overrides
+});
+
+// Swap one character of a base64url string for another
+const flip = (text: string, at: number) => text.slice(0, at) + (text[at] === 'A' ? 'B' : 'A') + text.slice(at + 1);
+
+describe('signLink / readLink', () => {
+  it('reads back what was signed', () => {
+    const payload = link({ kind: 'rating', client: 'c1' });
+    expect(readLink(signLink(payload), 'rating')).toEqual(payload);
+  });
+
+  it('rejects a tampered signature', () => {
+    const [body, signature] = signLink(link()).split('.');
+    expect(readLink(`${body}.${flip(signature, 0)}`, 'appointment')).toBeNull();
+  });
+
+  it('rejects a tampered payload', () => {
+    const [, signature] = signLink(link()).split('.');
+    const forged = Buffer.from(JSON.stringify(link({ id: 'a2' }))).toString('base64url');
+    expect(readLink(`${forged}.${signature}`, 'appointment')).toBeNull();
+  });
+
+  it('rejects an expired link', () => {
+    expect(readLink(signLink(link({ exp: Date.now() - 1 })), 'appointment')).toBeNull();
+  });
+
+  it('does not accept one kind of link as the other', () => {
+    expect(readLink(signLink(link({ kind: 'appointment' })), 'rating')).toBeNull();
+    expect(readLink(signLink(link({ kind: 'rating' })), 'appointment')).toBeNull();
+  });
+
+  it('rejects malformed tokens', () => {
+    const token = signLink(link());
+    expect(readLink(`${token}.extra`, 'appointment')).toBeNull();
+    expect(readLink(token.split('.')[0], 'appointment')).toBeNull();
+    expect(readLink('', 'appointment')).toBeNull();
+    expect(readLink(undefined as unknown as string, 'appointment')).toBeNull();
+  });
+});
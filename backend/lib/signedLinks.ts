@@ -0,0 +1,57 @@
+/**
+ * Signed links sent to clients by email (the manage link in booking and
+ * reminder emails, and rating links).
+ *
+ * Tokens are `<base64url payload>.<base64url HMAC-SHA256>`, like session
+ * tokens, so they need no table: the payload says which business and which
+ * appointment the link is for, and when it stops working. Signed with a key
+ * derived from SESSION_SECRET (see env.ts).
+ */
+import crypto from 'crypto';
+import { linkKey } from './env.js';
+
+export type LinkKind = 'appointment' | 'rating';
+
+export interface LinkPayload {
+  kind: LinkKind;
+  email: string; // the business
+  id: string; // the appointment
+  date: string; // the occurrence (YYYY-MM-DD), for recurring appointments
+  exp: number; // epoch ms
+  client?: string; // the client a rating link is for
+}
+
+function sign(data: string): string {
+  return crypto.createHmac('sha256', linkKey).update(data).digest('base64url');
+}
+
+export function signLink(payload: LinkPayload): string {
+  const body = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${body}.${sign(body)}`;
+}
+
+/** The payload of a genuine, unexpired `kind` link, or null. */
+export function readLink(token: string, kind: LinkKind): LinkPayload | null {
+  const [body, signature, extra] = String(token || '').split('.');
+  if (!body || !signature || extra !== undefined) return null;
+
+  const expected = Buffer.from(sign(body));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) return null;
+
+  try {
+    const payload = JSON.parse(Buffer.from(body, 'base64url').toString('utf-8'));
+    if (payload?.kind !== kind || typeof payload.email !== 'string' || typeof payload.id !== 'string') return null;
+    if (typeof payload.date !== 'string' || typeof payload.exp !== 'number' || payload.exp < Date.now()) return null;
+    if (payload.client !== undefined && typeof payload.client !== 'string') return null;
+    return payload;
+  } catch (_) {
+    return null;
+  }
+}
+
+/** Where a client manages an appointment; the link works until it starts. */
+export function appointmentUrl(appUrl: string, appointment: { email: string; id: string; date: string; startsAt: number }): string {
+  const { email, id, date, startsAt } = appointment;
+  return `${appUrl}/appointment/${signLink({ kind: 'appointment', email, id, date, exp: startsAt })}`;
+}
@@ -0,0 +1,180 @@
+/**
+ * Rating surveys: extra questions a business asks on its rating page, and the
+ * aggregates the Reviews view shows for the answers.
+ *
+ * The questions live on the business profile (`surveyQuestions`); a question
+ * with `serviceIds` is only asked after those services. Each answer is stored
+ * on its rating with a copy of the question's type and prompt, so results stay
+ * readable after a question is edited or removed.
+ *
+ * Pure (no Node or browser APIs) so the server and the app share it.
+ */
+
+export const SURVEY_QUESTION_TYPES = ['NPS', 'CHOICE', 'TEXT'] as const;
+
+const MAX_QUESTIONS = 10;
+const MAX_OPTIONS = 10;
+const MAX_TEXT_LENGTH = 1000;
+const RECENT_TEXT_ANSWERS = 20;
+
+/** Structurally the SurveyQuestion in types.ts */
+export interface SurveyQuestion {
+  id: string;
+  type: string; // NPS (0-10) | CHOICE (one of options) | TEXT
+  prompt: string;
+  options?: string[]; // CHOICE only
+  serviceIds?: string[]; // only asked after these services; unset = every appointment
+  required?: boolean;
+}
+
+/** Structurally the SurveyAnswer in types.ts */
+export interface SurveyAnswer {
+  questionId: string;
+  type: string;
+  prompt: string;
+  value: number | string;
+}
+
+export interface NetPromoterScore {
+  score: number; // -100 to 100; % promoters minus % detractors
+  promoters: number; // answered 9-10
+  passives: number; // 7-8
+  detractors: number; // 0-6
+  count: number;
+}
+
+export interface QuestionSummary {
+  questionId: string;
+  type: string;
+  prompt: string;
+  retired: boolean; // no longer on the profile; summarized from stored answers
+  count: number;
+  nps?: NetPromoterScore;
+  scores?: number[]; // NPS: how many answered 0..10
+  choices?: { option: string; count: number }[];
+  recent?: { value: string; date: string }[]; // TEXT: newest first
+}
+
+/** The profile's questions with anything malformed dropped. */
+export function surveyQuestionsOf(profile: any): SurveyQuestion[] {
+  const questions = Array.isArray(profile?.surveyQuestions) ? profile.surveyQuestions : [];
+  return questions
+    .filter((q: any) => q && typeof q.id === 'string' && q.id
+      && (SURVEY_QUESTION_TYPES as readonly string[]).includes(q.type)
+      && typeof q.prompt === 'string' && q.prompt.trim())
+    .map((q: any): SurveyQuestion => ({
+      id: q.id,
+      type: q.type,
+      prompt: q.prompt.trim(),
+      options: q.type === 'CHOICE' && Array.isArray(q.options)
+        ? q.options.filter((o: any) => typeof o === 'string' && o.trim()).map((o: string) => o.trim()).slice(0, MAX_OPTIONS)
+        : undefined,
+      serviceIds: Array.isArray(q.serviceIds) && q.serviceIds.length > 0 ? q.serviceIds.filter((s: any) => typeof s === 'string') : undefined,
+      required: q.required === true
+    }))
+    .filter((q: SurveyQuestion) => q.type !== 'CHOICE' || q.options.length >= 2)
+    .slice(0, MAX_QUESTIONS);
+}
+
+/** The questions asked after an appointment for `serviceId`. */
+export function questionsForService(questions: SurveyQuestion[], serviceId: string | undefined): SurveyQuestion[] {
+  return questions.filter(q => !q.serviceIds || (serviceId !== undefined && q.serviceIds.includes(serviceId)));
+}
+
+/**
+ * Check a client's answers against the questions they were asked.
+ * Answers to other questions are dropped; a required question left blank is an error.
+ */
+export function readAnswers(
+  questions: SurveyQuestion[],
+  input: any
+): { ok: true; answers: SurveyAnswer[] } | { ok: false; error: string } {
+  const given = new Map<string, any>();
+  if (Array.isArray(input)) {
+    for (const answer of input) {
+      if (answer && typeof answer.questionId === 'string') given.set(answer.questionId, answer.value);
+    }
+  }
+
+  const answers: SurveyAnswer[] = [];
+  for (const question of questions) {
+    let value = given.get(question.id);
+    if (typeof value === 'string') value = value.trim();
+    if (value === undefined || value === null || value === '') {
+      if (question.required) return { ok: false, error: `Please answer "${question.prompt}"` };
+      continue;
+    }
+    if (question.type === 'NPS' && !(Number.isInteger(value) && value >= 0 && value <= 10)) {
+      return { ok: false, error: `"${question.prompt}" takes a score from 0 to 10` };
+    }
+    if (question.type === 'CHOICE' && !question.options.includes(value)) {
+      return { ok: false, error: `"${question.prompt}" must be one of the listed options` };
+    }
+    if (question.type === 'TEXT') {
+      if (typeof value !== 'string') return { ok: false, error: `"${question.prompt}" must be text` };
+      value = value.slice(0, MAX_TEXT_LENGTH);
+    }
+    answers.push({ questionId: question.id, type: question.type, prompt: question.prompt, value });
+  }
+  return { ok: true, answers };
+}
+
+/** Net Promoter Score for 0-10 answers. */
+export function netPromoterScore(values: number[]): NetPromoterScore {
+  const promoters = values.filter(v => v >= 9).length;
+  const detractors = values.filter(v => v <= 6).length;
+  const count = values.length;
+  return {
+    score: count > 0 ? Math.round(((promoters - detractors) / count) * 100) : 0,
+    promoters,
+    passives: count - promoters - detractors,
+    detractors,
+    count
+  };
+}
+
+/**
+ * Per-question aggregates over `ratings`, in the profile's question order,
+ * followed by removed questions that still have answers.
+ */
+export function summarizeSurvey(
+  questions: SurveyQuestion[],
+  ratings: { date: string; answers?: SurveyAnswer[] }[]
+): QuestionSummary[] {
+  const answered = new Map<string, { answer: SurveyAnswer; date: string }[]>();
+  for (const rating of ratings) {
+    for (const answer of rating.answers || []) {
+      answered.set(answer.questionId, [...(answered.get(answer.questionId) || []), { answer, date: rating.date }]);
+    }
+  }
+
+  const current = questions.map(q => ({ questionId: q.id, type: q.type, prompt: q.prompt, options: q.options, retired: false }));
+  const retired = [...answered.entries()]
+    .filter(([id]) => !questions.some(q => q.id === id))
+    .map(([id, list]) => {
+      const latest = list.reduce((a, b) => (b.date > a.date ? b : a));
+      return { questionId: id, type: latest.answer.type, prompt: latest.answer.prompt, options: undefined as string[] | undefined, retired: true };
+    });
+
+  return [...current, ...retired].map(({ options, ...question }) => {
+    // Answers given before a question's type changed don't fit its summary
+    const list = (answered.get(question.questionId) || []).filter(a => a.answer.type === question.type);
+    const summary: QuestionSummary = { ...question, count: list.length };
+
+    if (question.type === 'NPS') {
+      const values = list.map(a => Number(a.answer.value)).filter(v => Number.isInteger(v) && v >= 0 && v <= 10);
+      summary.nps = netPromoterScore(values);
+      summary.scores = Array.from({ length: 11 }, (_, score) => values.filter(v => v === score).length);
+    } else if (question.type === 'CHOICE') {
+      const counts = new Map<string, number>((options || []).map(o => [o, 0]));
+      for (const { answer } of list) counts.set(String(answer.value), (counts.get(String(answer.value)) || 0) + 1);
+      summary.choices = [...counts.entries()].map(([option, count]) => ({ option, count }));
+    } else {
+      summary.recent = list
+        .map(a => ({ value: String(a.answer.value), date: a.date }))
+        .sort((a, b) => b.date.localeCompare(a.date))
+        .slice(0, RECENT_TEXT_ANSWERS);
+    }
+    return summary;
+  });
+}
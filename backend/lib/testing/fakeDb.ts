@@ -0,0 +1,219 @@
+/**
+ * An in-memory stand-in for the Supabase client, for tests. It covers the
+ * query builder calls the backend makes: select (with count / head),
+ * insert, update, upsert and delete; the eq, neq, is, in, gt, gte, lt and
+ * lte filters; order, limit, single and maybeSingle.
+ *
+ * Each statement runs on its own tick and applies at once, so requests
+ * started together interleave between statements the way they do against
+ * Postgres. Inserts get an id, created_at and the column defaults below
+ * when they have none, and a duplicate key fails with 23505 like a unique
+ * constraint would.
+ */
+import crypto from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+type Row = Record<string, any>;
+
+export type FakeDb = SupabaseClient<any, any, any> & {
+  /** The rows of every table, to seed and inspect */
+  tables: Record<string, Row[]>;
+};
+
+interface Result {
+  data: any;
+  error: { code?: string; message: string } | null;
+  count?: number | null;
+}
+
+// Unique keys other than (business_email, id) / (id)
+const KEYS: Record<string, string[]> = {
+  user_data: ['email'],
+  appointment_reminders: ['business_email', 'appointment_id', 'occurrence_date', 'hours_before']
+};
+
+// Column defaults (from schema.sql) the backend relies on
+const DEFAULTS: Record<string, Row> = {
+  password_resets: { attempts: 0 }
+};
+
+const keyOf = (table: string, row: Row) =>
+  KEYS[table] || ('business_email' in row ? ['business_email', 'id'] : ['id']);
+
+const sameKey = (key: string[], a: Row, b: Row) => key.every(column => a[column] === b[column]);
+
+const duplicate = (table: string): Result => ({
+  data: null,
+  error: { code: '23505', message: `duplicate key value violates unique constraint on ${table}` }
+});
+
+class Query implements PromiseLike<Result> {
+  private action: 'select' | 'insert' | 'update' | 'upsert' | 'delete' = 'select';
+  private payload: any;
+  private conflict?: string[];
+  private ignoreDuplicates = false;
+  private filters: ((row: Row) => boolean)[] = [];
+  private orders: { column: string; ascending: boolean }[] = [];
+  private max?: number;
+  private columns?: string;
+  private returning = false;
+  private count = false;
+  private head = false;
+  private one?: 'single' | 'maybeSingle';
+
+  constructor(private tables: Record<string, Row[]>, private table: string) {}
+
+  select(columns = '*', options: { count?: string; head?: boolean } = {}) {
+    if (this.action === 'select') {
+      this.count = options.count === 'exact';
+      this.head = !!options.head;
+    } else {
+      this.returning = true;
+    }
+    this.columns = columns;
+    return this;
+  }
+
+  insert(rows: Row | Row[]) {
+    this.action = 'insert';
+    this.payload = rows;
+    return this;
+  }
+
+  update(values: Row) {
+    this.action = 'update';
+    this.payload = values;
+    return this;
+  }
+
+  upsert(rows: Row | Row[], options: { onConflict?: string; ignoreDuplicates?: boolean } = {}) {
+    this.action = 'upsert';
+    this.payload = rows;
+    this.conflict = options.onConflict?.split(',').map(c => c.trim());
+    this.ignoreDuplicates = !!options.ignoreDuplicates;
+    return this;
+  }
+
+  delete() {
+    this.action = 'delete';
+    return this;
+  }
+
+  eq(column: string, value: any) { return this.where(row => row[column] === value); }
+  neq(column: string, value: any) { return this.where(row => row[column] !== value); }
+  is(column: string, value: any) { return this.where(row => (row[column] ?? null) === value); }
+  in(column: string, values: any[]) { return this.where(row => values.includes(row[column])); }
+  gt(column: string, value: any) { return this.where(row => row[column] > value); }
+  gte(column: string, value: any) { return this.where(row => row[column] >= value); }
+  lt(column: string, value: any) { return this.where(row => row[column] < value); }
+  lte(column: string, value: any) { return this.where(row => row[column] <= value); }
+
+  order(column: string, options: { ascending?: boolean } = {}) {
+    this.orders.push({ column, ascending: options.ascending !== false });
+    return this;
+  }
+
+  limit(n: number) {
+    this.max = n;
+    return this;
+  }
+
+  single() {
+    this.one = 'single';
+    return this;
+  }
+
+  maybeSingle() {
+    this.one = 'maybeSingle';
+    return this;
+  }
+
+  then<A = Result, B = never>(onFulfilled?: ((value: Result) => A | PromiseLike<A>) | null, onRejected?: ((reason: any) => B | PromiseLike<B>) | null): Promise<A | B> {
+    return new Promise<void>(resolve => setImmediate(resolve))
+      .then(() => this.run())
+      .then(onFulfilled, onRejected);
+  }
+
+  private where(test: (row: Row) => boolean) {
+    this.filters.push(test);
+    return this;
+  }
+
+  private rows(): Row[] {
+    return this.tables[this.table] || (this.tables[this.table] = []);
+  }
+
+  private matching(): Row[] {
+    return this.rows().filter(row => this.filters.every(test => test(row)));
+  }
+
+  private project(row: Row): Row {
+    if (!this.columns || this.columns.trim() === '*') return { ...row };
+    return Object.fromEntries(this.columns.split(',').map(c => c.trim()).map(c => [c, row[c] ?? null]));
+  }
+
+  private fill(row: Row): Row {
+    return { id: crypto.randomUUID(), created_at: new Date().toISOString(), ...DEFAULTS[this.table], ...row };
+  }
+
+  private run(): Result {
+    const rows = this.rows();
+    let affected: Row[];
+
+    switch (this.action) {
+      case 'select':
+        affected = this.matching();
+        break;
+      case 'insert': {
+        const added = (Array.isArray(this.payload) ? this.payload : [this.payload]).map(row => this.fill(row));
+        const taken = added.some((row, i) =>
+          rows.some(existing => sameKey(keyOf(this.table, row), existing, row)) ||
+          added.slice(0, i).some(other => sameKey(keyOf(this.table, row), other, row)));
+        if (taken) return duplicate(this.table);
+        rows.push(...added);
+        affected = added;
+        break;
+      }
+      case 'update':
+        affected = this.matching();
+        affected.forEach(row => Object.assign(row, this.payload));
+        break;
+      case 'upsert': {
+        affected = [];
+        for (const row of Array.isArray(this.payload) ? this.payload : [this.payload]) {
+          const existing = rows.find(other => sameKey(this.conflict || keyOf(this.table, row), other, row));
+          if (existing && this.ignoreDuplicates) continue;
+          if (existing) Object.assign(existing, row);
+          else rows.push(this.fill(row));
+          affected.push(existing || rows[rows.length - 1]);
+        }
+        break;
+      }
+      case 'delete':
+        affected = this.matching();
+        this.tables[this.table] = rows.filter(row => !affected.includes(row));
+        break;
+    }
+
+    if (this.action !== 'select' && !this.returning) return { data: null, error: null };
+    for (const { column, ascending } of [...this.orders].reverse()) {
+      affected = [...affected].sort((a, b) => (a[column] < b[column] ? -1 : a[column] > b[column] ? 1 : 0) * (ascending ? 1 : -1));
+    }
+    const count = affected.length;
+    if (this.max !== undefined) affected = affected.slice(0, this.max);
+    const data = affected.map(row => this.project(row));
+
+    if (this.head) return { data: null, error: null, count };
+    if (this.one) {
+      if (data.length === 1) return { data: data[0], error: null };
+      if (data.length === 0 && this.one === 'maybeSingle') return { data: null, error: null };
+      return { data: null, error: { code: 'PGRST116', message: `Expected a single row, got ${data.length}` } };
+    }
+    return { data, error: null, count: this.count ? count : null };
+  }
+}
+
+/** A fake database holding `tables`; rows are used as they are, not copied. */
+export function fakeDb(tables: Record<string, Row[]> = {}): FakeDb {
+  return { tables, from: (table: string) => new Query(tables, table) } as unknown as FakeDb;
+}
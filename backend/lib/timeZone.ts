@@ -0,0 +1,109 @@
+/**
+ * Wall-clock conversions between IANA time zones (e.g. "America/New_York"),
+ * built on Intl so they follow daylight saving rules without a tz database.
+ *
+ * Appointments store `date` and `time` as wall-clock time in the business's
+ * time zone (BusinessProfile.timeZone); these helpers turn them into instants
+ * and into other zones for display.
+ *
+ * Pure (no Node or browser APIs beyond Intl) so the browser and server share it.
+ */
+
+export interface WallTime {
+  date: string; // YYYY-MM-DD
+  time: string; // HH:mm
+}
+
+const DAY_MS = 86400000;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric', month: '2-digit', day: '2-digit',
+      hour: '2-digit', minute: '2-digit', second: '2-digit'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/** Whether `timeZone` is an IANA zone this runtime knows. */
+export function isValidTimeZone(timeZone: string): boolean {
+  if (!timeZone) return false;
+  try {
+    formatterFor(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** The time zone of the device running this code. */
+export const deviceTimeZone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+/** `timeZone` if it's a zone this runtime knows, otherwise `fallback`. */
+export const resolveTimeZone = (timeZone: string | undefined, fallback = 'UTC'): string =>
+  timeZone && isValidTimeZone(timeZone) ? timeZone : fallback;
+
+/** Every IANA zone this runtime knows, for pickers. */
+export function listTimeZones(): string[] {
+  const zones = typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : [];
+  return zones.includes('UTC') ? zones : ['UTC', ...zones];
+}
+
+/** The zone's short name at `utcMs`, e.g. "EST" or "GMT+2". */
+export function zoneAbbreviation(timeZone: string, utcMs = Date.now()): string {
+  const part = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' })
+    .formatToParts(new Date(utcMs))
+    .find(p => p.type === 'timeZoneName');
+  return part?.value || timeZone;
+}
+
+/** `date` (YYYY-MM-DD) moved by `days` calendar days. */
+export function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+/** The wall-clock date and time in `timeZone` at the instant `utcMs`. */
+export function toWallTime(utcMs: number, timeZone: string): WallTime {
+  const parts = Object.fromEntries(
+    formatterFor(timeZone).formatToParts(new Date(utcMs)).map(p => [p.type, p.value])
+  );
+  return { date: `${parts.year}-${parts.month}-${parts.day}`, time: `${parts.hour}:${parts.minute}` };
+}
+
+// Minutes `timeZone` is ahead of UTC at the instant `utcMs`
+function offsetAt(utcMs: number, timeZone: string): number {
+  const parts = Object.fromEntries(
+    formatterFor(timeZone).formatToParts(new Date(utcMs)).map(p => [p.type, Number(p.value)])
+  );
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return Math.round((asUtc - Math.floor(utcMs / 1000) * 1000) / 60000);
+}
+
+/**
+ * The instant at which clocks in `timeZone` show `date` `time`. Times skipped
+ * by a daylight saving jump resolve to the same clock time after the jump;
+ * times that happen twice resolve to the first.
+ */
+export function fromWallTime(date: string, time: string, timeZone: string): number {
+  const wall = Date.parse(`${date}T${time}:00Z`);
+  // The offsets in force a day either side cover both sides of any transition
+  const candidates = [-DAY_MS, DAY_MS].map(shift => wall - offsetAt(wall + shift, timeZone) * 60000);
+  const valid = candidates.filter(ms => {
+    const shown = toWallTime(ms, timeZone);
+    return shown.date === date && shown.time === time;
+  });
+  return valid.length > 0 ? Math.min(...valid) : Math.max(...candidates);
+}
+
+/** Convert a wall-clock time from one zone to another. */
+export const convertWallTime = (date: string, time: string, from: string, to: string): WallTime =>
+  from === to ? { date, time } : toWallTime(fromWallTime(date, time, from), to);
@@ -0,0 +1,230 @@
+/**
+ * Request validation for business entities.
+ * The rules mirror the interfaces in types.ts (Client, Appointment, Expense,
+ * BonusEntry, ClientRating, WaitlistEntry); keep them in sync when those types change.
+ */
+import type { EntityName } from './entities.js';
+import { SURVEY_QUESTION_TYPES } from './survey.js';
+
+type FieldType = 'string' | 'number' | 'integer' | 'boolean' | 'date' | 'time' | 'datetime' | 'stringArray' | 'object' | 'objectArray';
+
+interface FieldRule {
+  type: FieldType;
+  required?: boolean;
+  enum?: readonly string[];
+  min?: number;
+  max?: number;
+  check?: (value: any) => string | null; // extra validation for nested values
+}
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_RE = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export const RECURRENCE_FREQUENCIES = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'] as const;
+export const APPOINTMENT_STATUSES = ['CONFIRMED', 'PENDING', 'COMPLETED', 'CANCELLED', 'BLOCKED'] as const;
+export const EVENT_TYPES = ['APPOINTMENT', 'MEETING', 'INTERVIEW', 'TASK'] as const;
+export const EXPENSE_CATEGORIES = ['Supplies', 'Rent', 'Marketing', 'Other'] as const;
+export const WAITLIST_STATUSES = ['WAITING', 'OFFERED', 'BOOKED'] as const;
+export const TIMES_OF_DAY = ['MORNING', 'AFTERNOON', 'EVENING'] as const;
+
+function checkRecurrence(rule: any): string | null {
+  if (!RECURRENCE_FREQUENCIES.includes(rule.frequency)) return 'recurrence.frequency must be DAILY, WEEKLY, MONTHLY or YEARLY';
+  if (!Number.isInteger(rule.interval) || rule.interval < 1) return 'recurrence.interval must be a positive integer';
+  if (rule.count !== undefined && rule.count !== null && (!Number.isInteger(rule.count) || rule.count < 1)) {
+    return 'recurrence.count must be a positive integer';
+  }
+  if (rule.count && rule.endDate) return 'recurrence cannot have both count and endDate';
+  if (rule.endDate !== undefined && rule.endDate !== null && !(typeof rule.endDate === 'string' && DATE_RE.test(rule.endDate))) {
+    return 'recurrence.endDate must be YYYY-MM-DD';
+  }
+  if (rule.daysOfWeek !== undefined) {
+    if (!Array.isArray(rule.daysOfWeek) || rule.daysOfWeek.some((d: any) => !Number.isInteger(d) || d < 0 || d > 6)) {
+      return 'recurrence.daysOfWeek must be integers 0-6';
+    }
+  }
+  if (rule.setPos !== undefined && rule.setPos !== null) {
+    if (!Number.isInteger(rule.setPos) || rule.setPos === 0 || Math.abs(rule.setPos) > 5) return 'recurrence.setPos must be 1-5 or -1 to -5';
+    if (!['MONTHLY', 'YEARLY'].includes(rule.frequency) || !rule.daysOfWeek?.length) {
+      return 'recurrence.setPos needs a MONTHLY or YEARLY rule with daysOfWeek';
+    }
+  }
+  if (rule.exceptionDates !== undefined) {
+    if (!Array.isArray(rule.exceptionDates) || rule.exceptionDates.some((d: any) => typeof d !== 'string' || !DATE_RE.test(d))) {
+      return 'recurrence.exceptionDates must be YYYY-MM-DD dates';
+    }
+  }
+  return null;
+}
+
+function checkTimesOfDay(times: string[]): string | null {
+  return times.every(t => (TIMES_OF_DAY as readonly string[]).includes(t)) ? null : 'preferredTimes must be MORNING, AFTERNOON or EVENING';
+}
+
+function checkAnswers(answers: any[]): string | null {
+  for (const answer of answers) {
+    if (typeof answer.questionId !== 'string' || typeof answer.prompt !== 'string') return 'answers need a questionId and prompt';
+    if (!(SURVEY_QUESTION_TYPES as readonly string[]).includes(answer.type)) return 'answers[].type must be NPS, CHOICE or TEXT';
+    if (typeof answer.value !== 'number' && typeof answer.value !== 'string') return 'answers[].value must be a number or string';
+  }
+  return null;
+}
+
+type EntitySchema = Record<string, FieldRule>;
+
+export const SCHEMAS: Partial<Record<EntityName, EntitySchema>> = {
+  clients: {
+    id: { type: 'string', required: true },
+    name: { type: 'string', required: true },
+    email: { type: 'string' },
+    phone: { type: 'string' },
+    notes: { type: 'stringArray' },
+    preferences: { type: 'string' },
+    lastVisit: { type: 'date' }
+  },
+  appointments: {
+    id: { type: 'string', required: true },
+    clientId: { type: 'string', required: true },
+    clientName: { type: 'string', required: true },
+    clientIds: { type: 'stringArray' },
+    clientNames: { type: 'stringArray' },
+    serviceId: { type: 'string', required: true },
+    date: { type: 'date', required: true },
+    time: { type: 'time', required: true },
+    status: { type: 'string', required: true, enum: APPOINTMENT_STATUSES },
+    notes: { type: 'string' },
+    recurrence: { type: 'object', check: checkRecurrence },
+    staffId: { type: 'string' },
+    numberOfPeople: { type: 'integer', min: 1 },
+    overridePrice: { type: 'number', min: 0 },
+    eventType: { type: 'string', enum: EVENT_TYPES },
+    recurrenceParentId: { type: 'string' },
+    occurrenceDate: { type: 'date' },
+    durationMin: { type: 'integer', min: 1 }
+  },
+  expenses: {
+    id: { type: 'string', required: true },
+    name: { type: 'string', required: true },
+    amount: { type: 'number', required: true },
+    date: { type: 'date', required: true },
+    category: { type: 'string', required: true, enum: EXPENSE_CATEGORIES }
+  },
+  bonusEntries: {
+    id: { type: 'string', required: true },
+    description: { type: 'string', required: true },
+    amount: { type: 'number', required: true },
+    date: { type: 'date', required: true }
+  },
+  ratings: {
+    id: { type: 'string', required: true },
+    appointmentId: { type: 'string', required: true },
+    clientId: { type: 'string', required: true },
+    businessRating: { type: 'integer', min: 1, max: 5 },
+    staffRating: { type: 'integer', min: 1, max: 5 },
+    staffId: { type: 'string' },
+    comment: { type: 'string' },
+    date: { type: 'datetime', required: true },
+    hidden: { type: 'boolean' },
+    flagged: { type: 'boolean' },
+    featured: { type: 'boolean' },
+    reply: { type: 'string' },
+    repliedAt: { type: 'datetime' },
+    answers: { type: 'objectArray', check: checkAnswers }
+  },
+  waitlist: {
+    id: { type: 'string', required: true },
+    clientName: { type: 'string', required: true },
+    clientEmail: { type: 'string', required: true },
+    clientPhone: { type: 'string' },
+    serviceId: { type: 'string', required: true },
+    staffId: { type: 'string' },
+    startDate: { type: 'date', required: true },
+    endDate: { type: 'date', required: true },
+    preferredTimes: { type: 'stringArray', check: checkTimesOfDay },
+    status: { type: 'string', required: true, enum: WAITLIST_STATUSES },
+    offerDate: { type: 'date' },
+    offerTime: { type: 'time' },
+    offerStaffId: { type: 'string' },
+    offerToken: { type: 'string' },
+    offerExpiresAt: { type: 'datetime' },
+    declinedSlots: { type: 'stringArray' },
+    appointmentId: { type: 'string' }
+  }
+};
+
+function checkField(field: string, rule: FieldRule, value: any): string | null {
+  // null clears an optional field (see withClearedFields)
+  if (value === null) return rule.required ? `${field} cannot be null` : null;
+
+  switch (rule.type) {
+    case 'string':
+      if (typeof value !== 'string') return `${field} must be a string`;
+      break;
+    case 'number':
+    case 'integer':
+      if (typeof value !== 'number' || !Number.isFinite(value)) return `${field} must be a number`;
+      if (rule.type === 'integer' && !Number.isInteger(value)) return `${field} must be an integer`;
+      if (rule.min !== undefined && value < rule.min) return `${field} must be at least ${rule.min}`;
+      if (rule.max !== undefined && value > rule.max) return `${field} must be at most ${rule.max}`;
+      break;
+    case 'boolean':
+      if (typeof value !== 'boolean') return `${field} must be a boolean`;
+      break;
+    case 'date':
+      if (typeof value !== 'string' || !DATE_RE.test(value)) return `${field} must be a YYYY-MM-DD date`;
+      break;
+    case 'time':
+      if (typeof value !== 'string' || !TIME_RE.test(value)) return `${field} must be an HH:mm time`;
+      break;
+    case 'datetime':
+      if (typeof value !== 'string' || isNaN(Date.parse(value))) return `${field} must be an ISO date-time`;
+      break;
+    case 'stringArray':
+      if (!Array.isArray(value) || value.some(v => typeof v !== 'string')) return `${field} must be an array of strings`;
+      break;
+    case 'object':
+      if (typeof value !== 'object' || Array.isArray(value)) return `${field} must be an object`;
+      break;
+    case 'objectArray':
+      if (!Array.isArray(value) || value.some(v => !v || typeof v !== 'object' || Array.isArray(v))) return `${field} must be an array of objects`;
+      break;
+  }
+
+  if (rule.enum && !rule.enum.includes(value)) return `${field} must be one of ${rule.enum.join(', ')}`;
+  if (rule.check) return rule.check(value);
+  return null;
+}
+
+/**
+ * `entity` as a PATCH body that replaces the stored one: optional fields it
+ * doesn't set are sent as null. JSON drops undefined values and PATCH keeps
+ * whatever a body leaves out, so otherwise a cleared field would be kept.
+ */
+export function withClearedFields<T extends object>(name: EntityName, entity: T): T {
+  const cleared = Object.entries(SCHEMAS[name] || {})
+    .filter(([field, rule]) => !rule.required && (entity as any)[field] === undefined)
+    .map(([field]) => [field, null]);
+  return { ...entity, ...Object.fromEntries(cleared) };
+}
+
+/**
+ * Validate an entity body. With `partial`, missing required fields are allowed
+ * (PATCH bodies); fields present are still type-checked.
+ * Returns a list of problems, empty when the body is valid.
+ */
+export function validateEntity(name: EntityName, body: any, options: { partial?: boolean } = {}): string[] {
+  const schema = SCHEMAS[name];
+  if (!schema) return [`${name} cannot be edited through this API`];
+  if (!body || typeof body !== 'object' || Array.isArray(body)) return ['Request body must be an object'];
+
+  const errors: string[] = [];
+  for (const [field, rule] of Object.entries(schema)) {
+    const value = body[field];
+    if (value === undefined) {
+      if (rule.required && !options.partial) errors.push(`${field} is required`);
+      continue;
+    }
+    const problem = checkField(field, rule, value);
+    if (problem) errors.push(problem);
+  }
+  return errors;
+}
@@ -0,0 +1,362 @@
+/**
+ * Waitlist: clients who can't find a time join it from the booking page with
+ * the service, the days they can make and the times of day they prefer.
+ * When an appointment is cancelled its time is offered by email to the first
+ * matching client (in the order they joined) with a claim link that expires.
+ * Declined and expired offers move on to the next matching client.
+ *
+ * Dates and times are in the business's time zone, like appointments.
+ */
+import crypto from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { ENTITIES, fromRow, listEntities, insertEntity, updateEntity, deleteEntity } from './entities.js';
+import { validateEntity } from './validation.js';
+import { checkSlot, durationsOf, toMinutes } from './availability.js';
+import { addDays, fromWallTime, resolveTimeZone, toWallTime } from './timeZone.js';
+import { escapeHtml } from './mailer.js';
+import { sendLoggedMail } from './emailLog.js';
+import { createPublicBooking, ensureBookingSlug, findBusiness } from './publicBooking.js';
+
+type DB = SupabaseClient<any, any, any>;
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const TOKEN_RE = /^[A-Za-z0-9_-]{32}$/;
+
+const OFFER_TTL_MS = 2 * 60 * 60 * 1000;
+const MAX_RANGE_DAYS = 60; // same window the booking page publishes
+
+// Minutes of the day each preferred time covers, [from, to)
+const TIMES_OF_DAY: Record<string, [number, number]> = {
+  MORNING: [0, 12 * 60],
+  AFTERNOON: [12 * 60, 17 * 60],
+  EVENING: [17 * 60, 24 * 60]
+};
+
+export interface WaitlistJoinInput {
+  serviceId?: string;
+  staffId?: string;
+  startDate?: string;
+  endDate?: string;
+  preferredTimes?: string[];
+  client?: { name?: string; email?: string; phone?: string };
+}
+
+/** A time freed by a cancellation. */
+export interface OpenSlot {
+  date: string;
+  time: string; // HH:mm
+  staffId?: string; // the staff member who was booked, offered first when they're free
+}
+
+type Failure = { ok: false; status: number; error: string };
+
+export type JoinWaitlistResult = { ok: true; entryId: string } | Failure;
+
+export type WaitlistOfferResult =
+  | {
+      ok: true;
+      offer: {
+        businessName: string;
+        serviceName: string;
+        staffName?: string;
+        clientName: string;
+        date: string;
+        time: string;
+        timeZone: string;
+        expiresAt: string;
+      };
+    }
+  | Failure;
+
+export type ClaimOfferResult =
+  | { ok: true; booking: { appointmentId: string; date: string; time: string; status: string } }
+  | Failure;
+
+const slotKey = (slot: { date: string; time: string }) => `${slot.date} ${slot.time}`;
+
+/**
+ * Whether a waiting `entry` wants `slot`: on one of its days, at a preferred
+ * time of day, and not a time it already passed on. Whether the slot fits
+ * its service and staff member is checked against the calendar separately.
+ */
+export function wantsSlot(entry: any, slot: OpenSlot): boolean {
+  if (entry.status !== 'WAITING') return false;
+  if (slot.date < entry.startDate || slot.date > entry.endDate) return false;
+  if (entry.declinedSlots?.includes(slotKey(slot))) return false;
+  const start = toMinutes(slot.time);
+  return !entry.preferredTimes?.length
+    || entry.preferredTimes.some((t: string) => TIMES_OF_DAY[t] && TIMES_OF_DAY[t][0] <= start && start < TIMES_OF_DAY[t][1]);
+}
+
+async function loadBusiness(db: DB, businessEmail: string): Promise<{ email: string; profile: any } | null> {
+  const { data } = await db
+    .from('user_data').select('email, business_profile').eq('email', businessEmail).maybeSingle();
+  if (!data || !data.business_profile) return null;
+  return { email: data.email, profile: data.business_profile };
+}
+
+// ================================================================
+// JOINING
+// ================================================================
+
+/** Add a client to the waitlist of the business behind `slug`. */
+export async function joinWaitlist(db: DB, slug: string, input: WaitlistJoinInput): Promise<JoinWaitlistResult> {
+  const business = await findBusiness(db, slug);
+  if (!business) return { ok: false, status: 404, error: 'Booking page not found' };
+
+  const [services, staff] = await Promise.all([
+    listEntities(db, 'services', business.email),
+    listEntities(db, 'staff', business.email)
+  ]);
+  const service = services.find(s => s.id === input.serviceId);
+  if (!service) return { ok: false, status: 400, error: 'Please choose a service' };
+  if (input.staffId && !staff.some(s => s.id === input.staffId)) return { ok: false, status: 400, error: 'Unknown staff member' };
+
+  const today = toWallTime(Date.now(), resolveTimeZone(business.profile.timeZone)).date;
+  const { startDate, endDate = startDate } = input;
+  if (!startDate || !DATE_RE.test(startDate) || !endDate || !DATE_RE.test(endDate) || endDate < startDate) {
+    return { ok: false, status: 400, error: 'Please choose the days you can make' };
+  }
+  if (endDate < today) return { ok: false, status: 400, error: 'Those days have already passed' };
+  if (endDate > addDays(today, MAX_RANGE_DAYS)) {
+    return { ok: false, status: 400, error: `Please choose days within the next ${MAX_RANGE_DAYS}` };
+  }
+
+  const name = String(input.client?.name || '').trim().slice(0, 100);
+  const email = String(input.client?.email || '').trim().toLowerCase().slice(0, 200);
+  const phone = String(input.client?.phone || '').trim().slice(0, 40);
+  if (!name) return { ok: false, status: 400, error: 'Please enter your name' };
+  if (!EMAIL_RE.test(email)) return { ok: false, status: 400, error: 'Please enter a valid email address so we can reach you' };
+
+  const entry = {
+    id: crypto.randomUUID(),
+    clientName: name,
+    clientEmail: email,
+    clientPhone: phone || undefined,
+    serviceId: service.id,
+    staffId: input.staffId || undefined,
+    startDate: startDate < today ? today : startDate,
+    endDate,
+    preferredTimes: Array.isArray(input.preferredTimes) ? [...new Set(input.preferredTimes)] : undefined,
+    status: 'WAITING'
+  };
+  const errors = validateEntity('waitlist', entry);
+  if (errors.length > 0) return { ok: false, status: 400, error: errors[0] };
+  await insertEntity(db, 'waitlist', business.email, entry);
+  return { ok: true, entryId: entry.id };
+}
+
+// ================================================================
+// OFFERS
+// ================================================================
+
+/**
+ * Offer `slot` to the first waiting client it suits and fits (their service
+ * and staff member are free then). Does nothing if the slot is already on
+ * offer, has started, or nobody matches.
+ */
+async function offerSlot(db: DB, business: { email: string; profile: any }, slot: OpenSlot, appUrl: string | null): Promise<void> {
+  const { email: businessEmail, profile } = business;
+  const timeZone = resolveTimeZone(profile.timeZone);
+  const startsAt = fromWallTime(slot.date, slot.time, timeZone);
+  if (startsAt <= Date.now()) return;
+  if (!appUrl) return; // an offer is only its claim link; leave everyone waiting
+
+  const [entries, services, staff, appointments] = await Promise.all([
+    listEntities(db, 'waitlist', businessEmail),
+    listEntities(db, 'services', businessEmail),
+    listEntities(db, 'staff', businessEmail),
+    listEntities(db, 'appointments', businessEmail)
+  ]);
+  if (entries.some(e => e.status === 'OFFERED' && e.offerDate === slot.date && e.offerTime === slot.time)) return;
+
+  const hours = profile.workingHours;
+  for (const entry of entries) {
+    if (!wantsSlot(entry, slot)) continue;
+    const service = services.find(s => s.id === entry.serviceId);
+    if (!service) continue;
+    const free = checkSlot({
+      date: slot.date,
+      time: slot.time,
+      durationMin: service.durationMin || 60,
+      workingHours: hours?.start && hours?.end ? hours : { start: '00:00', end: '24:00' },
+      bufferMin: profile.bufferMin || 0,
+      entries: appointments,
+      serviceDurations: durationsOf(services),
+      staff,
+      staffId: entry.staffId,
+      serviceId: service.id
+    });
+    if (!free) continue;
+
+    const offer = {
+      ...entry,
+      status: 'OFFERED',
+      offerDate: slot.date,
+      offerTime: slot.time,
+      offerStaffId: entry.staffId || (slot.staffId && free.includes(slot.staffId) ? slot.staffId : free[0]),
+      offerToken: crypto.randomBytes(24).toString('base64url'),
+      // Never past the start of the appointment itself
+      offerExpiresAt: new Date(Math.min(Date.now() + OFFER_TTL_MS, startsAt)).toISOString()
+    };
+    await updateEntity(db, 'waitlist', businessEmail, offer);
+
+    const when = new Date(startsAt).toLocaleString('en-US', {
+      timeZone, weekday: 'long', month: 'long', day: 'numeric', hour: 'numeric', minute: '2-digit', timeZoneName: 'short'
+    });
+    const until = new Date(offer.offerExpiresAt).toLocaleString('en-US', {
+      timeZone, hour: 'numeric', minute: '2-digit', timeZoneName: 'short'
+    });
+    const link = `${appUrl}/waitlist/${offer.offerToken}`;
+    const at = profile.name ? ` at ${profile.name}` : '';
+    const mail = await sendLoggedMail(db, businessEmail, 'WAITLIST_OFFER', {
+      to: entry.clientEmail,
+      subject: `A time opened up${at}`,
+      text: `Hi ${entry.clientName}, a ${service.name} appointment${at} opened up on ${when}. Claim it before ${until}: ${link}\nIf you can't make it, the link lets you pass it on to the next person.`,
+      html: `<p>Hi ${escapeHtml(entry.clientName)},</p><p>A <strong>${escapeHtml(service.name)}</strong> appointment${escapeHtml(at)} opened up on <strong>${when}</strong>.</p><p><a href="${link}">Claim it</a> before ${until}.</p><p>If you can't make it, the link lets you pass it on to the next person.</p>`
+    });
+    if (mail.ok) return;
+
+    // They can't be reached; leave them waiting and try the next client
+    console.error('Waitlist offer email error:', mail.error);
+    await updateEntity(db, 'waitlist', businessEmail, { ...entry, status: 'WAITING' });
+  }
+}
+
+const NO_OFFER = { offerDate: undefined, offerTime: undefined, offerStaffId: undefined, offerToken: undefined, offerExpiresAt: undefined };
+
+/** `entry` back to waiting, never to be offered its current slot again. */
+const passOn = (entry: any) => ({
+  ...entry,
+  ...NO_OFFER,
+  status: 'WAITING',
+  declinedSlots: [...(entry.declinedSlots || []), slotKey({ date: entry.offerDate, time: entry.offerTime })]
+});
+
+/**
+ * Move expired offers on to the next matching client. Runs whenever a
+ * business's waitlist is touched (cancellations, claim links, new entries)
+ * and on the scheduled sweep.
+ */
+export async function expireWaitlistOffers(db: DB, businessEmail: string, appUrl: string | null): Promise<void> {
+  const business = await loadBusiness(db, businessEmail);
+  if (!business) return;
+  const entries = await listEntities(db, 'waitlist', businessEmail);
+  const now = Date.now();
+  for (const entry of entries) {
+    if (entry.status !== 'OFFERED' || Date.parse(entry.offerExpiresAt) > now) continue;
+    await updateEntity(db, 'waitlist', businessEmail, passOn(entry));
+    await offerSlot(db, business, { date: entry.offerDate, time: entry.offerTime, staffId: entry.offerStaffId }, appUrl);
+  }
+}
+
+/** Move on expired offers for every business, for the scheduled sweep. */
+export async function expireAllWaitlistOffers(db: DB, appUrl: string | null): Promise<void> {
+  const { data, error } = await db
+    .from('waitlist').select('business_email').eq('status', 'OFFERED').lte('offer_expires_at', new Date().toISOString());
+  if (error) throw new Error(`Failed to load waitlist offers: ${error.message}`);
+  for (const email of new Set((data || []).map((row: any) => row.business_email as string))) {
+    await expireWaitlistOffers(db, email, appUrl);
+  }
+}
+
+/** Offer the time of a just-cancelled appointment to the waitlist. */
+export async function offerCancelledTime(db: DB, businessEmail: string, appointment: any, appUrl: string | null): Promise<void> {
+  // Only client appointments free a bookable time
+  if (appointment.eventType && appointment.eventType !== 'APPOINTMENT') return;
+  const business = await loadBusiness(db, businessEmail);
+  if (!business) return;
+  await expireWaitlistOffers(db, businessEmail, appUrl);
+  await offerSlot(db, business, { date: appointment.date, time: appointment.time, staffId: appointment.staffId }, appUrl);
+}
+
+// The live offer behind a claim link, after moving on expired offers
+async function findOffer(db: DB, token: string, appUrl: string | null): Promise<{ businessEmail: string; entry: any } | Failure> {
+  const notFound: Failure = { ok: false, status: 404, error: 'This offer is no longer available' };
+  if (!TOKEN_RE.test(token)) return notFound;
+  const { data } = await db.from('waitlist').select('*').eq('offer_token', token).maybeSingle();
+  if (!data) return notFound;
+
+  const entry = fromRow(ENTITIES.waitlist, data);
+  if (Date.parse(entry.offerExpiresAt) <= Date.now()) {
+    await expireWaitlistOffers(db, data.business_email, appUrl);
+    return { ok: false, status: 410, error: 'This offer has expired and was passed on' };
+  }
+  return { businessEmail: data.business_email, entry };
+}
+
+/** What a claim link offers, for the claim page. */
+export async function getWaitlistOffer(db: DB, token: string, appUrl: string | null): Promise<WaitlistOfferResult> {
+  const found = await findOffer(db, token, appUrl);
+  if ('ok' in found) return found;
+  const { businessEmail, entry } = found;
+
+  const [business, services, staff] = await Promise.all([
+    loadBusiness(db, businessEmail),
+    listEntities(db, 'services', businessEmail),
+    listEntities(db, 'staff', businessEmail)
+  ]);
+  return {
+    ok: true,
+    offer: {
+      businessName: business?.profile.name || '',
+      serviceName: services.find(s => s.id === entry.serviceId)?.name || 'Appointment',
+      staffName: staff.find(s => s.id === entry.offerStaffId)?.name,
+      clientName: entry.clientName,
+      date: entry.offerDate,
+      time: entry.offerTime,
+      timeZone: resolveTimeZone(business?.profile.timeZone),
+      expiresAt: entry.offerExpiresAt
+    }
+  };
+}
+
+/**
+ * Book the offered time. It goes through the same checks as a public
+ * booking, so a time someone else took in the meantime gets a 409 and the
+ * client stays on the waitlist.
+ */
+export async function claimWaitlistOffer(db: DB, token: string, appUrl: string | null): Promise<ClaimOfferResult> {
+  const found = await findOffer(db, token, appUrl);
+  if ('ok' in found) return found;
+  const { businessEmail, entry } = found;
+
+  const result = await createPublicBooking(db, await ensureBookingSlug(db, businessEmail), {
+    serviceId: entry.serviceId,
+    staffId: entry.offerStaffId,
+    date: entry.offerDate,
+    time: entry.offerTime,
+    notes: 'Booked from the waitlist',
+    clients: [{ name: entry.clientName, email: entry.clientEmail, phone: entry.clientPhone }]
+  }, appUrl ?? undefined);
+  if (result.ok === false) {
+    await updateEntity(db, 'waitlist', businessEmail, passOn(entry));
+    return result.status === 409 ? { ok: false, status: 409, error: 'Sorry, that time was just taken. You are still on the waitlist.' } : result;
+  }
+
+  await updateEntity(db, 'waitlist', businessEmail, {
+    ...entry,
+    ...NO_OFFER,
+    status: 'BOOKED',
+    appointmentId: result.booking.appointmentId
+  });
+  return result;
+}
+
+/**
+ * Pass on the offered time; it goes to the next matching client. With
+ * `leave` the client also comes off the waitlist.
+ */
+export async function declineWaitlistOffer(db: DB, token: string, leave: boolean, appUrl: string | null): Promise<{ ok: true } | Failure> {
+  const found = await findOffer(db, token, appUrl);
+  if ('ok' in found) return found;
+  const { businessEmail, entry } = found;
+
+  if (leave) await deleteEntity(db, 'waitlist', businessEmail, entry.id);
+  else await updateEntity(db, 'waitlist', businessEmail, passOn(entry));
+
+  const business = await loadBusiness(db, businessEmail);
+  if (business) await offerSlot(db, business, { date: entry.offerDate, time: entry.offerTime, staffId: entry.offerStaffId }, appUrl);
+  return { ok: true };
+}
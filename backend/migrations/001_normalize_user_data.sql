@@ -0,0 +1,147 @@
+-- ================================================================
+-- 001: Explode the JSONB arrays on user_data into entity tables
+-- ================================================================
+-- Run in the Supabase SQL Editor AFTER running the current schema.sql (which
+-- creates the entity tables). Safe to re-run: rows that already exist are
+-- left untouched. The legacy JSONB columns are kept until you drop them
+-- yourself (see the end of this file) so you can roll back.
+
+BEGIN;
+
+-- Services (from business_profile.services, keeping menu order)
+INSERT INTO services (business_email, id, name, duration_min, price, description, price_per_person, position)
+SELECT u.email,
+       s.value->>'id',
+       COALESCE(s.value->>'name', ''),
+       COALESCE((s.value->>'durationMin')::numeric::integer, 60),
+       COALESCE((s.value->>'price')::numeric, 0),
+       s.value->>'description',
+       (s.value->>'pricePerPerson')::boolean,
+       (s.ordinality - 1)::integer
+FROM user_data u,
+     jsonb_array_elements(COALESCE(u.business_profile->'services', '[]'::jsonb)) WITH ORDINALITY AS s(value, ordinality)
+WHERE s.value->>'id' IS NOT NULL
+ON CONFLICT (business_email, id) DO NOTHING;
+
+-- Staff (from business_profile.staff)
+INSERT INTO staff (business_email, id, name, role, email, phone, position)
+SELECT u.email,
+       s.value->>'id',
+       COALESCE(s.value->>'name', ''),
+       s.value->>'role',
+       s.value->>'email',
+       s.value->>'phone',
+       (s.ordinality - 1)::integer
+FROM user_data u,
+     jsonb_array_elements(COALESCE(u.business_profile->'staff', '[]'::jsonb)) WITH ORDINALITY AS s(value, ordinality)
+WHERE s.value->>'id' IS NOT NULL
+ON CONFLICT (business_email, id) DO NOTHING;
+
+-- Clients (created_at is spaced by array position so list order is preserved)
+INSERT INTO clients (business_email, id, name, email, phone, notes, preferences, last_visit, created_at)
+SELECT u.email,
+       c.value->>'id',
+       COALESCE(c.value->>'name', ''),
+       c.value->>'email',
+       c.value->>'phone',
+       COALESCE(ARRAY(SELECT jsonb_array_elements_text(
+         CASE WHEN jsonb_typeof(c.value->'notes') = 'array' THEN c.value->'notes' ELSE '[]'::jsonb END
+       )), '{}'),
+       c.value->>'preferences',
+       NULLIF(c.value->>'lastVisit', '')::date,
+       u.created_at + (c.ordinality * INTERVAL '1 millisecond')
+FROM user_data u,
+     jsonb_array_elements(COALESCE(u.clients, '[]'::jsonb)) WITH ORDINALITY AS c(value, ordinality)
+WHERE c.value->>'id' IS NOT NULL
+ON CONFLICT (business_email, id) DO NOTHING;
+
+-- Appointments
+INSERT INTO appointments (business_email, id, client_id, client_name, client_ids, client_names, service_id,
+                          date, time, status, notes, recurrence, staff_id, number_of_people, override_price,
+                          event_type, created_at)
+SELECT u.email,
+       a.value->>'id',
+       a.value->>'clientId',
+       a.value->>'clientName',
+       CASE WHEN jsonb_typeof(a.value->'clientIds') = 'array'
+            THEN ARRAY(SELECT jsonb_array_elements_text(a.value->'clientIds')) END,
+       CASE WHEN jsonb_typeof(a.value->'clientNames') = 'array'
+            THEN ARRAY(SELECT jsonb_array_elements_text(a.value->'clientNames')) END,
+       a.value->>'serviceId',
+       (a.value->>'date')::date,
+       COALESCE(a.value->>'time', '00:00'),
+       COALESCE(a.value->>'status', 'CONFIRMED'),
+       a.value->>'notes',
+       a.value->'recurrence',
+       a.value->>'staffId',
+       (a.value->>'numberOfPeople')::numeric::integer,
+       (a.value->>'overridePrice')::numeric,
+       a.value->>'eventType',
+       u.created_at + (a.ordinality * INTERVAL '1 millisecond')
+FROM user_data u,
+     jsonb_array_elements(COALESCE(u.appointments, '[]'::jsonb)) WITH ORDINALITY AS a(value, ordinality)
+WHERE a.value->>'id' IS NOT NULL
+  AND NULLIF(a.value->>'date', '') IS NOT NULL
+ON CONFLICT (business_email, id) DO NOTHING;
+
+-- Expenses
+INSERT INTO expenses (business_email, id, name, amount, date, category, created_at)
+SELECT u.email,
+       e.value->>'id',
+       COALESCE(e.value->>'name', ''),
+       COALESCE((e.value->>'amount')::numeric, 0),
+       NULLIF(e.value->>'date', '')::date,
+       e.value->>'category',
+       u.created_at + (e.ordinality * INTERVAL '1 millisecond')
+FROM user_data u,
+     jsonb_array_elements(COALESCE(u.expenses, '[]'::jsonb)) WITH ORDINALITY AS e(value, ordinality)
+WHERE e.value->>'id' IS NOT NULL
+ON CONFLICT (business_email, id) DO NOTHING;
+
+-- Ratings (0 meant "not rated" in older clients)
+INSERT INTO ratings (business_email, id, appointment_id, client_id, business_rating, staff_rating, staff_id,
+                     comment, submitted_at, created_at)
+SELECT u.email,
+       r.value->>'id',
+       r.value->>'appointmentId',
+       r.value->>'clientId',
+       NULLIF((r.value->>'businessRating')::numeric::smallint, 0),
+       NULLIF((r.value->>'staffRating')::numeric::smallint, 0),
+       r.value->>'staffId',
+       r.value->>'comment',
+       COALESCE(NULLIF(r.value->>'date', '')::timestamptz, NOW()),
+       u.created_at + (r.ordinality * INTERVAL '1 millisecond')
+FROM user_data u,
+     jsonb_array_elements(COALESCE(u.ratings, '[]'::jsonb)) WITH ORDINALITY AS r(value, ordinality)
+WHERE r.value->>'id' IS NOT NULL
+ON CONFLICT (business_email, id) DO NOTHING;
+
+-- Bonus entries
+INSERT INTO bonus_entries (business_email, id, description, amount, date, created_at)
+SELECT u.email,
+       b.value->>'id',
+       COALESCE(b.value->>'description', ''),
+       COALESCE((b.value->>'amount')::numeric, 0),
+       NULLIF(b.value->>'date', '')::date,
+       u.created_at + (b.ordinality * INTERVAL '1 millisecond')
+FROM user_data u,
+     jsonb_array_elements(COALESCE(u.bonus_entries, '[]'::jsonb)) WITH ORDINALITY AS b(value, ordinality)
+WHERE b.value->>'id' IS NOT NULL
+ON CONFLICT (business_email, id) DO NOTHING;
+
+-- Services and staff now live in their own tables
+UPDATE user_data
+SET business_profile = business_profile - 'services' - 'staff'
+WHERE business_profile IS NOT NULL;
+
+COMMIT;
+
+-- Once you've confirmed the app loads your data from the new tables, drop the
+-- legacy columns (the API no longer reads or writes them):
+--
+-- ALTER TABLE user_data
+--   DROP COLUMN IF EXISTS clients,
+--   DROP COLUMN IF EXISTS appointments,
+--   DROP COLUMN IF EXISTS expenses,
+--   DROP COLUMN IF EXISTS ratings,
+--   DROP COLUMN IF EXISTS bonus_entries;
@@ -0,0 +1,7 @@
+-- ================================================================
+-- 002: Revision counter for optimistic concurrency on /save
+-- ================================================================
+-- Run in the Supabase SQL Editor. Safe to re-run. Existing rows start at
+-- revision 0; clients pick up the revision on their next /load.
+
+ALTER TABLE user_data ADD COLUMN IF NOT EXISTS revision INTEGER NOT NULL DEFAULT 0;
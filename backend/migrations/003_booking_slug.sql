@@ -0,0 +1,8 @@
+-- ================================================================
+-- 003: Public booking slug per business
+-- ================================================================
+-- Run in the Supabase SQL Editor. Safe to re-run. Slugs are generated from
+-- the business name the first time the owner copies their booking link.
+
+ALTER TABLE user_data ADD COLUMN IF NOT EXISTS booking_slug TEXT;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_data_booking_slug ON user_data(booking_slug);
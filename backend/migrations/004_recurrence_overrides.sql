@@ -0,0 +1,10 @@
+-- ================================================================
+-- 004: Link per-occurrence overrides to their recurring appointment
+-- ================================================================
+-- Run in the Supabase SQL Editor. Safe to re-run. Completing, cancelling or
+-- moving a single occurrence of a recurring appointment stores a one-off
+-- appointment that points back at its parent. Older overrides without a
+-- parent id keep working (they are matched by time, service and client).
+
+ALTER TABLE appointments ADD COLUMN IF NOT EXISTS recurrence_parent_id TEXT;
+ALTER TABLE appointments ADD COLUMN IF NOT EXISTS occurrence_date DATE;
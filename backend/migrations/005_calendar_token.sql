@@ -0,0 +1,8 @@
+-- ================================================================
+-- 005: Secret token for the subscribable calendar feed
+-- ================================================================
+-- Run in the Supabase SQL Editor. Safe to re-run. The token is created the
+-- first time the owner opens "Subscribe" in the calendar, and can be reset.
+
+ALTER TABLE user_data ADD COLUMN IF NOT EXISTS calendar_token TEXT;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_data_calendar_token ON user_data(calendar_token);
@@ -0,0 +1,8 @@
+-- ================================================================
+-- 006: Per-appointment duration
+-- ================================================================
+-- Run in the Supabase SQL Editor. Safe to re-run. Events imported from an
+-- .ics file keep their own length instead of their service's duration;
+-- appointments without it still use the service's duration.
+
+ALTER TABLE appointments ADD COLUMN IF NOT EXISTS duration_min INTEGER;
@@ -0,0 +1,10 @@
+-- ================================================================
+-- 007: Staff schedules
+-- ================================================================
+-- Run in the Supabase SQL Editor. Safe to re-run. Staff get their own
+-- weekly hours, days off and the services they perform; staff without
+-- them keep following the business's working hours for every service.
+
+ALTER TABLE staff ADD COLUMN IF NOT EXISTS schedule JSONB;
+ALTER TABLE staff ADD COLUMN IF NOT EXISTS time_off JSONB;
+ALTER TABLE staff ADD COLUMN IF NOT EXISTS service_ids TEXT[];
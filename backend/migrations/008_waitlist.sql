@@ -0,0 +1,35 @@
+-- ================================================================
+-- 008: Waitlist
+-- ================================================================
+-- Run in the Supabase SQL Editor. Safe to re-run. Clients join the waitlist
+-- from the booking page; when an appointment is cancelled its time is offered
+-- to them by email with a claim link (offer_token) that expires.
+
+CREATE TABLE IF NOT EXISTS waitlist (
+  business_email TEXT NOT NULL REFERENCES user_data(email) ON DELETE CASCADE,
+  id TEXT NOT NULL,
+  client_name TEXT NOT NULL DEFAULT '',
+  client_email TEXT NOT NULL DEFAULT '',
+  client_phone TEXT,
+  service_id TEXT,
+  staff_id TEXT,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  preferred_times TEXT[],
+  status TEXT NOT NULL DEFAULT 'WAITING',
+  offer_date DATE,
+  offer_time TEXT,
+  offer_staff_id TEXT,
+  offer_token TEXT UNIQUE,
+  offer_expires_at TIMESTAMP WITH TIME ZONE,
+  declined_slots TEXT[],
+  appointment_id TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (business_email, id)
+);
+
+ALTER TABLE waitlist ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Waitlist full access" ON waitlist;
+CREATE POLICY "Waitlist full access"
+  ON waitlist FOR ALL USING (true);
@@ -0,0 +1,22 @@
+-- ================================================================
+-- 009: Appointment reminders
+-- ================================================================
+-- Run in the Supabase SQL Editor. Safe to re-run. One row per reminder email
+-- sent (or attempted) for an appointment's occurrence, so the scheduled sweep
+-- never sends the same reminder twice and the owner can see what went out.
+
+CREATE TABLE IF NOT EXISTS appointment_reminders (
+  business_email TEXT NOT NULL REFERENCES user_data(email) ON DELETE CASCADE,
+  appointment_id TEXT NOT NULL,
+  occurrence_date DATE NOT NULL,
+  hours_before INTEGER NOT NULL,
+  status TEXT NOT NULL DEFAULT 'SENT',
+  error TEXT,
+  sent_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (business_email, appointment_id, occurrence_date, hours_before)
+);
+
+ALTER TABLE appointment_reminders ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Appointment reminders full access" ON appointment_reminders;
+CREATE POLICY "Appointment reminders full access"
+  ON appointment_reminders FOR ALL USING (true);
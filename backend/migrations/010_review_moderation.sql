@@ -0,0 +1,11 @@
+-- ================================================================
+-- 010: Review moderation and testimonials
+-- ================================================================
+-- Run in the Supabase SQL Editor. Safe to re-run. Owners can hide or flag a
+-- rating's comment, reply to it, and feature it on their public booking page.
+
+ALTER TABLE ratings ADD COLUMN IF NOT EXISTS hidden BOOLEAN;
+ALTER TABLE ratings ADD COLUMN IF NOT EXISTS flagged BOOLEAN;
+ALTER TABLE ratings ADD COLUMN IF NOT EXISTS featured BOOLEAN;
+ALTER TABLE ratings ADD COLUMN IF NOT EXISTS reply TEXT;
+ALTER TABLE ratings ADD COLUMN IF NOT EXISTS replied_at TIMESTAMP WITH TIME ZONE;
@@ -0,0 +1,8 @@
+-- ================================================================
+-- 011: Rating survey answers
+-- ================================================================
+-- Run in the Supabase SQL Editor. Safe to re-run. Stores the answers to a
+-- business's survey questions (NPS, multiple choice, free text) with each
+-- rating. The questions themselves live in the business profile.
+
+ALTER TABLE ratings ADD COLUMN IF NOT EXISTS answers JSONB;
@@ -0,0 +1,26 @@
+-- ================================================================
+-- 012: Email log
+-- ================================================================
+-- Run in the Supabase SQL Editor. Safe to re-run. One row per email sent (or
+-- attempted) on a business's behalf: from the app, booking confirmations,
+-- reminders, waitlist offers and notices. Bodies are not stored.
+
+CREATE TABLE IF NOT EXISTS email_log (
+  id BIGSERIAL PRIMARY KEY,
+  business_email TEXT NOT NULL REFERENCES user_data(email) ON DELETE CASCADE,
+  to_address TEXT NOT NULL,
+  subject TEXT NOT NULL DEFAULT '',
+  kind TEXT NOT NULL DEFAULT 'MESSAGE',
+  status TEXT NOT NULL DEFAULT 'SENT',
+  transport TEXT,
+  provider_id TEXT,
+  error TEXT,
+  sent_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_log_business ON email_log(business_email, id DESC);
+
+ALTER TABLE email_log ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Email log full access" ON email_log;
+CREATE POLICY "Email log full access"
+  ON email_log FOR ALL USING (true);
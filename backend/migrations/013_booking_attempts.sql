@@ -0,0 +1,20 @@
+-- ================================================================
+-- 013: Booking attempts
+-- ================================================================
+-- Run in the Supabase SQL Editor. Safe to re-run. One row per public booking
+-- or waitlist request, counted to limit how many one visitor can make an
+-- hour. Kept in the database because serverless instances share no memory;
+-- rows past the hour are pruned by the scheduled job.
+
+CREATE TABLE IF NOT EXISTS booking_attempts (
+  id BIGSERIAL PRIMARY KEY,
+  client_key TEXT NOT NULL, -- "<ip>:<booking slug>"
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_attempts_key ON booking_attempts(client_key, created_at DESC);
+
+ALTER TABLE booking_attempts ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Booking attempts full access" ON booking_attempts;
+CREATE POLICY "Booking attempts full access"
+  ON booking_attempts FOR ALL USING (true);
@@ -1,15 +1,16 @@
 -- Create user_data table in Supabase
 -- Run this in your Supabase SQL Editor
 
+-- One row per account (the "business"). Everything the business owns lives in
+-- the entity tables below, keyed by (business_email, id).
+-- Upgrading from the JSONB-array layout? Run migrations/001_normalize_user_data.sql.
 CREATE TABLE IF NOT EXISTS user_data (
   email TEXT PRIMARY KEY,
   password_hash TEXT, -- Hashed password for email/password authentication
-  business_profile JSONB,
-  clients JSONB DEFAULT '[]'::jsonb,
-  appointments JSONB DEFAULT '[]'::jsonb,
-  expenses JSONB DEFAULT '[]'::jsonb,
-  ratings JSONB DEFAULT '[]'::jsonb,
-  bonus_entries JSONB DEFAULT '[]'::jsonb,
+  business_profile JSONB, -- profile settings (services and staff live in their own tables)
+  revision INTEGER NOT NULL DEFAULT 0, -- bumped on every /save; stale writes are rejected
+  booking_slug TEXT UNIQUE, -- public booking page: /book/<booking_slug>
+  calendar_token TEXT UNIQUE, -- secret for the iCalendar feed: /calendar/<calendar_token>.ics
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
@@ -17,6 +18,191 @@ CREATE TABLE IF NOT EXISTS user_data (
 -- Create index on email for faster lookups
 CREATE INDEX IF NOT EXISTS idx_user_data_email ON user_data(email);
 
+-- ================================================================
+-- BUSINESS ENTITY TABLES — one row per service, client, appointment, ...
+-- ids are generated by the client app, so they are unique per business only
+-- ================================================================
+CREATE TABLE IF NOT EXISTS services (
+  business_email TEXT NOT NULL REFERENCES user_data(email) ON DELETE CASCADE,
+  id TEXT NOT NULL,
+  name TEXT NOT NULL DEFAULT '',
+  duration_min INTEGER NOT NULL DEFAULT 60,
+  price NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  description TEXT,
+  price_per_person BOOLEAN,
+  position INTEGER NOT NULL DEFAULT 0, -- display order on the service menu
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (business_email, id)
+);
+
+CREATE TABLE IF NOT EXISTS staff (
+  business_email TEXT NOT NULL REFERENCES user_data(email) ON DELETE CASCADE,
+  id TEXT NOT NULL,
+  name TEXT NOT NULL DEFAULT '',
+  role TEXT,
+  email TEXT,
+  phone TEXT,
+  schedule JSONB, -- working hours per weekday, Sunday first (null = day off)
+  time_off JSONB, -- [{ startDate, endDate, reason }], whole days
+  service_ids TEXT[], -- services they perform; NULL = all
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (business_email, id)
+);
+
+CREATE TABLE IF NOT EXISTS clients (
+  business_email TEXT NOT NULL REFERENCES user_data(email) ON DELETE CASCADE,
+  id TEXT NOT NULL,
+  name TEXT NOT NULL DEFAULT '',
+  email TEXT,
+  phone TEXT,
+  notes TEXT[] DEFAULT '{}', -- historical notes, oldest first
+  preferences TEXT,
+  last_visit DATE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (business_email, id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_clients_email ON clients(business_email, lower(email));
+
+CREATE TABLE IF NOT EXISTS appointments (
+  business_email TEXT NOT NULL REFERENCES user_data(email) ON DELETE CASCADE,
+  id TEXT NOT NULL,
+  client_id TEXT, -- first client (kept for single-client views)
+  client_name TEXT,
+  client_ids TEXT[], -- all clients for multi-client appointments
+  client_names TEXT[],
+  service_id TEXT, -- a services.id, or 'EVENT' for meetings/tasks
+  date DATE NOT NULL,
+  time TEXT NOT NULL, -- HH:mm
+  status TEXT NOT NULL, -- CONFIRMED | PENDING | COMPLETED | CANCELLED | BLOCKED
+  notes TEXT,
+  recurrence JSONB, -- RecurrenceRule
+  staff_id TEXT,
+  number_of_people INTEGER,
+  override_price NUMERIC(10, 2),
+  event_type TEXT, -- APPOINTMENT | MEETING | INTERVIEW | TASK
+  recurrence_parent_id TEXT, -- set on a one-off that replaces an occurrence of a recurring appointment
+  occurrence_date DATE, -- the parent's occurrence it replaces
+  duration_min INTEGER, -- overrides the service's duration (e.g. imported events)
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (business_email, id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_appointments_date ON appointments(business_email, date);
+
+CREATE TABLE IF NOT EXISTS expenses (
+  business_email TEXT NOT NULL REFERENCES user_data(email) ON DELETE CASCADE,
+  id TEXT NOT NULL,
+  name TEXT NOT NULL DEFAULT '',
+  amount NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  date DATE,
+  category TEXT, -- Supplies | Rent | Marketing | Other
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (business_email, id)
+);
+
+CREATE TABLE IF NOT EXISTS ratings (
+  business_email TEXT NOT NULL REFERENCES user_data(email) ON DELETE CASCADE,
+  id TEXT NOT NULL,
+  appointment_id TEXT,
+  client_id TEXT,
+  business_rating SMALLINT CHECK (business_rating BETWEEN 1 AND 5),
+  staff_rating SMALLINT CHECK (staff_rating BETWEEN 1 AND 5),
+  staff_id TEXT,
+  comment TEXT,
+  submitted_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  hidden BOOLEAN, -- comment hidden from the owner's reviews list and testimonials
+  flagged BOOLEAN, -- marked for follow-up; never shown as a testimonial
+  featured BOOLEAN, -- shown on the public booking page when testimonials are on
+  reply TEXT, -- the owner's public reply
+  replied_at TIMESTAMP WITH TIME ZONE,
+  answers JSONB, -- survey answers: [{ questionId, type, prompt, value }]
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (business_email, id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_ratings_appointment ON ratings(business_email, appointment_id);
+
+CREATE TABLE IF NOT EXISTS bonus_entries (
+  business_email TEXT NOT NULL REFERENCES user_data(email) ON DELETE CASCADE,
+  id TEXT NOT NULL,
+  description TEXT NOT NULL DEFAULT '',
+  amount NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  date DATE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (business_email, id)
+);
+
+-- Clients waiting for a cancellation; the order they joined in is the order offers go out
+CREATE TABLE IF NOT EXISTS waitlist (
+  business_email TEXT NOT NULL REFERENCES user_data(email) ON DELETE CASCADE,
+  id TEXT NOT NULL,
+  client_name TEXT NOT NULL DEFAULT '',
+  client_email TEXT NOT NULL DEFAULT '',
+  client_phone TEXT,
+  service_id TEXT,
+  staff_id TEXT, -- only offer times with this staff member
+  start_date DATE NOT NULL, -- the days the client can make, inclusive
+  end_date DATE NOT NULL,
+  preferred_times TEXT[], -- MORNING | AFTERNOON | EVENING; empty = any time
+  status TEXT NOT NULL DEFAULT 'WAITING', -- WAITING | OFFERED | BOOKED
+  offer_date DATE, -- the time currently offered
+  offer_time TEXT,
+  offer_staff_id TEXT,
+  offer_token TEXT UNIQUE, -- secret in the claim link: /waitlist/<offer_token>
+  offer_expires_at TIMESTAMP WITH TIME ZONE,
+  declined_slots TEXT[], -- "YYYY-MM-DD HH:mm" times the client passed on
+  appointment_id TEXT, -- booked from a claimed offer
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (business_email, id)
+);
+
+-- Reminder emails sent for each appointment occurrence; the key stops a reminder going out twice
+CREATE TABLE IF NOT EXISTS appointment_reminders (
+  business_email TEXT NOT NULL REFERENCES user_data(email) ON DELETE CASCADE,
+  appointment_id TEXT NOT NULL,
+  occurrence_date DATE NOT NULL, -- the occurrence reminded of (recurring appointments have many)
+  hours_before INTEGER NOT NULL, -- which of businessProfile.reminderHours this was
+  status TEXT NOT NULL DEFAULT 'SENT', -- SENT | FAILED
+  error TEXT,
+  sent_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (business_email, appointment_id, occurrence_date, hours_before)
+);
+
+-- Every email sent (or attempted) on a business's behalf; bodies are not stored
+CREATE TABLE IF NOT EXISTS email_log (
+  id BIGSERIAL PRIMARY KEY,
+  business_email TEXT NOT NULL REFERENCES user_data(email) ON DELETE CASCADE,
+  to_address TEXT NOT NULL,
+  subject TEXT NOT NULL DEFAULT '',
+  kind TEXT NOT NULL DEFAULT 'MESSAGE', -- MESSAGE | RATING_REQUEST | FOLLOW_UP | EARNINGS_REPORT | BOOKING | REMINDER | WAITLIST_OFFER | OWNER_NOTICE | PASSWORD_RESET
+  status TEXT NOT NULL DEFAULT 'SENT', -- SENT | FAILED
+  transport TEXT, -- resend | console | file
+  provider_id TEXT, -- the transport's message id
+  error TEXT,
+  sent_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_log_business ON email_log(business_email, id DESC);
+
+-- Public booking and waitlist requests, counted for the per-visitor limit
+CREATE TABLE IF NOT EXISTS booking_attempts (
+  id BIGSERIAL PRIMARY KEY,
+  client_key TEXT NOT NULL, -- "<ip>:<booking slug>"
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_attempts_key ON booking_attempts(client_key, created_at DESC);
+
 -- ================================================================
 -- DEVICES TABLE — tracks device fingerprints per user
 -- ================================================================
@@ -51,12 +237,54 @@ CREATE TABLE IF NOT EXISTS savepoints (
 CREATE INDEX IF NOT EXISTS idx_savepoints_user ON savepoints(user_email);
 CREATE INDEX IF NOT EXISTS idx_savepoints_created ON savepoints(created_at DESC);
 
+-- ================================================================
+-- SESSIONS TABLE — server-side record of signed session tokens
+-- ================================================================
+CREATE TABLE IF NOT EXISTS sessions (
+  id TEXT PRIMARY KEY, -- session id embedded in the signed cookie
+  user_email TEXT NOT NULL REFERENCES user_data(email) ON DELETE CASCADE,
+  user_agent TEXT,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  revoked_at TIMESTAMP WITH TIME ZONE, -- set on logout / sign out of all devices
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sessions_user ON sessions(user_email);
+
+-- ================================================================
+-- PASSWORD RESETS TABLE — hashed, expiring, single-use reset codes
+-- ================================================================
+CREATE TABLE IF NOT EXISTS password_resets (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_email TEXT NOT NULL REFERENCES user_data(email) ON DELETE CASCADE,
+  code_hash TEXT NOT NULL, -- bcrypt hash of the 6-digit code
+  attempts INTEGER NOT NULL DEFAULT 0, -- failed guesses against this code
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  used_at TIMESTAMP WITH TIME ZONE, -- set when consumed or superseded
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_password_resets_user ON password_resets(user_email, created_at DESC);
+
 -- ================================================================
 -- Row Level Security (RLS)
 -- ================================================================
 ALTER TABLE user_data ENABLE ROW LEVEL SECURITY;
+ALTER TABLE services ENABLE ROW LEVEL SECURITY;
+ALTER TABLE staff ENABLE ROW LEVEL SECURITY;
+ALTER TABLE clients ENABLE ROW LEVEL SECURITY;
+ALTER TABLE appointments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE expenses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ratings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE bonus_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE waitlist ENABLE ROW LEVEL SECURITY;
+ALTER TABLE appointment_reminders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE email_log ENABLE ROW LEVEL SECURITY;
+ALTER TABLE booking_attempts ENABLE ROW LEVEL SECURITY;
 ALTER TABLE devices ENABLE ROW LEVEL SECURITY;
 ALTER TABLE savepoints ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE password_resets ENABLE ROW LEVEL SECURITY;
 
 -- user_data policies
 CREATE POLICY "Users can read their own data"
@@ -66,6 +294,30 @@ CREATE POLICY "Users can update their own data"
 CREATE POLICY "Users can insert their own data"
   ON user_data FOR INSERT WITH CHECK (true);
 
+-- business entity policies (access is scoped by business_email in the API)
+CREATE POLICY "Services full access"
+  ON services FOR ALL USING (true);
+CREATE POLICY "Staff full access"
+  ON staff FOR ALL USING (true);
+CREATE POLICY "Clients full access"
+  ON clients FOR ALL USING (true);
+CREATE POLICY "Appointments full access"
+  ON appointments FOR ALL USING (true);
+CREATE POLICY "Expenses full access"
+  ON expenses FOR ALL USING (true);
+CREATE POLICY "Ratings full access"
+  ON ratings FOR ALL USING (true);
+CREATE POLICY "Bonus entries full access"
+  ON bonus_entries FOR ALL USING (true);
+CREATE POLICY "Waitlist full access"
+  ON waitlist FOR ALL USING (true);
+CREATE POLICY "Appointment reminders full access"
+  ON appointment_reminders FOR ALL USING (true);
+CREATE POLICY "Email log full access"
+  ON email_log FOR ALL USING (true);
+CREATE POLICY "Booking attempts full access"
+  ON booking_attempts FOR ALL USING (true);
+
 -- devices policies
 CREATE POLICY "Devices full access"
   ON devices FOR ALL USING (true);
@@ -73,3 +325,11 @@ CREATE POLICY "Devices full access"
 -- savepoints policies
 CREATE POLICY "Savepoints full access"
   ON savepoints FOR ALL USING (true);
+
+-- sessions policies
+CREATE POLICY "Sessions full access"
+  ON sessions FOR ALL USING (true);
+
+-- password_resets policies
+CREATE POLICY "Password resets full access"
+  ON password_resets FOR ALL USING (true);
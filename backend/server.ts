@@ -4,6 +4,17 @@ import cookieParser from 'cookie-parser';
 import dotenv from 'dotenv';
 import { createClient } from '@supabase/supabase-js';
 import bcrypt from 'bcryptjs';
+import * as sessions from './lib/sessions.js';
+import { requestPasswordReset, confirmPasswordReset } from './lib/passwordReset.js';
+import { loadBusinessData, saveBusinessProfile } from './lib/entities.js';
+import { createEntityRouter } from './lib/entityRoutes.js';
+import { createPublicBookingRouter } from './lib/publicBookingRoutes.js';
+import { createCalendarFeedRouter } from './lib/calendarFeedRoutes.js';
+import { createReminderRouter, runScheduledJobs } from './lib/reminderRoutes.js';
+import { createAppointmentLinkRouter } from './lib/appointmentLinkRoutes.js';
+import { createRatingLinkRouter } from './lib/ratingLinkRoutes.js';
+import { createEmailRouter } from './lib/emailRoutes.js';
+import { appUrl } from './lib/env.js';
 
 dotenv.config();
 
@@ -42,22 +53,10 @@ function requireDB(res: express.Response): boolean {
   return true;
 }
 
-// Session storage (in production, use Redis or database)
-const sessions = new Map<string, { email: string; expires: number }>();
-
-// Helper to verify session
-const verifySession = (req: express.Request): string | null => {
-  const sessionId = req.cookies.sessionId;
-  if (!sessionId) return null;
-  
-  const session = sessions.get(sessionId);
-  if (!session || session.expires < Date.now()) {
-    sessions.delete(sessionId);
-    return null;
-  }
-  
-  return session.email;
-};
+// Sessions are HMAC-signed tokens backed by the `sessions` table (see lib/sessions.ts)
+const verifySession = (req: express.Request) => sessions.verifySession(supabase, req);
+const createSession = (email: string, req: express.Request, res: express.Response) =>
+  sessions.createSession(supabase, email, req, res);
 
 // POST /auth/google - Verify Google token and create session
 app.post('/auth/google', async (req, res) => {
@@ -92,12 +91,7 @@ app.post('/auth/google', async (req, res) => {
           .insert({
             email,
             password_hash: null,
-            business_profile: null,
-            clients: [],
-            appointments: [],
-            expenses: [],
-            ratings: [],
-            bonus_entries: []
+            business_profile: null
           });
         if (insertError) {
           console.error('Google auth - user record creation error:', insertError);
@@ -107,20 +101,8 @@ app.post('/auth/google', async (req, res) => {
       }
     }
 
-    // Create session
-    const sessionId = `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    sessions.set(sessionId, {
-      email,
-      expires: Date.now() + 30 * 24 * 60 * 60 * 1000 // 30 days
-    });
-
-    // Set session cookie
-    res.cookie('sessionId', sessionId, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'lax',
-      maxAge: 30 * 24 * 60 * 60 * 1000 // 30 days
-    });
+    // Create session (rotates any session presented with the request)
+    const sessionId = await createSession(email, req, res);
 
     res.json({ email, sessionId });
   } catch (error) {
@@ -164,11 +146,7 @@ app.post('/auth/signup', async (req, res) => {
       .insert({
         email,
         password_hash: passwordHash,
-        business_profile: null,
-        clients: [],
-        appointments: [],
-        expenses: [],
-        ratings: []
+        business_profile: null
       });
 
     if (insertError) {
@@ -176,20 +154,8 @@ app.post('/auth/signup', async (req, res) => {
       return res.status(500).json({ error: 'Failed to create account' });
     }
 
-    // Create session
-    const sessionId = `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    sessions.set(sessionId, {
-      email,
-      expires: Date.now() + 30 * 24 * 60 * 60 * 1000 // 30 days
-    });
-
-    // Set session cookie
-    res.cookie('sessionId', sessionId, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'lax',
-      maxAge: 30 * 24 * 60 * 60 * 1000 // 30 days
-    });
+    // Create session (rotates any session presented with the request)
+    const sessionId = await createSession(email, req, res);
 
     res.json({ email, sessionId });
   } catch (error) {
@@ -235,20 +201,8 @@ app.post('/auth/email', async (req, res) => {
       }
     }
 
-    // Create session
-    const sessionId = `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    sessions.set(sessionId, {
-      email,
-      expires: Date.now() + 30 * 24 * 60 * 60 * 1000 // 30 days
-    });
-
-    // Set session cookie
-    res.cookie('sessionId', sessionId, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'lax',
-      maxAge: 30 * 24 * 60 * 60 * 1000 // 30 days
-    });
+    // Create session (rotates any session presented with the request)
+    const sessionId = await createSession(email, req, res);
 
     res.json({ email, sessionId });
   } catch (error) {
@@ -257,10 +211,64 @@ app.post('/auth/email', async (req, res) => {
   }
 });
 
+// POST /auth/reset/request - Email a single-use password reset code
+app.post('/auth/reset/request', async (req, res) => {
+  try {
+    if (!requireDB(res)) return;
+    const email = (req.body.email || '').toLowerCase().trim();
+
+    if (!email || !email.includes('@')) {
+      return res.status(400).json({ error: 'Valid email required' });
+    }
+
+    const result = await requestPasswordReset(supabase, email);
+    if (result.ok === false) {
+      return res.status(result.status).json({ error: result.error });
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Reset request error:', error);
+    res.status(500).json({ error: 'Failed to send reset code' });
+  }
+});
+
+// POST /auth/reset/confirm - Verify a reset code and set a new password
+app.post('/auth/reset/confirm', async (req, res) => {
+  try {
+    if (!requireDB(res)) return;
+    const email = (req.body.email || '').toLowerCase().trim();
+    const code = String(req.body.code || '').trim();
+    const newPassword = req.body.newPassword;
+
+    if (!email || !email.includes('@')) {
+      return res.status(400).json({ error: 'Valid email required' });
+    }
+
+    if (!/^\d{6}$/.test(code)) {
+      return res.status(400).json({ error: 'Invalid or expired code' });
+    }
+
+    if (!newPassword || newPassword.length < 6) {
+      return res.status(400).json({ error: 'Password must be at least 6 characters' });
+    }
+
+    const result = await confirmPasswordReset(supabase, email, code, newPassword);
+    if (result.ok === false) {
+      return res.status(result.status).json({ error: result.error });
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Reset confirm error:', error);
+    res.status(500).json({ error: 'Failed to reset password' });
+  }
+});
+
 // GET /me - Get current user based on session
 app.get('/me', async (req, res) => {
   try {
-    const email = verifySession(req);
+    const email = await verifySession(req);
     
     if (!email) {
       return res.status(401).json({ error: 'Not authenticated' });
@@ -355,36 +363,34 @@ async function upsertDevice(email: string, fingerprint: string, userAgent: strin
 app.post('/save', async (req, res) => {
   try {
     if (!requireDB(res)) return;
-    const email = verifySession(req);
+    const email = await verifySession(req);
     
     if (!email) {
       return res.status(401).json({ error: 'Not authenticated' });
     }
 
-    const { businessProfile, clients, appointments, expenses, ratings, bonusEntries } = req.body;
+    const { revision, businessProfile } = req.body;
+    if (revision !== undefined && !Number.isInteger(revision)) {
+      return res.status(400).json({ error: 'revision must be an integer' });
+    }
+    // Whole collections would replace rows this client may never have seen
+    if (['clients', 'appointments', 'expenses', 'ratings', 'bonusEntries'].some(key => req.body[key] !== undefined)) {
+      return res.status(400).json({ error: 'Clients, appointments, expenses, ratings and bonus entries are saved through their own endpoints' });
+    }
+    if (businessProfile === undefined) {
+      return res.status(400).json({ error: 'businessProfile is required' });
+    }
 
-    // Save to Supabase
-    const { error } = await supabase
-      .from('user_data')
-      .upsert({
-        email,
-        business_profile: businessProfile,
-        clients: clients || [],
-        appointments: appointments || [],
-        expenses: expenses || [],
-        ratings: ratings || [],
-        bonus_entries: bonusEntries || [],
-        updated_at: new Date().toISOString()
-      }, {
-        onConflict: 'email'
+    // Reject writes based on stale data; the client resolves against the current state
+    const claim = await saveBusinessProfile(supabase, email, businessProfile, revision);
+    if (!claim.ok) {
+      return res.status(409).json({
+        error: 'Data was changed on another device',
+        serverData: await loadBusinessData(supabase, email)
       });
-
-    if (error) {
-      console.error('Supabase error:', error);
-      return res.status(500).json({ error: 'Failed to save data' });
     }
 
-    res.json({ success: true });
+    res.json({ success: true, revision: claim.revision });
   } catch (error) {
     console.error('Save error:', error);
     res.status(500).json({ error: 'Failed to save data' });
@@ -395,49 +401,57 @@ app.post('/save', async (req, res) => {
 app.get('/load', async (req, res) => {
   try {
     if (!requireDB(res)) return;
-    const email = verifySession(req);
+    const email = await verifySession(req);
     
     if (!email) {
       return res.status(401).json({ error: 'Not authenticated' });
     }
 
-    // Load from Supabase
-    const { data, error } = await supabase
-      .from('user_data')
-      .select('*')
-      .eq('email', email)
-      .single();
-
-    if (error && error.code !== 'PGRST116') { // PGRST116 = no rows returned
-      console.error('Supabase error:', error);
-      return res.status(500).json({ error: 'Failed to load data' });
-    }
-
-    if (!data) {
-      return res.json({
-        businessProfile: null,
-        clients: [],
-        appointments: [],
-        expenses: [],
-        ratings: [],
-        bonusEntries: []
-      });
-    }
-
-    res.json({
-      businessProfile: data.business_profile,
-      clients: data.clients || [],
-      appointments: data.appointments || [],
-      expenses: data.expenses || [],
-      ratings: data.ratings || [],
-      bonusEntries: data.bonus_entries || []
-    });
+    // Assemble from the entity tables
+    res.json(await loadBusinessData(supabase, email));
   } catch (error) {
     console.error('Load error:', error);
     res.status(500).json({ error: 'Failed to load data' });
   }
 });
 
+// ================================================================
+// PER-ENTITY CRUD ROUTES (/clients, /appointments, /expenses, /bonus-entries, /ratings, /waitlist)
+// ================================================================
+app.use(createEntityRouter({ db: supabase, verifySession }));
+
+// ================================================================
+// PUBLIC BOOKING ROUTES (/public/:slug, /public/:slug/bookings, /public/:slug/waitlist,
+//                        /waitlist-offers/:token, /booking-link)
+// ================================================================
+app.use(createPublicBookingRouter({ db: supabase, verifySession }));
+
+// ================================================================
+// CALENDAR FEED ROUTES (/calendar/:token.ics, /calendar-feed)
+// ================================================================
+app.use(createCalendarFeedRouter({ db: supabase, verifySession }));
+
+// ================================================================
+// REMINDER ROUTES (/cron/reminders, /appointment-reminders/:id)
+// ================================================================
+app.use(createReminderRouter({ db: supabase, verifySession }));
+
+// ================================================================
+// APPOINTMENT LINK ROUTES (/appointment-links/:token, .../confirm, .../cancel, .../slots, .../reschedule)
+// ================================================================
+app.use(createAppointmentLinkRouter({ db: supabase }));
+
+// ================================================================
+// RATING LINK ROUTES (/rating-links, /public/ratings/:token)
+// Mounted after public booking so a business whose slug is "ratings" keeps its booking routes
+// ================================================================
+app.use(createRatingLinkRouter({ db: supabase, verifySession }));
+
+// ================================================================
+// EMAIL ROUTES (/email/send, /email/log)
+// ================================================================
+app.use(createEmailRouter({ db: supabase, verifySession }));
+
 // ================================================================
 // SAVEPOINTS ROUTES
 // ================================================================
@@ -446,7 +460,7 @@ app.get('/load', async (req, res) => {
 app.post('/savepoints', async (req, res) => {
   try {
     if (!requireDB(res)) return;
-    const email = verifySession(req);
+    const email = await verifySession(req);
     if (!email) return res.status(401).json({ error: 'Not authenticated' });
 
     const { label, snapshot, snapshotVersion } = req.body;
@@ -502,7 +516,7 @@ app.post('/savepoints', async (req, res) => {
 app.get('/savepoints', async (req, res) => {
   try {
     if (!requireDB(res)) return;
-    const email = verifySession(req);
+    const email = await verifySession(req);
     if (!email) return res.status(401).json({ error: 'Not authenticated' });
 
     const { data, error } = await supabase
@@ -528,7 +542,7 @@ app.get('/savepoints', async (req, res) => {
 app.get('/savepoints/:id', async (req, res) => {
   try {
     if (!requireDB(res)) return;
-    const email = verifySession(req);
+    const email = await verifySession(req);
     if (!email) return res.status(401).json({ error: 'Not authenticated' });
 
     const { data, error } = await supabase
@@ -553,7 +567,7 @@ app.get('/savepoints/:id', async (req, res) => {
 app.delete('/savepoints/:id', async (req, res) => {
   try {
     if (!requireDB(res)) return;
-    const email = verifySession(req);
+    const email = await verifySession(req);
     if (!email) return res.status(401).json({ error: 'Not authenticated' });
 
     const { error } = await supabase
@@ -574,16 +588,42 @@ app.delete('/savepoints/:id', async (req, res) => {
   }
 });
 
-// POST /logout - Clear session
-app.post('/logout', (req, res) => {
-  const sessionId = req.cookies.sessionId;
-  if (sessionId) {
-    sessions.delete(sessionId);
+// POST /logout - Revoke the current session
+app.post('/logout', async (req, res) => {
+  try {
+    await sessions.revokeSession(supabase, req, res);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Logout error:', error);
+    res.status(500).json({ error: 'Failed to logout' });
+  }
+});
+
+// POST /logout-all - Revoke every session for the current user (sign out of all devices)
+app.post('/logout-all', async (req, res) => {
+  try {
+    if (!requireDB(res)) return;
+    const email = await verifySession(req);
+    if (!email) return res.status(401).json({ error: 'Not authenticated' });
+
+    const revoked = await sessions.revokeAllSessions(supabase, email);
+    await sessions.revokeSession(supabase, req, res);
+    res.json({ success: true, revoked });
+  } catch (error) {
+    console.error('Logout all error:', error);
+    res.status(500).json({ error: 'Failed to sign out of all devices' });
   }
-  res.clearCookie('sessionId');
-  res.json({ success: true });
 });
 
 app.listen(PORT, () => {
   console.log(`Server running on port ${PORT}`);
 });
+
+// Locally there's no cron service, so send reminders on a timer
+const REMINDER_INTERVAL_MS = 5 * 60 * 1000;
+if (supabase) {
+  const db = supabase;
+  setInterval(() => {
+    runScheduledJobs(db, appUrl()).catch(error => console.error('Reminder sweep error:', error));
+  }, REMINDER_INTERVAL_MS);
+}
@@ -3,7 +3,8 @@ import React, { useState, useRef, useEffect } from 'react';
 import OpenAI from 'openai';
 import { X, Send, Sparkles, Loader2, AlertTriangle } from 'lucide-react';
 import { Appointment, Client, BusinessProfile, AppointmentStatus } from '../types';
-import { toLocalDateStr } from '../constants';
+import { businessToday, businessTimeZone } from '../constants';
+import { checkSlot, getAvailableSlots, durationsOf, findConflicts, fromMinutes } from '../backend/lib/availability';
 
 interface AIChatPanelProps {
   isOpen: boolean;
@@ -56,7 +57,7 @@ const tools: OpenAI.Chat.Completions.ChatCompletionTool[] = [
     type: 'function',
     function: {
       name: 'bookAppointment',
-      description: 'Book a new appointment for a client.',
+      description: 'Book a new appointment for a client. Fails if the time is not available; the error lists open times on that date.',
       parameters: {
         type: 'object',
         properties: {
@@ -126,7 +127,7 @@ Owner: ${business.ownerName || 'Not set'}.
 Services: ${business.services?.map(s => `${s.name} ($${s.price}${s.pricePerPerson ? '/person' : ''})`).join(', ') || 'None configured'}.
 Monthly revenue goal: $${business.monthlyRevenueGoal || 0}.
 Total clients: ${clients.length}. Total appointments: ${appointments.length}.
-Current date: ${toLocalDateStr()}.
+Current date: ${businessToday(business)}. Dates and times are in the ${businessTimeZone(business)} time zone.
 
 You are helpful, professional, and concise. You have access to tools to manage the business.
 Always confirm when an action (like adding a client or booking) is done.
@@ -195,6 +196,24 @@ Keep responses short and actionable.`
         if (!service) {
           return { error: 'No services configured. Please add a service in Settings first.' };
         }
+        const availability = {
+          date,
+          durationMin: service.durationMin,
+          workingHours: business.workingHours,
+          entries: appointments,
+          serviceDurations: durationsOf(business.services),
+          staff: business.staff,
+          serviceId: service.id,
+          bufferMin: business.bufferMin
+        };
+        const freeStaff = checkSlot({ ...availability, time });
+        if (!freeStaff) {
+          const openTimes = getAvailableSlots(availability).map(slot => slot.time);
+          return {
+            error: `${time} on ${date} is not available for ${service.name}.`,
+            openTimes: openTimes.length > 0 ? openTimes : 'No open times on this date'
+          };
+        }
         const newAppt: Appointment = {
           id: Math.random().toString(36).substr(2, 9),
           clientId: 'ai-generated',
@@ -202,8 +221,18 @@ Keep responses short and actionable.`
           serviceId: service.id,
           date: date,
           time: time,
+          staffId: freeStaff[0],
           status: AppointmentStatus.CONFIRMED
         };
+        // Never book over blocked time or the staff member's other appointments
+        const conflicts = findConflicts(newAppt, appointments, durationsOf(business.services))
+          .filter(c => c.reason !== 'OVERLAP' || !newAppt.staffId);
+        if (conflicts.length > 0) {
+          return {
+            error: `${time} on ${date} conflicts with other entries.`,
+            conflicts: conflicts.map(c => `${(c.entry as Appointment).clientName || 'Blocked Time'} at ${fromMinutes(c.start)}`)
+          };
+        }
         onAddAppointment(newAppt);
         return { success: true, message: `Booked ${clientName} for ${service.name} at ${time} on ${date}.` };
       }
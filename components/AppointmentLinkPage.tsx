@@ -0,0 +1,266 @@
+import React, { useEffect, useState } from 'react';
+import { CheckCircle, XCircle, CalendarClock, ArrowLeft } from 'lucide-react';
+import { formatTime } from '../constants';
+import {
+  getAppointmentLink,
+  confirmAppointmentLink,
+  cancelAppointmentLink,
+  getRescheduleSlots,
+  rescheduleAppointmentLink,
+  LinkedAppointment
+} from '../services/apiService';
+import { addDays, convertWallTime, deviceTimeZone, toWallTime, zoneAbbreviation } from '../backend/lib/timeZone';
+
+interface AppointmentLinkPageProps {
+  token: string;
+  action?: string; // 'confirm', 'cancel' or 'reschedule', from the email link that was clicked
+}
+
+// How far ahead the reschedule picker goes; the server allows the same
+const RESCHEDULE_DAYS = 60;
+
+const errorMessage = (error: string, offline: string) => error === 'API_UNAVAILABLE' ? offline : error;
+
+/**
+ * Client-facing page at /appointment/:token, opened from a booking or
+ * reminder email: confirm, cancel or reschedule the appointment, no sign-in
+ * needed. Nothing changes until a button is pressed, so link previews can't
+ * cancel by accident.
+ */
+const AppointmentLinkPage: React.FC<AppointmentLinkPageProps> = ({ token: initialToken, action }) => {
+  const [token, setToken] = useState(initialToken);
+  const [appointment, setAppointment] = useState<LinkedAppointment | null>(null);
+  const [error, setError] = useState('');
+  const [actionError, setActionError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [done, setDone] = useState<'CONFIRMED' | 'CANCELLED' | 'RESCHEDULED' | null>(null);
+  const [isRescheduling, setIsRescheduling] = useState(action === 'reschedule');
+  const [pickedDate, setPickedDate] = useState('');
+  const [slots, setSlots] = useState<string[] | null>(null);
+
+  useEffect(() => {
+    document.documentElement.classList.add('dark');
+    getAppointmentLink(initialToken).then(result => {
+      if (result.data) {
+        setAppointment(result.data);
+        setPickedDate(result.data.date);
+        document.title = `Your appointment with ${result.data.businessName}`;
+      } else {
+        setError(errorMessage(result.error || 'This link is not valid', 'This page is unavailable right now. Please try again later.'));
+      }
+    });
+  }, [initialToken]);
+
+  useEffect(() => {
+    if (!isRescheduling || !pickedDate || !appointment?.canChange) return;
+    let cancelled = false;
+    setSlots(null);
+    getRescheduleSlots(token, pickedDate).then(result => {
+      if (cancelled) return;
+      setSlots(result.data || []);
+      if (result.error) setActionError(errorMessage(result.error, 'Could not reach the booking service. Please try again.'));
+    });
+    return () => { cancelled = true; };
+  }, [isRescheduling, pickedDate, token, appointment?.canChange]);
+
+  const act = async (next: 'CONFIRMED' | 'CANCELLED') => {
+    if (isSubmitting) return;
+    setIsSubmitting(true);
+    setActionError('');
+    const result = next === 'CONFIRMED' ? await confirmAppointmentLink(token) : await cancelAppointmentLink(token);
+    setIsSubmitting(false);
+    if (result.error) {
+      setActionError(errorMessage(result.error, 'Could not reach the booking service. Please try again.'));
+      return;
+    }
+    setDone(next);
+  };
+
+  const reschedule = async (time: string) => {
+    if (isSubmitting || !appointment) return;
+    setIsSubmitting(true);
+    setActionError('');
+    const result = await rescheduleAppointmentLink(token, pickedDate, time);
+    setIsSubmitting(false);
+    if (result.error) {
+      setActionError(errorMessage(result.error, 'Could not reach the booking service. Please try again.'));
+      // The time may have just been taken; show what's still open
+      getRescheduleSlots(token, pickedDate).then(refreshed => refreshed.data && setSlots(refreshed.data));
+      return;
+    }
+    const moved = result.data!;
+    setToken(moved.token);
+    // The old link stops working at the old time; keep the address bar on one that lasts
+    window.history.replaceState(null, '', `/appointment/${moved.token}`);
+    setAppointment({ ...appointment, date: moved.date, time: moved.time, status: moved.status });
+    setIsRescheduling(false);
+    setDone('RESCHEDULED');
+  };
+
+  if (!appointment) {
+    return (
+      <div className="min-h-screen bg-black flex items-center justify-center p-4">
+        {error ? (
+          <div className="text-center">
+            <h1 className="text-2xl font-bold text-white uppercase tracking-wider mb-2">Link Unavailable</h1>
+            <p className="text-zinc-500 text-sm">{error}</p>
+          </div>
+        ) : (
+          <div className="w-12 h-12 border-4 border-orange-600 border-t-transparent rounded-full animate-spin"></div>
+        )}
+      </div>
+    );
+  }
+
+  const zone = deviceTimeZone();
+  const zoneSuffix = zone !== appointment.timeZone ? ` ${zoneAbbreviation(zone)}` : '';
+  const local = convertWallTime(appointment.date, appointment.time, appointment.timeZone, zone);
+  const status = done === 'CANCELLED' ? 'CANCELLED' : appointment.status;
+  const wantsCancel = action === 'cancel';
+  const today = toWallTime(Date.now(), appointment.timeZone).date;
+  const deadline = appointment.changeDeadline
+    ? new Date(appointment.changeDeadline).toLocaleString([], { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })
+    : '';
+  const contact = appointment.businessName || 'the business';
+
+  return (
+    <div className="min-h-screen bg-black flex flex-col items-center justify-center p-4 relative">
+      <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-orange-600 to-black"></div>
+
+      <div className="w-full max-w-lg bg-zinc-950 border border-zinc-800 relative z-10">
+        <div className="bg-zinc-900 border-b border-zinc-800 p-8">
+          <h1 className="text-3xl font-bold text-white uppercase tracking-wider">{appointment.businessName}</h1>
+          <p className="text-zinc-500 mt-1 uppercase text-xs tracking-widest">Your Appointment</p>
+        </div>
+
+        <div className="p-8">
+          <div className="bg-zinc-900 border border-zinc-800 p-6 mb-8 space-y-2">
+            <div className="flex justify-between">
+              <span className="text-zinc-500 text-sm">Service</span>
+              <span className="text-white font-bold uppercase">{appointment.serviceName}</span>
+            </div>
+            {appointment.staffName && (
+              <div className="flex justify-between">
+                <span className="text-zinc-500 text-sm">With</span>
+                <span className="text-white">{appointment.staffName}</span>
+              </div>
+            )}
+            <div className="flex justify-between">
+              <span className="text-zinc-500 text-sm">Date</span>
+              <span className="text-white font-mono">{local.date}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-zinc-500 text-sm">Time</span>
+              <span className="text-white font-mono">{formatTime(local.time)}{zoneSuffix}</span>
+            </div>
+          </div>
+
+          {actionError && (
+            <p className="mb-4 p-3 border border-red-800 bg-red-900/20 text-red-500 text-sm">{actionError}</p>
+          )}
+
+          {status === 'CANCELLED' ? (
+            <div className="text-center animate-fade-in">
+              <XCircle className="w-10 h-10 text-zinc-500 mx-auto mb-4" />
+              <h2 className="text-2xl font-bold text-white uppercase tracking-wider mb-2">Cancelled</h2>
+              <p className="text-zinc-400 text-sm">This appointment is cancelled.{done === 'CANCELLED' && ` We've let ${contact} know.`}</p>
+            </div>
+          ) : done === 'CONFIRMED' || done === 'RESCHEDULED' ? (
+            <div className="text-center animate-fade-in">
+              <CheckCircle className="w-10 h-10 text-orange-600 mx-auto mb-4" />
+              <h2 className="text-2xl font-bold text-white uppercase tracking-wider mb-2">{done === 'CONFIRMED' ? 'Confirmed' : 'Rescheduled'}</h2>
+              <p className="text-zinc-400 text-sm">
+                {done === 'CONFIRMED' ? `See you then, ${appointment.clientName}.` : `Your new time is above. We've let ${contact} know.`}
+              </p>
+            </div>
+          ) : isRescheduling && appointment.canChange ? (
+            <div className="animate-fade-in">
+              <button
+                onClick={() => { setIsRescheduling(false); setActionError(''); }}
+                className="text-xs font-bold uppercase tracking-widest text-zinc-500 hover:text-white flex items-center gap-2 mb-4"
+              >
+                <ArrowLeft className="w-3 h-3" /> Back
+              </button>
+              <label className="block text-xs font-bold text-zinc-500 mb-2 uppercase tracking-widest">New Date</label>
+              <input
+                type="date"
+                min={today}
+                max={addDays(today, RESCHEDULE_DAYS)}
+                value={pickedDate}
+                onChange={e => { setPickedDate(e.target.value); setActionError(''); }}
+                className="w-full bg-zinc-900 border border-zinc-800 p-3 text-white focus:border-orange-600 outline-none font-mono mb-6"
+              />
+              {slots === null ? (
+                <div className="w-8 h-8 border-4 border-orange-600 border-t-transparent rounded-full animate-spin mx-auto"></div>
+              ) : slots.length === 0 ? (
+                <p className="text-zinc-500 text-sm text-center py-4">No open times on this day. Try another date.</p>
+              ) : (
+                <div className="grid grid-cols-3 gap-2">
+                  {slots.map(time => {
+                    const slot = convertWallTime(pickedDate, time, appointment.timeZone, zone);
+                    return (
+                      <button
+                        key={time}
+                        onClick={() => reschedule(time)}
+                        disabled={isSubmitting}
+                        className="py-3 border border-zinc-800 text-white font-mono text-sm hover:border-orange-600 hover:text-orange-600 transition-colors disabled:opacity-50 disabled:cursor-wait"
+                      >
+                        {slot.date !== pickedDate && <span className="block text-[10px] text-zinc-500">{slot.date}</span>}
+                        {formatTime(slot.time)}
+                      </button>
+                    );
+                  })}
+                </div>
+              )}
+              {zoneSuffix && <p className="text-[10px] text-zinc-500 mt-4">Times are shown in your time zone ({zoneAbbreviation(zone)}).</p>}
+            </div>
+          ) : (
+            <div className="animate-fade-in">
+              {wantsCancel && appointment.canChange && (
+                <p className="text-zinc-400 text-sm mb-4">Cancel this appointment? Its time will be offered to someone else.</p>
+              )}
+              <div className={`flex gap-4 ${wantsCancel ? 'flex-col-reverse' : 'flex-col'}`}>
+                <button
+                  onClick={() => act('CONFIRMED')}
+                  disabled={isSubmitting}
+                  className={`w-full py-4 font-bold uppercase tracking-widest transition-colors disabled:opacity-50 disabled:cursor-wait ${
+                    wantsCancel && appointment.canChange ? 'border border-zinc-700 text-zinc-300 hover:bg-zinc-900' : 'bg-orange-600 text-black hover:bg-orange-500'
+                  }`}
+                >
+                  {status === 'PENDING' ? 'Confirm Appointment' : "I'll Be There"}
+                </button>
+                {appointment.canChange && (
+                  <>
+                    <button
+                      onClick={() => { setIsRescheduling(true); setActionError(''); }}
+                      disabled={isSubmitting}
+                      className="w-full py-4 font-bold uppercase tracking-widest transition-colors disabled:opacity-50 disabled:cursor-wait border border-zinc-700 text-zinc-300 hover:bg-zinc-900 flex items-center justify-center gap-2"
+                    >
+                      <CalendarClock className="w-4 h-4" /> Reschedule
+                    </button>
+                    <button
+                      onClick={() => act('CANCELLED')}
+                      disabled={isSubmitting}
+                      className={`w-full py-4 font-bold uppercase tracking-widest transition-colors disabled:opacity-50 disabled:cursor-wait ${
+                        wantsCancel ? 'bg-red-600 text-black hover:bg-red-500' : 'border border-zinc-700 text-zinc-300 hover:bg-zinc-900 hover:text-red-500'
+                      }`}
+                    >
+                      Cancel Appointment
+                    </button>
+                  </>
+                )}
+              </div>
+              <p className="text-[10px] text-zinc-500 mt-4 text-center">
+                {appointment.canChange
+                  ? deadline && `You can reschedule or cancel until ${deadline}.`
+                  : <>It's too late to change this appointment online. Please contact {contact}{appointment.contactEmail && <> at <a href={`mailto:${appointment.contactEmail}`} className="text-orange-600 hover:underline">{appointment.contactEmail}</a></>}.</>}
+              </p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AppointmentLinkPage;
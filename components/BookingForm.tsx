@@ -1,29 +1,80 @@
 
-import React, { useState } from 'react';
-import { BusinessProfile, Service, Appointment, Client, AppointmentStatus } from '../types';
-import { Calendar, CheckCircle, Clock, User, ArrowRight, ArrowLeft } from 'lucide-react';
-import { formatTime } from '../constants';
+import React, { useMemo, useState } from 'react';
+import { BusinessProfile, Service, Appointment, Client, AppointmentStatus, TimeOfDay } from '../types';
+import { Calendar, CheckCircle, Clock, User, ArrowRight, ArrowLeft, Star } from 'lucide-react';
+import { formatTime, businessTimeZone } from '../constants';
+import { getAvailableSlots, durationsOf, ScheduleEntry } from '../backend/lib/availability';
+import { addDays, fromWallTime, toWallTime, zoneAbbreviation } from '../backend/lib/timeZone';
+import type { Testimonial } from '../services/apiService';
 
 interface BookingFormProps {
   business: BusinessProfile;
-  onBackToAdmin: () => void;
-  // New prop to handle actual data entry - accepts array of clients for multi-client appointments
-  onBookAppointment: (appt: Appointment, clients: Client[]) => void;
+  onBackToAdmin?: () => void; // Owner preview only
+  // New prop to handle actual data entry - accepts array of clients for multi-client appointments.
+  // May be async; a rejected promise shows its message and keeps the form open
+  onBookAppointment: (appt: Appointment, clients: Client[]) => void | Promise<void>;
+  requiresConfirmation?: boolean; // Bookings are pending until the owner confirms them
+  busy?: ScheduleEntry[]; // Existing appointments and blocks; open slots are computed around them
+  timeZone?: string; // Zone dates and times are shown in (the visitor's); defaults to the business's
+  // Offered when a date has no open slots; a rejected promise shows its message
+  onJoinWaitlist?: (request: WaitlistForm & { serviceId: string }) => Promise<void>;
+  testimonials?: Testimonial[]; // Featured reviews, shown under the form while choosing a service
 }
 
-const BookingForm: React.FC<BookingFormProps> = ({ business, onBackToAdmin, onBookAppointment }) => {
+export interface WaitlistForm {
+  startDate: string;
+  endDate: string;
+  preferredTimes: TimeOfDay[];
+  client: { name: string; email: string; phone: string };
+}
+
+const TIMES_OF_DAY: { value: TimeOfDay; label: string }[] = [
+  { value: 'MORNING', label: 'Morning' },
+  { value: 'AFTERNOON', label: 'Afternoon' },
+  { value: 'EVENING', label: 'Evening' }
+];
+
+const BookingForm: React.FC<BookingFormProps> = ({ business, onBackToAdmin, onBookAppointment, requiresConfirmation, busy = [], timeZone, onJoinWaitlist, testimonials = [] }) => {
   const [step, setStep] = useState<number>(1);
   const [selectedService, setSelectedService] = useState<Service | null>(null);
   const [selectedDate, setSelectedDate] = useState<string>('');
-  const [selectedTime, setSelectedTime] = useState<string>('');
+  const [selectedTime, setSelectedTime] = useState<string>(''); // HH:mm in the display zone
   const [clientInfo, setClientInfo] = useState({ name: '', email: '', phone: '' });
   const [multipleClients, setMultipleClients] = useState<Array<{ name: '', email: '', phone: '' }>>([{ name: '', email: '', phone: '' }]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [bookingError, setBookingError] = useState('');
+  const [waitlist, setWaitlist] = useState<WaitlistForm | null>(null);
 
-  // Mock available times (stored as 24h, displayed as 12h)
-  const timeSlots = ["09:00", "10:30", "13:00", "14:30", "16:00"];
+  const businessZone = businessTimeZone(business);
+  const zone = timeZone || businessZone;
+  const today = toWallTime(Date.now(), zone).date;
+
+  // Open start times for the chosen service and date (stored as 24h, displayed as 12h).
+  // Slots come from the business's days; in another zone the chosen date can overlap two of them
+  const timeSlots = useMemo(() => {
+    if (!selectedService || !selectedDate || selectedDate < today) return [];
+    const dates = zone === businessZone ? [selectedDate] : [-1, 0, 1].map(offset => addDays(selectedDate, offset));
+    const now = Date.now();
+    return dates
+      .flatMap(date => getAvailableSlots({
+        date,
+        durationMin: selectedService.durationMin,
+        workingHours: business.workingHours,
+        entries: busy,
+        serviceDurations: durationsOf(business.services),
+        staff: business.staff,
+        serviceId: selectedService.id,
+        bufferMin: business.bufferMin
+      }).map(slot => {
+        const startsAt = fromWallTime(date, slot.time, businessZone);
+        return { ...slot, date, startsAt, local: toWallTime(startsAt, zone) };
+      }))
+      .filter(slot => slot.startsAt > now && slot.local.date === selectedDate);
+  }, [selectedService, selectedDate, busy, business, today, zone, businessZone]);
+  const chosenSlot = timeSlots.find(slot => slot.local.time === selectedTime);
 
-  const handleBook = () => {
-    if (!selectedService || !selectedDate || !selectedTime) return;
+  const handleBook = async () => {
+    if (!selectedService || !selectedDate || !chosenSlot || isSubmitting) return;
 
     const isMultiClient = selectedService.pricePerPerson && multipleClients.length > 0;
     const clientsToBook = isMultiClient ? multipleClients : [clientInfo];
@@ -50,18 +101,68 @@ const BookingForm: React.FC<BookingFormProps> = ({ business, onBackToAdmin, onBo
         clientIds: newClients.map(c => c.id),
         clientNames: newClients.map(c => c.name),
         serviceId: selectedService.id,
-        date: selectedDate,
-        time: selectedTime,
-        status: AppointmentStatus.CONFIRMED // Auto-confirm for demo
+        date: chosenSlot.date, // the business's date and time
+        time: chosenSlot.time,
+        staffId: chosenSlot.staffIds[0], // First staff member free at that time
+        status: requiresConfirmation ? AppointmentStatus.PENDING : AppointmentStatus.CONFIRMED
     };
 
     // 3. Pass back to App with all clients
-    onBookAppointment(newAppt, newClients);
+    setIsSubmitting(true);
+    setBookingError('');
+    try {
+      await onBookAppointment(newAppt, newClients);
+    } catch (error: any) {
+      setBookingError(error?.message || 'Could not complete your booking. Please try again.');
+      return;
+    } finally {
+      setIsSubmitting(false);
+    }
     
     // 4. Show success
     setStep(4);
   };
 
+  const openWaitlist = () => {
+    setWaitlist({
+      startDate: selectedDate,
+      endDate: addDays(selectedDate, 6),
+      preferredTimes: [],
+      client: { ...clientInfo }
+    });
+    setBookingError('');
+    setStep(5);
+  };
+
+  const toggleTimeOfDay = (value: TimeOfDay) => {
+    if (!waitlist) return;
+    const times = waitlist.preferredTimes;
+    setWaitlist({ ...waitlist, preferredTimes: times.includes(value) ? times.filter(t => t !== value) : [...times, value] });
+  };
+
+  const handleJoinWaitlist = async () => {
+    if (!selectedService || !waitlist || !onJoinWaitlist || isSubmitting) return;
+    if (!waitlist.client.name.trim() || !waitlist.client.email.trim()) {
+      setBookingError('Please enter your name and email so we can send you an offer.');
+      return;
+    }
+    if (!waitlist.endDate || waitlist.endDate < waitlist.startDate) {
+      setBookingError('The last day must be on or after the first.');
+      return;
+    }
+    setIsSubmitting(true);
+    setBookingError('');
+    try {
+      await onJoinWaitlist({ ...waitlist, serviceId: selectedService.id });
+    } catch (error: any) {
+      setBookingError(error?.message || 'Could not join the waitlist. Please try again.');
+      return;
+    } finally {
+      setIsSubmitting(false);
+    }
+    setStep(6);
+  };
+
   return (
     <div className="min-h-screen bg-black flex flex-col items-center justify-center p-4 relative">
        {/* Industrial decorative elements */}
@@ -80,9 +181,11 @@ const BookingForm: React.FC<BookingFormProps> = ({ business, onBackToAdmin, onBo
                 <h1 className="text-3xl font-bold text-white uppercase tracking-wider">{business.name}</h1>
                 <p className="text-zinc-500 mt-1 uppercase text-xs tracking-widest">Appointment Scheduling System</p>
             </div>
-             <button onClick={onBackToAdmin} className="text-zinc-600 hover:text-white text-xs uppercase tracking-widest font-bold">
-                Owner Login
-            </button>
+             {onBackToAdmin && (
+               <button onClick={onBackToAdmin} className="text-zinc-600 hover:text-white text-xs uppercase tracking-widest font-bold">
+                  Owner Login
+              </button>
+             )}
         </div>
 
         {/* Content */}
@@ -139,14 +242,27 @@ const BookingForm: React.FC<BookingFormProps> = ({ business, onBackToAdmin, onBo
                             <input 
                                 type="date" 
                                 className="w-full p-4 bg-zinc-900 border border-zinc-700 text-white focus:border-orange-600 outline-none appearance-none uppercase font-mono"
-                                onChange={(e) => setSelectedDate(e.target.value)}
+                                min={today}
+                                value={selectedDate}
+                                onChange={(e) => { setSelectedDate(e.target.value); setSelectedTime(''); }}
                             />
                         </div>
                         {selectedDate && (
                             <div>
                                 <label className="block text-xs font-bold text-zinc-500 mb-2 uppercase tracking-widest">Select Slot</label>
+                                {timeSlots.length === 0 && (
+                                    <p className="text-sm text-zinc-500 font-mono">No open slots on this date. Please choose another day.</p>
+                                )}
+                                {timeSlots.length === 0 && onJoinWaitlist && selectedDate >= today && (
+                                    <button
+                                        onClick={openWaitlist}
+                                        className="mt-4 text-white font-bold uppercase tracking-widest text-xs hover:text-orange-600 border-b border-white hover:border-orange-600 pb-1 transition-all"
+                                    >
+                                        Join the Waitlist
+                                    </button>
+                                )}
                                 <div className="grid grid-cols-2 gap-2">
-                                    {timeSlots.map(time => (
+                                    {timeSlots.map(({ local: { time } }) => (
                                         <button
                                             key={time}
                                             onClick={() => setSelectedTime(time)}
@@ -160,12 +276,17 @@ const BookingForm: React.FC<BookingFormProps> = ({ business, onBackToAdmin, onBo
                                         </button>
                                     ))}
                                 </div>
+                                {zone !== businessZone && (
+                                    <p className="text-[10px] text-zinc-500 font-mono mt-3 uppercase tracking-widest">
+                                        Times in your time zone ({zoneAbbreviation(zone)})
+                                    </p>
+                                )}
                             </div>
                         )}
                     </div>
 
                     <button 
-                        disabled={!selectedDate || !selectedTime}
+                        disabled={!selectedDate || !chosenSlot}
                         onClick={() => setStep(3)}
                         className="w-full bg-white text-black py-4 font-bold hover:bg-zinc-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed uppercase tracking-widest flex items-center justify-center gap-2"
                     >
@@ -327,11 +448,16 @@ const BookingForm: React.FC<BookingFormProps> = ({ business, onBackToAdmin, onBo
                         </div>
                     </div>
 
+                    {bookingError && (
+                        <p className="mb-4 p-3 border border-red-800 bg-red-900/20 text-red-500 text-sm">{bookingError}</p>
+                    )}
+
                     <button 
                         onClick={handleBook}
-                        className="w-full bg-orange-600 text-black py-4 font-bold hover:bg-orange-500 transition-colors shadow-[0_0_20px_rgba(234,88,12,0.3)] uppercase tracking-widest"
+                        disabled={isSubmitting}
+                        className="w-full bg-orange-600 text-black py-4 font-bold hover:bg-orange-500 transition-colors shadow-[0_0_20px_rgba(234,88,12,0.3)] uppercase tracking-widest disabled:opacity-50 disabled:cursor-wait"
                     >
-                        Confirm Booking
+                        {isSubmitting ? 'Booking...' : requiresConfirmation ? 'Request Booking' : 'Confirm Booking'}
                     </button>
                 </div>
             )}
@@ -341,22 +467,170 @@ const BookingForm: React.FC<BookingFormProps> = ({ business, onBackToAdmin, onBo
                     <div className="w-20 h-20 border-2 border-orange-600 rounded-full flex items-center justify-center mx-auto mb-6">
                         <CheckCircle className="w-10 h-10 text-orange-600" />
                     </div>
-                    <h2 className="text-3xl font-bold text-white uppercase tracking-wider mb-4">Confirmed</h2>
+                    <h2 className="text-3xl font-bold text-white uppercase tracking-wider mb-4">{requiresConfirmation ? 'Requested' : 'Confirmed'}</h2>
                     <p className="text-zinc-400 mb-8 max-w-xs mx-auto">
-                        {selectedService?.pricePerPerson && multipleClients.length > 1 
+                        {requiresConfirmation
+                          ? `${business.name} will confirm your appointment shortly.`
+                          : selectedService?.pricePerPerson && multipleClients.length > 1 
                           ? `Confirmation sent to ${multipleClients.length} clients.`
                           : `Confirmation sent to ${clientInfo.email || multipleClients[0]?.email || 'client'}.`}
                     </p>
                     <p className="text-sm font-mono text-zinc-500 mb-10">{selectedDate} / {formatTime(selectedTime)}</p>
                     
-                    <button onClick={() => setStep(1)} className="text-white font-bold uppercase tracking-widest text-xs hover:text-orange-600 border-b border-white hover:border-orange-600 pb-1 transition-all">
+                    <button onClick={() => { setStep(1); setSelectedTime(''); }} className="text-white font-bold uppercase tracking-widest text-xs hover:text-orange-600 border-b border-white hover:border-orange-600 pb-1 transition-all">
                         Book Another
                     </button>
                 </div>
             )}
 
+            {step === 5 && waitlist && (
+                <div className="animate-fade-in">
+                    <button onClick={() => { setStep(2); setBookingError(''); }} className="text-xs text-zinc-500 hover:text-white mb-8 flex items-center gap-2 uppercase tracking-widest font-bold">
+                        <ArrowLeft className="w-4 h-4" /> Back
+                    </button>
+
+                    <div className="flex items-center gap-4 mb-4">
+                         <div className="w-8 h-8 bg-orange-600 text-black font-bold flex items-center justify-center"><Clock className="w-4 h-4" /></div>
+                         <h2 className="text-xl font-bold text-white uppercase tracking-wide">Join the Waitlist</h2>
+                    </div>
+                    <p className="text-sm text-zinc-500 mb-8">
+                        If a {selectedService?.name} opens up on one of these days, we'll email you a link to book it. Offers go out in the order people joined.
+                    </p>
+
+                    <div className="space-y-6 mb-8">
+                        <div className="grid grid-cols-2 gap-4">
+                            <div>
+                                <label className="block text-xs font-bold text-zinc-500 mb-2 uppercase tracking-widest">From</label>
+                                <input
+                                    type="date"
+                                    className="w-full p-4 bg-zinc-900 border border-zinc-700 text-white focus:border-orange-600 outline-none appearance-none uppercase font-mono"
+                                    min={today}
+                                    value={waitlist.startDate}
+                                    onChange={e => setWaitlist({ ...waitlist, startDate: e.target.value })}
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-xs font-bold text-zinc-500 mb-2 uppercase tracking-widest">To</label>
+                                <input
+                                    type="date"
+                                    className="w-full p-4 bg-zinc-900 border border-zinc-700 text-white focus:border-orange-600 outline-none appearance-none uppercase font-mono"
+                                    min={waitlist.startDate || today}
+                                    value={waitlist.endDate}
+                                    onChange={e => setWaitlist({ ...waitlist, endDate: e.target.value })}
+                                />
+                            </div>
+                        </div>
+                        <div>
+                            <label className="block text-xs font-bold text-zinc-500 mb-2 uppercase tracking-widest">Preferred Times</label>
+                            <div className="grid grid-cols-3 gap-2">
+                                {TIMES_OF_DAY.map(({ value, label }) => (
+                                    <button
+                                        key={value}
+                                        onClick={() => toggleTimeOfDay(value)}
+                                        className={`p-3 text-xs font-bold uppercase tracking-widest transition-colors border ${
+                                            waitlist.preferredTimes.includes(value)
+                                            ? 'bg-orange-600 text-black border-orange-600'
+                                            : 'bg-zinc-900 text-zinc-400 border-zinc-800 hover:border-zinc-600'
+                                        }`}
+                                    >
+                                        {label}
+                                    </button>
+                                ))}
+                            </div>
+                            <p className="text-[10px] text-zinc-500 font-mono mt-2 uppercase tracking-widest">Leave all unselected for any time</p>
+                        </div>
+                        <div>
+                            <label className="block text-xs font-bold text-zinc-500 mb-2 uppercase tracking-widest">Full Name</label>
+                            <input
+                                type="text"
+                                className="w-full p-4 bg-zinc-900 border border-zinc-700 text-white focus:border-orange-600 outline-none"
+                                placeholder="JANE DOE"
+                                value={waitlist.client.name}
+                                onChange={e => setWaitlist({ ...waitlist, client: { ...waitlist.client, name: e.target.value } })}
+                            />
+                        </div>
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                            <div>
+                                <label className="block text-xs font-bold text-zinc-500 mb-2 uppercase tracking-widest">Email</label>
+                                <input
+                                    type="email"
+                                    className="w-full p-4 bg-zinc-900 border border-zinc-700 text-white focus:border-orange-600 outline-none"
+                                    placeholder="JANE@EXAMPLE.COM"
+                                    value={waitlist.client.email}
+                                    onChange={e => setWaitlist({ ...waitlist, client: { ...waitlist.client, email: e.target.value } })}
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-xs font-bold text-zinc-500 mb-2 uppercase tracking-widest">Phone</label>
+                                <input
+                                    type="tel"
+                                    className="w-full p-4 bg-zinc-900 border border-zinc-700 text-white focus:border-orange-600 outline-none font-mono"
+                                    placeholder="555-0123"
+                                    value={waitlist.client.phone}
+                                    onChange={e => setWaitlist({ ...waitlist, client: { ...waitlist.client, phone: e.target.value } })}
+                                />
+                            </div>
+                        </div>
+                    </div>
+
+                    {bookingError && (
+                        <p className="mb-4 p-3 border border-red-800 bg-red-900/20 text-red-500 text-sm">{bookingError}</p>
+                    )}
+
+                    <button
+                        onClick={handleJoinWaitlist}
+                        disabled={isSubmitting}
+                        className="w-full bg-orange-600 text-black py-4 font-bold hover:bg-orange-500 transition-colors uppercase tracking-widest disabled:opacity-50 disabled:cursor-wait"
+                    >
+                        {isSubmitting ? 'Joining...' : 'Join Waitlist'}
+                    </button>
+                </div>
+            )}
+
+            {step === 6 && waitlist && (
+                <div className="text-center py-12 animate-fade-in">
+                    <div className="w-20 h-20 border-2 border-orange-600 rounded-full flex items-center justify-center mx-auto mb-6">
+                        <CheckCircle className="w-10 h-10 text-orange-600" />
+                    </div>
+                    <h2 className="text-3xl font-bold text-white uppercase tracking-wider mb-4">On the List</h2>
+                    <p className="text-zinc-400 mb-8 max-w-xs mx-auto">
+                        We'll email {waitlist.client.email} if a time opens up between {waitlist.startDate} and {waitlist.endDate}.
+                    </p>
+                    <button onClick={() => { setStep(1); setSelectedTime(''); setWaitlist(null); }} className="text-white font-bold uppercase tracking-widest text-xs hover:text-orange-600 border-b border-white hover:border-orange-600 pb-1 transition-all">
+                        Back to Booking
+                    </button>
+                </div>
+            )}
+
         </div>
       </div>
+
+      {step === 1 && testimonials.length > 0 && (
+        <div className="w-full max-w-2xl mt-8 relative z-10 animate-fade-in">
+            <p className="text-xs font-bold text-zinc-500 uppercase tracking-widest mb-4">What Clients Say</p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                {testimonials.map((t, i) => (
+                    <div key={i} className="bg-zinc-950 border border-zinc-800 p-6">
+                        {t.rating && (
+                            <div className="flex gap-0.5 mb-3">
+                                {[1, 2, 3, 4, 5].map(n => (
+                                    <Star key={n} className={`w-3 h-3 ${n <= t.rating! ? 'text-orange-600 fill-orange-600' : 'text-zinc-700'}`} />
+                                ))}
+                            </div>
+                        )}
+                        <p className="text-zinc-300 text-sm whitespace-pre-line">"{t.comment}"</p>
+                        <p className="text-zinc-500 text-xs uppercase tracking-widest font-bold mt-3">{t.name}</p>
+                        {t.reply && (
+                            <div className="mt-4 pl-3 border-l-2 border-orange-600">
+                                <p className="text-[10px] text-zinc-500 uppercase tracking-widest font-bold mb-1">{business.name}</p>
+                                <p className="text-zinc-400 text-sm whitespace-pre-line">{t.reply}</p>
+                            </div>
+                        )}
+                    </div>
+                ))}
+            </div>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { Download, Share2, Copy, Check, RefreshCw } from 'lucide-react';
+import { Appointment, BusinessProfile } from '../types';
+import { buildCalendar } from '../backend/lib/ical';
+import { businessTimeZone } from '../constants';
+import { getCalendarFeed, resetCalendarFeed, calendarFeedUrl } from '../services/apiService';
+
+interface CalendarExportMenuProps {
+  appointments: Appointment[];
+  business: BusinessProfile;
+}
+
+/** Calendar toolbar menu: download the calendar as .ics, or subscribe to it by secret URL. */
+const CalendarExportMenu: React.FC<CalendarExportMenuProps> = ({ appointments, business }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [feedUrl, setFeedUrl] = useState('');
+  const [feedError, setFeedError] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const handleDownload = () => {
+    const ics = buildCalendar({
+      name: business.name,
+      entries: appointments,
+      services: business.services,
+      timeZone: businessTimeZone(business)
+    });
+    const url = URL.createObjectURL(new Blob([ics], { type: 'text/calendar;charset=utf-8' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${business.name.replace(/[^a-z0-9]+/gi, '-').toLowerCase() || 'halo'}-calendar.ics`;
+    link.click();
+    URL.revokeObjectURL(url);
+    setIsOpen(false);
+  };
+
+  const loadFeed = async (reset = false) => {
+    setIsLoading(true);
+    setFeedError('');
+    const result = reset ? await resetCalendarFeed() : await getCalendarFeed();
+    setIsLoading(false);
+    if (result.data) {
+      setFeedUrl(calendarFeedUrl(result.data.token));
+    } else {
+      setFeedError(result.error === 'Not authenticated'
+        ? 'Sign in to get a calendar feed.'
+        : result.error === 'API_UNAVAILABLE' ? 'Calendar feed is unavailable offline.' : result.error || 'Failed to get calendar feed');
+    }
+  };
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(feedUrl);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const handleReset = () => {
+    if (!confirm('Reset the calendar link? Calendars subscribed to the old link will stop updating.')) return;
+    loadFeed(true);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className="flex items-center gap-1 sm:gap-2 bg-zinc-900 border border-zinc-800 px-2 sm:px-4 py-2 sm:py-3 text-white text-[10px] sm:text-xs font-bold uppercase tracking-widest hover:border-zinc-600 transition-colors"
+      >
+        <Share2 className="w-3 h-3 sm:w-4 sm:h-4 text-zinc-500" /> Export
+      </button>
+
+      {isOpen && (
+        <div className="absolute top-full right-0 sm:left-0 sm:right-auto mt-2 w-80 bg-zinc-950 border border-zinc-700 shadow-2xl z-50">
+          <button
+            onClick={handleDownload}
+            className="w-full p-3 flex items-center gap-2 text-left text-xs font-bold text-white uppercase tracking-widest hover:bg-zinc-900 border-b border-zinc-800"
+          >
+            <Download className="w-4 h-4 text-orange-600" /> Download .ics
+          </button>
+          <div className="p-3">
+            <p className="text-xs font-bold text-white uppercase tracking-widest">Subscribe</p>
+            <p className="text-[10px] text-zinc-500 mt-1 mb-3">
+              Add this link to Google Calendar, Apple Calendar or Outlook to keep them in sync. Anyone with the link can see your appointments.
+            </p>
+            {feedUrl ? (
+              <>
+                <div className="flex gap-2">
+                  <input
+                    readOnly
+                    value={feedUrl}
+                    onFocus={e => e.target.select()}
+                    className="flex-1 min-w-0 p-2 bg-black border border-zinc-700 text-zinc-300 text-[10px] font-mono outline-none"
+                  />
+                  <button onClick={handleCopy} className="px-2 border border-zinc-700 text-zinc-300 hover:bg-zinc-900" title="Copy link">
+                    {copied ? <Check className="w-3 h-3 text-emerald-500" /> : <Copy className="w-3 h-3" />}
+                  </button>
+                </div>
+                <button
+                  onClick={handleReset}
+                  disabled={isLoading}
+                  className="mt-2 text-[10px] font-bold uppercase tracking-widest text-zinc-500 hover:text-red-500 flex items-center gap-1 disabled:opacity-50"
+                >
+                  <RefreshCw className={`w-3 h-3 ${isLoading ? 'animate-spin' : ''}`} /> Reset Link
+                </button>
+              </>
+            ) : (
+              <button
+                onClick={() => loadFeed()}
+                disabled={isLoading}
+                className="w-full py-2 border border-zinc-700 text-zinc-300 text-[10px] font-bold uppercase tracking-widest hover:bg-zinc-900 disabled:opacity-50"
+              >
+                {isLoading ? 'Loading...' : 'Get Calendar Link'}
+              </button>
+            )}
+            {feedError && <p className="text-[10px] text-red-500 mt-2">{feedError}</p>}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CalendarExportMenu;
@@ -0,0 +1,202 @@
+import React, { useRef, useState } from 'react';
+import { Upload, X, AlertTriangle, Repeat, Copy } from 'lucide-react';
+import { Appointment, BusinessProfile, Client } from '../types';
+import { parseCalendar } from '../backend/lib/ical';
+import { describeRule } from '../backend/lib/recurrence';
+import { planImport, changeKind, collectImport, ImportKind, ImportRow } from '../services/icsImport';
+
+interface CalendarImportModalProps {
+  appointments: Appointment[];
+  clients: Client[];
+  business: BusinessProfile;
+  timeZone: string; // imported times are converted into this zone
+  onAddClient: (client: Client) => void;
+  onAddAppointment: (appt: Appointment) => void;
+  onClose: () => void;
+}
+
+const KIND_LABELS: Record<ImportKind, string> = {
+  APPOINTMENT: 'Appointment',
+  MEETING: 'Meeting',
+  INTERVIEW: 'Interview',
+  TASK: 'Task',
+  BLOCK: 'Blocked'
+};
+
+const formatDuration = (minutes: number) =>
+  minutes % 1440 === 0 ? `${minutes / 1440}d` : minutes >= 60 ? `${Math.floor(minutes / 60)}h${minutes % 60 ? ` ${minutes % 60}m` : ''}` : `${minutes}m`;
+
+/** Import an .ics file: pick a file, review what each event becomes, then add the chosen ones. */
+const CalendarImportModal: React.FC<CalendarImportModalProps> = ({
+  appointments, clients, business, timeZone, onAddClient, onAddAppointment, onClose
+}) => {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState('');
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [newClients, setNewClients] = useState<Client[]>([]);
+  const [included, setIncluded] = useState<Set<string>>(new Set());
+  const [error, setError] = useState('');
+
+  const context = { clients, services: business.services, appointments, ownerEmail: business.email };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setFileName(file.name);
+    setError('');
+    try {
+      const events = parseCalendar(await file.text(), { timeZone });
+      if (events.length === 0) {
+        setRows([]);
+        setError('No events found in this file.');
+        return;
+      }
+      const plan = planImport(events, context);
+      setRows(plan.rows);
+      setNewClients(plan.newClients);
+      // Duplicates are left out unless chosen
+      setIncluded(new Set(plan.rows.filter(r => !r.duplicateOf).map(r => r.appointment.id)));
+    } catch (err) {
+      console.error('Failed to read calendar file:', err);
+      setRows([]);
+      setError('Could not read this file. Make sure it is an .ics calendar.');
+    }
+  };
+
+  const toggle = (id: string) => {
+    setIncluded(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const handleKindChange = (row: ImportRow, kind: ImportKind) => {
+    const shared = [...newClients];
+    const changed = changeKind(row, kind, context, shared);
+    setNewClients(shared);
+    setRows(prev => prev.map(r => (r === row ? changed : r)));
+  };
+
+  const handleImport = () => {
+    const chosen = rows.filter(r => included.has(r.appointment.id));
+    const result = collectImport(chosen, newClients);
+    result.clients.forEach(onAddClient);
+    result.appointments.forEach(onAddAppointment);
+    onClose();
+  };
+
+  const chosenCount = rows.filter(r => included.has(r.appointment.id)).length;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-zinc-950 border border-zinc-700 w-full max-w-3xl shadow-2xl flex flex-col max-h-[90vh]">
+        <div className="p-4 sm:p-6 border-b border-zinc-800 flex items-start justify-between gap-4">
+          <div>
+            <h3 className="font-bold text-white uppercase tracking-wider">Import Calendar</h3>
+            <p className="text-zinc-400 text-xs sm:text-sm mt-1">
+              Add events from an .ics file exported from Google Calendar, Apple Calendar or Outlook. Times are shown in {timeZone}.
+            </p>
+          </div>
+          <button onClick={onClose} className="text-zinc-500 hover:text-white" title="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 border-b border-zinc-800">
+          <input
+            ref={fileInput}
+            type="file"
+            accept=".ics,text/calendar"
+            className="hidden"
+            onChange={e => handleFile(e.target.files?.[0])}
+          />
+          <button
+            onClick={() => fileInput.current?.click()}
+            className="w-full py-3 border border-dashed border-zinc-700 text-zinc-300 text-xs font-bold uppercase tracking-widest hover:bg-zinc-900 flex items-center justify-center gap-2"
+          >
+            <Upload className="w-4 h-4 text-orange-600" /> {fileName || 'Choose .ics File'}
+          </button>
+          {error && <p className="text-xs text-red-500 mt-2">{error}</p>}
+        </div>
+
+        {rows.length > 0 && (
+          <div className="flex-1 overflow-y-auto divide-y divide-zinc-800">
+            {rows.map(row => {
+              const { appointment, event } = row;
+              const checked = included.has(appointment.id);
+              return (
+                <div key={appointment.id} className={`p-3 flex items-start gap-3 ${checked ? '' : 'opacity-50'}`}>
+                  <input
+                    type="checkbox"
+                    checked={checked}
+                    onChange={() => toggle(appointment.id)}
+                    className="mt-1 accent-orange-600"
+                  />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex flex-wrap items-baseline gap-x-2">
+                      <span className="text-sm font-bold text-white truncate">{event.summary || '(No title)'}</span>
+                      <span className="text-[10px] text-zinc-500 font-mono">
+                        {appointment.date} {event.allDay ? 'all day' : appointment.time} · {formatDuration(event.durationMin)}
+                      </span>
+                    </div>
+                    <p className="text-[10px] text-zinc-500 truncate">
+                      {appointment.clientNames?.join(', ')}
+                      {appointment.recurrenceParentId && ` · replaces ${appointment.occurrenceDate}`}
+                    </p>
+                    {appointment.recurrence && (
+                      <p className="text-[10px] text-zinc-400 flex items-center gap-1">
+                        <Repeat className="w-3 h-3 text-orange-600" /> {describeRule(appointment.recurrence)}
+                      </p>
+                    )}
+                    {row.duplicateOf && (
+                      <p className="text-[10px] text-amber-500 flex items-center gap-1">
+                        <Copy className="w-3 h-3" /> Already on your calendar ({row.duplicateOf.clientName} at {row.duplicateOf.time})
+                      </p>
+                    )}
+                    {row.warnings.map(warning => (
+                      <p key={warning} className="text-[10px] text-amber-500 flex items-center gap-1">
+                        <AlertTriangle className="w-3 h-3" /> {warning}
+                      </p>
+                    ))}
+                  </div>
+                  <select
+                    value={row.kind}
+                    onChange={e => handleKindChange(row, e.target.value as ImportKind)}
+                    className="bg-zinc-900 border border-zinc-700 text-white text-[10px] font-bold uppercase tracking-widest p-1 outline-none"
+                  >
+                    {(Object.keys(KIND_LABELS) as ImportKind[]).map(kind => (
+                      <option
+                        key={kind}
+                        value={kind}
+                        disabled={kind === 'APPOINTMENT' && business.services.length === 0}
+                        className="text-black"
+                      >
+                        {KIND_LABELS[kind]}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="p-4 border-t border-zinc-800 flex items-center justify-between gap-4">
+          <span className="text-[10px] text-zinc-500 uppercase tracking-widest">
+            {rows.length > 0 && `${chosenCount} of ${rows.length} selected`}
+          </span>
+          <button
+            onClick={handleImport}
+            disabled={chosenCount === 0}
+            className="px-6 py-3 bg-orange-600 text-white text-xs font-bold uppercase tracking-widest hover:bg-orange-500 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Import {chosenCount > 0 ? chosenCount : ''} {chosenCount === 1 ? 'Event' : 'Events'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CalendarImportModal;
@@ -1,14 +1,23 @@
 
-import React, { useState, useEffect } from 'react';
-import { Appointment, AppointmentStatus, BusinessProfile, RecurrenceRule, EventType } from '../types';
-import { ChevronLeft, ChevronRight, Filter, Calendar as CalendarIcon, Clock, X, Edit3, User, Repeat, Save, Globe, Plus, CheckCircle, Ban, Lock, List, Grid, XCircle, Video, Briefcase, ClipboardList, FileText } from 'lucide-react';
-import { formatTime, toLocalDateStr } from '../constants';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Appointment, AppointmentStatus, BusinessProfile, Client, RecurrenceRule, RecurrenceFrequency, EventType, Staff } from '../types';
+import { ChevronLeft, ChevronRight, Filter, Calendar as CalendarIcon, Clock, X, Edit3, User, Repeat, Save, Globe, Plus, CheckCircle, Ban, Lock, List, Grid, XCircle, Video, Briefcase, ClipboardList, FileText, Upload, Columns3, Rows3 } from 'lucide-react';
+import { formatTime, toLocalDateStr, businessTimeZone } from '../constants';
+import { getAvailableSlots, durationsOf, durationOf, performs, findConflicts, staffHoursOn, fromMinutes, toMinutes, Conflict } from '../backend/lib/availability';
+import { addDays, convertWallTime, deviceTimeZone, zoneAbbreviation } from '../backend/lib/timeZone';
+import CalendarExportMenu from './CalendarExportMenu';
+import CalendarImportModal from './CalendarImportModal';
+import ConflictWarning from './ConflictWarning';
+import ReminderStatus from './ReminderStatus';
+import { occurrencesOn, overrideLink, withExceptionDate, splitSeries, moveSeries, relinkOverrides, toRRule, parseRRule, describeRule } from '../backend/lib/recurrence';
 
 interface CalendarViewProps {
   appointments: Appointment[];
+  clients: Client[];
   business: BusinessProfile;
   onUpdateAppointment: (appt: Appointment) => void;
   onAddAppointment: (appt: Appointment) => void;
+  onAddClient: (client: Client) => void;
 }
 
 const TIME_ZONES = [
@@ -21,12 +30,33 @@ const TIME_ZONES = [
   { value: 'Australia/Sydney', label: 'Sydney (AEST/AEDT)' },
 ];
 
-const CalendarView: React.FC<CalendarViewProps> = ({ appointments, business, onUpdateAppointment, onAddAppointment }) => {
+const WEEKDAYS = [1, 2, 3, 4, 5];
+const isWeekdaysOnly = (days?: number[]) => !!days && days.length === 5 && WEEKDAYS.every(d => days.includes(d));
+const FREQUENCY_UNITS: Record<RecurrenceFrequency, string> = { DAILY: 'Day', WEEKLY: 'Week', MONTHLY: 'Month', YEARLY: 'Year' };
+const ORDINAL_LABELS = ['', 'first', 'second', 'third', 'fourth'];
+
+// The week and day grids: pixels per hour, and the step dragged entries snap to
+const HOUR_PX = 96;
+const SNAP_MIN = 15;
+const AGENDA_RANGES = [7, 14, 30];
+
+const CalendarView: React.FC<CalendarViewProps> = ({ appointments, clients, business, onUpdateAppointment, onAddAppointment, onAddClient }) => {
   const [currentDate, setCurrentDate] = useState(new Date());
-  const [viewMode, setViewMode] = useState<'MONTH' | 'WEEK'>('MONTH');
+  const [viewMode, setViewMode] = useState<'MONTH' | 'WEEK' | 'DAY' | 'AGENDA'>('MONTH');
+  const [agendaDays, setAgendaDays] = useState(AGENDA_RANGES[0]);
   const [statusFilter, setStatusFilter] = useState<AppointmentStatus | 'ALL'>('ALL');
-  const [selectedAppointment, setSelectedAppointment] = useState<Appointment & { displayTime?: string } | null>(null);
-  const [selectedTimeZone, setSelectedTimeZone] = useState<string>(Intl.DateTimeFormat().resolvedOptions().timeZone);
+  const [selectedAppointment, setSelectedAppointment] = useState<Appointment & { displayTime?: string; displayDate?: string } | null>(null);
+  // Appointments are stored in the business's zone; the calendar can show them in another
+  const businessZone = businessTimeZone(business);
+  const [selectedTimeZone, setSelectedTimeZone] = useState<string>(businessZone);
+  const isOtherZone = selectedTimeZone !== businessZone;
+  const timeZoneOptions = [
+      ...[businessZone, deviceTimeZone()]
+          .filter((zone, i, zones) => zones.indexOf(zone) === i && !TIME_ZONES.some(tz => tz.value === zone))
+          .map(zone => ({ value: zone, label: zone.replace(/_/g, ' ') })),
+      ...TIME_ZONES
+  ];
+  const [isImporting, setIsImporting] = useState(false);
 
   // Sync selectedAppointment with appointments prop when it changes
   useEffect(() => {
@@ -45,7 +75,8 @@ const CalendarView: React.FC<CalendarViewProps> = ({ appointments, business, onU
           // Preserve displayTime if it exists
           setSelectedAppointment({ 
             ...updatedAppt, 
-            displayTime: selectedAppointment.displayTime || formatTime(updatedAppt.time) 
+            displayTime: selectedAppointment.displayTime || formatTime(updatedAppt.time),
+            displayDate: selectedAppointment.displayDate
           });
         }
       }
@@ -58,6 +89,53 @@ const CalendarView: React.FC<CalendarViewProps> = ({ appointments, business, onU
   const [isNew, setIsNew] = useState(false);
   const [entryType, setEntryType] = useState<'APPOINTMENT' | 'MEETING' | 'INTERVIEW' | 'TASK' | 'BLOCK'>('APPOINTMENT');
   const [confirmModal, setConfirmModal] = useState<{ show: boolean; message: string; onConfirm: () => void } | null>(null);
+  const [rruleDraft, setRruleDraft] = useState<string | null>(null); // RRULE text being typed, until it's applied
+  const [rruleError, setRruleError] = useState('');
+
+  // A half-typed RRULE belongs to the appointment it was typed for
+  useEffect(() => {
+      setRruleDraft(null);
+      setRruleError('');
+  }, [isEditing, selectedAppointment?.id]);
+
+  // Open start times for the appointment being edited, so the owner can see gaps at a glance
+  const openSlots = useMemo(() => {
+      if (!isEditing || entryType !== 'APPOINTMENT' || !editForm.date) return [];
+      const service = business.services.find(s => s.id === editForm.serviceId);
+      if (!service) return [];
+      return getAvailableSlots({
+          date: editForm.date,
+          durationMin: service.durationMin,
+          workingHours: business.workingHours,
+          entries: appointments,
+          serviceDurations: durationsOf(business.services),
+          staff: business.staff,
+          staffId: editForm.staffId,
+          serviceId: service.id,
+          bufferMin: business.bufferMin,
+          ignoreId: editForm.id
+      });
+  }, [isEditing, entryType, editForm.date, editForm.serviceId, editForm.staffId, editForm.id, appointments, business]);
+
+  // What the entry being edited would clash with, as it would be saved
+  const conflicts = useMemo(() => {
+      if (!isEditing || !editForm.date || !editForm.time) return [];
+      const isBlock = entryType === 'BLOCK';
+      const draft = {
+          ...editForm,
+          id: editForm.id || '',
+          serviceId: isBlock ? 'BLOCK' : entryType === 'APPOINTMENT' ? editForm.serviceId : 'EVENT',
+          status: isBlock ? AppointmentStatus.BLOCKED
+              : editForm.status === AppointmentStatus.BLOCKED ? AppointmentStatus.CONFIRMED : editForm.status,
+          eventType: isBlock ? undefined : entryType
+      } as Appointment;
+      return findConflicts(draft, appointments, durationsOf(business.services));
+  }, [isEditing, entryType, editForm, appointments, business.services]);
+
+  const staffName = (id: string) => business.staff?.find(m => m.id === id)?.name;
+
+  const describeStaffClash = (staffId: string | undefined, clash: Conflict) =>
+      `${(staffId && staffName(staffId)) || 'This staff member'} already has ${clash.entry.status === AppointmentStatus.BLOCKED ? 'blocked time' : (clash.entry as Appointment).clientName || 'an appointment'} on ${clash.date} at ${formatTime(clash.entry.time)}.`;
 
   // Calendar Logic Helpers
   const handlePrev = () => {
@@ -65,7 +143,7 @@ const CalendarView: React.FC<CalendarViewProps> = ({ appointments, business, onU
     if (viewMode === 'MONTH') {
         newDate.setMonth(newDate.getMonth() - 1);
     } else {
-        newDate.setDate(newDate.getDate() - 7);
+        newDate.setDate(newDate.getDate() - (viewMode === 'DAY' ? 1 : viewMode === 'AGENDA' ? agendaDays : 7));
     }
     setCurrentDate(newDate);
   };
@@ -75,7 +153,7 @@ const CalendarView: React.FC<CalendarViewProps> = ({ appointments, business, onU
     if (viewMode === 'MONTH') {
         newDate.setMonth(newDate.getMonth() + 1);
     } else {
-        newDate.setDate(newDate.getDate() + 7);
+        newDate.setDate(newDate.getDate() + (viewMode === 'DAY' ? 1 : viewMode === 'AGENDA' ? agendaDays : 7));
     }
     setCurrentDate(newDate);
   };
@@ -112,133 +190,44 @@ const CalendarView: React.FC<CalendarViewProps> = ({ appointments, business, onU
       return dates;
   };
 
-  /**
-   * Checks if an appointment occurs on a specific BASE date (UTC), handling recurrence.
-   */
+  // Helper for Agenda View Dates: `agendaDays` days from the current date
+  const getAgendaDates = () => Array.from({ length: agendaDays }, (_, i) => {
+      const d = new Date(currentDate);
+      d.setDate(d.getDate() + i);
+      return d;
+  });
+
   // Parse YYYY-MM-DD as LOCAL time (noon to avoid DST edge cases).
   // new Date('YYYY-MM-DD') parses as UTC, which shifts getDay() in local time.
   const parseLocalDate = (dateStr: string): Date => new Date(dateStr + 'T12:00:00');
 
-  const isOccurrence = (appt: Appointment, targetDateStr: string): boolean => {
-    // 1. Exact match (Base case)
-    if (appt.date === targetDateStr) return true;
-
-    // 2. No recurrence? No match.
-    if (!appt.recurrence) return false;
-
-    // 3. Check recurrence range — use local time parsing
-    const apptDate = parseLocalDate(appt.date);
-    const targetDate = parseLocalDate(targetDateStr);
-    
-    // If target is before start date
-    if (targetDate < apptDate) return false;
-    
-    // If target is after end date (if exists)
-    if (appt.recurrence.endDate && targetDate > parseLocalDate(appt.recurrence.endDate)) return false;
-
-    // 4. Check Interval logic
-    const diffTime = Math.abs(targetDate.getTime() - apptDate.getTime());
-    const diffDays = Math.round(diffTime / (1000 * 60 * 60 * 24));
-
-    if (appt.recurrence.frequency === 'WEEKLY') {
-        // Multi-day recurrence: check if target day of week is in selected days
-        if (appt.recurrence.daysOfWeek && appt.recurrence.daysOfWeek.length > 0) {
-            const targetDayOfWeek = targetDate.getDay();
-            if (!appt.recurrence.daysOfWeek.includes(targetDayOfWeek)) return false;
-            
-            // Check week interval: calculate how many weeks apart
-            const getWeekStart = (d: Date) => {
-                const date = new Date(d);
-                date.setDate(date.getDate() - date.getDay()); // Sunday start
-                date.setHours(12, 0, 0, 0);
-                return date;
-            };
-            const apptWeekStart = getWeekStart(apptDate);
-            const targetWeekStart = getWeekStart(targetDate);
-            const weeksDiff = Math.round((targetWeekStart.getTime() - apptWeekStart.getTime()) / (7 * 24 * 60 * 60 * 1000));
-            return weeksDiff >= 0 && weeksDiff % appt.recurrence.interval === 0;
-        }
-        
-        // Legacy: simple weekly (same day of week)
-        if (diffDays % 7 !== 0) return false;
-        const weeksPassed = diffDays / 7;
-        return weeksPassed % appt.recurrence.interval === 0;
-    }
-
-    if (appt.recurrence.frequency === 'MONTHLY') {
-        if (targetDate.getDate() !== apptDate.getDate()) return false;
-        const monthDiff = (targetDate.getFullYear() - apptDate.getFullYear()) * 12 + (targetDate.getMonth() - apptDate.getMonth());
-        return monthDiff % appt.recurrence.interval === 0;
-    }
-
-    return false;
-  };
-
   const getAppointmentsForDate = (date: Date) => {
     const targetDateStr = getDateString(date);
-
-    // Only check the target date (local time).
-    // Previous ±1-day UTC hack removed — getDateString now uses local time.
-    const candidates = [targetDateStr];
-
-    const dayAppointments: (Appointment & { displayTime: string; _sortTime: string; _duration: number })[] = [];
-    const seenIds = new Set<string>();
-
-    // Collect IDs of non-recurring appointments on this date (completed/cancelled instances)
-    // These override the recurring parent for this specific date
-    const overriddenDates = new Map<string, Set<string>>(); // parentTime -> Set of dates with overrides
-    appointments.forEach(appt => {
-        // An appointment that was created from a recurring parent has an id ending with _completed or _cancelled
-        // and has no recurrence rule but shares the same time/service
-        if (!appt.recurrence && (appt.id.endsWith('_completed') || appt.id.endsWith('_cancelled'))) {
-            const key = `${appt.time}_${appt.serviceId}_${appt.clientName}`;
-            if (!overriddenDates.has(key)) overriddenDates.set(key, new Set());
-            overriddenDates.get(key)!.add(appt.date);
-        }
-    });
-
-    appointments.forEach(appt => {
-        if (statusFilter !== 'ALL' && appt.status !== statusFilter) return;
-
-        candidates.forEach(baseDateStr => {
-             if (isOccurrence(appt, baseDateStr)) {
-                 if (baseDateStr === targetDateStr) {
-                     // If this is a recurring appointment, check if there's already a completed/cancelled 
-                     // instance for this specific date (don't show recurring parent if so)
-                     if (appt.recurrence) {
-                         const key = `${appt.time}_${appt.serviceId}_${appt.clientName}`;
-                         const overrides = overriddenDates.get(key);
-                         if (overrides && overrides.has(targetDateStr)) {
-                             return; // Skip: this recurring date has been overridden by a completed/cancelled instance
-                         }
-                     }
-
-                     if (!seenIds.has(appt.id)) {
-                         const service = business.services.find(s => s.id === appt.serviceId);
-                         // Events without a real service get a default 30-min duration
-                         const isEvent = appt.eventType && appt.eventType !== 'APPOINTMENT';
-                         const duration = service ? service.durationMin : (isEvent ? 30 : 60);
-
-                         // For recurring appointments shown on a different date, 
-                         // set the date to the target date so completing works correctly
-                         const displayAppt = appt.recurrence && appt.date !== targetDateStr 
-                             ? { ...appt, date: targetDateStr }
-                             : appt;
-
-                         dayAppointments.push({ 
-                             ...displayAppt, 
-                             displayTime: formatTime(appt.time), 
-                             _sortTime: appt.time,
-                             _duration: duration
-                         });
-                         seenIds.add(appt.id);
-                     }
-                 }
-             }
-        });
-    });
-    
-    return dayAppointments.sort((a, b) => a._sortTime.localeCompare(b._sortTime));
+    // Shown in another zone, the day can overlap the business's previous or next day
+    const businessDates = isOtherZone ? [-1, 0, 1].map(offset => addDays(targetDateStr, offset)) : [targetDateStr];
+    const durations = durationsOf(business.services);
+
+    return businessDates
+        .flatMap(businessDate => occurrencesOn<Appointment>(appointments, businessDate))
+        .filter(({ entry }) => statusFilter === 'ALL' || entry.status === statusFilter)
+        .map(({ entry: appt, date: occurrenceDate }) => {
+            const shown = convertWallTime(occurrenceDate, appt.time, businessZone, selectedTimeZone);
+
+            // For recurring appointments shown on a different date,
+            // set the date to the occurrence's date so completing works correctly
+            const displayAppt = appt.recurrence && appt.date !== occurrenceDate
+                ? { ...appt, date: occurrenceDate }
+                : appt;
+
+            return {
+                ...displayAppt,
+                displayDate: shown.date,
+                displayTime: formatTime(shown.time),
+                _sortTime: shown.time,
+                _duration: durationOf(appt, durations)
+            };
+        })
+        .filter(appt => appt.displayDate === targetDateStr);
   };
 
   const getServiceName = (serviceId: string) => {
@@ -268,8 +257,10 @@ const CalendarView: React.FC<CalendarViewProps> = ({ appointments, business, onU
     return business.services.find(s => s.id === editForm.serviceId);
   };
 
-  const handleCellClick = (date: Date, timeStr = '09:00') => {
-      const dateStr = getDateString(date);
+  const handleCellClick = (date: Date, timeStr = '09:00', staffId?: string) => {
+      // The clicked cell is in the shown zone; the appointment is stored in the business's
+      const shownDate = getDateString(date);
+      const { date: dateStr, time } = convertWallTime(shownDate, timeStr, selectedTimeZone, businessZone);
       
       const defaultService = business.services[0];
       
@@ -281,14 +272,15 @@ const CalendarView: React.FC<CalendarViewProps> = ({ appointments, business, onU
           clientNames: [],
           serviceId: defaultService?.id || 'EVENT',
           date: dateStr,
-          time: timeStr,
+          time,
           status: AppointmentStatus.CONFIRMED,
           recurrence: undefined,
           numberOfPeople: defaultService?.pricePerPerson ? 1 : undefined,
-          eventType: 'APPOINTMENT'
+          eventType: 'APPOINTMENT',
+          staffId
       };
       
-      setSelectedAppointment({ ...newAppt, displayTime: formatTime(timeStr) });
+      setSelectedAppointment({ ...newAppt, displayTime: formatTime(timeStr), displayDate: shownDate });
       setEditForm(newAppt);
       setIsEditing(true);
       setIsNew(true);
@@ -444,11 +436,23 @@ const CalendarView: React.FC<CalendarViewProps> = ({ appointments, business, onU
               }
           }
 
+          // An "On date" end that was left empty means the series doesn't end
+          if (updatedAppt.recurrence && !updatedAppt.recurrence.endDate) {
+              updatedAppt.recurrence = { ...updatedAppt.recurrence, endDate: undefined };
+          }
+
           // Ensure all required fields are present
           if (!updatedAppt.id) {
               updatedAppt.id = Math.random().toString(36).substring(2, 9);
           }
 
+          // A staff member can't be booked twice at once; other conflicts are shown as a warning
+          const clash = findConflicts(updatedAppt, appointments, durationsOf(business.services)).find(c => c.reason === 'STAFF');
+          if (clash) {
+              alert(describeStaffClash(updatedAppt.staffId, clash));
+              return;
+          }
+
           if (isNew) {
               onAddAppointment(updatedAppt);
               // Close modal after adding (defer to next frame)
@@ -461,7 +465,8 @@ const CalendarView: React.FC<CalendarViewProps> = ({ appointments, business, onU
               onUpdateAppointment(updatedAppt);
               // Update local state to reflect changes immediately (defer to next frame)
               requestAnimationFrame(() => {
-                  const updatedWithDisplayTime = { ...updatedAppt, displayTime: formatTime(updatedAppt.time) };
+                  const shown = convertWallTime(updatedAppt.date, updatedAppt.time, businessZone, selectedTimeZone);
+                  const updatedWithDisplayTime = { ...updatedAppt, displayTime: formatTime(shown.time), displayDate: shown.date };
                   setSelectedAppointment(updatedWithDisplayTime);
                   setIsEditing(false);
                   setIsNew(false);
@@ -478,11 +483,10 @@ const CalendarView: React.FC<CalendarViewProps> = ({ appointments, business, onU
           if (selectedAppointment.recurrence) {
               const completedInstance: Appointment = {
                   ...selectedAppointment,
+                  // A single instance for the date being viewed, linked to its recurring parent
+                  ...overrideLink(selectedAppointment, selectedAppointment.date),
                   id: Math.random().toString(36).substring(2, 9) + '_completed',
-                  status: AppointmentStatus.COMPLETED,
-                  recurrence: undefined, // Remove recurrence - this is a single instance
-                  // Use the date being viewed, not the original recurring start date
-                  date: selectedAppointment.date
+                  status: AppointmentStatus.COMPLETED
               };
               // Add the completed instance as a new appointment
               onAddAppointment(completedInstance);
@@ -505,6 +509,25 @@ const CalendarView: React.FC<CalendarViewProps> = ({ appointments, business, onU
       }
   };
 
+  // Remove one occurrence of a recurring appointment, leaving the rest of the series
+  const handleSkipOccurrence = () => {
+      if (!selectedAppointment?.recurrence) return;
+      const parent = appointments.find(a => a.id === selectedAppointment.id);
+      if (!parent?.recurrence) return;
+      const occurrenceDate = selectedAppointment.date;
+      requestAnimationFrame(() => {
+          setConfirmModal({
+              show: true,
+              message: `Remove the ${occurrenceDate} occurrence? Other dates in the series are kept.`,
+              onConfirm: () => {
+                  setConfirmModal(null);
+                  onUpdateAppointment({ ...parent, recurrence: withExceptionDate(parent.recurrence!, occurrenceDate) });
+                  setSelectedAppointment(null);
+              }
+          });
+      });
+  };
+
   const handleCancel = () => {
       if (!selectedAppointment) return;
       // Non-blocking: show custom confirm modal instead of blocking confirm()
@@ -518,10 +541,9 @@ const CalendarView: React.FC<CalendarViewProps> = ({ appointments, business, onU
                       if (selectedAppointment.recurrence) {
                           const cancelledInstance: Appointment = {
                               ...selectedAppointment,
+                              ...overrideLink(selectedAppointment, selectedAppointment.date),
                               id: Math.random().toString(36).substring(2, 9) + '_cancelled',
-                              status: AppointmentStatus.CANCELLED,
-                              recurrence: undefined,
-                              date: selectedAppointment.date
+                              status: AppointmentStatus.CANCELLED
                           };
                           onAddAppointment(cancelledInstance);
                           setSelectedAppointment({ 
@@ -556,6 +578,52 @@ const CalendarView: React.FC<CalendarViewProps> = ({ appointments, business, onU
       }
   };
 
+  const updateRecurrence = (patch: Partial<RecurrenceRule>) => {
+      if (!editForm.recurrence) return;
+      setEditForm({ ...editForm, recurrence: { ...editForm.recurrence, ...patch } });
+      setRruleDraft(null);
+  };
+
+  const changeFrequency = (frequency: RecurrenceFrequency) => {
+      const startDay = parseLocalDate(editForm.date || toLocalDateStr()).getDay();
+      updateRecurrence({
+          frequency,
+          // Weekly keeps its days (defaulting to the start date's); the others start from a plain rule
+          daysOfWeek: frequency === 'WEEKLY'
+              ? (editForm.recurrence?.daysOfWeek?.length ? editForm.recurrence.daysOfWeek : [startDay])
+              : undefined,
+          setPos: undefined
+      });
+  };
+
+  // MONTHLY/YEARLY: same day of the month, or the start date's weekday by position ("second Tuesday")
+  const changeMonthlyMode = (mode: 'day' | 'nth' | 'last') => {
+      const start = parseLocalDate(editForm.date || toLocalDateStr());
+      if (mode === 'day') {
+          updateRecurrence({ daysOfWeek: undefined, setPos: undefined });
+      } else {
+          updateRecurrence({
+              daysOfWeek: [start.getDay()],
+              setPos: mode === 'last' ? -1 : Math.ceil(start.getDate() / 7)
+          });
+      }
+  };
+
+  const applyRruleDraft = () => {
+      if (rruleDraft === null || !editForm.recurrence) return;
+      const parsed = parseRRule(rruleDraft, editForm.date, businessZone);
+      if (!parsed) {
+          setRruleError('Unsupported RRULE. Use FREQ, INTERVAL, COUNT, UNTIL, BYDAY, BYSETPOS, BYMONTH and EXDATE.');
+          return;
+      }
+      if (parsed.count && parsed.endDate) {
+          setRruleError('Use either COUNT or UNTIL, not both.');
+          return;
+      }
+      setEditForm({ ...editForm, recurrence: parsed as RecurrenceRule });
+      setRruleDraft(null);
+  };
+
   const toggleDayOfWeek = (day: number) => {
       if (!editForm.recurrence) return;
       const current = editForm.recurrence.daysOfWeek || [];
@@ -573,6 +641,336 @@ const CalendarView: React.FC<CalendarViewProps> = ({ appointments, business, onU
       });
   };
 
+  type GridEntry = ReturnType<typeof getAppointmentsForDate>[number];
+
+  // The hours the week and day grids cover, in minutes of the day in the shown zone:
+  // the business's working hours, widened to whole hours and to fit anything booked outside them
+  const gridRange = useMemo(() => {
+      const day = getDateString(currentDate);
+      const shownMinutes = (time: string) => toMinutes(convertWallTime(day, time, businessZone, selectedTimeZone).time);
+      const { start: open, end: close } = business.workingHours;
+      let start = shownMinutes(open);
+      let end = close === '24:00' ? shownMinutes('23:59') + 1 : shownMinutes(close);
+      // Hours that run past midnight in the shown zone get the whole day
+      if (end <= start) {
+          start = 0;
+          end = 24 * 60;
+      }
+      const gridDates = viewMode === 'WEEK' ? getWeekDates() : viewMode === 'DAY' ? [currentDate] : [];
+      for (const appt of gridDates.flatMap(date => getAppointmentsForDate(date))) {
+          const apptStart = toMinutes(appt._sortTime);
+          start = Math.min(start, apptStart);
+          end = Math.max(end, apptStart + appt._duration);
+      }
+      const firstHour = Math.floor(start / 60);
+      const lastHour = Math.max(firstHour + 1, Math.min(24, Math.ceil(end / 60)));
+      return { start: firstHour * 60, minutes: (lastHour - firstHour) * 60 };
+  }, [viewMode, currentDate, appointments, statusFilter, selectedTimeZone, business]);
+  const gridHeight = (gridRange.minutes / 60) * HOUR_PX;
+  // Position of a minute of the day on the grid, as a % of its height
+  const gridPercent = (minutes: number) => ((minutes - gridRange.start) / gridRange.minutes) * 100;
+
+  const renderTimeAxis = () => (
+      <div className="w-12 sm:w-16 border-r border-zinc-800 flex-shrink-0 bg-zinc-950">
+          <div className="h-10 border-b border-zinc-800"></div> {/* Header spacer */}
+          {Array.from({length: gridRange.minutes / 60}).map((_, i) => {
+              const hour = gridRange.start / 60 + i;
+              return (
+                <div key={hour} className="border-b border-zinc-800 text-[10px] text-zinc-500 font-mono text-right pr-1 sm:pr-2 pt-2" style={{ height: HOUR_PX }}>
+                    {hour % 12 || 12}{hour >= 12 ? 'p' : 'a'}
+                </div>
+              )
+          })}
+      </div>
+  );
+
+  // Where a staff lane is off on `date`, as % ranges of the grid in the shown zone
+  const offHoursOn = (member: Staff, date: Date): { top: number; height: number }[] => {
+      const dateStr = getDateString(date);
+      const hours = staffHoursOn(member, dateStr);
+      if (hours === null) return [{ top: 0, height: 100 }];
+      const { start, end } = hours || business.workingHours;
+      const toPercent = (time: string) =>
+          Math.min(100, Math.max(0, gridPercent(toMinutes(convertWallTime(dateStr, time, businessZone, selectedTimeZone).time))));
+      const open = toPercent(start);
+      const close = end === '24:00' ? 100 : toPercent(end);
+      return [{ top: 0, height: open }, { top: close, height: 100 - close }].filter(range => range.height > 0);
+  };
+
+  // --- Drag to reschedule: move an entry by its body, change its length by its bottom edge ---
+  // Positions are minutes of the day in the shown zone; a lane is '' for unassigned, undefined outside the day view
+  type DragTarget = { date: string; startMin: number; durationMin: number; laneId?: string };
+  const [drag, setDrag] = useState<{
+      entry: GridEntry;
+      mode: 'move' | 'resize';
+      grabOffset: number; // minutes between the entry's start and where it was grabbed
+      origin: { x: number; y: number };
+      originLane?: string;
+      moved: boolean;
+      target: DragTarget;
+  } | null>(null);
+  const dragRef = useRef(drag);
+  dragRef.current = drag;
+  const suppressClick = useRef(false);
+  // A recurring entry that was dropped, waiting for "this occurrence" or "all future"
+  const [seriesChange, setSeriesChange] = useState<{ parent: Appointment; occurrenceDate: string; changes: Partial<Appointment> } | null>(null);
+
+  // The grid column under the pointer and the minute of the day it points at
+  const gridPointAt = (x: number, y: number) => {
+      const column = document.elementsFromPoint(x, y).find(el => (el as HTMLElement).dataset?.gridDate) as HTMLElement | undefined;
+      if (!column) return null;
+      const rect = column.getBoundingClientRect();
+      return {
+          date: column.dataset.gridDate!,
+          laneId: column.dataset.gridLane,
+          minutes: gridRange.start + ((y - rect.top) / rect.height) * gridRange.minutes
+      };
+  };
+
+  // What the drag would change on the stored appointment (business zone)
+  const dropChanges = ({ entry, mode, target, originLane }: NonNullable<typeof drag>): Partial<Appointment> => {
+      const { date, time } = convertWallTime(target.date, fromMinutes(target.startMin), selectedTimeZone, businessZone);
+      // Only keep a duration of its own when it differs from the service's
+      const usual = durationOf({ ...entry, durationMin: undefined }, durationsOf(business.services));
+      return {
+          date,
+          time,
+          durationMin: mode === 'resize' ? (target.durationMin === usual ? undefined : target.durationMin) : entry.durationMin,
+          // Dropped in another staff lane; blocks for everyone show in every lane and stay that way otherwise
+          ...(target.laneId !== originLane ? { staffId: target.laneId || undefined } : {})
+      };
+  };
+
+  // The entry as it would be saved for the dragged occurrence
+  const droppedEntry = (entry: GridEntry, changes: Partial<Appointment>): Appointment | null => {
+      const original = appointments.find(a => a.id === entry.id);
+      if (!original) return null;
+      return { ...original, ...(original.recurrence ? overrideLink(original, entry.date) : {}), ...changes };
+  };
+
+  // What the entry would clash with where it's being dragged to
+  const dragConflicts = useMemo(() => {
+      if (!drag?.moved) return [];
+      const dropped = droppedEntry(drag.entry, dropChanges(drag));
+      return dropped ? findConflicts(dropped, appointments, durationsOf(business.services)) : [];
+  }, [drag, appointments, business.services, selectedTimeZone]);
+  const hasDragClash = dragConflicts.some(c => c.reason === 'STAFF' || c.reason === 'BLOCKED');
+
+  const startDrag = (e: React.PointerEvent, appt: GridEntry, mode: 'move' | 'resize') => {
+      // Touch keeps scrolling the grid; entries are moved from the edit form there
+      if (e.pointerType === 'touch' || e.button !== 0) return;
+      const point = gridPointAt(e.clientX, e.clientY);
+      if (!point) return;
+      e.stopPropagation();
+      const [h, m] = appt._sortTime.split(':').map(Number);
+      const startMin = h * 60 + m;
+      setDrag({
+          entry: appt,
+          mode,
+          grabOffset: point.minutes - startMin,
+          origin: { x: e.clientX, y: e.clientY },
+          originLane: point.laneId,
+          moved: false,
+          target: { date: appt.displayDate, startMin, durationMin: appt._duration, laneId: point.laneId }
+      });
+  };
+
+  const finishDrag = () => {
+      const current = dragRef.current;
+      setDrag(null);
+      if (!current?.moved) return;
+      // The click that ends a drag shouldn't open the entry
+      suppressClick.current = true;
+      setTimeout(() => { suppressClick.current = false; }, 0);
+
+      const { entry } = current;
+      const changes = dropChanges(current);
+      const original = appointments.find(a => a.id === entry.id);
+      if (!original) return;
+      const unchanged = changes.date === entry.date && changes.time === entry.time
+          && changes.durationMin === entry.durationMin && (!('staffId' in changes) || changes.staffId === (entry.staffId || undefined));
+      if (unchanged) return;
+
+      const clash = findConflicts(droppedEntry(entry, changes)!, appointments, durationsOf(business.services)).find(c => c.reason === 'STAFF');
+      if (clash) {
+          alert(describeStaffClash(changes.staffId ?? original.staffId, clash));
+          return;
+      }
+      if (original.recurrence) {
+          setSeriesChange({ parent: original, occurrenceDate: entry.date, changes });
+      } else {
+          onUpdateAppointment({ ...original, ...changes });
+      }
+  };
+
+  // Apply a dropped change to one occurrence (as an override) or to it and every later one
+  const applySeriesChange = (scope: 'one' | 'following') => {
+      if (!seriesChange) return;
+      const { parent, occurrenceDate, changes } = seriesChange;
+      setSeriesChange(null);
+      const newId = Math.random().toString(36).substring(2, 9);
+      if (scope === 'one') {
+          onAddAppointment({ ...parent, ...overrideLink(parent, occurrenceDate), ...changes, id: newId });
+      } else if (occurrenceDate === parent.date) {
+          const moved = { ...moveSeries(parent, changes.date!), ...changes };
+          onUpdateAppointment(moved);
+          // Completed, cancelled or moved occurrences keep replacing the same occurrence
+          relinkOverrides(appointments, parent, parent.date, moved).forEach(onUpdateAppointment);
+      } else {
+          const { before, rest } = splitSeries(parent, occurrenceDate);
+          const following = { ...moveSeries(rest, changes.date!), ...changes, id: newId };
+          onUpdateAppointment(before);
+          onAddAppointment(following);
+          relinkOverrides(appointments, parent, occurrenceDate, following).forEach(onUpdateAppointment);
+      }
+  };
+
+  useEffect(() => {
+      if (!drag) return;
+      const handleMove = (e: PointerEvent) => {
+          setDrag(current => {
+              if (!current) return current;
+              const moved = current.moved || Math.abs(e.clientX - current.origin.x) + Math.abs(e.clientY - current.origin.y) > 4;
+              const point = gridPointAt(e.clientX, e.clientY);
+              if (!moved || !point) return moved === current.moved ? current : { ...current, moved };
+              const snapped = (minutes: number) => Math.round(minutes / SNAP_MIN) * SNAP_MIN;
+              const { target } = current;
+              if (current.mode === 'resize') {
+                  const end = Math.min(gridRange.start + gridRange.minutes, snapped(point.minutes));
+                  return { ...current, moved, target: { ...target, durationMin: Math.max(SNAP_MIN, end - target.startMin) } };
+              }
+              const latest = gridRange.start + gridRange.minutes - SNAP_MIN;
+              const startMin = Math.min(latest, Math.max(gridRange.start, snapped(point.minutes - current.grabOffset)));
+              return { ...current, moved, target: { ...target, date: point.date, startMin, laneId: point.laneId } };
+          });
+      };
+      const handleKey = (e: KeyboardEvent) => {
+          if (e.key === 'Escape') setDrag(null);
+      };
+      window.addEventListener('pointermove', handleMove);
+      window.addEventListener('pointerup', finishDrag);
+      window.addEventListener('keydown', handleKey);
+      return () => {
+          window.removeEventListener('pointermove', handleMove);
+          window.removeEventListener('pointerup', finishDrag);
+          window.removeEventListener('keydown', handleKey);
+      };
+  }, [!!drag]);
+
+  // Staff lanes in the day view: a member, or null for the unassigned lane; undefined in the week view
+  const gridLaneId = (lane?: Staff | null) => (lane === undefined ? undefined : lane?.id || '');
+
+  const gridSlotMin = viewMode === 'DAY' ? 15 : 30;
+
+  // The time grid for one day column (a day in the week view, or a staff lane in the day view)
+  const renderTimeGrid = (date: Date, dayAppointments: GridEntry[], lane?: Staff | null) => (
+      <div
+          className={`relative ${drag ? 'select-none' : ''}`}
+          style={{ height: gridHeight }}
+          data-grid-date={getDateString(date)}
+          data-grid-lane={gridLaneId(lane)}
+      >
+          {lane && offHoursOn(lane, date).map(range => (
+              <div
+                  key={range.top}
+                  className="absolute inset-x-0 bg-black/50 pointer-events-none bg-[repeating-linear-gradient(45deg,transparent,transparent_6px,rgba(63,63,70,0.3)_6px,rgba(63,63,70,0.3)_12px)]"
+                  style={{ top: `${range.top}%`, height: `${range.height}%` }}
+              />
+          ))}
+          {/* Half-hour slots in the week view, quarter hours in the day view */}
+          {Array.from({length: gridRange.minutes / gridSlotMin}).map((_, idx) => (
+              <div 
+                   key={idx} 
+                   onClick={() => handleCellClick(date, fromMinutes(gridRange.start + idx * gridSlotMin), lane?.id)}
+                   className={`border-b hover:bg-zinc-800 transition-colors cursor-pointer ${
+                       (idx + 1) % (60 / gridSlotMin) === 0 ? 'border-zinc-800/50' : 'border-dashed border-zinc-800/20'
+                   }`}
+                   style={{ height: (HOUR_PX * gridSlotMin) / 60 }}
+              ></div>
+          ))}
+
+          {/* Appointments */}
+          {dayAppointments.map(appt => {
+              const startMin = toMinutes(appt._sortTime);
+              if (startMin < gridRange.start || startMin >= gridRange.start + gridRange.minutes) return null; // Out of visible range
+
+              const top = gridPercent(startMin); // % of height
+              const height = (appt._duration / gridRange.minutes) * 100; // % of height
+
+              const isBlocked = appt.status === AppointmentStatus.BLOCKED;
+              const isDragged = drag?.moved && drag.entry.id === appt.id && drag.entry.date === appt.date;
+              const isInTheWay = dragConflicts.some(c => c.entry.id === appt.id && c.date === appt.date);
+
+              return (
+                  <div 
+                       key={appt.id}
+                       onPointerDown={(e) => startDrag(e, appt, 'move')}
+                       onClick={(e) => { 
+                           e.stopPropagation(); 
+                           if (suppressClick.current) return;
+                           // Get the latest appointment data from the appointments prop
+                           const latestAppt = appointments.find(a => a.id === appt.id) || appt;
+                           // IMPORTANT: Use appt.date (the target display date) instead of latestAppt.date
+                           // For recurring appointments, latestAppt has the original base date,
+                           // but appt.date has been corrected to the currently viewed date by getAppointmentsForDate
+                           setSelectedAppointment({ ...latestAppt, date: appt.date, displayTime: appt.displayTime, displayDate: appt.displayDate });
+                           setIsEditing(false); 
+                           setIsNew(false); 
+                       }}
+                       className={`group absolute z-[5] inset-x-0.5 sm:inset-x-1 rounded-sm p-0.5 sm:p-2 text-[8px] sm:text-[10px] font-bold uppercase border-l-2 overflow-hidden cursor-pointer hover:z-10 hover:shadow-lg transition-all ${
+                           isDragged ? 'opacity-30' : ''} ${isInTheWay ? 'ring-2 ring-red-500 z-10' : ''} ${
+                           isBlocked ? 'bg-zinc-900 border-zinc-600 text-zinc-400 border-dashed opacity-80' :
+                           appt.eventType === 'MEETING' ? 'bg-purple-900/80 border-purple-500 text-purple-100' :
+                           appt.eventType === 'INTERVIEW' ? 'bg-cyan-900/80 border-cyan-500 text-cyan-100' :
+                           appt.eventType === 'TASK' ? 'bg-amber-900/80 border-amber-500 text-amber-100' :
+                           appt.status === AppointmentStatus.CANCELLED ? 'bg-red-900/80 border-red-500 text-red-100 line-through opacity-70' :
+                           appt.status === AppointmentStatus.CONFIRMED ? 'bg-emerald-900/80 border-emerald-500 text-white' :
+                           appt.status === AppointmentStatus.PENDING ? 'bg-yellow-900/80 border-yellow-500 text-yellow-100' :
+                           'bg-blue-900/80 border-blue-500 text-blue-100'
+                       }`}
+                       style={{ top: `${top}%`, height: `${height}%` }}
+                  >
+                      <div className="flex justify-between">
+                           <span>{appt.displayTime}</span>
+                           {isBlocked && <Ban className="w-3 h-3" />}
+                           {appt.eventType === 'MEETING' && <Video className="w-3 h-3 text-purple-300" />}
+                           {appt.eventType === 'INTERVIEW' && <Briefcase className="w-3 h-3 text-cyan-300" />}
+                           {appt.eventType === 'TASK' && <ClipboardList className="w-3 h-3 text-amber-300" />}
+                      </div>
+                      <div className="truncate">
+                        {appt.eventType === 'TASK' ? (appt.clientName || appt.notes || 'Task') :
+                        appt.clientNames && appt.clientNames.length > 1 
+                          ? `${appt.clientNames.length} clients` 
+                          : (appt.clientName || 'No client name')}
+                      </div>
+                      <div
+                           onPointerDown={(e) => startDrag(e, appt, 'resize')}
+                           className="absolute inset-x-0 bottom-0 h-1.5 cursor-ns-resize opacity-0 group-hover:opacity-100 bg-white/30"
+                           title="Drag to change length"
+                      />
+                  </div>
+              );
+          })}
+
+          {/* Where a dragged entry would land */}
+          {drag?.moved && drag.target.date === getDateString(date) && drag.target.laneId === gridLaneId(lane) && (
+              <div
+                   className={`absolute z-20 inset-x-0.5 sm:inset-x-1 rounded-sm border-2 border-dashed pointer-events-none p-0.5 sm:p-2 text-[8px] sm:text-[10px] font-bold uppercase font-mono ${
+                       hasDragClash ? 'border-red-500 bg-red-500/20 text-red-200' :
+                       dragConflicts.length > 0 ? 'border-amber-500 bg-amber-500/20 text-amber-100' :
+                       'border-orange-500 bg-orange-500/20 text-orange-100'
+                   }`}
+                   style={{
+                       top: `${gridPercent(drag.target.startMin)}%`,
+                       height: `${(drag.target.durationMin / gridRange.minutes) * 100}%`
+                   }}
+              >
+                  {formatTime(fromMinutes(drag.target.startMin))} – {formatTime(fromMinutes(drag.target.startMin + drag.target.durationMin))}
+              </div>
+          )}
+      </div>
+  );
+
   return (
     <div className="p-3 sm:p-6 lg:p-8 max-w-7xl mx-auto h-full flex flex-col relative">
       {/* Header */}
@@ -592,7 +990,7 @@ const CalendarView: React.FC<CalendarViewProps> = ({ appointments, business, onU
               </button>
               <div className="px-2 sm:px-6 py-2 sm:py-3 border-x border-zinc-800 min-w-[80px] sm:min-w-[140px] text-center">
                   <span className="text-[10px] sm:text-sm font-bold text-white uppercase tracking-widest">
-                      {viewMode === 'MONTH' ? `${monthName.slice(0,3)} ${year}` : `${currentDate.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}`}
+                      {viewMode === 'MONTH' ? `${monthName.slice(0,3)} ${year}` : viewMode === 'AGENDA' ? `${currentDate.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })} – ${getAgendaDates()[agendaDays - 1].toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}` : `${currentDate.toLocaleDateString(undefined, { ...(viewMode === 'DAY' ? { weekday: 'short' } : {}), month: 'short', day: 'numeric' })}`}
                   </span>
               </div>
               <button onClick={handleNext} className="p-2 sm:p-3 hover:bg-zinc-800 text-white transition-colors">
@@ -617,8 +1015,34 @@ const CalendarView: React.FC<CalendarViewProps> = ({ appointments, business, onU
                  >
                      <List className="w-3 h-3 sm:w-4 sm:h-4" /> Week
                  </button>
+                 <button 
+                    onClick={() => setViewMode('DAY')}
+                    className={`px-2 sm:px-3 py-1.5 sm:py-2 text-[10px] sm:text-xs font-bold uppercase tracking-widest flex items-center gap-1 sm:gap-2 transition-colors ${viewMode === 'DAY' ? 'bg-zinc-700 text-white' : 'text-zinc-500 hover:text-white'}`}
+                 >
+                     <Columns3 className="w-3 h-3 sm:w-4 sm:h-4" /> Day
+                 </button>
+                 <button 
+                    onClick={() => setViewMode('AGENDA')}
+                    className={`px-2 sm:px-3 py-1.5 sm:py-2 text-[10px] sm:text-xs font-bold uppercase tracking-widest flex items-center gap-1 sm:gap-2 transition-colors ${viewMode === 'AGENDA' ? 'bg-zinc-700 text-white' : 'text-zinc-500 hover:text-white'}`}
+                 >
+                     <Rows3 className="w-3 h-3 sm:w-4 sm:h-4" /> Agenda
+                 </button>
              </div>
 
+             {viewMode === 'AGENDA' && (
+                <div className="flex items-center bg-zinc-900 border border-zinc-800 px-2 sm:px-4 py-2 sm:py-3">
+                    <select
+                        value={agendaDays}
+                        onChange={(e) => setAgendaDays(Number(e.target.value))}
+                        className="bg-transparent text-white text-[10px] sm:text-xs font-bold uppercase tracking-widest outline-none appearance-none cursor-pointer"
+                    >
+                        {AGENDA_RANGES.map(days => (
+                            <option key={days} value={days} className="text-black">{days} Days</option>
+                        ))}
+                    </select>
+                </div>
+             )}
+
              {/* Filter */}
              <div className="relative group">
                 <div className="flex items-center gap-1 sm:gap-2 bg-zinc-900 border border-zinc-800 px-2 sm:px-4 py-2 sm:py-3 cursor-pointer hover:border-zinc-600 transition-colors">
@@ -637,6 +1061,15 @@ const CalendarView: React.FC<CalendarViewProps> = ({ appointments, business, onU
                 </div>
             </div>
 
+             <button
+                onClick={() => setIsImporting(true)}
+                className="flex items-center gap-1 sm:gap-2 bg-zinc-900 border border-zinc-800 px-2 sm:px-4 py-2 sm:py-3 text-white text-[10px] sm:text-xs font-bold uppercase tracking-widest hover:border-zinc-600 transition-colors"
+             >
+                <Upload className="w-3 h-3 sm:w-4 sm:h-4 text-zinc-500" /> Import
+             </button>
+
+             <CalendarExportMenu appointments={appointments} business={business} />
+
              {/* Timezone Selector - hidden on very small screens */}
              <div className="relative group hidden sm:block">
                 <div className="flex items-center gap-2 bg-zinc-900 border border-zinc-800 px-3 sm:px-4 py-2 sm:py-3 cursor-pointer hover:border-zinc-600 transition-colors">
@@ -646,7 +1079,7 @@ const CalendarView: React.FC<CalendarViewProps> = ({ appointments, business, onU
                         onChange={(e) => setSelectedTimeZone(e.target.value)}
                         className="bg-transparent text-white text-xs font-bold uppercase tracking-widest outline-none appearance-none cursor-pointer pr-4 max-w-[160px]"
                     >
-                        {TIME_ZONES.map(tz => (
+                        {timeZoneOptions.map(tz => (
                             <option key={tz.value} value={tz.value} className="text-black">{tz.label}</option>
                         ))}
                     </select>
@@ -706,7 +1139,7 @@ const CalendarView: React.FC<CalendarViewProps> = ({ appointments, business, onU
                                                 e.stopPropagation(); 
                                                 const latestAppt = appointments.find(a => a.id === appt.id) || appt;
                                                 // Use appt.date (the target display date) for recurring appointments
-                                                setSelectedAppointment({ ...latestAppt, date: appt.date, displayTime: appt.displayTime });
+                                                setSelectedAppointment({ ...latestAppt, date: appt.date, displayTime: appt.displayTime, displayDate: appt.displayDate });
                                                 setIsEditing(false); 
                                                 setIsNew(false); 
                                             }}
@@ -760,18 +1193,7 @@ const CalendarView: React.FC<CalendarViewProps> = ({ appointments, business, onU
       {viewMode === 'WEEK' && (
           <div className="flex-1 bg-zinc-900 border border-zinc-800 flex flex-col overflow-auto">
               <div className="flex flex-1 min-w-[500px]">
-                  {/* Time Axis */}
-                  <div className="w-12 sm:w-16 border-r border-zinc-800 flex-shrink-0 bg-zinc-950">
-                      <div className="h-10 border-b border-zinc-800"></div> {/* Header spacer */}
-                      {Array.from({length: 16}).map((_, i) => { // 6 AM to 10 PM
-                          const hour = i + 6;
-                          return (
-                            <div key={hour} className="h-24 border-b border-zinc-800 text-[10px] text-zinc-500 font-mono text-right pr-1 sm:pr-2 pt-2">
-                                {hour > 12 ? hour - 12 : hour}{hour >= 12 ? 'p' : 'a'}
-                            </div>
-                          )
-                      })}
-                  </div>
+                  {renderTimeAxis()}
                   
                   {/* Columns */}
                   {getWeekDates().map((date, i) => {
@@ -787,76 +1209,7 @@ const CalendarView: React.FC<CalendarViewProps> = ({ appointments, business, onU
                                </div>
 
                                {/* Time Slots Background */}
-                               <div className="relative h-[1536px]"> {/* 16 hours * 96px height */}
-                                   {Array.from({length: 16}).map((_, idx) => (
-                                       <div 
-                                            key={idx} 
-                                            onClick={(e) => {
-                                                // Calculate time clicked (rough)
-                                                const rect = e.currentTarget.getBoundingClientRect();
-                                                const y = e.clientY - rect.top; // pixel within cell
-                                                const minAdded = y > 48 ? 30 : 0;
-                                                handleCellClick(date, `${String(idx+6).padStart(2,'0')}:${minAdded === 0 ? '00' : '30'}`);
-                                            }}
-                                            className="h-24 border-b border-zinc-800/50 hover:bg-zinc-800 transition-colors cursor-pointer"
-                                       ></div>
-                                   ))}
-
-                                   {/* Appointments */}
-                                   {dayAppointments.map(appt => {
-                                       const [h, m] = appt._sortTime.split(':').map(Number);
-                                       if (h < 6 || h > 22) return null; // Out of visible range
-                                       
-                                       // Calculate positions (6AM = 0, 10PM = end)
-                                       const startMin = (h - 6) * 60 + m;
-                                       const top = (startMin / (16 * 60)) * 100; // % of height
-                                       const height = (appt._duration / (16 * 60)) * 100; // % of height
-                                       
-                                       const isBlocked = appt.status === AppointmentStatus.BLOCKED;
-
-                                       return (
-                                           <div 
-                                                key={appt.id}
-                                                onClick={(e) => { 
-                                                    e.stopPropagation(); 
-                                                    // Get the latest appointment data from the appointments prop
-                                                    const latestAppt = appointments.find(a => a.id === appt.id) || appt;
-                                                    // IMPORTANT: Use appt.date (the target display date) instead of latestAppt.date
-                                                    // For recurring appointments, latestAppt has the original base date,
-                                                    // but appt.date has been corrected to the currently viewed date by getAppointmentsForDate
-                                                    setSelectedAppointment({ ...latestAppt, date: appt.date, displayTime: appt.displayTime });
-                                                    setIsEditing(false); 
-                                                    setIsNew(false); 
-                                                }}
-                                                className={`absolute z-[5] inset-x-0.5 sm:inset-x-1 rounded-sm p-0.5 sm:p-2 text-[8px] sm:text-[10px] font-bold uppercase border-l-2 overflow-hidden cursor-pointer hover:z-10 hover:shadow-lg transition-all ${
-                                                    isBlocked ? 'bg-zinc-900 border-zinc-600 text-zinc-400 border-dashed opacity-80' :
-                                                    appt.eventType === 'MEETING' ? 'bg-purple-900/80 border-purple-500 text-purple-100' :
-                                                    appt.eventType === 'INTERVIEW' ? 'bg-cyan-900/80 border-cyan-500 text-cyan-100' :
-                                                    appt.eventType === 'TASK' ? 'bg-amber-900/80 border-amber-500 text-amber-100' :
-                                                    appt.status === AppointmentStatus.CANCELLED ? 'bg-red-900/80 border-red-500 text-red-100 line-through opacity-70' :
-                                                    appt.status === AppointmentStatus.CONFIRMED ? 'bg-emerald-900/80 border-emerald-500 text-white' :
-                                                    appt.status === AppointmentStatus.PENDING ? 'bg-yellow-900/80 border-yellow-500 text-yellow-100' :
-                                                    'bg-blue-900/80 border-blue-500 text-blue-100'
-                                                }`}
-                                                style={{ top: `${top}%`, height: `${height}%` }}
-                                           >
-                                               <div className="flex justify-between">
-                                                    <span>{appt.displayTime}</span>
-                                                    {isBlocked && <Ban className="w-3 h-3" />}
-                                                    {appt.eventType === 'MEETING' && <Video className="w-3 h-3 text-purple-300" />}
-                                                    {appt.eventType === 'INTERVIEW' && <Briefcase className="w-3 h-3 text-cyan-300" />}
-                                                    {appt.eventType === 'TASK' && <ClipboardList className="w-3 h-3 text-amber-300" />}
-                                               </div>
-                                               <div className="truncate">
-                                                 {appt.eventType === 'TASK' ? (appt.clientName || appt.notes || 'Task') :
-                                                 appt.clientNames && appt.clientNames.length > 1 
-                                                   ? `${appt.clientNames.length} clients` 
-                                                   : (appt.clientName || 'No client name')}
-                                               </div>
-                                           </div>
-                                       );
-                                   })}
-                               </div>
+                               {renderTimeGrid(date, dayAppointments)}
                            </div>
                        );
                   })}
@@ -864,6 +1217,122 @@ const CalendarView: React.FC<CalendarViewProps> = ({ appointments, business, onU
           </div>
       )}
 
+      {/* --- DAY VIEW: one lane per staff member --- */}
+      {viewMode === 'DAY' && (() => {
+          const staff = business.staff || [];
+          const dayAppointments = getAppointmentsForDate(currentDate);
+          const isToday = new Date().toDateString() === currentDate.toDateString();
+          const dateStr = getDateString(currentDate);
+          // Blocks without a staff member close every lane; entries for removed staff show as unassigned
+          const laneEntries = (member: Staff) => dayAppointments.filter(a =>
+              a.staffId === member.id || (!a.staffId && a.status === AppointmentStatus.BLOCKED));
+          const unassigned = dayAppointments.filter(a => !a.staffId || !staff.some(m => m.id === a.staffId));
+
+          return (
+              <div className="flex-1 bg-zinc-900 border border-zinc-800 flex flex-col overflow-auto">
+                  <div className="flex flex-1" style={{ minWidth: `${64 + (staff.length + 1) * 120}px` }}>
+                      {renderTimeAxis()}
+
+                      {staff.map(member => {
+                          const hours = staffHoursOn(member, dateStr);
+                          return (
+                              <div key={member.id} className="flex-1 border-r border-zinc-800 min-w-[120px] relative bg-zinc-900/50">
+                                  <div className={`h-10 border-b border-zinc-800 flex flex-col items-center justify-center px-1 ${isToday ? 'bg-orange-600/10' : ''}`}>
+                                      <span className="text-[10px] sm:text-xs font-bold uppercase text-white truncate max-w-full">{member.name}</span>
+                                      <span className="text-[9px] font-mono text-zinc-500">
+                                          {hours === null ? 'Off' : hours ? `${hours.start}–${hours.end}` : member.role || 'Business hours'}
+                                      </span>
+                                  </div>
+                                  {renderTimeGrid(currentDate, laneEntries(member), member)}
+                              </div>
+                          );
+                      })}
+
+                      <div className="flex-1 border-r border-zinc-800 min-w-[120px] relative bg-zinc-900/50">
+                          <div className={`h-10 border-b border-zinc-800 flex items-center justify-center ${isToday ? 'bg-orange-600/10' : ''}`}>
+                              <span className="text-[10px] sm:text-xs font-bold uppercase text-zinc-500">{staff.length > 0 ? 'Unassigned' : 'All'}</span>
+                          </div>
+                          {renderTimeGrid(currentDate, unassigned, null)}
+                      </div>
+                  </div>
+              </div>
+          );
+      })()}
+
+      {/* --- AGENDA VIEW: every entry in the range, day by day --- */}
+      {viewMode === 'AGENDA' && (() => {
+          const agendaDates = getAgendaDates()
+              .map(date => ({ date, entries: getAppointmentsForDate(date).sort((a, b) => a._sortTime.localeCompare(b._sortTime)) }))
+              .filter(day => day.entries.length > 0);
+
+          return (
+              <div className="flex-1 bg-zinc-900 border border-zinc-800 overflow-auto">
+                  {agendaDates.length === 0 && (
+                      <p className="p-8 text-center text-xs text-zinc-500 uppercase tracking-widest">Nothing scheduled in the next {agendaDays} days</p>
+                  )}
+                  {agendaDates.map(({ date, entries }) => {
+                      const isToday = new Date().toDateString() === date.toDateString();
+                      return (
+                          <div key={getDateString(date)}>
+                              <div className={`sticky top-0 z-[5] px-3 sm:px-4 py-2 bg-zinc-950 border-b border-zinc-800 text-[10px] sm:text-xs font-bold uppercase tracking-widest ${isToday ? 'text-orange-500' : 'text-zinc-400'}`}>
+                                  {date.toLocaleDateString(undefined, { weekday: 'long', month: 'short', day: 'numeric' })}
+                                  {isToday && ' · Today'}
+                              </div>
+                              {entries.map(appt => {
+                                  const isBlocked = appt.status === AppointmentStatus.BLOCKED;
+                                  const staff = appt.staffId && staffName(appt.staffId);
+                                  return (
+                                      <div
+                                          key={`${appt.id}-${appt.date}`}
+                                          onClick={() => {
+                                              const latestAppt = appointments.find(a => a.id === appt.id) || appt;
+                                              // Use appt.date (the target display date) for recurring appointments
+                                              setSelectedAppointment({ ...latestAppt, date: appt.date, displayTime: appt.displayTime, displayDate: appt.displayDate });
+                                              setIsEditing(false);
+                                              setIsNew(false);
+                                          }}
+                                          className={`flex items-center gap-3 sm:gap-4 px-3 sm:px-4 py-3 border-b border-zinc-800/50 border-l-2 cursor-pointer hover:bg-zinc-800 transition-colors ${
+                                              isBlocked ? 'border-l-zinc-600 border-dashed text-zinc-400' :
+                                              appt.eventType === 'MEETING' ? 'border-l-purple-500' :
+                                              appt.eventType === 'INTERVIEW' ? 'border-l-cyan-500' :
+                                              appt.eventType === 'TASK' ? 'border-l-amber-500' :
+                                              appt.status === AppointmentStatus.CONFIRMED ? 'border-l-emerald-500' :
+                                              appt.status === AppointmentStatus.PENDING ? 'border-l-yellow-500' :
+                                              appt.status === AppointmentStatus.COMPLETED ? 'border-l-blue-500' :
+                                              appt.status === AppointmentStatus.CANCELLED ? 'border-l-red-500 opacity-70' :
+                                              'border-l-zinc-500'
+                                          }`}
+                                      >
+                                          <div className="w-16 sm:w-24 shrink-0 font-mono">
+                                              <p className="text-xs sm:text-sm font-bold text-white">{appt.displayTime}</p>
+                                              <p className="text-[10px] text-zinc-500">{appt._duration} min</p>
+                                          </div>
+                                          <div className="flex-1 min-w-0">
+                                              <p className={`text-xs sm:text-sm font-bold uppercase truncate ${appt.status === AppointmentStatus.CANCELLED ? 'line-through text-zinc-500' : 'text-white'}`}>
+                                                  {appt.recurrence && <Repeat className="inline w-3 h-3 mr-1 text-orange-500" />}
+                                                  {isBlocked ? appt.clientName || 'Blocked Time' :
+                                                   appt.eventType === 'TASK' ? appt.clientName || appt.notes || 'Task' :
+                                                   appt.clientNames && appt.clientNames.length > 1 ? `${appt.clientNames.length} clients` :
+                                                   appt.clientName || 'No client name'}
+                                              </p>
+                                              <p className="text-[10px] text-zinc-500 uppercase tracking-widest truncate">
+                                                  {isBlocked ? 'Blocked' : appt.eventType && appt.eventType !== 'APPOINTMENT' ? appt.eventType : getServiceName(appt.serviceId)}
+                                                  {staff ? ` · ${staff}` : ''}
+                                              </p>
+                                          </div>
+                                          {!isBlocked && (
+                                              <span className="hidden sm:inline text-[10px] font-bold uppercase tracking-widest text-zinc-500">{appt.status}</span>
+                                          )}
+                                      </div>
+                                  );
+                              })}
+                          </div>
+                      );
+                  })}
+              </div>
+          );
+      })()}
+
        {/* Appointment Details/Edit Modal */}
        {selectedAppointment && (
           <div className="fixed inset-0 z-50 flex items-center justify-center p-2 sm:p-4 bg-black/80 backdrop-blur-sm animate-in fade-in duration-200 overflow-y-auto">
@@ -973,16 +1442,32 @@ const CalendarView: React.FC<CalendarViewProps> = ({ appointments, business, onU
                                             <CalendarIcon className="w-3 h-3" /> Date
                                         </p>
                                         <p className="text-white font-mono text-sm sm:text-base break-words">
-                                            {selectedAppointment.date}
+                                            {selectedAppointment.displayDate || selectedAppointment.date}
                                         </p>
                                     </div>
                                     <div className="p-3 sm:p-4 bg-zinc-900 border border-zinc-800">
                                         <p className="text-xs font-bold text-zinc-500 uppercase tracking-widest mb-1 flex items-center gap-2">
-                                            <Clock className="w-3 h-3" /> Time ({selectedTimeZone.split('/')[selectedTimeZone.split('/').length - 1] || 'Local'})
+                                            <Clock className="w-3 h-3" /> Time ({zoneAbbreviation(selectedTimeZone)})
                                         </p>
                                         <p className="text-white font-mono text-lg sm:text-xl">{selectedAppointment.displayTime}</p>
+                                        {isOtherZone && (
+                                            <p className="text-[10px] text-zinc-500 font-mono mt-1">
+                                                {selectedAppointment.date} {formatTime(selectedAppointment.time)} business time ({zoneAbbreviation(businessZone)})
+                                            </p>
+                                        )}
                                     </div>
                               </div>
+
+                              {selectedAppointment.staffId && (
+                                <div className="p-3 sm:p-4 bg-zinc-900 border border-zinc-800">
+                                    <p className="text-xs font-bold text-zinc-500 uppercase tracking-widest mb-1 flex items-center gap-2">
+                                        <User className="w-3 h-3" /> Staff
+                                    </p>
+                                    <p className="text-white text-sm sm:text-base">
+                                        {business.staff?.find(m => m.id === selectedAppointment.staffId)?.name || 'Former staff member'}
+                                    </p>
+                                </div>
+                              )}
                               
                               {selectedAppointment.status !== AppointmentStatus.BLOCKED && (!selectedAppointment.eventType || selectedAppointment.eventType === 'APPOINTMENT') && (
                                 <div className="p-4 bg-zinc-900 border border-zinc-800">
@@ -1034,16 +1519,17 @@ const CalendarView: React.FC<CalendarViewProps> = ({ appointments, business, onU
                                 </div>
                               )}
 
+                              {selectedAppointment.status !== AppointmentStatus.BLOCKED && (!selectedAppointment.eventType || selectedAppointment.eventType === 'APPOINTMENT') && (
+                                <ReminderStatus appointmentId={selectedAppointment.id} date={selectedAppointment.date} />
+                              )}
+
                               {selectedAppointment.recurrence && (
                                   <div className="p-4 bg-zinc-900 border border-zinc-800 border-l-4 border-l-orange-600">
                                       <p className="text-xs font-bold text-zinc-500 uppercase tracking-widest mb-2 flex items-center gap-2">
                                           <Repeat className="w-3 h-3" /> Recurrence Pattern
                                       </p>
-                                      <p className="text-white text-sm">
-                                          Repeats every <span className="font-bold text-orange-500">{selectedAppointment.recurrence.interval}</span> {selectedAppointment.recurrence.frequency.toLowerCase()}(s)
-                                          {selectedAppointment.recurrence.endDate && ` until ${selectedAppointment.recurrence.endDate}`}.
-                                      </p>
-                                      {selectedAppointment.recurrence.daysOfWeek && selectedAppointment.recurrence.daysOfWeek.length > 0 && (
+                                      <p className="text-white text-sm">{describeRule(selectedAppointment.recurrence)}.</p>
+                                      {selectedAppointment.recurrence.daysOfWeek && selectedAppointment.recurrence.daysOfWeek.length > 0 && !selectedAppointment.recurrence.setPos && (
                                         <div className="flex gap-1 mt-3">
                                           {['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].map((dayLabel, dayIndex) => {
                                             const isActive = selectedAppointment.recurrence!.daysOfWeek!.includes(dayIndex);
@@ -1096,6 +1582,14 @@ const CalendarView: React.FC<CalendarViewProps> = ({ appointments, business, onU
                                           </button>
                                       </>
                                   )}
+                                  {selectedAppointment.recurrence && (
+                                      <button 
+                                        onClick={handleSkipOccurrence}
+                                        className="flex-1 py-4 border border-zinc-700 text-zinc-300 font-bold uppercase tracking-widest hover:bg-zinc-800 transition-colors flex items-center justify-center gap-2"
+                                      >
+                                          <Ban className="w-4 h-4" /> Skip Date
+                                      </button>
+                                  )}
                                   <button 
                                     onClick={handleEditClick}
                                     className="flex-1 py-4 bg-orange-600 text-black font-bold uppercase tracking-widest hover:bg-white transition-colors flex items-center justify-center gap-2"
@@ -1224,6 +1718,27 @@ const CalendarView: React.FC<CalendarViewProps> = ({ appointments, business, onU
                                 </>
                               )}
 
+                              {(business.staff || []).length > 0 && (
+                                  <div>
+                                      <label className="block text-xs font-bold text-zinc-500 mb-2 uppercase tracking-widest">Staff</label>
+                                      <select
+                                          value={editForm.staffId || ''}
+                                          onChange={e => setEditForm({...editForm, staffId: e.target.value || undefined})}
+                                          className="w-full p-3 sm:p-4 bg-zinc-900 border border-zinc-700 text-white focus:border-orange-600 outline-none appearance-none text-sm sm:text-base"
+                                      >
+                                          <option value="">{entryType === 'BLOCK' ? 'Everyone (business closed)' : 'Unassigned'}</option>
+                                          {(business.staff || []).map(member => {
+                                              const off = editForm.date && staffHoursOn(member, editForm.date) === null;
+                                              const otherService = entryType === 'APPOINTMENT' && !performs(member, editForm.serviceId);
+                                              return (
+                                                  <option key={member.id} value={member.id}>
+                                                      {member.name}{off ? ' (off)' : otherService ? " (doesn't offer this service)" : ''}
+                                                  </option>
+                                              );
+                                          })}
+                                      </select>
+                                  </div>
+                              )}
                               <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4">
                                   <div>
                                       <label className="block text-xs font-bold text-zinc-500 mb-2 uppercase tracking-widest">Date</label>
@@ -1244,7 +1759,33 @@ const CalendarView: React.FC<CalendarViewProps> = ({ appointments, business, onU
                                       />
                                   </div>
                               </div>
-                              <p className="text-[10px] sm:text-xs text-zinc-500 -mt-1 sm:-mt-2">Time is stored as entered and displayed in your selected timezone ({selectedTimeZone.split('/')[selectedTimeZone.split('/').length - 1] || selectedTimeZone}).</p>
+                              {entryType === 'APPOINTMENT' && editForm.date && editForm.serviceId && (
+                                  <div>
+                                      <label className="block text-[10px] font-bold text-zinc-500 mb-2 uppercase tracking-widest">Open Slots</label>
+                                      {openSlots.length === 0 ? (
+                                          <p className="text-xs text-zinc-500">No open slots on this date.</p>
+                                      ) : (
+                                          <div className="flex flex-wrap gap-2">
+                                              {openSlots.map(slot => (
+                                                  <button
+                                                    key={slot.time}
+                                                    type="button"
+                                                    onClick={() => setEditForm({...editForm, time: slot.time})}
+                                                    className={`px-2 py-1 text-xs font-mono border transition-colors ${
+                                                        editForm.time === slot.time
+                                                        ? 'bg-orange-600 text-black border-orange-600'
+                                                        : 'bg-zinc-900 text-zinc-400 border-zinc-700 hover:border-zinc-500'
+                                                    }`}
+                                                  >
+                                                      {formatTime(slot.time)}
+                                                  </button>
+                                              ))}
+                                          </div>
+                                      )}
+                                  </div>
+                              )}
+                              <p className="text-[10px] sm:text-xs text-zinc-500 -mt-1 sm:-mt-2">Date and time are in the business's time zone ({businessZone.replace(/_/g, ' ')}){isOtherZone ? ` and shown on the calendar in ${zoneAbbreviation(selectedTimeZone)}` : ''}.</p>
+                              <ConflictWarning conflicts={conflicts} staffName={staffName} />
 
                               {/* Recurrence Editor */}
                               <div className="border border-zinc-800 bg-zinc-900/50 p-3 sm:p-4">
@@ -1265,45 +1806,55 @@ const CalendarView: React.FC<CalendarViewProps> = ({ appointments, business, onU
                                                   <label className="block text-[10px] font-bold text-zinc-500 mb-2 uppercase tracking-widest">Frequency</label>
                                                   <select 
                                                     value={editForm.recurrence.frequency}
-                                                    onChange={e => {
-                                                        const freq = e.target.value as 'WEEKLY' | 'MONTHLY';
-                                                        setEditForm({
-                                                            ...editForm, 
-                                                            recurrence: { 
-                                                                ...editForm.recurrence!, 
-                                                                frequency: freq,
-                                                                // Only keep daysOfWeek for WEEKLY
-                                                                daysOfWeek: freq === 'WEEKLY' ? (editForm.recurrence!.daysOfWeek || []) : undefined
-                                                            }
-                                                        });
-                                                    }}
+                                                    onChange={e => changeFrequency(e.target.value as RecurrenceFrequency)}
                                                     className="w-full p-2 bg-black border border-zinc-700 text-white text-sm outline-none focus:border-orange-600"
                                                   >
+                                                      <option value="DAILY">Daily</option>
                                                       <option value="WEEKLY">Weekly</option>
                                                       <option value="MONTHLY">Monthly</option>
+                                                      <option value="YEARLY">Yearly</option>
                                                   </select>
                                               </div>
                                               <div>
-                                                  <label className="block text-[10px] font-bold text-zinc-500 mb-2 uppercase tracking-widest">Every X {editForm.recurrence.frequency === 'WEEKLY' ? 'Week(s)' : 'Month(s)'}</label>
+                                                  <label className="block text-[10px] font-bold text-zinc-500 mb-2 uppercase tracking-widest">Every X {FREQUENCY_UNITS[editForm.recurrence.frequency]}(s)</label>
                                                   <input 
                                                     type="number" 
                                                     min="1"
                                                     value={editForm.recurrence.interval}
-                                                    onChange={e => setEditForm({
-                                                        ...editForm, 
-                                                        recurrence: { ...editForm.recurrence!, interval: parseInt(e.target.value) || 1 }
-                                                    })}
+                                                    onChange={e => updateRecurrence({ interval: parseInt(e.target.value) || 1 })}
                                                     className="w-full p-2 bg-black border border-zinc-700 text-white text-sm outline-none focus:border-orange-600"
                                                   />
                                               </div>
                                           </div>
 
+                                          {/* Weekdays only (DAILY) */}
+                                          {editForm.recurrence.frequency === 'DAILY' && (
+                                            <label className="flex items-center gap-2 text-xs text-zinc-400 cursor-pointer">
+                                              <input
+                                                type="checkbox"
+                                                checked={isWeekdaysOnly(editForm.recurrence.daysOfWeek)}
+                                                onChange={e => updateRecurrence({ daysOfWeek: e.target.checked ? [...WEEKDAYS] : undefined })}
+                                                className="accent-orange-600"
+                                              />
+                                              Weekdays only (Mon–Fri)
+                                            </label>
+                                          )}
+
                                           {/* Day-of-Week Selector (only for WEEKLY) */}
                                           {editForm.recurrence.frequency === 'WEEKLY' && (
                                             <div>
-                                              <label className="block text-[10px] font-bold text-zinc-500 mb-2 uppercase tracking-widest">
-                                                Repeat on these days
-                                              </label>
+                                              <div className="flex items-center justify-between mb-2">
+                                                <label className="block text-[10px] font-bold text-zinc-500 uppercase tracking-widest">
+                                                  Repeat on these days
+                                                </label>
+                                                <button
+                                                  type="button"
+                                                  onClick={() => updateRecurrence({ daysOfWeek: [...WEEKDAYS] })}
+                                                  className="text-[10px] font-bold uppercase tracking-widest text-zinc-500 hover:text-orange-500"
+                                                >
+                                                  Weekdays
+                                                </button>
+                                              </div>
                                               <div className="grid grid-cols-7 gap-1 sm:gap-2">
                                                 {['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].map((dayLabel, dayIndex) => {
                                                   const isSelected = editForm.recurrence!.daysOfWeek?.includes(dayIndex) || false;
@@ -1329,17 +1880,89 @@ const CalendarView: React.FC<CalendarViewProps> = ({ appointments, business, onU
                                             </div>
                                           )}
 
+                                          {/* Day of month or nth weekday (MONTHLY / YEARLY) */}
+                                          {(editForm.recurrence.frequency === 'MONTHLY' || editForm.recurrence.frequency === 'YEARLY') && (
+                                            <div>
+                                              <label className="block text-[10px] font-bold text-zinc-500 mb-2 uppercase tracking-widest">Repeat On</label>
+                                              <select
+                                                value={editForm.recurrence.setPos ? (editForm.recurrence.setPos < 0 ? 'last' : 'nth') : 'day'}
+                                                onChange={e => changeMonthlyMode(e.target.value as 'day' | 'nth' | 'last')}
+                                                className="w-full p-2 bg-black border border-zinc-700 text-white text-sm outline-none focus:border-orange-600"
+                                              >
+                                                  {(() => {
+                                                      const start = parseLocalDate(editForm.date || toLocalDateStr());
+                                                      const dayName = start.toLocaleDateString('en-US', { weekday: 'long' });
+                                                      const nth = Math.ceil(start.getDate() / 7);
+                                                      return (
+                                                          <>
+                                                              <option value="day">Day {start.getDate()}</option>
+                                                              {nth <= 4 && <option value="nth">The {ORDINAL_LABELS[nth]} {dayName}</option>}
+                                                              <option value="last">The last {dayName}</option>
+                                                          </>
+                                                      );
+                                                  })()}
+                                              </select>
+                                            </div>
+                                          )}
+
+                                          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4">
+                                              <div>
+                                                  <label className="block text-[10px] font-bold text-zinc-500 mb-2 uppercase tracking-widest">Ends</label>
+                                                  <select
+                                                    value={editForm.recurrence.count ? 'count' : editForm.recurrence.endDate !== undefined ? 'date' : 'never'}
+                                                    onChange={e => {
+                                                        const mode = e.target.value;
+                                                        updateRecurrence({
+                                                            count: mode === 'count' ? (editForm.recurrence!.count || 10) : undefined,
+                                                            endDate: mode === 'date' ? (editForm.recurrence!.endDate || '') : undefined
+                                                        });
+                                                    }}
+                                                    className="w-full p-2 bg-black border border-zinc-700 text-white text-sm outline-none focus:border-orange-600"
+                                                  >
+                                                      <option value="never">Never</option>
+                                                      <option value="date">On date</option>
+                                                      <option value="count">After N times</option>
+                                                  </select>
+                                              </div>
+                                              {editForm.recurrence.count ? (
+                                                <div>
+                                                    <label className="block text-[10px] font-bold text-zinc-500 mb-2 uppercase tracking-widest">Occurrences</label>
+                                                    <input
+                                                      type="number"
+                                                      min="1"
+                                                      value={editForm.recurrence.count}
+                                                      onChange={e => updateRecurrence({ count: Math.max(1, parseInt(e.target.value) || 1) })}
+                                                      className="w-full p-2 bg-black border border-zinc-700 text-white text-sm outline-none focus:border-orange-600"
+                                                    />
+                                                </div>
+                                              ) : editForm.recurrence.endDate !== undefined && (
+                                                <div>
+                                                    <label className="block text-[10px] font-bold text-zinc-500 mb-2 uppercase tracking-widest">End Date</label>
+                                                    <input 
+                                                      type="date"
+                                                      value={editForm.recurrence.endDate || ''}
+                                                      onChange={e => updateRecurrence({ endDate: e.target.value })}
+                                                      className="w-full p-2 bg-black border border-zinc-700 text-white text-sm outline-none focus:border-orange-600 font-mono"
+                                                    />
+                                                </div>
+                                              )}
+                                          </div>
+
+                                          {/* RRULE (RFC 5545) — shown for reference, and can be pasted from another calendar */}
                                           <div>
-                                              <label className="block text-[10px] font-bold text-zinc-500 mb-2 uppercase tracking-widest">End Date (Optional)</label>
-                                              <input 
-                                                type="date"
-                                                value={editForm.recurrence.endDate || ''}
-                                                onChange={e => setEditForm({
-                                                    ...editForm, 
-                                                    recurrence: { ...editForm.recurrence!, endDate: e.target.value }
-                                                })}
-                                                className="w-full p-2 bg-black border border-zinc-700 text-white text-sm outline-none focus:border-orange-600 font-mono"
+                                              <label className="block text-[10px] font-bold text-zinc-500 mb-2 uppercase tracking-widest">RRULE</label>
+                                              <textarea
+                                                rows={editForm.recurrence.exceptionDates?.length ? 2 : 1}
+                                                value={rruleDraft ?? toRRule(editForm.recurrence, { date: editForm.date })}
+                                                onChange={e => { setRruleDraft(e.target.value); setRruleError(''); }}
+                                                onBlur={applyRruleDraft}
+                                                className="w-full p-2 bg-black border border-zinc-700 text-zinc-300 text-xs outline-none focus:border-orange-600 font-mono resize-none"
                                               />
+                                              {rruleError ? (
+                                                <p className="text-[10px] text-red-500 mt-1">{rruleError}</p>
+                                              ) : (
+                                                <p className="text-[10px] text-zinc-600 mt-1">{describeRule(editForm.recurrence)}</p>
+                                              )}
                                           </div>
                                       </div>
                                   )}
@@ -1393,6 +2016,50 @@ const CalendarView: React.FC<CalendarViewProps> = ({ appointments, business, onU
           </div>
         </div>
       )}
+
+      {/* A dragged occurrence of a recurring series: change just it, or it and everything after */}
+      {seriesChange && (
+        <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-in fade-in duration-200">
+          <div className="bg-zinc-950 border border-zinc-700 p-6 sm:p-8 max-w-sm w-full shadow-2xl">
+            <p className="text-white text-sm font-bold uppercase tracking-widest mb-2">Change recurring appointment</p>
+            <p className="text-zinc-400 text-xs mb-6">
+              Move to {seriesChange.changes.date} at {formatTime(seriesChange.changes.time!)}{isOtherZone ? ` ${zoneAbbreviation(businessZone)}` : ''}.
+            </p>
+            <div className="flex flex-col gap-3">
+              <button
+                onClick={() => applySeriesChange('one')}
+                className="py-3 bg-orange-600 text-black font-bold uppercase tracking-widest text-xs hover:bg-orange-500 transition-colors"
+              >
+                This Occurrence
+              </button>
+              <button
+                onClick={() => applySeriesChange('following')}
+                className="py-3 border border-orange-600 text-orange-500 font-bold uppercase tracking-widest text-xs hover:bg-orange-600/10 transition-colors"
+              >
+                This and All Future
+              </button>
+              <button
+                onClick={() => setSeriesChange(null)}
+                className="py-3 border border-zinc-700 text-white font-bold uppercase tracking-widest text-xs hover:bg-zinc-800 transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {isImporting && (
+        <CalendarImportModal
+          appointments={appointments}
+          clients={clients}
+          business={business}
+          timeZone={businessZone}
+          onAddClient={onAddClient}
+          onAddAppointment={onAddAppointment}
+          onClose={() => setIsImporting(false)}
+        />
+      )}
     </div>
   );
 };
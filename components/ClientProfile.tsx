@@ -2,6 +2,7 @@
 import React, { useState } from 'react';
 import { Client, AISummaryResponse, Appointment, BusinessProfile, AppointmentStatus, ClientRating } from '../types';
 import { generateClientSummary, generateFollowUpMessage } from '../services/geminiService';
+import { sendEmail } from '../services/apiService';
 import { ArrowLeft, Sparkles, MessageSquare, History, Phone, Mail, Send, Check, Star, Calendar } from 'lucide-react';
 import { formatTime, toLocalDateStr } from '../constants';
 
@@ -59,23 +60,18 @@ const ClientProfile: React.FC<ClientProfileProps> = ({ client, appointments, bus
     setIsSendingEmail(true);
     
     try {
-      const { sendEmail, generateFollowUpEmailHTML } = await import('../services/emailService');
-      const emailSent = await sendEmail({
+      const { buildFollowUpEmail } = await import('../services/emailService');
+      const sent = await sendEmail({
         to: client.email,
-        subject: `Follow-up from ${business.name}`,
-        html: generateFollowUpEmailHTML(
-          client.name,
-          business.name,
-          followUpDraft,
-          business.email
-        )
+        kind: 'FOLLOW_UP',
+        ...buildFollowUpEmail(business, client.name, followUpDraft)
       });
 
-      if (emailSent) {
+      if (sent.data) {
         setEmailSent(true);
         console.log(`Follow-up email sent to ${client.email}`);
       } else {
-        alert('Failed to send email. Please check your email service configuration.');
+        alert(sent.error === 'API_UNAVAILABLE' ? 'Could not reach the server. Please try again.' : `Failed to send email: ${sent.error}`);
       }
     } catch (error) {
       console.error('Error sending email:', error);
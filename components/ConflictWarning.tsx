@@ -0,0 +1,54 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { Conflict, ConflictReason, fromMinutes } from '../backend/lib/availability';
+import { formatTime } from '../constants';
+
+interface ConflictWarningProps {
+  conflicts: Conflict[];
+  staffName?: (id: string) => string | undefined;
+}
+
+const REASONS: Record<ConflictReason, string> = {
+  BLOCKED: 'blocked time',
+  STAFF: 'same staff member',
+  OVERLAP: 'same time'
+};
+
+const MAX_SHOWN = 3;
+
+/** The entries an appointment being edited would clash with, one line per entry. */
+const ConflictWarning: React.FC<ConflictWarningProps> = ({ conflicts, staffName }) => {
+  if (conflicts.length === 0) return null;
+
+  // A recurring entry can clash on many dates; list it once with its first date
+  const byEntry = new Map<string, { conflict: Conflict; dates: number }>();
+  for (const conflict of conflicts) {
+    const seen = byEntry.get(conflict.entry.id);
+    if (seen) seen.dates++;
+    else byEntry.set(conflict.entry.id, { conflict, dates: 1 });
+  }
+  const rows = [...byEntry.values()];
+
+  return (
+    <div className="p-3 border border-amber-500/50 bg-amber-500/10 text-amber-600 dark:text-amber-400 text-xs space-y-1">
+      <p className="font-bold uppercase tracking-widest flex items-center gap-2">
+        <AlertTriangle className="w-3 h-3" /> Conflicts with {rows.length} {rows.length === 1 ? 'entry' : 'entries'}
+      </p>
+      {rows.slice(0, MAX_SHOWN).map(({ conflict, dates }) => {
+        const entry = conflict.entry as typeof conflict.entry & { clientName?: string };
+        const name = entry.status === 'BLOCKED' ? entry.clientName || 'Blocked Time' : entry.clientName || 'Untitled';
+        const staff = entry.staffId && staffName?.(entry.staffId);
+        return (
+          <p key={entry.id}>
+            {conflict.date} {formatTime(fromMinutes(conflict.start))} · {name}
+            {staff ? ` with ${staff}` : ''} ({REASONS[conflict.reason]})
+            {dates > 1 && ` and ${dates - 1} more ${dates === 2 ? 'date' : 'dates'}`}
+          </p>
+        );
+      })}
+      {rows.length > MAX_SHOWN && <p>and {rows.length - MAX_SHOWN} more</p>}
+    </div>
+  );
+};
+
+export default ConflictWarning;
@@ -3,7 +3,11 @@ import React, { useState, useMemo } from 'react';
 import { Appointment, BusinessProfile, AppointmentStatus, ClientRating } from '../types';
 import { ResponsiveContainer, BarChart, Bar, XAxis, YAxis, Tooltip as RechartsTooltip } from 'recharts';
 import { Calendar, Clock, DollarSign, MoreVertical, Star, ArrowRight, CheckCircle, TrendingUp, Trash2, Edit3, X, Save, Ban, XCircle, Video, Briefcase, ClipboardList } from 'lucide-react';
-import { formatTime, toLocalDateStr } from '../constants';
+import { formatTime, toLocalDateStr, businessToday } from '../constants';
+import { indexOverrides, occurrencesOn, overrideLink } from '../backend/lib/recurrence';
+import { findConflicts, durationsOf } from '../backend/lib/availability';
+import ConflictWarning from './ConflictWarning';
+import WaitlistCard from './WaitlistCard';
 
 interface DashboardProps {
   business: BusinessProfile;
@@ -14,6 +18,7 @@ interface DashboardProps {
   onAddAppointment: (appt: Appointment) => void;
   onRemoveAppointment: (id: string) => void;
   onNavigateToCalendar: () => void;
+  onViewReviews?: () => void;
 }
 
 const Dashboard: React.FC<DashboardProps> = ({ 
@@ -24,97 +29,26 @@ const Dashboard: React.FC<DashboardProps> = ({
   onUpdateAppointment,
   onAddAppointment,
   onRemoveAppointment,
-  onNavigateToCalendar
+  onNavigateToCalendar,
+  onViewReviews
 }) => {
     // Basic stats logic
-    // Use local date string (not UTC) to avoid off-by-one in evening hours
-    const today = toLocalDateStr();
-
-    // --- Recurrence helpers (must match CalendarView logic) ---
-    const parseLocalDate = (dateStr: string): Date => new Date(dateStr + 'T12:00:00');
-
-    const isOccurrenceOnDate = (appt: Appointment, targetDateStr: string): boolean => {
-        if (appt.date === targetDateStr) return true;
-        if (!appt.recurrence) return false;
-
-        const apptDate = parseLocalDate(appt.date);
-        const targetDate = parseLocalDate(targetDateStr);
-        if (targetDate < apptDate) return false;
-        if (appt.recurrence.endDate && targetDate > parseLocalDate(appt.recurrence.endDate)) return false;
-
-        const diffTime = Math.abs(targetDate.getTime() - apptDate.getTime());
-        const diffDays = Math.round(diffTime / (1000 * 60 * 60 * 24));
-
-        if (appt.recurrence.frequency === 'WEEKLY') {
-            if (appt.recurrence.daysOfWeek && appt.recurrence.daysOfWeek.length > 0) {
-                const targetDayOfWeek = targetDate.getDay();
-                if (!appt.recurrence.daysOfWeek.includes(targetDayOfWeek)) return false;
-                const getWeekStart = (d: Date) => {
-                    const date = new Date(d);
-                    date.setDate(date.getDate() - date.getDay());
-                    date.setHours(12, 0, 0, 0);
-                    return date;
-                };
-                const weeksDiff = Math.round(
-                    (getWeekStart(targetDate).getTime() - getWeekStart(apptDate).getTime()) / (7 * 24 * 60 * 60 * 1000)
-                );
-                return weeksDiff >= 0 && weeksDiff % appt.recurrence.interval === 0;
-            }
-            if (diffDays % 7 !== 0) return false;
-            return (diffDays / 7) % appt.recurrence.interval === 0;
-        }
-        if (appt.recurrence.frequency === 'MONTHLY') {
-            if (targetDate.getDate() !== apptDate.getDate()) return false;
-            const monthDiff = (targetDate.getFullYear() - apptDate.getFullYear()) * 12 +
-                              (targetDate.getMonth() - apptDate.getMonth());
-            return monthDiff % appt.recurrence.interval === 0;
-        }
-        return false;
-    };
-
-    // Build a set of overridden date+time+service+client keys from completed/cancelled instances
-    // so we can filter out recurring parents that have been individually resolved
-    const overriddenKeys = useMemo(() => {
-        const keys = new Set<string>();
-        appointments.forEach(appt => {
-            if (!appt.recurrence && (appt.id.endsWith('_completed') || appt.id.endsWith('_cancelled'))) {
-                keys.add(`${appt.date}_${appt.time}_${appt.serviceId}_${appt.clientName}`);
-            }
-        });
-        return keys;
-    }, [appointments]);
+    // The business's date (not UTC, nor the device's zone if it differs)
+    const today = businessToday(business);
 
-    // Check if a recurring parent should be hidden on a given date
-    const isOverriddenRecurringOnDate = (appt: Appointment, dateStr: string): boolean => {
-        if (!appt.recurrence) return false;
-        return overriddenKeys.has(`${dateStr}_${appt.time}_${appt.serviceId}_${appt.clientName}`);
-    };
+    // Occurrences replaced by a completed/cancelled instance are hidden on their date
+    const overrides = useMemo(() => indexOverrides(appointments), [appointments]);
 
-    // Legacy helper for non-date-specific checks (past/upcoming)
-    const isOverriddenRecurring = (appt: Appointment): boolean => {
-        if (!appt.recurrence) return false;
-        return overriddenKeys.has(`${appt.date}_${appt.time}_${appt.serviceId}_${appt.clientName}`);
-    };
+    // Whether a recurring parent's own start date has been overridden (for past/upcoming lists)
+    const isOverriddenRecurring = (appt: Appointment): boolean => overrides.has(appt, appt.date);
 
     // Today's appointments: include recurring ones that occur today
-    const todayAppointments = useMemo(() => {
-        const result: Appointment[] = [];
-        const seenIds = new Set<string>();
-
-        appointments.forEach(appt => {
-            if (seenIds.has(appt.id)) return;
-            if (isOccurrenceOnDate(appt, today) && !isOverriddenRecurringOnDate(appt, today)) {
-                seenIds.add(appt.id);
-                // Normalize date to today for recurring appointments shown on today
-                const displayAppt = appt.recurrence && appt.date !== today
-                    ? { ...appt, date: today }
-                    : appt;
-                result.push(displayAppt);
-            }
-        });
-
-        return result.sort((a, b) => a.time.localeCompare(b.time));
-    }, [appointments, today, overriddenKeys]);
+    const todayAppointments = useMemo(() =>
+        // Normalize date to today for recurring appointments shown on today
+        occurrencesOn(appointments, today).map(({ entry, date }) =>
+            entry.date !== date ? { ...entry, date } : entry
+        ),
+    [appointments, today]);
 
     const upcomingAppointments = appointments
         .filter(a => a.date > today && !isOverriddenRecurring(a))
@@ -133,7 +67,7 @@ const Dashboard: React.FC<DashboardProps> = ({
                 if (dateCmp !== 0) return dateCmp;
                 return b.time.localeCompare(a.time);
             });
-    }, [appointments, today, overriddenKeys]);
+    }, [appointments, today, overrides]);
     
     // Helper function to calculate appointment price
     const getAppointmentPrice = (appt: Appointment): number => {
@@ -304,9 +238,9 @@ const Dashboard: React.FC<DashboardProps> = ({
                 if (appt.recurrence) {
                     const completedInstance: Appointment = {
                         ...appt,
+                        ...overrideLink(appt, appt.date),
                         id: Math.random().toString(36).substring(2, 9) + '_completed',
                         status: AppointmentStatus.COMPLETED,
-                        recurrence: undefined,
                     };
                     onAddAppointment(completedInstance);
                 } else {
@@ -334,9 +268,9 @@ const Dashboard: React.FC<DashboardProps> = ({
                             if (appt.recurrence) {
                                 const cancelledInstance: Appointment = {
                                     ...appt,
+                                    ...overrideLink(appt, appt.date),
                                     id: Math.random().toString(36).substring(2, 9) + '_cancelled',
                                     status: AppointmentStatus.CANCELLED,
-                                    recurrence: undefined,
                                 };
                                 onAddAppointment(cancelledInstance);
                             } else {
@@ -370,8 +304,15 @@ const Dashboard: React.FC<DashboardProps> = ({
         });
     };
 
+    // What the appointment being edited would clash with; the same staff member can't be double-booked
+    const editConflicts = useMemo(
+        () => editingAppt ? findConflicts(editingAppt, appointments, durationsOf(business.services)) : [],
+        [editingAppt, appointments, business.services]
+    );
+    const hasStaffClash = editConflicts.some(c => c.reason === 'STAFF');
+
     const handleSaveEdit = () => {
-        if (editingAppt) {
+        if (editingAppt && !hasStaffClash) {
             onUpdateAppointment(editingAppt);
             setEditingAppt(null);
         }
@@ -444,6 +385,14 @@ const Dashboard: React.FC<DashboardProps> = ({
                                 Business: {calculateAverageRating.business.toFixed(1)} • Staff: {calculateAverageRating.staff.toFixed(1)}
                             </p>
                          )}
+                         {onViewReviews && (
+                            <button
+                                onClick={onViewReviews}
+                                className="mt-3 text-xs font-bold text-orange-600 uppercase tracking-widest hover:text-zinc-900 dark:hover:text-white transition-colors"
+                            >
+                                View Reviews
+                            </button>
+                         )}
                     </div>
                 </div>
             </div>
@@ -669,6 +618,8 @@ const Dashboard: React.FC<DashboardProps> = ({
                             View All
                          </button>
                     </div>
+
+                    <WaitlistCard business={business} />
                 </div>
 
             </div>
@@ -741,9 +692,12 @@ const Dashboard: React.FC<DashboardProps> = ({
                              </div>
                         </div>
 
+                        <ConflictWarning conflicts={editConflicts} staffName={id => business.staff?.find(m => m.id === id)?.name} />
+
                         <button 
                             onClick={handleSaveEdit}
-                            className="w-full mt-4 bg-orange-600 text-black py-3 font-bold uppercase tracking-widest hover:bg-white transition-colors flex items-center justify-center gap-2"
+                            disabled={hasStaffClash}
+                            className="w-full mt-4 bg-orange-600 text-black py-3 font-bold uppercase tracking-widest hover:bg-white transition-colors flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
                         >
                             <Save className="w-4 h-4" /> Save Changes
                         </button>
@@ -0,0 +1,131 @@
+import React, { useEffect, useState } from 'react';
+import { X, Mail } from 'lucide-react';
+import { EmailKind, EmailLogEntry } from '../types';
+import { listEmailLog } from '../services/apiService';
+
+interface EmailLogModalProps {
+  onClose: () => void;
+}
+
+const KIND_LABELS: Record<EmailKind, string> = {
+  MESSAGE: 'Message',
+  RATING_REQUEST: 'Rating request',
+  FOLLOW_UP: 'Follow-up',
+  EARNINGS_REPORT: 'Earnings report',
+  BOOKING: 'Booking',
+  REMINDER: 'Reminder',
+  WAITLIST_OFFER: 'Waitlist offer',
+  OWNER_NOTICE: 'Notice to you',
+  PASSWORD_RESET: 'Password reset'
+};
+
+type StatusFilter = 'ALL' | EmailLogEntry['status'];
+
+/** Every email sent on the business's behalf, newest first, a page at a time. */
+const EmailLogModal: React.FC<EmailLogModalProps> = ({ onClose }) => {
+  const [entries, setEntries] = useState<EmailLogEntry[]>([]);
+  const [status, setStatus] = useState<StatusFilter>('ALL');
+  const [kind, setKind] = useState<EmailKind | ''>('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [hasMore, setHasMore] = useState(false);
+  const [error, setError] = useState('');
+
+  const load = async (before?: number) => {
+    setIsLoading(true);
+    setError('');
+    const result = await listEmailLog({ before, status: status === 'ALL' ? undefined : status, kind: kind || undefined });
+    setIsLoading(false);
+    if (result.error) {
+      setError(result.error === 'API_UNAVAILABLE' ? 'Could not reach the server. Please try again.' : result.error);
+      return;
+    }
+    const page = result.data || [];
+    setEntries(prev => (before ? [...prev, ...page] : page));
+    // A full page means there may be more behind it
+    setHasMore(page.length >= 50);
+  };
+
+  useEffect(() => {
+    load();
+  }, [status, kind]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white dark:bg-zinc-950 border border-zinc-200 dark:border-zinc-700 w-full max-w-2xl shadow-2xl flex flex-col max-h-[90vh]">
+        <div className="p-6 border-b border-zinc-200 dark:border-zinc-800 flex justify-between items-center">
+          <h3 className="font-bold text-zinc-900 dark:text-white uppercase tracking-wider flex items-center gap-2">
+            <Mail className="w-4 h-4 text-orange-600" /> Email Log
+          </h3>
+          <button onClick={onClose} className="text-zinc-500 hover:text-zinc-900 dark:hover:text-white"><X className="w-5 h-5" /></button>
+        </div>
+
+        <div className="px-6 py-4 border-b border-zinc-200 dark:border-zinc-800 flex flex-col sm:flex-row gap-2 sm:items-center sm:justify-between">
+          <div className="flex gap-1">
+            {(['ALL', 'SENT', 'FAILED'] as StatusFilter[]).map(s => (
+              <button
+                key={s}
+                onClick={() => setStatus(s)}
+                className={`px-3 py-2 text-[10px] font-bold uppercase tracking-widest border transition-colors ${
+                  status === s
+                    ? 'bg-zinc-900 dark:bg-white text-white dark:text-black border-zinc-900 dark:border-white'
+                    : 'bg-transparent text-zinc-500 border-zinc-200 dark:border-zinc-800 hover:text-zinc-900 dark:hover:text-white'
+                }`}
+              >
+                {s === 'ALL' ? 'All' : s}
+              </button>
+            ))}
+          </div>
+          <select
+            value={kind}
+            onChange={e => setKind(e.target.value as EmailKind | '')}
+            className="bg-zinc-50 dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 p-2 text-xs text-zinc-900 dark:text-white focus:border-orange-600 outline-none"
+          >
+            <option value="">Every kind</option>
+            {(Object.keys(KIND_LABELS) as EmailKind[]).map(k => (
+              <option key={k} value={k}>{KIND_LABELS[k]}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="overflow-y-auto divide-y divide-zinc-100 dark:divide-zinc-800">
+          {entries.map(entry => (
+            <div key={entry.id} className="px-6 py-3 flex justify-between items-start gap-4">
+              <div className="min-w-0">
+                <p className="text-sm font-bold text-zinc-900 dark:text-white truncate">{entry.subject}</p>
+                <p className="text-xs text-zinc-500 truncate">
+                  {entry.to} · {KIND_LABELS[entry.kind] || entry.kind} · {new Date(entry.sentAt).toLocaleString([], { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}
+                </p>
+                {entry.error && <p className="text-xs text-red-500 mt-1 break-words">{entry.error}</p>}
+              </div>
+              {entry.status === 'SENT' ? (
+                <span className="text-[10px] font-bold uppercase tracking-widest text-emerald-500 flex-shrink-0" title={entry.transport === 'resend' ? undefined : `Not delivered: the server is using the ${entry.transport} transport`}>
+                  {entry.transport && entry.transport !== 'resend' ? `Sent (${entry.transport})` : 'Sent'}
+                </span>
+              ) : (
+                <span className="text-[10px] font-bold uppercase tracking-widest text-red-500 flex-shrink-0">Failed</span>
+              )}
+            </div>
+          ))}
+
+          {!isLoading && !error && entries.length === 0 && (
+            <p className="p-8 text-center text-sm text-zinc-500">No emails yet.</p>
+          )}
+          {error && <p className="p-6 text-center text-sm text-red-500">{error}</p>}
+          {isLoading && <p className="p-6 text-center text-xs text-zinc-500 uppercase tracking-widest">Loading...</p>}
+          {!isLoading && hasMore && (
+            <div className="p-4 text-center">
+              <button
+                onClick={() => load(entries[entries.length - 1].id)}
+                className="text-xs font-bold text-orange-600 uppercase tracking-widest hover:text-zinc-900 dark:hover:text-white transition-colors"
+              >
+                Load Older
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EmailLogModal;
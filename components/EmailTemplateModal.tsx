@@ -0,0 +1,197 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { X, RotateCcw, Send } from 'lucide-react';
+import { BusinessProfile, EmailTemplate, EmailTemplateKey } from '../types';
+import { EMAIL_TEMPLATES, renderEmail, templateFor, unknownVariables } from '../backend/lib/emailTemplates';
+import { sendEmail } from '../services/apiService';
+
+interface EmailTemplateModalProps {
+  templateKey: EmailTemplateKey;
+  business: BusinessProfile;
+  isAuthenticated: boolean;
+  onSave: (key: EmailTemplateKey, template: EmailTemplate | undefined) => void;
+  onClose: () => void;
+}
+
+type Field = keyof EmailTemplate;
+
+const INPUT = 'w-full bg-zinc-50 dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 text-zinc-900 dark:text-white focus:border-orange-600 outline-none';
+const LABEL = 'block text-xs font-bold text-zinc-500 uppercase tracking-widest';
+
+const sameTemplate = (a: EmailTemplate, b: EmailTemplate) =>
+  a.subject === b.subject && a.heading === b.heading && a.body === b.body && (a.buttonLabel || '') === (b.buttonLabel || '');
+
+/** Edit one of the emails the app sends, with a live preview on sample data. */
+const EmailTemplateModal: React.FC<EmailTemplateModalProps> = ({ templateKey, business, isAuthenticated, onSave, onClose }) => {
+  const definition = EMAIL_TEMPLATES[templateKey];
+  const [form, setForm] = useState<EmailTemplate>(() => templateFor(templateKey, business.emailTemplates?.[templateKey]));
+  const [previewMode, setPreviewMode] = useState<'HTML' | 'TEXT'>('HTML');
+  const [activeField, setActiveField] = useState<Field>('body');
+  const [testStatus, setTestStatus] = useState<{ sending?: boolean; message?: string; error?: string }>({});
+  const fields = useRef<Partial<Record<Field, HTMLInputElement | HTMLTextAreaElement | null>>>({});
+
+  // The sample client and appointment, with the business's own details
+  const variables = useMemo(() => ({
+    ...definition.sample,
+    'business.name': business.name,
+    'business.email': business.email,
+    'owner.name': business.ownerName
+  }), [definition, business.name, business.email, business.ownerName]);
+
+  const rendered = renderEmail(templateKey, form, variables, { businessName: business.name, avatarUrl: business.avatarUrl });
+  const unknown = unknownVariables(templateKey, form);
+
+  const insertVariable = (name: string) => {
+    const token = `{{${name}}}`;
+    const element = fields.current[activeField];
+    const current = form[activeField] || '';
+    const start = element?.selectionStart ?? current.length;
+    const end = element?.selectionEnd ?? current.length;
+    setForm({ ...form, [activeField]: current.slice(0, start) + token + current.slice(end) });
+    requestAnimationFrame(() => {
+      element?.focus();
+      element?.setSelectionRange(start + token.length, start + token.length);
+    });
+  };
+
+  const fieldProps = (field: Field) => ({
+    ref: (element: HTMLInputElement | HTMLTextAreaElement | null) => { fields.current[field] = element; },
+    value: form[field] || '',
+    onFocus: () => setActiveField(field),
+    onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => setForm({ ...form, [field]: e.target.value })
+  });
+
+  const handleSendTest = async () => {
+    if (!business.email) return;
+    setTestStatus({ sending: true });
+    const sent = await sendEmail({
+      to: business.email,
+      kind: 'MESSAGE',
+      subject: `[Test] ${rendered.subject}`,
+      html: rendered.html,
+      text: rendered.text
+    });
+    if (sent.data) setTestStatus({ message: `Test sent to ${business.email}` });
+    else setTestStatus({ error: sent.error === 'API_UNAVAILABLE' ? 'Could not reach the server. Please try again.' : sent.error });
+  };
+
+  const handleSave = () => {
+    const template = templateFor(templateKey, form);
+    // Saving the defaults unchanged keeps following any future improvements to them
+    onSave(templateKey, sameTemplate(template, definition.defaults) ? undefined : template);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white dark:bg-zinc-950 border border-zinc-200 dark:border-zinc-700 w-full max-w-5xl shadow-2xl flex flex-col max-h-[90vh]">
+        <div className="p-6 border-b border-zinc-200 dark:border-zinc-800 flex justify-between items-center">
+          <div>
+            <h3 className="font-bold text-zinc-900 dark:text-white uppercase tracking-wider">{definition.label} Email</h3>
+            <p className="text-xs text-zinc-500 mt-1">{definition.description}</p>
+          </div>
+          <button onClick={onClose} className="text-zinc-500 hover:text-zinc-900 dark:hover:text-white"><X className="w-5 h-5" /></button>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 overflow-y-auto">
+          <div className="p-6 space-y-5 lg:border-r border-zinc-200 dark:border-zinc-800">
+            <div>
+              <label className={LABEL + ' mb-2'}>Subject</label>
+              <input type="text" className={INPUT + ' p-3'} {...fieldProps('subject')} />
+            </div>
+            <div>
+              <label className={LABEL + ' mb-2'}>Heading</label>
+              <input type="text" className={INPUT + ' p-3'} {...fieldProps('heading')} />
+            </div>
+            <div>
+              <label className={LABEL + ' mb-2'}>Message</label>
+              <textarea rows={9} className={INPUT + ' p-3 text-sm font-mono'} {...fieldProps('body')} />
+              <p className="text-[10px] text-zinc-500 mt-1">
+                Leave a blank line between paragraphs. Wrap text in {'{{#name}}...{{/name}}'} to show it only when that detail is known.
+              </p>
+            </div>
+            {definition.button && (
+              <div>
+                <label className={LABEL + ' mb-2'}>Button</label>
+                <input type="text" className={INPUT + ' p-3'} {...fieldProps('buttonLabel')} />
+              </div>
+            )}
+
+            <div>
+              <label className={LABEL + ' mb-2'}>Insert a Detail</label>
+              <div className="flex flex-wrap gap-2">
+                {definition.variables.map(variable => (
+                  <button
+                    key={variable.name}
+                    onClick={() => insertVariable(variable.name)}
+                    title={variable.description}
+                    className="px-2 py-1 text-[10px] font-mono border border-zinc-200 dark:border-zinc-800 text-zinc-600 dark:text-zinc-300 hover:border-orange-600 hover:text-orange-600 transition-colors"
+                  >
+                    {variable.name}
+                  </button>
+                ))}
+              </div>
+              {unknown.length > 0 && (
+                <p className="text-xs text-red-500 mt-2">
+                  Not available in this email, so left blank: {unknown.join(', ')}
+                </p>
+              )}
+            </div>
+          </div>
+
+          <div className="p-6 flex flex-col gap-3 bg-zinc-50 dark:bg-zinc-900/50">
+            <div className="flex items-center justify-between">
+              <label className={LABEL}>Preview</label>
+              <div className="flex gap-1">
+                {(['HTML', 'TEXT'] as const).map(mode => (
+                  <button
+                    key={mode}
+                    onClick={() => setPreviewMode(mode)}
+                    className={`px-3 py-1 text-[10px] font-bold uppercase tracking-widest border transition-colors ${
+                      previewMode === mode
+                        ? 'bg-zinc-900 dark:bg-white text-white dark:text-black border-zinc-900 dark:border-white'
+                        : 'bg-transparent text-zinc-500 border-zinc-200 dark:border-zinc-800 hover:text-zinc-900 dark:hover:text-white'
+                    }`}
+                  >
+                    {mode === 'HTML' ? 'Email' : 'Plain Text'}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <p className="text-sm text-zinc-900 dark:text-white truncate"><span className="text-zinc-500">Subject:</span> {rendered.subject}</p>
+            {previewMode === 'HTML' ? (
+              <iframe title="Email preview" srcDoc={rendered.html} sandbox="" className="w-full h-[420px] bg-white border border-zinc-200 dark:border-zinc-800" />
+            ) : (
+              <pre className="w-full h-[420px] overflow-auto whitespace-pre-wrap text-xs p-4 bg-white dark:bg-zinc-950 border border-zinc-200 dark:border-zinc-800 text-zinc-900 dark:text-zinc-200">{rendered.text}</pre>
+            )}
+            <p className="text-[10px] text-zinc-500">Shown with a sample client. Your business name and photo appear in the header.</p>
+          </div>
+        </div>
+
+        <div className="p-6 border-t border-zinc-200 dark:border-zinc-800 flex flex-col sm:flex-row gap-3 sm:items-center sm:justify-between">
+          <div className="flex flex-col sm:flex-row gap-2 sm:items-center">
+            <button
+              onClick={() => setForm({ ...definition.defaults })}
+              className="px-4 py-2 text-xs font-bold uppercase tracking-widest border border-zinc-300 dark:border-zinc-700 text-zinc-700 dark:text-zinc-300 hover:border-orange-600 transition-colors flex items-center justify-center gap-2"
+            >
+              <RotateCcw className="w-4 h-4" /> Reset to Default
+            </button>
+            <button
+              onClick={handleSendTest}
+              disabled={!isAuthenticated || !business.email || testStatus.sending}
+              title={business.email ? undefined : 'Add a business email to send tests'}
+              className="px-4 py-2 text-xs font-bold uppercase tracking-widest border border-zinc-300 dark:border-zinc-700 text-zinc-700 dark:text-zinc-300 hover:border-orange-600 transition-colors flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Send className="w-4 h-4" /> {testStatus.sending ? 'Sending...' : 'Send Test'}
+            </button>
+            {testStatus.message && <p className="text-xs text-emerald-500">{testStatus.message}</p>}
+            {testStatus.error && <p className="text-xs text-red-500">{testStatus.error}</p>}
+          </div>
+          <button onClick={handleSave} className="bg-orange-600 text-black px-8 py-3 font-bold uppercase tracking-widest hover:bg-orange-500 transition-colors">
+            Save Template
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EmailTemplateModal;
@@ -1,10 +1,9 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { ArrowRight, Sparkles, Mail, Lock, User, Briefcase, KeyRound, CheckCircle, ArrowLeft, X } from 'lucide-react';
 import { useGoogleLogin } from '@react-oauth/google';
-import { generateResetCodeEmail } from '../services/geminiService';
 import { fetchGoogleUserInfo, extractBusinessName } from '../services/googleAuthService';
 import { useAuth } from '../services/authContext';
-import { authenticateWithGoogle, authenticateWithEmail, signupWithEmail } from '../services/apiService';
+import { authenticateWithGoogle, authenticateWithEmail, signupWithEmail, requestPasswordReset, confirmPasswordReset } from '../services/apiService';
 
 const GOOGLE_CLIENT_ID = (import.meta.env.VITE_GOOGLE_CLIENT_ID || process.env.GOOGLE_CLIENT_ID || '') as string;
 const HAS_GOOGLE_AUTH = GOOGLE_CLIENT_ID && 
@@ -43,7 +42,6 @@ const LoginView: React.FC<LoginViewProps> = ({ onLogin, onSignup }) => {
   const [businessName, setBusinessName] = useState('');
   
   // Reset Flow State
-  const [resetCode, setResetCode] = useState('');
   const [enteredCode, setEnteredCode] = useState('');
   const [newPassword, setNewPassword] = useState('');
 
@@ -266,52 +264,70 @@ const LoginView: React.FC<LoginViewProps> = ({ onLogin, onSignup }) => {
       if(!email) return;
       
       setIsLoading(true);
-      // Generate a random 6 digit code
-      const code = Math.floor(100000 + Math.random() * 900000).toString();
-      setResetCode(code);
-
-      // Simulate AI Email generation
-      const emailBody = await generateResetCodeEmail(email, code);
-      
+      const result = await requestPasswordReset(email.toLowerCase().trim());
       setIsLoading(false);
+
+      if (result.error) {
+          setNotification({
+              title: "Reset Error",
+              message: result.error === 'API_UNAVAILABLE'
+                ? "Password reset requires the backend server. Please try again later."
+                : result.error
+          });
+          return;
+      }
+
+      setEnteredCode('');
       setMode('forgot_code');
-      
-      // Show simulated email toast
       setNotification({
-          title: "New Email: Password Reset",
-          message: emailBody
+          title: "Check Your Email",
+          message: "If an account exists for that email, a 6-digit reset code is on its way. It expires in 15 minutes."
       });
   };
 
   const handleVerifyCode = (e: React.FormEvent) => {
       e.preventDefault();
-      setIsLoading(true);
-      
-      setTimeout(() => {
-          setIsLoading(false);
-          if (enteredCode === resetCode) {
-              setMode('forgot_new_pass');
-          } else {
-              alert("Incorrect code. Please check the simulated email notification.");
-          }
-      }, 1000);
+      // The code is checked by the server together with the new password
+      if (!/^\d{6}$/.test(enteredCode.trim())) {
+          setNotification({
+              title: "Invalid Code",
+              message: "Enter the 6-digit code from your email."
+          });
+          return;
+      }
+      setMode('forgot_new_pass');
   };
 
-  const handleResetPassword = (e: React.FormEvent) => {
+  const handleResetPassword = async (e: React.FormEvent) => {
       e.preventDefault();
       if (!newPassword) return;
 
       setIsLoading(true);
-      setTimeout(() => {
-          setIsLoading(false);
-          // In real app, API call here.
-          setMode('signin');
-          setPassword(newPassword); // Pre-fill for convenience
+      const result = await confirmPasswordReset(email.toLowerCase().trim(), enteredCode.trim(), newPassword);
+      setIsLoading(false);
+
+      if (result.error) {
+          // A bad or expired code sends the user back to re-enter it
+          if (result.error.toLowerCase().includes('code') || result.error.toLowerCase().includes('attempts')) {
+              setMode('forgot_code');
+          }
           setNotification({
-              title: "Success",
-              message: "Password reset successfully. Please sign in."
+              title: "Reset Error",
+              message: result.error === 'API_UNAVAILABLE'
+                ? "Password reset requires the backend server. Please try again later."
+                : result.error
           });
-      }, 1500);
+          return;
+      }
+
+      setMode('signin');
+      setPassword(newPassword); // Pre-fill for convenience
+      setNewPassword('');
+      setEnteredCode('');
+      setNotification({
+          title: "Success",
+          message: "Password reset successfully. Please sign in."
+      });
   };
 
   // --- Render Helpers ---
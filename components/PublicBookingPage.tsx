@@ -0,0 +1,100 @@
+import React, { useEffect, useState } from 'react';
+import { BusinessProfile, Appointment, Client } from '../types';
+import { DEFAULT_BUSINESS } from '../constants';
+import { getPublicBookingPage, submitPublicBooking, joinWaitlist, PublicBookingPage as PageData } from '../services/apiService';
+import BookingForm, { WaitlistForm } from './BookingForm';
+import { deviceTimeZone } from '../backend/lib/timeZone';
+
+interface PublicBookingPageProps {
+  slug: string;
+}
+
+/** Client-facing booking page at /book/:slug — loads the business from the API, no sign-in needed. */
+const PublicBookingPage: React.FC<PublicBookingPageProps> = ({ slug }) => {
+  const [page, setPage] = useState<PageData | null>(null);
+  const [error, setError] = useState('');
+
+  const load = async () => {
+    const result = await getPublicBookingPage(slug);
+    if (result.data) {
+      setPage(result.data);
+      setError('');
+    } else {
+      setError(result.error === 'API_UNAVAILABLE' ? 'Booking is unavailable right now. Please try again later.' : result.error || 'Booking page not found');
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, [slug]);
+
+  useEffect(() => {
+    document.documentElement.classList.add('dark');
+    if (page) document.title = `Book with ${page.business.name}`;
+  }, [page]);
+
+  if (!page) {
+    return (
+      <div className="min-h-screen bg-black flex items-center justify-center p-4">
+        {error ? (
+          <div className="text-center">
+            <h1 className="text-2xl font-bold text-white uppercase tracking-wider mb-2">Booking Unavailable</h1>
+            <p className="text-zinc-500 text-sm">{error}</p>
+          </div>
+        ) : (
+          <div className="w-12 h-12 border-4 border-orange-600 border-t-transparent rounded-full animate-spin"></div>
+        )}
+      </div>
+    );
+  }
+
+  const business: BusinessProfile = {
+    ...DEFAULT_BUSINESS,
+    name: page.business.name,
+    category: page.business.category || '',
+    avatarUrl: page.business.avatarUrl,
+    workingHours: page.business.workingHours || DEFAULT_BUSINESS.workingHours,
+    bufferMin: page.business.bufferMin,
+    timeZone: page.business.timeZone,
+    services: page.business.services,
+    staff: page.business.staff
+  };
+
+  const handleBook = async (appt: Appointment, clients: Client[]) => {
+    const result = await submitPublicBooking(slug, {
+      serviceId: appt.serviceId,
+      date: appt.date,
+      time: appt.time,
+      staffId: appt.staffId,
+      notes: appt.notes,
+      clients: clients.map(c => ({ name: c.name, email: c.email, phone: c.phone }))
+    });
+    if (result.error) {
+      // The slot may have just been taken; refresh so the form reflects it
+      load();
+      throw new Error(result.error === 'API_UNAVAILABLE' ? 'Could not reach the booking service. Please try again.' : result.error);
+    }
+    load();
+  };
+
+  const handleJoinWaitlist = async (request: WaitlistForm & { serviceId: string }) => {
+    const result = await joinWaitlist(slug, request);
+    if (result.error) {
+      throw new Error(result.error === 'API_UNAVAILABLE' ? 'Could not reach the booking service. Please try again.' : result.error);
+    }
+  };
+
+  return (
+    <BookingForm
+      business={business}
+      onBookAppointment={handleBook}
+      onJoinWaitlist={handleJoinWaitlist}
+      busy={page.availability.busy}
+      timeZone={deviceTimeZone()}
+      requiresConfirmation
+      testimonials={page.business.testimonials}
+    />
+  );
+};
+
+export default PublicBookingPage;
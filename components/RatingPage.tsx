@@ -1,60 +1,56 @@
 /**
  * Public Rating Page
- * Accessible via email link: /rate/:appointmentId?token=...
+ * Accessible via email link: /rate/:token (a signed, single-use link from the server)
  */
 import React, { useState, useEffect } from 'react';
-import { Appointment, ClientRating, Client, BusinessProfile } from '../types';
-import { AppointmentStatus } from '../types';
+import { formatTime } from '../constants';
+import { getRatingRequest, submitRating, RatingRequest } from '../services/apiService';
+import { SurveyQuestion } from '../types';
 
 interface RatingPageProps {
-  appointmentId: string;
   token: string;
-  appointment?: Appointment;
-  client?: Client;
-  business?: BusinessProfile;
-  onSubmitRating: (rating: Omit<ClientRating, 'id'>) => void;
 }
 
-const RatingPage: React.FC<RatingPageProps> = ({
-  appointmentId,
-  token,
-  appointment,
-  client,
-  business,
-  onSubmitRating
-}) => {
+const RatingPage: React.FC<RatingPageProps> = ({ token }) => {
+  const [request, setRequest] = useState<RatingRequest | null>(null);
+  const [loadError, setLoadError] = useState<string>('');
   const [businessRating, setBusinessRating] = useState<number>(0);
   const [staffRating, setStaffRating] = useState<number>(0);
   const [selectedStaffId, setSelectedStaffId] = useState<string>('');
   const [comment, setComment] = useState('');
+  const [answers, setAnswers] = useState<Record<string, number | string>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
   const [submitted, setSubmitted] = useState(false);
   const [error, setError] = useState<string>('');
 
-  // Verify token
   useEffect(() => {
-    try {
-      const decoded = atob(token);
-      const [apptId, clientId] = decoded.split(':');
-      if (apptId !== appointmentId) {
-        setError('Invalid rating link. Please contact the business for a new link.');
+    document.documentElement.classList.add('dark');
+    getRatingRequest(token).then(result => {
+      if (result.data) {
+        setRequest(result.data);
+        setSelectedStaffId(result.data.staffId || '');
+        setSubmitted(result.data.alreadyRated);
+        document.title = `Rate ${result.data.businessName}`;
+      } else {
+        setLoadError(result.error === 'API_UNAVAILABLE'
+          ? 'This page is unavailable right now. Please try again later.'
+          : result.error || 'Invalid rating link. Please contact the business for a new link.');
       }
-    } catch (e) {
-      setError('Invalid rating link format.');
-    }
-  }, [token, appointmentId]);
+    });
+  }, [token]);
 
-  if (error) {
+  if (loadError) {
     return (
       <div className="min-h-screen bg-black text-white flex items-center justify-center p-4">
         <div className="text-center">
           <h1 className="text-2xl font-bold mb-4 text-orange-500">Error</h1>
-          <p className="text-zinc-400">{error}</p>
+          <p className="text-zinc-400">{loadError}</p>
         </div>
       </div>
     );
   }
 
-  if (!appointment || !client || !business) {
+  if (!request) {
     return (
       <div className="min-h-screen bg-black text-white flex items-center justify-center p-4">
         <div className="text-center">
@@ -65,17 +61,6 @@ const RatingPage: React.FC<RatingPageProps> = ({
     );
   }
 
-  if (appointment.status !== AppointmentStatus.COMPLETED) {
-    return (
-      <div className="min-h-screen bg-black text-white flex items-center justify-center p-4">
-        <div className="text-center">
-          <h1 className="text-2xl font-bold mb-4 text-orange-500">Appointment Not Completed</h1>
-          <p className="text-zinc-400">This appointment has not been marked as completed yet.</p>
-        </div>
-      </div>
-    );
-  }
-
   if (submitted) {
     return (
       <div className="min-h-screen bg-black text-white flex items-center justify-center p-4">
@@ -83,31 +68,41 @@ const RatingPage: React.FC<RatingPageProps> = ({
           <div className="text-6xl mb-4">✓</div>
           <h1 className="text-3xl font-bold mb-4 text-orange-500">Thank You!</h1>
           <p className="text-zinc-400 mb-6">
-            Your feedback has been submitted. We appreciate you taking the time to rate your experience at {business.name}.
+            Your feedback has been submitted. We appreciate you taking the time to rate your experience at {request.businessName}.
           </p>
         </div>
       </div>
     );
   }
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    
+    if (isSubmitting) return;
+
     if (businessRating === 0) {
       setError('Please rate your overall experience.');
       return;
     }
+    const unanswered = request.questions.find(q => q.required && (answers[q.id] === undefined || String(answers[q.id]).trim() === ''));
+    if (unanswered) {
+      setError(`Please answer "${unanswered.prompt}"`);
+      return;
+    }
 
-    const rating: Omit<ClientRating, 'id'> = {
-      appointmentId: appointment.id,
-      clientId: client.id,
+    setIsSubmitting(true);
+    setError('');
+    const result = await submitRating(token, {
       businessRating,
-      staffRating: staffRating > 0 ? staffRating : undefined,
+      staffRating: selectedStaffId && staffRating > 0 ? staffRating : undefined,
       staffId: selectedStaffId || undefined,
       comment: comment.trim() || undefined,
-    };
-
-    onSubmitRating(rating);
+      answers: Object.keys(answers).map(questionId => ({ questionId, value: answers[questionId] })),
+    });
+    setIsSubmitting(false);
+    if (result.error) {
+      setError(result.error === 'API_UNAVAILABLE' ? 'Could not reach the server. Please try again.' : result.error);
+      return;
+    }
     setSubmitted(true);
   };
 
@@ -131,19 +126,86 @@ const RatingPage: React.FC<RatingPageProps> = ({
     </div>
   );
 
+  const setAnswer = (questionId: string, value: number | string) => setAnswers(prev => ({ ...prev, [questionId]: value }));
+
+  // A plain render function rather than a component, so the text input keeps focus while typing
+  const surveyField = (question: SurveyQuestion) => {
+    const value = answers[question.id];
+    const label = `${question.prompt}${question.required ? ' *' : ' (Optional)'}`;
+    if (question.type === 'NPS') {
+      return (
+        <div key={question.id} className="mb-6">
+          <label className="block text-sm font-medium mb-2">{label}</label>
+          <div className="grid grid-cols-11 gap-1">
+            {Array.from({ length: 11 }, (_, score) => (
+              <button
+                key={score}
+                type="button"
+                onClick={() => setAnswer(question.id, score)}
+                className={`py-2 text-sm font-bold rounded border transition-colors ${
+                  value === score ? 'bg-orange-500 border-orange-500 text-black' : 'border-zinc-700 text-zinc-400 hover:border-orange-400'
+                }`}
+              >
+                {score}
+              </button>
+            ))}
+          </div>
+          <div className="flex justify-between text-xs text-zinc-500 mt-1">
+            <span>Not likely</span>
+            <span>Very likely</span>
+          </div>
+        </div>
+      );
+    }
+    if (question.type === 'CHOICE') {
+      return (
+        <div key={question.id} className="mb-6">
+          <label className="block text-sm font-medium mb-2">{label}</label>
+          <div className="flex flex-wrap gap-2">
+            {(question.options || []).map(option => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setAnswer(question.id, option)}
+                className={`px-4 py-2 text-sm rounded border transition-colors ${
+                  value === option ? 'bg-orange-500 border-orange-500 text-black font-bold' : 'border-zinc-700 text-zinc-300 hover:border-orange-400'
+                }`}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+        </div>
+      );
+    }
+    return (
+      <div key={question.id} className="mb-6">
+        <label className="block text-sm font-medium mb-2">{label}</label>
+        <input
+          type="text"
+          value={(value as string) || ''}
+          onChange={(e) => setAnswer(question.id, e.target.value)}
+          maxLength={1000}
+          className="w-full bg-zinc-800 border border-zinc-700 rounded px-4 py-2 text-white"
+        />
+      </div>
+    );
+  };
+
   return (
     <div className="min-h-screen bg-black text-white p-4">
       <div className="max-w-2xl mx-auto py-8">
         <div className="bg-zinc-900 rounded-lg p-6 md:p-8 border border-zinc-800">
           <h1 className="text-3xl font-bold mb-2 text-orange-500">Rate Your Experience</h1>
           <p className="text-zinc-400 mb-6">
-            Thank you for visiting <strong>{business.name}</strong>!
+            Thank you for visiting <strong>{request.businessName}</strong>{request.clientName && `, ${request.clientName}`}!
           </p>
 
           <div className="mb-6 p-4 bg-zinc-800 rounded border border-zinc-700">
             <p className="text-sm text-zinc-400 mb-2">Appointment Details:</p>
-            <p className="font-medium">{appointment.date}</p>
-            <p className="text-zinc-400">{appointment.time}</p>
+            <p className="font-medium">{request.serviceName}</p>
+            <p className="font-medium">{request.date}</p>
+            <p className="text-zinc-400">{formatTime(request.time)}</p>
           </div>
 
           <form onSubmit={handleSubmit}>
@@ -153,7 +215,7 @@ const RatingPage: React.FC<RatingPageProps> = ({
               label="Overall Experience *"
             />
 
-            {business.staff && business.staff.length > 0 && (
+            {request.staff.length > 0 && (
               <>
                 <div className="mb-4">
                   <label className="block text-sm font-medium mb-2">Staff Member (Optional)</label>
@@ -163,7 +225,7 @@ const RatingPage: React.FC<RatingPageProps> = ({
                     className="w-full bg-zinc-800 border border-zinc-700 rounded px-4 py-2 text-white"
                   >
                     <option value="">Select a staff member</option>
-                    {business.staff.map((staff) => (
+                    {request.staff.map((staff) => (
                       <option key={staff.id} value={staff.id}>
                         {staff.name}
                       </option>
@@ -181,6 +243,8 @@ const RatingPage: React.FC<RatingPageProps> = ({
               </>
             )}
 
+            {request.questions.map(surveyField)}
+
             <div className="mb-6">
               <label className="block text-sm font-medium mb-2">Comments (Optional)</label>
               <textarea
@@ -200,9 +264,10 @@ const RatingPage: React.FC<RatingPageProps> = ({
 
             <button
               type="submit"
-              className="w-full bg-orange-500 text-black font-bold py-3 px-6 rounded hover:bg-orange-600 transition-colors"
+              disabled={isSubmitting}
+              className="w-full bg-orange-500 text-black font-bold py-3 px-6 rounded hover:bg-orange-600 transition-colors disabled:opacity-50 disabled:cursor-wait"
             >
-              Submit Rating
+              {isSubmitting ? 'Submitting...' : 'Submit Rating'}
             </button>
           </form>
         </div>
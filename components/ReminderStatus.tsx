@@ -0,0 +1,49 @@
+import React, { useEffect, useState } from 'react';
+import { Bell } from 'lucide-react';
+import { ReminderDelivery } from '../types';
+import { listReminderDeliveries } from '../services/apiService';
+
+interface ReminderStatusProps {
+  appointmentId: string;
+  date: string; // the occurrence being viewed; recurring appointments get reminders per occurrence
+}
+
+/** The reminder emails sent for an appointment, in its details panel. Hidden when none were sent or offline. */
+const ReminderStatus: React.FC<ReminderStatusProps> = ({ appointmentId, date }) => {
+  const [deliveries, setDeliveries] = useState<ReminderDelivery[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    listReminderDeliveries(appointmentId).then(result => {
+      if (!cancelled) setDeliveries(result.data || []);
+    });
+    return () => { cancelled = true; };
+  }, [appointmentId]);
+
+  const shown = deliveries.filter(d => d.date === date);
+  if (shown.length === 0) return null;
+
+  return (
+    <div className="p-4 bg-zinc-900 border border-zinc-800">
+      <p className="text-xs font-bold text-zinc-500 uppercase tracking-widest mb-2 flex items-center gap-2">
+        <Bell className="w-3 h-3" /> Reminders
+      </p>
+      <div className="space-y-1">
+        {shown.map(delivery => (
+          <p key={delivery.hoursBefore} className="text-sm flex justify-between gap-4">
+            <span className="text-white">
+              {delivery.hoursBefore}h before · {new Date(delivery.sentAt).toLocaleString([], { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}
+            </span>
+            {delivery.status === 'SENT' ? (
+              <span className="text-[10px] font-bold uppercase tracking-widest text-emerald-500">Sent</span>
+            ) : (
+              <span className="text-[10px] font-bold uppercase tracking-widest text-red-500" title={delivery.error}>Failed</span>
+            )}
+          </p>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ReminderStatus;
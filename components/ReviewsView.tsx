@@ -0,0 +1,499 @@
+import React, { useMemo, useState } from 'react';
+import { ResponsiveContainer, BarChart, Bar, XAxis, YAxis, Tooltip as RechartsTooltip } from 'recharts';
+import { Star, Search, Flag, EyeOff, Eye, Award, MessageSquare, Globe, ClipboardList } from 'lucide-react';
+import { BusinessProfile, ClientRating, Appointment, Client } from '../types';
+import { summarizeSurvey, QuestionSummary } from '../backend/lib/survey';
+
+interface ReviewsViewProps {
+  business: BusinessProfile;
+  ratings: ClientRating[];
+  appointments: Appointment[];
+  clients: Client[];
+  onUpdateRating: (rating: ClientRating) => void;
+  onUpdateBusiness: (business: BusinessProfile) => void;
+}
+
+type Range = '30D' | '90D' | '12M' | 'ALL';
+type CommentFilter = 'ALL' | 'FLAGGED' | 'HIDDEN' | 'FEATURED';
+
+const RANGE_DAYS: Record<Range, number | null> = { '30D': 30, '90D': 90, '12M': 365, 'ALL': null };
+const TREND_MONTHS = 12;
+
+const average = (values: number[]) => values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+
+/** Count of each star value, 5 down to 1. */
+function distribution(values: number[]) {
+  return [5, 4, 3, 2, 1].map(stars => ({ stars, count: values.filter(v => v === stars).length }));
+}
+
+/** Average business rating and review count per month, oldest first, ending this month. */
+function monthlyTrend(ratings: ClientRating[], months: number) {
+  const now = new Date();
+  return Array.from({ length: months }, (_, i) => {
+    const month = new Date(now.getFullYear(), now.getMonth() - (months - 1 - i), 1);
+    const key = `${month.getFullYear()}-${String(month.getMonth() + 1).padStart(2, '0')}`;
+    const inMonth = ratings.filter(r => r.date?.startsWith(key) && r.businessRating);
+    return {
+      name: month.toLocaleString([], { month: 'short' }),
+      average: Number(average(inMonth.map(r => r.businessRating!)).toFixed(2)),
+      reviews: inMonth.length
+    };
+  });
+}
+
+/** Average of `valueOf` per key, best first; ratings without a key or value are left out. */
+function averagesBy(ratings: ClientRating[], keyOf: (r: ClientRating) => string | undefined, valueOf: (r: ClientRating) => number | undefined) {
+  const groups = new Map<string, number[]>();
+  for (const rating of ratings) {
+    const key = keyOf(rating);
+    const value = valueOf(rating);
+    if (!key || !value) continue;
+    groups.set(key, [...(groups.get(key) || []), value]);
+  }
+  return [...groups.entries()]
+    .map(([key, values]) => ({ key, average: average(values), count: values.length }))
+    .sort((a, b) => b.average - a.average || b.count - a.count);
+}
+
+const Stars: React.FC<{ value: number; size?: string }> = ({ value, size = 'w-4 h-4' }) => (
+  <span className="flex gap-0.5">
+    {[1, 2, 3, 4, 5].map(n => (
+      <Star key={n} className={`${size} ${n <= Math.round(value) ? 'text-yellow-500 fill-yellow-500' : 'text-zinc-300 dark:text-zinc-700'}`} />
+    ))}
+  </span>
+);
+
+/** Owner's reviews dashboard: distribution, trends, staff and service breakdowns, survey results and comment moderation. */
+const ReviewsView: React.FC<ReviewsViewProps> = ({ business, ratings, appointments, clients, onUpdateRating, onUpdateBusiness }) => {
+  const [range, setRange] = useState<Range>('90D');
+  const [search, setSearch] = useState('');
+  const [filter, setFilter] = useState<CommentFilter>('ALL');
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [replyText, setReplyText] = useState('');
+
+  const appointmentById = useMemo(() => new Map(appointments.map(a => [a.id, a])), [appointments]);
+  const clientName = (id: string) => clients.find(c => c.id === id)?.name || 'Client';
+  const staffName = (id?: string) => business.staff?.find(s => s.id === id)?.name;
+  const serviceName = (id?: string) => business.services.find(s => s.id === id)?.name;
+
+  const inRange = useMemo(() => {
+    const days = RANGE_DAYS[range];
+    if (days === null) return ratings;
+    const since = Date.now() - days * 24 * 60 * 60 * 1000;
+    return ratings.filter(r => Date.parse(r.date) >= since);
+  }, [ratings, range]);
+
+  const stats = useMemo(() => {
+    const businessValues = inRange.filter(r => r.businessRating).map(r => r.businessRating!);
+    const staffValues = inRange.filter(r => r.staffRating).map(r => r.staffRating!);
+    return {
+      business: average(businessValues),
+      staff: average(staffValues),
+      count: inRange.length,
+      flagged: ratings.filter(r => r.flagged).length,
+      businessDistribution: distribution(businessValues),
+      staffDistribution: distribution(staffValues),
+      byStaff: averagesBy(inRange, r => r.staffId, r => r.staffRating),
+      byService: averagesBy(inRange, r => appointmentById.get(r.appointmentId)?.serviceId, r => r.businessRating)
+    };
+  }, [inRange, ratings, appointmentById]);
+
+  const trend = useMemo(() => monthlyTrend(ratings, TREND_MONTHS), [ratings]);
+
+  // Removed questions still show while they have answers in the period
+  const survey = useMemo(
+    () => summarizeSurvey(business.surveyQuestions || [], inRange).filter(q => !q.retired || q.count > 0),
+    [business.surveyQuestions, inRange]
+  );
+
+  const comments = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return ratings
+      .filter(r => r.comment)
+      .filter(r => filter === 'FLAGGED' ? r.flagged : filter === 'HIDDEN' ? r.hidden : filter === 'FEATURED' ? r.featured : !r.hidden)
+      .filter(r => !query
+        || r.comment!.toLowerCase().includes(query)
+        || (r.reply || '').toLowerCase().includes(query)
+        || clientName(r.clientId).toLowerCase().includes(query))
+      .sort((a, b) => (b.date || '').localeCompare(a.date || ''));
+  }, [ratings, search, filter, clients]);
+
+  // Hidden and flagged reviews come off the booking page
+  const update = (rating: ClientRating, changes: Partial<ClientRating>) => {
+    const next = { ...rating, ...changes };
+    if (next.hidden || next.flagged) next.featured = false;
+    onUpdateRating(next);
+  };
+
+  const saveReply = (rating: ClientRating) => {
+    const reply = replyText.trim();
+    update(rating, { reply: reply || undefined, repliedAt: reply ? new Date().toISOString() : undefined });
+    setReplyingTo(null);
+    setReplyText('');
+  };
+
+  const featuredCount = ratings.filter(r => r.featured && !r.hidden && !r.flagged).length;
+
+  const Distribution: React.FC<{ title: string; rows: { stars: number; count: number }[] }> = ({ title, rows }) => {
+    const max = Math.max(1, ...rows.map(r => r.count));
+    return (
+      <div>
+        <p className="text-xs font-bold text-zinc-500 uppercase tracking-widest mb-3">{title}</p>
+        <div className="space-y-2">
+          {rows.map(row => (
+            <div key={row.stars} className="flex items-center gap-3 text-sm">
+              <span className="w-6 font-mono text-zinc-500">{row.stars}★</span>
+              <div className="flex-1 h-3 bg-zinc-100 dark:bg-zinc-800">
+                <div className="h-3 bg-yellow-500 transition-all" style={{ width: `${(row.count / max) * 100}%` }}></div>
+              </div>
+              <span className="w-8 text-right font-mono text-zinc-900 dark:text-white">{row.count}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  const Breakdown: React.FC<{ title: string; rows: { key: string; average: number; count: number }[]; nameOf: (key: string) => string }> = ({ title, rows, nameOf }) => (
+    <div className="bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 p-6 shadow-sm">
+      <p className="text-xs font-bold text-zinc-500 uppercase tracking-widest mb-4">{title}</p>
+      {rows.length === 0 ? (
+        <p className="text-sm text-zinc-500">No ratings in this period.</p>
+      ) : (
+        <div className="divide-y divide-zinc-100 dark:divide-zinc-800">
+          {rows.map(row => (
+            <div key={row.key} className="flex items-center justify-between py-2 gap-4">
+              <span className="text-sm font-bold text-zinc-900 dark:text-white truncate">{nameOf(row.key)}</span>
+              <span className="flex items-center gap-3 flex-shrink-0">
+                <Stars value={row.average} size="w-3 h-3" />
+                <span className="font-mono text-sm text-zinc-900 dark:text-white">{row.average.toFixed(1)}</span>
+                <span className="text-xs text-zinc-500 w-16 text-right">{row.count} rating{row.count !== 1 ? 's' : ''}</span>
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+
+  const SurveyCard: React.FC<{ summary: QuestionSummary }> = ({ summary }) => {
+    const percent = (n: number) => summary.count > 0 ? Math.round((n / summary.count) * 100) : 0;
+    return (
+      <div className="bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 p-6 shadow-sm">
+        <div className="flex justify-between items-start gap-4 mb-4">
+          <p className="text-sm font-bold text-zinc-900 dark:text-white">{summary.prompt}</p>
+          <span className="text-xs text-zinc-500 flex-shrink-0">
+            {summary.count} answer{summary.count !== 1 ? 's' : ''}{summary.retired && ' · removed'}
+          </span>
+        </div>
+
+        {summary.nps && (
+          <div>
+            <div className="flex items-end gap-3 mb-4">
+              <p className={`text-4xl font-bold ${summary.nps.count === 0 ? 'text-zinc-400' : summary.nps.score >= 0 ? 'text-emerald-500' : 'text-red-500'}`}>
+                {summary.nps.count > 0 ? (summary.nps.score > 0 ? `+${summary.nps.score}` : summary.nps.score) : 'N/A'}
+              </p>
+              <p className="text-xs font-bold text-zinc-500 uppercase tracking-widest pb-1">Net Promoter Score</p>
+            </div>
+            <div className="flex h-3 mb-2 bg-zinc-100 dark:bg-zinc-800">
+              <div className="bg-emerald-500" style={{ width: `${percent(summary.nps.promoters)}%` }}></div>
+              <div className="bg-zinc-400" style={{ width: `${percent(summary.nps.passives)}%` }}></div>
+              <div className="bg-red-500" style={{ width: `${percent(summary.nps.detractors)}%` }}></div>
+            </div>
+            <div className="flex justify-between text-xs text-zinc-500 mb-4">
+              <span>Promoters {percent(summary.nps.promoters)}%</span>
+              <span>Passives {percent(summary.nps.passives)}%</span>
+              <span>Detractors {percent(summary.nps.detractors)}%</span>
+            </div>
+            <div className="grid grid-cols-11 gap-1 items-end h-16">
+              {summary.scores!.map((count, score) => (
+                <div key={score} className="flex flex-col items-center justify-end h-full gap-1">
+                  <div
+                    className={`w-full ${score >= 9 ? 'bg-emerald-500' : score >= 7 ? 'bg-zinc-400' : 'bg-red-500'}`}
+                    style={{ height: `${(count / Math.max(1, ...summary.scores!)) * 100}%` }}
+                    title={`${score}: ${count}`}
+                  ></div>
+                  <span className="text-[10px] font-mono text-zinc-500">{score}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {summary.choices && (
+          <div className="space-y-2">
+            {summary.choices.map(choice => (
+              <div key={choice.option} className="text-sm">
+                <div className="flex justify-between mb-1">
+                  <span className="text-zinc-700 dark:text-zinc-300 truncate">{choice.option}</span>
+                  <span className="font-mono text-zinc-900 dark:text-white">{choice.count} · {percent(choice.count)}%</span>
+                </div>
+                <div className="h-2 bg-zinc-100 dark:bg-zinc-800">
+                  <div className="h-2 bg-orange-600" style={{ width: `${percent(choice.count)}%` }}></div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {summary.recent && (
+          summary.recent.length === 0 ? (
+            <p className="text-sm text-zinc-500">No answers in this period.</p>
+          ) : (
+            <div className="space-y-3 max-h-64 overflow-y-auto">
+              {summary.recent.map((answer, i) => (
+                <div key={i} className="text-sm border-l-2 border-zinc-200 dark:border-zinc-800 pl-3">
+                  <p className="text-zinc-700 dark:text-zinc-300 whitespace-pre-line">{answer.value}</p>
+                  <p className="text-[10px] text-zinc-500 mt-0.5">{new Date(answer.date).toLocaleDateString([], { month: 'short', day: 'numeric', year: 'numeric' })}</p>
+                </div>
+              ))}
+            </div>
+          )
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="p-4 sm:p-8 max-w-7xl mx-auto pb-24 space-y-6 lg:space-y-8">
+      <header className="border-b border-zinc-200 dark:border-zinc-800 pb-6 flex flex-col md:flex-row md:justify-between md:items-end gap-4">
+        <div>
+          <h1 className="text-3xl sm:text-4xl font-bold text-zinc-900 dark:text-white uppercase tracking-wider mb-2 flex items-center gap-3">
+            <Star className="w-8 h-8 text-orange-600" />
+            Reviews
+          </h1>
+          <p className="text-zinc-500">What clients say, by staff member and service.</p>
+        </div>
+        <div className="flex gap-1">
+          {(Object.keys(RANGE_DAYS) as Range[]).map(r => (
+            <button
+              key={r}
+              onClick={() => setRange(r)}
+              className={`px-3 py-2 text-[10px] font-bold uppercase tracking-widest border transition-colors ${
+                range === r
+                  ? 'bg-zinc-900 dark:bg-white text-white dark:text-black border-zinc-900 dark:border-white'
+                  : 'bg-transparent text-zinc-500 border-zinc-200 dark:border-zinc-800 hover:border-zinc-900 dark:hover:border-white hover:text-zinc-900 dark:hover:text-white'
+              }`}
+            >
+              {r === 'ALL' ? 'All Time' : r}
+            </button>
+          ))}
+        </div>
+      </header>
+
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        {[
+          { label: 'Business Rating', value: stats.business ? stats.business.toFixed(1) : 'N/A' },
+          { label: 'Staff Rating', value: stats.staff ? stats.staff.toFixed(1) : 'N/A' },
+          { label: 'Reviews', value: String(stats.count) },
+          { label: 'Flagged', value: String(stats.flagged) }
+        ].map(card => (
+          <div key={card.label} className="bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 p-4 sm:p-6 shadow-sm">
+            <p className="text-xs font-bold text-zinc-500 uppercase tracking-widest mb-2">{card.label}</p>
+            <p className="text-3xl font-bold text-zinc-900 dark:text-white">{card.value}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 lg:gap-8">
+        <div className="bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 p-6 shadow-sm space-y-6">
+          <Distribution title="Business Ratings" rows={stats.businessDistribution} />
+          <Distribution title="Staff Ratings" rows={stats.staffDistribution} />
+        </div>
+        <div className="lg:col-span-2 bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 p-6 shadow-sm">
+          <p className="text-xs font-bold text-zinc-500 uppercase tracking-widest mb-4">Average Rating by Month</p>
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={trend}>
+                <XAxis dataKey="name" axisLine={false} tickLine={false} tick={{ fill: '#71717a', fontSize: 12, fontWeight: 700 }} dy={10} />
+                <YAxis hide domain={[0, 5]} />
+                <RechartsTooltip
+                  cursor={{ fill: '#f4f4f5' }}
+                  contentStyle={{ backgroundColor: '#18181b', borderColor: '#27272a', color: '#fff' }}
+                  itemStyle={{ color: '#ea580c' }}
+                  formatter={(value: any, _name: any, item: any) => [`${value || '–'} (${item.payload.reviews} reviews)`, 'Average']}
+                />
+                <Bar dataKey="average" fill="#ea580c" radius={[2, 2, 0, 0]} barSize={28} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 lg:gap-8">
+        <Breakdown title="By Staff Member" rows={stats.byStaff} nameOf={key => staffName(key) || 'Former staff'} />
+        <Breakdown title="By Service" rows={stats.byService} nameOf={key => serviceName(key) || 'Other'} />
+      </div>
+
+      {survey.length > 0 && (
+        <div>
+          <h2 className="text-xl font-bold text-zinc-900 dark:text-white uppercase tracking-wider flex items-center gap-2 mb-4">
+            <ClipboardList className="w-5 h-5 text-orange-600" /> Survey
+          </h2>
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 lg:gap-8">
+            {survey.map(summary => <SurveyCard key={summary.questionId} summary={summary} />)}
+          </div>
+        </div>
+      )}
+
+      <div className="bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 p-6 shadow-sm flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <p className="text-sm font-bold text-zinc-900 dark:text-white uppercase tracking-wide flex items-center gap-2">
+            <Globe className="w-4 h-4 text-orange-600" /> Testimonials on your booking page
+          </p>
+          <p className="text-xs text-zinc-500 mt-1">
+            Shows the reviews you feature ({featuredCount} now), with first names only. Hidden and flagged reviews never show.
+          </p>
+        </div>
+        <button
+          onClick={() => onUpdateBusiness({ ...business, showTestimonials: !business.showTestimonials })}
+          className={`px-4 py-2 text-xs font-bold uppercase tracking-widest border transition-colors ${
+            business.showTestimonials
+              ? 'bg-orange-600 border-orange-600 text-black'
+              : 'border-zinc-300 dark:border-zinc-700 text-zinc-500 hover:text-zinc-900 dark:hover:text-white'
+          }`}
+        >
+          {business.showTestimonials ? 'On' : 'Off'}
+        </button>
+      </div>
+
+      <div className="bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 shadow-sm">
+        <div className="p-4 sm:p-6 border-b border-zinc-200 dark:border-zinc-800 flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <h2 className="text-xl font-bold text-zinc-900 dark:text-white uppercase tracking-wider flex items-center gap-2">
+            <MessageSquare className="w-5 h-5 text-orange-600" /> Comments
+          </h2>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <div className="relative">
+              <Search className="w-4 h-4 text-zinc-500 absolute left-3 top-1/2 -translate-y-1/2" />
+              <input
+                type="text"
+                value={search}
+                onChange={e => setSearch(e.target.value)}
+                placeholder="Search comments"
+                className="w-full sm:w-64 bg-zinc-50 dark:bg-zinc-950 border border-zinc-200 dark:border-zinc-800 pl-9 pr-3 py-2 text-sm text-zinc-900 dark:text-white focus:border-orange-600 outline-none"
+              />
+            </div>
+            <div className="flex gap-1">
+              {(['ALL', 'FEATURED', 'FLAGGED', 'HIDDEN'] as CommentFilter[]).map(f => (
+                <button
+                  key={f}
+                  onClick={() => setFilter(f)}
+                  className={`px-3 py-2 text-[10px] font-bold uppercase tracking-widest border transition-colors ${
+                    filter === f
+                      ? 'bg-zinc-900 dark:bg-white text-white dark:text-black border-zinc-900 dark:border-white'
+                      : 'bg-transparent text-zinc-500 border-zinc-200 dark:border-zinc-800 hover:text-zinc-900 dark:hover:text-white'
+                  }`}
+                >
+                  {f === 'ALL' ? 'Visible' : f}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        {comments.length === 0 ? (
+          <p className="p-8 text-center text-sm text-zinc-500">{search ? 'No comments match your search.' : 'No comments here yet.'}</p>
+        ) : (
+          <div className="divide-y divide-zinc-100 dark:divide-zinc-800">
+            {comments.map(rating => {
+              const appointment = appointmentById.get(rating.appointmentId);
+              const details = [serviceName(appointment?.serviceId), staffName(rating.staffId) && `with ${staffName(rating.staffId)}`].filter(Boolean).join(' ');
+              return (
+                <div key={rating.id} className={`p-4 sm:p-6 ${rating.hidden ? 'opacity-60' : ''}`}>
+                  <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-3">
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-3 mb-1">
+                        <Stars value={rating.businessRating || 0} />
+                        <span className="text-sm font-bold text-zinc-900 dark:text-white">{clientName(rating.clientId)}</span>
+                        {rating.flagged && <span className="text-[10px] font-bold uppercase tracking-widest text-red-500">Flagged</span>}
+                        {rating.featured && <span className="text-[10px] font-bold uppercase tracking-widest text-orange-600">Featured</span>}
+                      </div>
+                      <p className="text-xs text-zinc-500 mb-2">
+                        {new Date(rating.date).toLocaleDateString([], { month: 'short', day: 'numeric', year: 'numeric' })}{details && ` · ${details}`}
+                      </p>
+                      <p className="text-sm text-zinc-700 dark:text-zinc-300 whitespace-pre-line">{rating.comment}</p>
+                      {rating.answers && rating.answers.length > 0 && (
+                        <div className="mt-2 space-y-0.5">
+                          {rating.answers.map(answer => (
+                            <p key={answer.questionId} className="text-xs text-zinc-500">
+                              {answer.prompt} <span className="font-bold text-zinc-700 dark:text-zinc-300">{answer.type === 'NPS' ? `${answer.value}/10` : answer.value}</span>
+                            </p>
+                          ))}
+                        </div>
+                      )}
+                      {rating.reply && replyingTo !== rating.id && (
+                        <div className="mt-3 pl-4 border-l-2 border-orange-600">
+                          <p className="text-[10px] font-bold uppercase tracking-widest text-zinc-500 mb-1">Your reply</p>
+                          <p className="text-sm text-zinc-700 dark:text-zinc-300 whitespace-pre-line">{rating.reply}</p>
+                        </div>
+                      )}
+                    </div>
+                    <div className="flex gap-1 flex-shrink-0">
+                      <button
+                        onClick={() => { setReplyingTo(rating.id); setReplyText(rating.reply || ''); }}
+                        title={rating.reply ? 'Edit reply' : 'Reply'}
+                        className="p-2 text-zinc-500 hover:text-orange-600 transition-colors"
+                      >
+                        <MessageSquare className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => update(rating, { featured: !rating.featured })}
+                        disabled={rating.hidden || rating.flagged}
+                        title={rating.featured ? 'Stop featuring' : 'Feature on booking page'}
+                        className={`p-2 transition-colors disabled:opacity-30 disabled:cursor-not-allowed ${rating.featured ? 'text-orange-600' : 'text-zinc-500 hover:text-orange-600'}`}
+                      >
+                        <Award className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => update(rating, { flagged: !rating.flagged })}
+                        title={rating.flagged ? 'Clear flag' : 'Flag for follow-up'}
+                        className={`p-2 transition-colors ${rating.flagged ? 'text-red-500' : 'text-zinc-500 hover:text-red-500'}`}
+                      >
+                        <Flag className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => update(rating, { hidden: !rating.hidden })}
+                        title={rating.hidden ? 'Show' : 'Hide'}
+                        className="p-2 text-zinc-500 hover:text-zinc-900 dark:hover:text-white transition-colors"
+                      >
+                        {rating.hidden ? <Eye className="w-4 h-4" /> : <EyeOff className="w-4 h-4" />}
+                      </button>
+                    </div>
+                  </div>
+                  {replyingTo === rating.id && (
+                    <div className="mt-3 animate-fade-in">
+                      <textarea
+                        value={replyText}
+                        onChange={e => setReplyText(e.target.value)}
+                        rows={3}
+                        autoFocus
+                        placeholder="Write a reply. It shows with the review if you feature it."
+                        className="w-full bg-zinc-50 dark:bg-zinc-950 border border-zinc-200 dark:border-zinc-800 p-3 text-sm text-zinc-900 dark:text-white focus:border-orange-600 outline-none resize-none"
+                      />
+                      <div className="flex justify-end gap-2 mt-2">
+                        <button
+                          onClick={() => { setReplyingTo(null); setReplyText(''); }}
+                          className="px-4 py-2 text-xs font-bold uppercase tracking-widest text-zinc-500 hover:text-zinc-900 dark:hover:text-white"
+                        >
+                          Cancel
+                        </button>
+                        <button
+                          onClick={() => saveReply(rating)}
+                          className="px-4 py-2 text-xs font-bold uppercase tracking-widest bg-orange-600 text-black hover:bg-orange-500"
+                        >
+                          {replyText.trim() ? 'Save Reply' : 'Remove Reply'}
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ReviewsView;
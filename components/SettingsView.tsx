@@ -1,20 +1,52 @@
 
 import React, { useState } from 'react';
-import { BusinessProfile, Service } from '../types';
-import { Plus, X, Edit3, Trash2, Store, DollarSign, Timer, Calculator, Moon, Sun, Camera, Upload, LogOut, Mail, Bell } from 'lucide-react';
+import { BusinessProfile, EmailTemplate, EmailTemplateKey, Service, Staff, SurveyQuestion } from '../types';
+import { businessTimeZone, toLocalDateStr } from '../constants';
+import { listTimeZones } from '../backend/lib/timeZone';
+import { EMAIL_TEMPLATES } from '../backend/lib/emailTemplates';
+import { Plus, X, Edit3, Trash2, Store, DollarSign, Timer, Calculator, Moon, Sun, Camera, Upload, LogOut, Mail, Bell, Users, CalendarOff, ClipboardList } from 'lucide-react';
+import StaffModal from './StaffModal';
+import SurveyQuestionModal from './SurveyQuestionModal';
+import EmailLogModal from './EmailLogModal';
+import EmailTemplateModal from './EmailTemplateModal';
+
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Hours before an appointment a client reminder email can go out
+const REMINDER_OPTIONS = [48, 24, 4, 2, 1];
+
+// The rating page asks at most this many survey questions (see backend/lib/survey.ts)
+const MAX_SURVEY_QUESTIONS = 10;
+
+const SURVEY_TYPE_LABELS: Record<SurveyQuestion['type'], string> = { NPS: 'Recommend 0-10', CHOICE: 'Multiple choice', TEXT: 'Free text' };
+
+// "Mon, Tue, Wed 09:00–17:00" when every working day has the same hours
+function describeSchedule(schedule: Staff['schedule']): string {
+  if (!schedule) return 'Business hours';
+  const days = schedule.map((hours, day) => (hours ? day : -1)).filter(day => day >= 0);
+  if (days.length === 0) return 'No working days';
+  const first = schedule[days[0]]!;
+  const same = days.every(day => schedule[day]!.start === first.start && schedule[day]!.end === first.end);
+  return `${days.map(day => DAY_NAMES[day]).join(', ')}${same ? ` ${first.start}–${first.end}` : ' (varying hours)'}`;
+}
 
 interface SettingsViewProps {
   business: BusinessProfile;
   onUpdate: (profile: BusinessProfile) => void;
   onLogout: () => void;
+  onLogoutAllDevices: () => void;
   isAuthenticated: boolean;
 }
 
-const SettingsView: React.FC<SettingsViewProps> = ({ business, onUpdate, onLogout, isAuthenticated }) => {
+const SettingsView: React.FC<SettingsViewProps> = ({ business, onUpdate, onLogout, onLogoutAllDevices, isAuthenticated }) => {
   // Modal States
   const [isProfileModalOpen, setIsProfileModalOpen] = useState(false);
   const [editingService, setEditingService] = useState<Service | null>(null);
   const [isServiceModalOpen, setIsServiceModalOpen] = useState(false);
+  const [editingStaff, setEditingStaff] = useState<{ staff: Staff; isNew: boolean } | null>(null);
+  const [isEmailLogOpen, setIsEmailLogOpen] = useState(false);
+  const [editingTemplate, setEditingTemplate] = useState<EmailTemplateKey | null>(null);
+  const [editingQuestion, setEditingQuestion] = useState<{ question: SurveyQuestion; isNew: boolean } | null>(null);
 
   // Form States
   const [profileForm, setProfileForm] = useState({
@@ -24,6 +56,9 @@ const SettingsView: React.FC<SettingsViewProps> = ({ business, onUpdate, onLogou
     category: business.category,
     start: business.workingHours.start,
     end: business.workingHours.end,
+    bufferMin: business.bufferMin || 0,
+    cancellationWindowHours: business.cancellationWindowHours || 0,
+    timeZone: businessTimeZone(business),
     taxRate: business.taxRate,
     avatarUrl: business.avatarUrl || ''
   });
@@ -48,6 +83,9 @@ const SettingsView: React.FC<SettingsViewProps> = ({ business, onUpdate, onLogou
       category: profileForm.category,
       taxRate: Number(profileForm.taxRate),
       workingHours: { start: profileForm.start, end: profileForm.end },
+      bufferMin: Math.max(0, Number(profileForm.bufferMin) || 0),
+      cancellationWindowHours: Math.max(0, Math.round(Number(profileForm.cancellationWindowHours) || 0)) || undefined,
+      timeZone: profileForm.timeZone,
       avatarUrl: profileForm.avatarUrl || undefined
     });
     setIsProfileModalOpen(false);
@@ -95,6 +133,12 @@ const SettingsView: React.FC<SettingsViewProps> = ({ business, onUpdate, onLogou
     onUpdate({ ...business, calendarNotificationsEnabled: true });
   };
 
+  const toggleReminder = (hours: number) => {
+    const current = business.reminderHours || [];
+    const next = current.includes(hours) ? current.filter(h => h !== hours) : [...current, hours].sort((a, b) => b - a);
+    onUpdate({ ...business, reminderHours: next.length > 0 ? next : undefined });
+  };
+
   const openEditService = (service: Service) => {
     setServiceForm({ ...service });
     setEditingService(service);
@@ -128,12 +172,54 @@ const SettingsView: React.FC<SettingsViewProps> = ({ business, onUpdate, onLogou
     }
   };
 
+  const handleSaveStaff = (member: Staff) => {
+    const staff = business.staff || [];
+    onUpdate({
+      ...business,
+      staff: staff.some(s => s.id === member.id) ? staff.map(s => (s.id === member.id ? member : s)) : [...staff, member]
+    });
+    setEditingStaff(null);
+  };
+
+  const handleDeleteStaff = (id: string) => {
+    if (confirm('Remove this staff member? Their appointments stay on the calendar, unassigned.')) {
+      onUpdate({ ...business, staff: (business.staff || []).filter(s => s.id !== id) });
+    }
+  };
+
+  const handleSaveQuestion = (question: SurveyQuestion) => {
+    const questions = business.surveyQuestions || [];
+    onUpdate({
+      ...business,
+      surveyQuestions: questions.some(q => q.id === question.id)
+        ? questions.map(q => (q.id === question.id ? question : q))
+        : [...questions, question]
+    });
+    setEditingQuestion(null);
+  };
+
+  const handleDeleteQuestion = (id: string) => {
+    if (confirm('Remove this question? Answers already given stay in your reviews.')) {
+      onUpdate({ ...business, surveyQuestions: (business.surveyQuestions || []).filter(q => q.id !== id) });
+    }
+  };
+
+  const handleSaveTemplate = (key: EmailTemplateKey, template: EmailTemplate | undefined) => {
+    const templates = { ...business.emailTemplates };
+    if (template) templates[key] = template;
+    else delete templates[key];
+    onUpdate({ ...business, emailTemplates: Object.keys(templates).length > 0 ? templates : undefined });
+    setEditingTemplate(null);
+  };
+
+  const today = toLocalDateStr();
+
   return (
     <div className="px-4 py-5 sm:p-6 lg:p-8 max-w-5xl mx-auto pb-24">
       <header className="mb-8 lg:mb-10 border-b border-zinc-200 dark:border-zinc-800 pb-6 flex flex-col gap-4 sm:flex-row sm:justify-between sm:items-end">
         <div>
             <h1 className="text-4xl font-bold text-zinc-900 dark:text-white uppercase tracking-wider mb-2">Settings</h1>
-            <p className="text-zinc-500 mb-2">Manage your business profile and service menu.</p>
+            <p className="text-zinc-500 mb-2">Manage your business profile, service menu and staff.</p>
             <div className="flex items-center gap-2 text-orange-600 text-xs font-bold uppercase tracking-widest bg-orange-600/10 px-2 py-1 w-fit rounded-sm">
                 <Mail className="w-3 h-3" />
                 {business.email}
@@ -194,6 +280,49 @@ const SettingsView: React.FC<SettingsViewProps> = ({ business, onUpdate, onLogou
               {business.calendarNotificationsEnabled ? 'Notifications On' : 'Notifications Off'}
             </button>
           </div>
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mt-6 pt-6 border-t border-zinc-200 dark:border-zinc-800">
+            <div>
+              <p className="text-sm font-bold text-zinc-900 dark:text-white uppercase tracking-wide">Client reminder emails</p>
+              <p className="text-xs sm:text-sm text-zinc-500 mt-1">
+                Email clients before their appointment with links to confirm or cancel. Confirming a pending booking confirms it.
+              </p>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {REMINDER_OPTIONS.map(hours => {
+                const isOn = !!business.reminderHours?.includes(hours);
+                return (
+                  <button
+                    key={hours}
+                    onClick={() => toggleReminder(hours)}
+                    className={`px-3 py-2 font-bold uppercase tracking-widest text-xs border transition-colors ${
+                      isOn
+                        ? 'bg-orange-600 border-orange-600 text-black hover:bg-orange-500'
+                        : 'bg-zinc-100 dark:bg-zinc-800 border-zinc-300 dark:border-zinc-700 text-zinc-700 dark:text-zinc-200 hover:border-orange-600'
+                    }`}
+                    aria-pressed={isOn}
+                  >
+                    {hours}h before
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+          {isAuthenticated && (
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mt-6 pt-6 border-t border-zinc-200 dark:border-zinc-800">
+              <div>
+                <p className="text-sm font-bold text-zinc-900 dark:text-white uppercase tracking-wide">Email log</p>
+                <p className="text-xs sm:text-sm text-zinc-500 mt-1">
+                  Every email sent for your business: bookings, reminders, rating requests and more, and whether it went out.
+                </p>
+              </div>
+              <button
+                onClick={() => setIsEmailLogOpen(true)}
+                className="w-full sm:w-auto min-w-[170px] px-4 py-2 font-bold uppercase tracking-widest text-xs border bg-zinc-100 dark:bg-zinc-800 border-zinc-300 dark:border-zinc-700 text-zinc-700 dark:text-zinc-200 hover:border-orange-600 transition-colors flex items-center justify-center gap-2"
+              >
+                <Mail className="w-4 h-4" /> View Log
+              </button>
+            </div>
+          )}
         </div>
       </section>
 
@@ -216,6 +345,8 @@ const SettingsView: React.FC<SettingsViewProps> = ({ business, onUpdate, onLogou
                 category: business.category,
                 start: business.workingHours.start,
                 end: business.workingHours.end,
+                bufferMin: business.bufferMin || 0,
+                timeZone: businessTimeZone(business),
                 taxRate: business.taxRate,
                 avatarUrl: business.avatarUrl || ''
               });
@@ -331,20 +462,194 @@ const SettingsView: React.FC<SettingsViewProps> = ({ business, onUpdate, onLogou
         </div>
       </section>
 
+      {/* Staff Section */}
+      <section className="mb-12">
+        <div className="flex justify-between items-end mb-6">
+          <h2 className="text-xl font-bold text-zinc-900 dark:text-white uppercase tracking-wide flex items-center gap-2">
+            <Users className="w-5 h-5 text-orange-600" /> Staff
+          </h2>
+          <button
+            onClick={() => {
+              if (!isAuthenticated) {
+                alert('Please sign in to add staff.');
+                return;
+              }
+              setEditingStaff({ staff: { id: Math.random().toString(36).substring(2, 9), name: '' }, isNew: true });
+            }}
+            disabled={!isAuthenticated}
+            className={`bg-zinc-900 dark:bg-white text-white dark:text-black hover:bg-zinc-700 dark:hover:bg-zinc-200 px-4 py-2 flex items-center gap-2 text-xs font-bold uppercase tracking-widest transition-colors shadow-sm ${
+              !isAuthenticated ? 'opacity-50 cursor-not-allowed' : ''
+            }`}
+          >
+            <Plus className="w-4 h-4" /> Add Staff
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 gap-4">
+          {(business.staff || []).map(member => {
+            const upcomingOff = (member.timeOff || []).filter(off => off.endDate >= today).sort((a, b) => a.startDate.localeCompare(b.startDate));
+            const services = member.serviceIds?.length
+              ? business.services.filter(s => member.serviceIds!.includes(s.id)).map(s => s.name).join(', ')
+              : 'All services';
+            return (
+              <div key={member.id} className="bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 p-6 flex flex-col md:flex-row md:items-center justify-between gap-4 hover:border-zinc-400 dark:hover:border-zinc-700 transition-all shadow-sm">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-3 mb-1">
+                    <h3 className="text-lg font-bold text-zinc-900 dark:text-white uppercase">{member.name}</h3>
+                    {member.role && (
+                      <span className="bg-zinc-100 dark:bg-zinc-800 text-zinc-500 dark:text-zinc-400 text-[10px] font-bold px-2 py-0.5 uppercase tracking-wide rounded-sm">{member.role}</span>
+                    )}
+                  </div>
+                  <p className="text-zinc-500 text-sm flex items-center gap-1"><Timer className="w-3 h-3" /> {describeSchedule(member.schedule)}</p>
+                  <p className="text-zinc-500 text-sm truncate">{services}</p>
+                  {upcomingOff.length > 0 && (
+                    <p className="text-amber-600 text-xs mt-1 flex items-center gap-1">
+                      <CalendarOff className="w-3 h-3" />
+                      Off {upcomingOff[0].startDate === upcomingOff[0].endDate ? upcomingOff[0].startDate : `${upcomingOff[0].startDate} – ${upcomingOff[0].endDate}`}
+                      {upcomingOff.length > 1 && ` (+${upcomingOff.length - 1} more)`}
+                    </p>
+                  )}
+                </div>
+                <div className="flex items-center gap-2 md:border-l border-zinc-200 dark:border-zinc-800 md:pl-6">
+                  <button onClick={() => setEditingStaff({ staff: member, isNew: false })} className="p-2 text-zinc-400 hover:text-zinc-900 dark:hover:text-white transition-colors">
+                    <Edit3 className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => handleDeleteStaff(member.id)} className="p-2 text-zinc-400 hover:text-red-500 transition-colors">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+
+          {(business.staff || []).length === 0 && (
+            <div className="text-center p-12 border border-dashed border-zinc-300 dark:border-zinc-800 text-zinc-500 uppercase tracking-widest text-sm">
+              No staff yet. Add people to give each their own hours and calendar lane.
+            </div>
+          )}
+        </div>
+      </section>
+
+      {/* Rating Survey Section */}
+      <section className="mb-12">
+        <div className="flex justify-between items-end mb-6">
+          <h2 className="text-xl font-bold text-zinc-900 dark:text-white uppercase tracking-wide flex items-center gap-2">
+            <ClipboardList className="w-5 h-5 text-orange-600" /> Rating Survey
+          </h2>
+          <button
+            onClick={() => {
+              if (!isAuthenticated) {
+                alert('Please sign in to add survey questions.');
+                return;
+              }
+              const nps = !(business.surveyQuestions || []).some(q => q.type === 'NPS');
+              setEditingQuestion({
+                question: {
+                  id: Math.random().toString(36).substring(2, 9),
+                  // Most businesses start with the recommend question
+                  type: nps ? 'NPS' : 'TEXT',
+                  prompt: nps ? 'How likely are you to recommend us to a friend?' : ''
+                },
+                isNew: true
+              });
+            }}
+            disabled={!isAuthenticated || (business.surveyQuestions || []).length >= MAX_SURVEY_QUESTIONS}
+            className="bg-zinc-900 dark:bg-white text-white dark:text-black hover:bg-zinc-700 dark:hover:bg-zinc-200 px-4 py-2 flex items-center gap-2 text-xs font-bold uppercase tracking-widest transition-colors shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Plus className="w-4 h-4" /> Add Question
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 gap-4">
+          {(business.surveyQuestions || []).map(question => {
+            const services = question.serviceIds?.length
+              ? business.services.filter(s => question.serviceIds!.includes(s.id)).map(s => s.name).join(', ')
+              : 'Every appointment';
+            return (
+              <div key={question.id} className="bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 p-6 flex flex-col md:flex-row md:items-center justify-between gap-4 hover:border-zinc-400 dark:hover:border-zinc-700 transition-all shadow-sm">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-3 mb-1">
+                    <h3 className="text-base font-bold text-zinc-900 dark:text-white">{question.prompt}</h3>
+                    <span className="bg-zinc-100 dark:bg-zinc-800 text-zinc-500 dark:text-zinc-400 text-[10px] font-bold px-2 py-0.5 uppercase tracking-wide rounded-sm flex-shrink-0">{SURVEY_TYPE_LABELS[question.type]}</span>
+                  </div>
+                  {question.options && <p className="text-zinc-500 text-sm truncate">{question.options.join(' / ')}</p>}
+                  <p className="text-zinc-500 text-xs truncate">{services}{question.required ? ' · Required' : ''}</p>
+                </div>
+                <div className="flex items-center gap-2 md:border-l border-zinc-200 dark:border-zinc-800 md:pl-6">
+                  <button onClick={() => setEditingQuestion({ question, isNew: false })} className="p-2 text-zinc-400 hover:text-zinc-900 dark:hover:text-white transition-colors">
+                    <Edit3 className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => handleDeleteQuestion(question.id)} className="p-2 text-zinc-400 hover:text-red-500 transition-colors">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+
+          {(business.surveyQuestions || []).length === 0 && (
+            <div className="text-center p-12 border border-dashed border-zinc-300 dark:border-zinc-800 text-zinc-500 uppercase tracking-widest text-sm">
+              Ratings ask for stars and a comment. Add questions to learn more, like how likely clients are to recommend you.
+            </div>
+          )}
+        </div>
+      </section>
+
+      {/* Email Templates Section */}
+      <section className="mb-12">
+        <div className="mb-6">
+          <h2 className="text-xl font-bold text-zinc-900 dark:text-white uppercase tracking-wide flex items-center gap-2">
+            <Mail className="w-5 h-5 text-orange-600" /> Email Templates
+          </h2>
+          <p className="text-xs sm:text-sm text-zinc-500 mt-1">
+            Change the wording of the emails sent for you. Your business name and photo are added to every one.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 gap-4">
+          {(Object.keys(EMAIL_TEMPLATES) as EmailTemplateKey[]).map(key => (
+            <div key={key} className="bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 p-6 flex flex-col md:flex-row md:items-center justify-between gap-4 hover:border-zinc-400 dark:hover:border-zinc-700 transition-all shadow-sm">
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-3 mb-1">
+                  <h3 className="text-base font-bold text-zinc-900 dark:text-white">{EMAIL_TEMPLATES[key].label}</h3>
+                  {business.emailTemplates?.[key] && (
+                    <span className="bg-orange-600/10 text-orange-600 text-[10px] font-bold px-2 py-0.5 uppercase tracking-wide rounded-sm flex-shrink-0">Customized</span>
+                  )}
+                </div>
+                <p className="text-zinc-500 text-sm">{EMAIL_TEMPLATES[key].description}</p>
+              </div>
+              <div className="flex items-center gap-2 md:border-l border-zinc-200 dark:border-zinc-800 md:pl-6">
+                <button onClick={() => setEditingTemplate(key)} className="p-2 text-zinc-400 hover:text-zinc-900 dark:hover:text-white transition-colors" title="Edit">
+                  <Edit3 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </section>
+
       {/* Account Actions */}
       {isAuthenticated && (
         <section className="border-t border-zinc-200 dark:border-zinc-800 pt-8">
             <div className="flex justify-between items-center">
                 <div>
                     <h2 className="text-lg font-bold text-zinc-900 dark:text-white uppercase tracking-wide">Account Session</h2>
-                    <p className="text-sm text-zinc-500">Sign out of your account on this device.</p>
+                    <p className="text-sm text-zinc-500">Sign out of your account on this device, or everywhere you are signed in.</p>
+                </div>
+                <div className="flex flex-col sm:flex-row gap-2">
+                  <button 
+                    onClick={onLogoutAllDevices}
+                    className="flex items-center gap-2 px-6 py-3 border border-zinc-300 dark:border-zinc-700 text-zinc-700 dark:text-zinc-300 hover:border-red-500 hover:text-red-500 transition-colors font-bold uppercase tracking-widest text-xs"
+                  >
+                      <LogOut className="w-4 h-4" /> All Devices
+                  </button>
+                  <button 
+                    onClick={onLogout}
+                    className="flex items-center gap-2 px-6 py-3 border border-red-500 text-red-500 hover:bg-red-500 hover:text-white transition-colors font-bold uppercase tracking-widest text-xs"
+                  >
+                      <LogOut className="w-4 h-4" /> Sign Out
+                  </button>
                 </div>
-                <button 
-                  onClick={onLogout}
-                  className="flex items-center gap-2 px-6 py-3 border border-red-500 text-red-500 hover:bg-red-500 hover:text-white transition-colors font-bold uppercase tracking-widest text-xs"
-                >
-                    <LogOut className="w-4 h-4" /> Sign Out
-                </button>
             </div>
         </section>
       )}
@@ -404,6 +709,22 @@ const SettingsView: React.FC<SettingsViewProps> = ({ business, onUpdate, onLogou
                         <input type="time" className="w-full bg-zinc-50 dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 p-3 text-zinc-900 dark:text-white focus:border-orange-600 outline-none font-mono" value={profileForm.end} onChange={e => setProfileForm({...profileForm, end: e.target.value})} />
                       </div>
                   </div>
+                  <div>
+                    <label className="block text-xs font-bold text-zinc-500 mb-2 uppercase tracking-widest">Buffer Between Appointments (min)</label>
+                    <input type="number" min="0" step="5" className="w-full bg-zinc-50 dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 p-3 text-zinc-900 dark:text-white focus:border-orange-600 outline-none font-mono" value={profileForm.bufferMin} onChange={e => setProfileForm({...profileForm, bufferMin: parseInt(e.target.value) || 0})} />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-bold text-zinc-500 mb-2 uppercase tracking-widest">Cancellation Window (hours)</label>
+                    <input type="number" min="0" max="336" className="w-full bg-zinc-50 dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 p-3 text-zinc-900 dark:text-white focus:border-orange-600 outline-none font-mono" value={profileForm.cancellationWindowHours} onChange={e => setProfileForm({...profileForm, cancellationWindowHours: parseInt(e.target.value) || 0})} />
+                    <p className="text-[10px] text-zinc-500 mt-1">Clients can cancel or reschedule from their email link until this many hours before the appointment. 0 = until it starts.</p>
+                  </div>
+                  <div>
+                    <label className="block text-xs font-bold text-zinc-500 mb-2 uppercase tracking-widest">Time Zone</label>
+                    <select className="w-full bg-zinc-50 dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 p-3 text-zinc-900 dark:text-white focus:border-orange-600 outline-none font-mono" value={profileForm.timeZone} onChange={e => setProfileForm({...profileForm, timeZone: e.target.value})}>
+                      {listTimeZones().map(zone => <option key={zone} value={zone}>{zone.replace(/_/g, ' ')}</option>)}
+                    </select>
+                    <p className="text-[10px] text-zinc-500 mt-1">Appointment times and working hours are in this zone. Changing it keeps appointments at the same clock time.</p>
+                  </div>
                   <button onClick={handleSaveProfile} className="w-full mt-4 bg-zinc-900 dark:bg-white text-white dark:text-black py-3 font-bold uppercase tracking-widest hover:bg-zinc-700 dark:hover:bg-zinc-200 transition-colors">Save Changes</button>
               </div>
            </div>
@@ -457,6 +778,39 @@ const SettingsView: React.FC<SettingsViewProps> = ({ business, onUpdate, onLogou
         </div>
       )}
 
+      {editingStaff && (
+        <StaffModal
+          staff={editingStaff.staff}
+          isNew={editingStaff.isNew}
+          services={business.services}
+          workingHours={business.workingHours}
+          onSave={handleSaveStaff}
+          onClose={() => setEditingStaff(null)}
+        />
+      )}
+
+      {isEmailLogOpen && <EmailLogModal onClose={() => setIsEmailLogOpen(false)} />}
+
+      {editingTemplate && (
+        <EmailTemplateModal
+          templateKey={editingTemplate}
+          business={business}
+          isAuthenticated={isAuthenticated}
+          onSave={handleSaveTemplate}
+          onClose={() => setEditingTemplate(null)}
+        />
+      )}
+
+      {editingQuestion && (
+        <SurveyQuestionModal
+          question={editingQuestion.question}
+          isNew={editingQuestion.isNew}
+          services={business.services}
+          onSave={handleSaveQuestion}
+          onClose={() => setEditingQuestion(null)}
+        />
+      )}
+
     </div>
   );
 };
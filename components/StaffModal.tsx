@@ -0,0 +1,210 @@
+import React, { useState } from 'react';
+import { X, Plus, Trash2 } from 'lucide-react';
+import { Service, Staff, TimeOff, WorkingHours } from '../types';
+import { toLocalDateStr } from '../constants';
+
+interface StaffModalProps {
+  staff: Staff;
+  isNew: boolean;
+  services: Service[];
+  workingHours: WorkingHours; // the business's hours, the starting point for a custom schedule
+  onSave: (staff: Staff) => void;
+  onClose: () => void;
+}
+
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const INPUT = 'w-full bg-zinc-50 dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 text-zinc-900 dark:text-white focus:border-orange-600 outline-none';
+const LABEL = 'block text-xs font-bold text-zinc-500 uppercase tracking-widest';
+
+/** Add or edit a staff member: contact details, weekly hours, services and days off. */
+const StaffModal: React.FC<StaffModalProps> = ({ staff, isNew, services, workingHours, onSave, onClose }) => {
+  const [form, setForm] = useState<Staff>(staff);
+  const [error, setError] = useState('');
+
+  const toggleCustomHours = () => {
+    setForm({
+      ...form,
+      // Start from the business's hours on weekdays
+      schedule: form.schedule ? undefined : DAY_NAMES.map((_, day) => (day === 0 || day === 6 ? null : { ...workingHours }))
+    });
+  };
+
+  const updateDay = (day: number, hours: WorkingHours | null) => {
+    if (!form.schedule) return;
+    setForm({ ...form, schedule: form.schedule.map((h, i) => (i === day ? hours : h)) });
+  };
+
+  const toggleService = (id: string) => {
+    const current = form.serviceIds?.length ? form.serviceIds : services.map(s => s.id);
+    const next = current.includes(id) ? current.filter(s => s !== id) : [...current, id];
+    // Every service ticked is the same as no restriction
+    setForm({ ...form, serviceIds: next.length === services.length ? undefined : next });
+  };
+
+  const addTimeOff = () => {
+    const today = toLocalDateStr();
+    setForm({ ...form, timeOff: [...(form.timeOff || []), { startDate: today, endDate: today, reason: '' }] });
+  };
+
+  const updateTimeOff = (index: number, patch: Partial<TimeOff>) => {
+    setForm({ ...form, timeOff: (form.timeOff || []).map((off, i) => (i === index ? { ...off, ...patch } : off)) });
+  };
+
+  const removeTimeOff = (index: number) => {
+    setForm({ ...form, timeOff: (form.timeOff || []).filter((_, i) => i !== index) });
+  };
+
+  const handleSave = () => {
+    if (!form.name.trim()) {
+      setError('Please enter a name');
+      return;
+    }
+    if (form.schedule?.some(h => h && h.start >= h.end)) {
+      setError('Each working day must end after it starts');
+      return;
+    }
+    if (form.serviceIds && form.serviceIds.length === 0) {
+      setError('Choose at least one service');
+      return;
+    }
+    const timeOff = (form.timeOff || []).filter(off => off.startDate && off.endDate);
+    if (timeOff.some(off => off.endDate < off.startDate)) {
+      setError('Time off must end on or after the day it starts');
+      return;
+    }
+    onSave({
+      ...form,
+      name: form.name.trim(),
+      timeOff: timeOff.length > 0 ? timeOff.map(off => ({ ...off, reason: off.reason?.trim() || undefined })) : undefined
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white dark:bg-zinc-950 border border-zinc-200 dark:border-zinc-700 w-full max-w-lg shadow-2xl flex flex-col max-h-[90vh]">
+        <div className="p-6 border-b border-zinc-200 dark:border-zinc-800 flex justify-between items-center">
+          <h3 className="font-bold text-zinc-900 dark:text-white uppercase tracking-wider">{isNew ? 'Add Staff Member' : 'Edit Staff Member'}</h3>
+          <button onClick={onClose} className="text-zinc-500 hover:text-zinc-900 dark:hover:text-white"><X className="w-5 h-5" /></button>
+        </div>
+
+        <div className="p-6 space-y-6 overflow-y-auto">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className={LABEL + ' mb-2'}>Name</label>
+              <input type="text" className={INPUT + ' p-3'} value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} />
+            </div>
+            <div>
+              <label className={LABEL + ' mb-2'}>Role</label>
+              <input type="text" className={INPUT + ' p-3'} value={form.role || ''} onChange={e => setForm({ ...form, role: e.target.value })} />
+            </div>
+            <div>
+              <label className={LABEL + ' mb-2'}>Email</label>
+              <input type="email" className={INPUT + ' p-3'} value={form.email || ''} onChange={e => setForm({ ...form, email: e.target.value })} />
+            </div>
+            <div>
+              <label className={LABEL + ' mb-2'}>Phone</label>
+              <input type="tel" className={INPUT + ' p-3'} value={form.phone || ''} onChange={e => setForm({ ...form, phone: e.target.value })} />
+            </div>
+          </div>
+
+          {/* Weekly hours */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className={LABEL}>Working Hours</label>
+              <label className="flex items-center gap-2 text-xs text-zinc-500 cursor-pointer">
+                <input type="checkbox" checked={!!form.schedule} onChange={toggleCustomHours} className="accent-orange-600" />
+                Custom hours
+              </label>
+            </div>
+            {form.schedule ? (
+              <div className="space-y-2">
+                {DAY_NAMES.map((name, day) => {
+                  const hours = form.schedule![day];
+                  return (
+                    <div key={name} className="flex items-center gap-3">
+                      <label className="w-16 flex items-center gap-2 text-xs font-bold uppercase text-zinc-700 dark:text-zinc-300 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={!!hours}
+                          onChange={() => updateDay(day, hours ? null : { ...workingHours })}
+                          className="accent-orange-600"
+                        />
+                        {name}
+                      </label>
+                      {hours ? (
+                        <>
+                          <input type="time" className={INPUT + ' p-2 font-mono text-sm'} value={hours.start} onChange={e => updateDay(day, { ...hours, start: e.target.value })} />
+                          <span className="text-zinc-500">–</span>
+                          <input type="time" className={INPUT + ' p-2 font-mono text-sm'} value={hours.end} onChange={e => updateDay(day, { ...hours, end: e.target.value })} />
+                        </>
+                      ) : (
+                        <span className="text-xs text-zinc-500 uppercase tracking-widest">Day off</span>
+                      )}
+                    </div>
+                  );
+                })}
+                <p className="text-[10px] text-zinc-500">Bookings are only offered inside both these hours and the business's ({workingHours.start}–{workingHours.end}).</p>
+              </div>
+            ) : (
+              <p className="text-xs text-zinc-500">Works the business's hours ({workingHours.start}–{workingHours.end}) every day.</p>
+            )}
+          </div>
+
+          {/* Services */}
+          {services.length > 0 && (
+            <div>
+              <label className={LABEL + ' mb-2'}>Services</label>
+              <div className="grid grid-cols-2 gap-2">
+                {services.map(service => (
+                  <label key={service.id} className="flex items-center gap-2 text-sm text-zinc-900 dark:text-white cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={!form.serviceIds || form.serviceIds.includes(service.id)}
+                      onChange={() => toggleService(service.id)}
+                      className="accent-orange-600"
+                    />
+                    {service.name}
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Time off */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className={LABEL}>Time Off</label>
+              <button onClick={addTimeOff} className="text-xs font-bold uppercase tracking-widest text-orange-600 hover:text-orange-500 flex items-center gap-1">
+                <Plus className="w-3 h-3" /> Add
+              </button>
+            </div>
+            {(form.timeOff || []).length === 0 ? (
+              <p className="text-xs text-zinc-500">No days off planned. Block time on the calendar for shorter breaks.</p>
+            ) : (
+              <div className="space-y-2">
+                {form.timeOff!.map((off, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <input type="date" className={INPUT + ' p-2 font-mono text-xs'} value={off.startDate} onChange={e => updateTimeOff(index, { startDate: e.target.value })} />
+                    <input type="date" className={INPUT + ' p-2 font-mono text-xs'} value={off.endDate} onChange={e => updateTimeOff(index, { endDate: e.target.value })} />
+                    <input type="text" placeholder="Reason" className={INPUT + ' p-2 text-xs'} value={off.reason || ''} onChange={e => updateTimeOff(index, { reason: e.target.value })} />
+                    <button onClick={() => removeTimeOff(index)} className="p-2 text-zinc-400 hover:text-red-500 transition-colors" title="Remove">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {error && <p className="text-xs text-red-500">{error}</p>}
+          <button onClick={handleSave} className="w-full bg-orange-600 text-black py-3 font-bold uppercase tracking-widest hover:bg-orange-500 transition-colors">
+            {isNew ? 'Add Staff Member' : 'Save Updates'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StaffModal;
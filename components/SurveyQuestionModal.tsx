@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import { X, Plus, Trash2 } from 'lucide-react';
+import { Service, SurveyQuestion, SurveyQuestionType } from '../types';
+
+interface SurveyQuestionModalProps {
+  question: SurveyQuestion;
+  isNew: boolean;
+  services: Service[];
+  onSave: (question: SurveyQuestion) => void;
+  onClose: () => void;
+}
+
+const QUESTION_TYPES: { value: SurveyQuestionType; label: string; hint: string }[] = [
+  { value: 'NPS', label: 'Recommend (0-10)', hint: 'Scored as a Net Promoter Score: 9-10 promoters, 0-6 detractors.' },
+  { value: 'CHOICE', label: 'Multiple Choice', hint: 'The client picks one option.' },
+  { value: 'TEXT', label: 'Free Text', hint: 'A short written answer.' }
+];
+
+const NPS_PROMPT = 'How likely are you to recommend us to a friend?';
+
+const INPUT = 'w-full bg-zinc-50 dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 text-zinc-900 dark:text-white focus:border-orange-600 outline-none';
+const LABEL = 'block text-xs font-bold text-zinc-500 uppercase tracking-widest';
+
+/** Add or edit a question on the rating page survey. */
+const SurveyQuestionModal: React.FC<SurveyQuestionModalProps> = ({ question, isNew, services, onSave, onClose }) => {
+  const [form, setForm] = useState<SurveyQuestion>(question);
+  const [error, setError] = useState('');
+
+  const setType = (type: SurveyQuestionType) => {
+    setForm({
+      ...form,
+      type,
+      prompt: type === 'NPS' && !form.prompt ? NPS_PROMPT : form.prompt,
+      options: type === 'CHOICE' ? (form.options?.length ? form.options : ['', '']) : undefined
+    });
+  };
+
+  const toggleService = (id: string) => {
+    const current = form.serviceIds?.length ? form.serviceIds : services.map(s => s.id);
+    const next = current.includes(id) ? current.filter(s => s !== id) : [...current, id];
+    // Every service ticked is the same as no restriction
+    setForm({ ...form, serviceIds: next.length === services.length ? undefined : next });
+  };
+
+  const updateOption = (index: number, value: string) => {
+    setForm({ ...form, options: (form.options || []).map((o, i) => (i === index ? value : o)) });
+  };
+
+  const handleSave = () => {
+    if (!form.prompt.trim()) {
+      setError('Please enter the question');
+      return;
+    }
+    const options = (form.options || []).map(o => o.trim()).filter(Boolean);
+    if (form.type === 'CHOICE' && options.length < 2) {
+      setError('Give at least two options');
+      return;
+    }
+    if (form.serviceIds && form.serviceIds.length === 0) {
+      setError('Choose at least one service');
+      return;
+    }
+    onSave({
+      ...form,
+      prompt: form.prompt.trim(),
+      options: form.type === 'CHOICE' ? options : undefined,
+      required: form.required || undefined
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white dark:bg-zinc-950 border border-zinc-200 dark:border-zinc-700 w-full max-w-lg shadow-2xl flex flex-col max-h-[90vh]">
+        <div className="p-6 border-b border-zinc-200 dark:border-zinc-800 flex justify-between items-center">
+          <h3 className="font-bold text-zinc-900 dark:text-white uppercase tracking-wider">{isNew ? 'Add Question' : 'Edit Question'}</h3>
+          <button onClick={onClose} className="text-zinc-500 hover:text-zinc-900 dark:hover:text-white"><X className="w-5 h-5" /></button>
+        </div>
+
+        <div className="p-6 space-y-6 overflow-y-auto">
+          <div>
+            <label className={LABEL + ' mb-2'}>Type</label>
+            <div className="grid grid-cols-3 gap-2">
+              {QUESTION_TYPES.map(type => (
+                <button
+                  key={type.value}
+                  onClick={() => setType(type.value)}
+                  className={`p-2 text-[10px] font-bold uppercase tracking-widest border transition-colors ${
+                    form.type === type.value
+                      ? 'bg-orange-600 border-orange-600 text-black'
+                      : 'border-zinc-200 dark:border-zinc-800 text-zinc-500 hover:text-zinc-900 dark:hover:text-white'
+                  }`}
+                >
+                  {type.label}
+                </button>
+              ))}
+            </div>
+            <p className="text-[10px] text-zinc-500 mt-2">{QUESTION_TYPES.find(t => t.value === form.type)?.hint}</p>
+          </div>
+
+          <div>
+            <label className={LABEL + ' mb-2'}>Question</label>
+            <input type="text" className={INPUT + ' p-3'} value={form.prompt} onChange={e => setForm({ ...form, prompt: e.target.value })} />
+          </div>
+
+          {form.type === 'CHOICE' && (
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <label className={LABEL}>Options</label>
+                <button onClick={() => setForm({ ...form, options: [...(form.options || []), ''] })} className="text-xs font-bold uppercase tracking-widest text-orange-600 hover:text-orange-500 flex items-center gap-1">
+                  <Plus className="w-3 h-3" /> Add
+                </button>
+              </div>
+              <div className="space-y-2">
+                {(form.options || []).map((option, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <input type="text" className={INPUT + ' p-2 text-sm'} value={option} onChange={e => updateOption(index, e.target.value)} />
+                    <button onClick={() => setForm({ ...form, options: form.options!.filter((_, i) => i !== index) })} className="p-2 text-zinc-400 hover:text-red-500 transition-colors" title="Remove">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {services.length > 0 && (
+            <div>
+              <label className={LABEL + ' mb-2'}>Ask After</label>
+              <div className="grid grid-cols-2 gap-2">
+                {services.map(service => (
+                  <label key={service.id} className="flex items-center gap-2 text-sm text-zinc-900 dark:text-white cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={!form.serviceIds || form.serviceIds.includes(service.id)}
+                      onChange={() => toggleService(service.id)}
+                      className="accent-orange-600"
+                    />
+                    {service.name}
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <label className="flex items-center gap-2 text-sm text-zinc-900 dark:text-white cursor-pointer">
+            <input type="checkbox" checked={!!form.required} onChange={e => setForm({ ...form, required: e.target.checked })} className="accent-orange-600" />
+            Clients must answer
+          </label>
+
+          {error && <p className="text-xs text-red-500">{error}</p>}
+          <button onClick={handleSave} className="w-full bg-orange-600 text-black py-3 font-bold uppercase tracking-widest hover:bg-orange-500 transition-colors">
+            {isNew ? 'Add Question' : 'Save Updates'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SurveyQuestionModal;
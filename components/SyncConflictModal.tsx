@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { AlertTriangle, Check } from 'lucide-react';
+import { UserData } from '../services/apiService';
+import { CONFLICT_SECTIONS, ConflictChoice, ConflictSection } from '../services/syncConflict';
+
+interface SyncConflictModalProps {
+  local: UserData;
+  server: UserData;
+  sections: ConflictSection[]; // sections that differ
+  initialChoices: Partial<Record<ConflictSection, ConflictChoice>>;
+  onResolve: (choices: Partial<Record<ConflictSection, ConflictChoice>>) => void;
+}
+
+const CHOICE_LABELS: Record<ConflictChoice, string> = {
+  mine: 'This Device',
+  theirs: 'Other Device',
+  both: 'Keep Both'
+};
+
+const describe = (key: ConflictSection, data: UserData) => {
+  if (key === 'businessProfile') return data.businessProfile?.name || 'Unnamed business';
+  const count = data[key].length;
+  return `${count} item${count === 1 ? '' : 's'}`;
+};
+
+const SyncConflictModal: React.FC<SyncConflictModalProps> = ({ local, server, sections, initialChoices, onResolve }) => {
+  const [choices, setChoices] = useState(initialChoices);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-zinc-950 border border-zinc-700 w-full max-w-lg shadow-2xl">
+        <div className="p-6 border-b border-zinc-800">
+          <div className="flex items-center gap-3 mb-3">
+            <div className="w-10 h-10 bg-amber-900/30 border border-amber-800 flex items-center justify-center">
+              <AlertTriangle className="w-5 h-5 text-amber-500" />
+            </div>
+            <h3 className="font-bold text-white uppercase tracking-wider">Changes On Another Device</h3>
+          </div>
+          <p className="text-zinc-400 text-sm">
+            Your data was updated on another device since this one loaded it. Choose which version to keep for each section.
+          </p>
+        </div>
+
+        <div className="p-4 space-y-3 max-h-[60vh] overflow-y-auto">
+          {CONFLICT_SECTIONS.filter(s => sections.includes(s.key)).map(({ key, label }) => {
+            const options: ConflictChoice[] = key === 'businessProfile' ? ['mine', 'theirs'] : ['mine', 'theirs', 'both'];
+            return (
+              <div key={key} className="border border-zinc-800 p-3">
+                <div className="flex items-baseline justify-between mb-2">
+                  <span className="text-xs font-bold text-zinc-300 uppercase tracking-widest">{label}</span>
+                  <span className="text-[10px] text-zinc-500">
+                    This device: {describe(key, local)} · Other: {describe(key, server)}
+                  </span>
+                </div>
+                <div className="flex gap-2">
+                  {options.map(option => {
+                    const selected = (choices[key] || 'theirs') === option;
+                    return (
+                      <button
+                        key={option}
+                        onClick={() => setChoices(prev => ({ ...prev, [key]: option }))}
+                        className={`flex-1 py-2 border text-[10px] font-bold uppercase tracking-widest transition-colors flex items-center justify-center gap-1 ${
+                          selected
+                            ? 'border-amber-600 bg-amber-600/10 text-amber-400'
+                            : 'border-zinc-800 text-zinc-500 hover:bg-zinc-900'
+                        }`}
+                      >
+                        {selected && <Check className="w-3 h-3" />}
+                        {CHOICE_LABELS[option]}
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="p-4 border-t border-zinc-800">
+          <button
+            onClick={() => onResolve(choices)}
+            className="w-full py-3 bg-amber-600 text-black font-bold uppercase tracking-widest text-xs hover:bg-amber-500 transition-colors"
+          >
+            Apply & Sync
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SyncConflictModal;
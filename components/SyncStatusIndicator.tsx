@@ -0,0 +1,87 @@
+import React, { useEffect, useState } from 'react';
+import { CloudOff, RefreshCw, AlertTriangle, Trash2 } from 'lucide-react';
+import {
+  SyncStatus, QueuedMutation, subscribeSyncStatus, listMutations,
+  retryFailedMutations, discardFailedMutations
+} from '../services/syncQueue';
+
+/** Header badge for the offline mutation queue: pending / syncing / failed changes. */
+const SyncStatusIndicator: React.FC = () => {
+  const [status, setStatus] = useState<SyncStatus>({ pending: 0, failed: 0, syncing: false });
+  const [showFailed, setShowFailed] = useState(false);
+  const [failed, setFailed] = useState<QueuedMutation[]>([]);
+
+  useEffect(() => subscribeSyncStatus(setStatus), []);
+
+  useEffect(() => {
+    if (!showFailed) return;
+    listMutations().then(all => setFailed(all.filter(m => m.failed))).catch(() => setFailed([]));
+  }, [showFailed, status]);
+
+  if (status.pending === 0 && status.failed === 0) return null;
+
+  const badgeClass = 'flex items-center gap-2 px-3 py-2 text-xs font-bold uppercase tracking-widest border transition-colors';
+
+  return (
+    <div className="relative flex items-center gap-2">
+      {status.pending > 0 && (
+        <span
+          className={`${badgeClass} border-zinc-200 dark:border-zinc-700 bg-zinc-100 dark:bg-zinc-800 text-zinc-600 dark:text-zinc-300`}
+          title={`${status.pending} change${status.pending === 1 ? '' : 's'} waiting to sync`}
+        >
+          {status.syncing ? <RefreshCw className="w-4 h-4 animate-spin" /> : <CloudOff className="w-4 h-4" />}
+          <span className="hidden sm:inline">{status.syncing ? 'Syncing' : 'Pending'}</span>
+          {status.pending}
+        </span>
+      )}
+      {status.failed > 0 && (
+        <button
+          onClick={() => setShowFailed(open => !open)}
+          className={`${badgeClass} border-red-800 bg-red-900/20 text-red-500 hover:bg-red-900/40`}
+          title="Some changes could not be synced"
+        >
+          <AlertTriangle className="w-4 h-4" />
+          <span className="hidden sm:inline">Failed</span>
+          {status.failed}
+        </button>
+      )}
+
+      {showFailed && status.failed > 0 && (
+        <div className="absolute top-full right-0 mt-2 w-72 bg-zinc-950 border border-zinc-700 shadow-2xl z-50">
+          <div className="p-3 border-b border-zinc-800">
+            <p className="text-xs font-bold text-white uppercase tracking-widest">Changes Not Synced</p>
+            <p className="text-[10px] text-zinc-500 mt-1">The server rejected these changes. Retry them or discard them.</p>
+          </div>
+          <ul className="max-h-48 overflow-y-auto divide-y divide-zinc-800">
+            {failed.map(m => (
+              <li key={m.seq} className="px-3 py-2">
+                <p className="text-xs text-zinc-300">{m.label}</p>
+                {m.lastError && <p className="text-[10px] text-red-500">{m.lastError}</p>}
+              </li>
+            ))}
+          </ul>
+          <div className="p-3 flex gap-2 border-t border-zinc-800">
+            <button
+              onClick={() => { retryFailedMutations(); setShowFailed(false); }}
+              className="flex-1 py-2 border border-zinc-700 text-zinc-300 text-[10px] font-bold uppercase tracking-widest hover:bg-zinc-900 flex items-center justify-center gap-1"
+            >
+              <RefreshCw className="w-3 h-3" /> Retry
+            </button>
+            <button
+              onClick={() => {
+                if (!confirm('Discard these changes? They will not be saved to the server.')) return;
+                discardFailedMutations();
+                setShowFailed(false);
+              }}
+              className="flex-1 py-2 border border-red-800 text-red-500 text-[10px] font-bold uppercase tracking-widest hover:bg-red-900/20 flex items-center justify-center gap-1"
+            >
+              <Trash2 className="w-3 h-3" /> Discard
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SyncStatusIndicator;
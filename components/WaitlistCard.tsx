@@ -0,0 +1,69 @@
+import React, { useEffect, useState } from 'react';
+import { Trash2 } from 'lucide-react';
+import { BusinessProfile, WaitlistEntry } from '../types';
+import { formatTime } from '../constants';
+import { listWaitlist, deleteWaitlistEntry } from '../services/apiService';
+
+interface WaitlistCardProps {
+  business: BusinessProfile;
+}
+
+const TIME_LABELS: Record<string, string> = { MORNING: 'Mornings', AFTERNOON: 'Afternoons', EVENING: 'Evenings' };
+
+/** Dashboard card: clients waiting for a time, in the order offers go out. Hidden when the waitlist is empty or offline. */
+const WaitlistCard: React.FC<WaitlistCardProps> = ({ business }) => {
+  const [entries, setEntries] = useState<WaitlistEntry[]>([]);
+
+  useEffect(() => {
+    listWaitlist().then(result => {
+      if (result.data) setEntries(result.data);
+    });
+  }, []);
+
+  const handleRemove = async (entry: WaitlistEntry) => {
+    if (!confirm(`Take ${entry.clientName} off the waitlist?`)) return;
+    const result = await deleteWaitlistEntry(entry.id);
+    if (result.error) {
+      alert(result.error);
+      return;
+    }
+    setEntries(current => current.filter(e => e.id !== entry.id));
+  };
+
+  const waiting = entries.filter(e => e.status !== 'BOOKED');
+  if (waiting.length === 0) return null;
+
+  return (
+    <div className="bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 p-8 shadow-sm transition-colors">
+      <h2 className="text-xl font-bold text-zinc-900 dark:text-white uppercase tracking-wider mb-6 transition-colors">Waitlist</h2>
+      <div className="space-y-4">
+        {waiting.map(entry => {
+          const service = business.services.find(s => s.id === entry.serviceId)?.name || 'Service';
+          const staff = entry.staffId && business.staff?.find(s => s.id === entry.staffId)?.name;
+          const times = entry.preferredTimes?.length ? entry.preferredTimes.map(t => TIME_LABELS[t]).join(', ') : 'Any time';
+          return (
+            <div key={entry.id} className="flex items-start justify-between gap-4 pb-4 border-b border-zinc-100 dark:border-zinc-800 last:border-0 last:pb-0">
+              <div className="min-w-0">
+                <p className="text-base font-bold text-zinc-900 dark:text-white truncate">{entry.clientName}</p>
+                <p className="text-xs text-zinc-500 uppercase tracking-wide mt-1">
+                  {service}{staff ? ` with ${staff}` : ''} • {entry.startDate === entry.endDate ? entry.startDate : `${entry.startDate} – ${entry.endDate}`}
+                </p>
+                <p className="text-xs text-zinc-500 mt-1">{times}</p>
+                {entry.status === 'OFFERED' && entry.offerDate && (
+                  <p className="text-[10px] font-bold uppercase tracking-widest text-orange-600 mt-2">
+                    Offered {entry.offerDate} {formatTime(entry.offerTime || '')}
+                  </p>
+                )}
+              </div>
+              <button onClick={() => handleRemove(entry)} className="p-2 text-zinc-400 hover:text-red-500 transition-colors" title="Remove from waitlist">
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default WaitlistCard;
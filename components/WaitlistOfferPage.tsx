@@ -0,0 +1,155 @@
+import React, { useEffect, useState } from 'react';
+import { CheckCircle, Clock } from 'lucide-react';
+import { formatTime } from '../constants';
+import { getWaitlistOffer, claimWaitlistOffer, declineWaitlistOffer, WaitlistOffer } from '../services/apiService';
+import { convertWallTime, deviceTimeZone, zoneAbbreviation } from '../backend/lib/timeZone';
+
+interface WaitlistOfferPageProps {
+  token: string;
+}
+
+type Outcome = 'BOOKED' | 'DECLINED' | 'LEFT';
+
+const OUTCOMES: Record<Outcome, { title: string; text: string }> = {
+  BOOKED: { title: 'Requested', text: 'The business will confirm your appointment shortly.' },
+  DECLINED: { title: 'Passed On', text: "We've offered this time to someone else. You're still on the waitlist." },
+  LEFT: { title: 'Removed', text: "You've been taken off the waitlist. You won't get any more offers." }
+};
+
+/** Client-facing page at /waitlist/:token — claim or pass on a time offered from the waitlist, no sign-in needed. */
+const WaitlistOfferPage: React.FC<WaitlistOfferPageProps> = ({ token }) => {
+  const [offer, setOffer] = useState<WaitlistOffer | null>(null);
+  const [error, setError] = useState('');
+  const [actionError, setActionError] = useState('');
+  const [outcome, setOutcome] = useState<Outcome | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    document.documentElement.classList.add('dark');
+    getWaitlistOffer(token).then(result => {
+      if (result.data) {
+        setOffer(result.data);
+        document.title = `Your offer from ${result.data.businessName}`;
+      } else {
+        setError(result.error === 'API_UNAVAILABLE' ? 'This page is unavailable right now. Please try again later.' : result.error || 'This offer is no longer available');
+      }
+    });
+  }, [token]);
+
+  const act = async (next: Outcome) => {
+    if (isSubmitting) return;
+    setIsSubmitting(true);
+    setActionError('');
+    const result = next === 'BOOKED' ? await claimWaitlistOffer(token) : await declineWaitlistOffer(token, next === 'LEFT');
+    setIsSubmitting(false);
+    if (result.error) {
+      setActionError(result.error === 'API_UNAVAILABLE' ? 'Could not reach the booking service. Please try again.' : result.error);
+      return;
+    }
+    setOutcome(next);
+  };
+
+  if (!offer) {
+    return (
+      <div className="min-h-screen bg-black flex items-center justify-center p-4">
+        {error ? (
+          <div className="text-center">
+            <h1 className="text-2xl font-bold text-white uppercase tracking-wider mb-2">Offer Unavailable</h1>
+            <p className="text-zinc-500 text-sm">{error}</p>
+          </div>
+        ) : (
+          <div className="w-12 h-12 border-4 border-orange-600 border-t-transparent rounded-full animate-spin"></div>
+        )}
+      </div>
+    );
+  }
+
+  // Show the time in the visitor's zone, like the booking page
+  const zone = deviceTimeZone();
+  const local = convertWallTime(offer.date, offer.time, offer.timeZone, zone);
+  const expires = new Date(offer.expiresAt).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+
+  return (
+    <div className="min-h-screen bg-black flex flex-col items-center justify-center p-4 relative">
+      <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-orange-600 to-black"></div>
+
+      <div className="w-full max-w-lg bg-zinc-950 border border-zinc-800 relative z-10">
+        <div className="bg-zinc-900 border-b border-zinc-800 p-8">
+          <h1 className="text-3xl font-bold text-white uppercase tracking-wider">{offer.businessName}</h1>
+          <p className="text-zinc-500 mt-1 uppercase text-xs tracking-widest">Waitlist Offer</p>
+        </div>
+
+        <div className="p-8">
+          {outcome ? (
+            <div className="text-center py-8 animate-fade-in">
+              <div className="w-20 h-20 border-2 border-orange-600 rounded-full flex items-center justify-center mx-auto mb-6">
+                <CheckCircle className="w-10 h-10 text-orange-600" />
+              </div>
+              <h2 className="text-3xl font-bold text-white uppercase tracking-wider mb-4">{OUTCOMES[outcome].title}</h2>
+              <p className="text-zinc-400 max-w-xs mx-auto">{OUTCOMES[outcome].text}</p>
+            </div>
+          ) : (
+            <div className="animate-fade-in">
+              <p className="text-zinc-400 mb-6">
+                Hi {offer.clientName}, a time you were waiting for has opened up. It's yours if you claim it before {expires}.
+              </p>
+
+              <div className="bg-zinc-900 border border-zinc-800 p-6 mb-8 space-y-2">
+                <div className="flex justify-between">
+                  <span className="text-zinc-500 text-sm">Service</span>
+                  <span className="text-white font-bold uppercase">{offer.serviceName}</span>
+                </div>
+                {offer.staffName && (
+                  <div className="flex justify-between">
+                    <span className="text-zinc-500 text-sm">With</span>
+                    <span className="text-white">{offer.staffName}</span>
+                  </div>
+                )}
+                <div className="flex justify-between">
+                  <span className="text-zinc-500 text-sm">Date</span>
+                  <span className="text-white font-mono">{local.date}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-zinc-500 text-sm">Time</span>
+                  <span className="text-white font-mono">
+                    {formatTime(local.time)}{zone !== offer.timeZone && ` ${zoneAbbreviation(zone)}`}
+                  </span>
+                </div>
+              </div>
+
+              {actionError && (
+                <p className="mb-4 p-3 border border-red-800 bg-red-900/20 text-red-500 text-sm">{actionError}</p>
+              )}
+
+              <button
+                onClick={() => act('BOOKED')}
+                disabled={isSubmitting}
+                className="w-full bg-orange-600 text-black py-4 font-bold hover:bg-orange-500 transition-colors shadow-[0_0_20px_rgba(234,88,12,0.3)] uppercase tracking-widest disabled:opacity-50 disabled:cursor-wait mb-4"
+              >
+                {isSubmitting ? 'Please wait...' : 'Claim This Time'}
+              </button>
+              <div className="flex justify-between gap-4">
+                <button
+                  onClick={() => act('DECLINED')}
+                  disabled={isSubmitting}
+                  className="text-xs text-zinc-500 hover:text-white uppercase tracking-widest font-bold flex items-center gap-2 disabled:opacity-50"
+                >
+                  <Clock className="w-3 h-3" /> No Thanks, Keep Waiting
+                </button>
+                <button
+                  onClick={() => act('LEFT')}
+                  disabled={isSubmitting}
+                  className="text-xs text-zinc-500 hover:text-red-500 uppercase tracking-widest font-bold disabled:opacity-50"
+                >
+                  Leave Waitlist
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WaitlistOfferPage;
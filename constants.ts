@@ -1,5 +1,6 @@
 
 import { BusinessProfile } from './types';
+import { resolveTimeZone, deviceTimeZone, toWallTime } from './backend/lib/timeZone';
 
 /**
  * Convert a Date to a YYYY-MM-DD string in LOCAL time (not UTC).
@@ -13,6 +14,14 @@ export const toLocalDateStr = (date: Date = new Date()): string => {
   return `${y}-${m}-${d}`;
 };
 
+/** The zone the business's appointment dates and times are in (the device's until one is chosen). */
+export const businessTimeZone = (business: BusinessProfile): string =>
+  resolveTimeZone(business.timeZone, deviceTimeZone());
+
+/** Today's date (YYYY-MM-DD) where the business is. */
+export const businessToday = (business: BusinessProfile): string =>
+  toWallTime(Date.now(), businessTimeZone(business)).date;
+
 export const formatTime = (time24: string): string => {
   if (!time24) return '';
   const [hours, minutes] = time24.split(':');
@@ -3,6 +3,10 @@ import ReactDOM from 'react-dom/client';
 import { GoogleOAuthProvider } from '@react-oauth/google';
 import { AuthProvider } from './services/authContext';
 import App from './App';
+import PublicBookingPage from './components/PublicBookingPage';
+import WaitlistOfferPage from './components/WaitlistOfferPage';
+import AppointmentLinkPage from './components/AppointmentLinkPage';
+import RatingPage from './components/RatingPage';
 
 // Temporary debug log - remove after confirming Vercel env var is working
 console.log("VITE_GOOGLE_CLIENT_ID:", import.meta.env.VITE_GOOGLE_CLIENT_ID);
@@ -87,7 +91,25 @@ const root = ReactDOM.createRoot(rootElement);
 // The LoginView component will show a message if Google Auth isn't configured
 // We always provide the provider to prevent "useGoogleLogin must be used within GoogleOAuthProvider" errors
 // If clientId is invalid, the provider will still render but Google Sign-In will be disabled
-const AppWrapper = (
+// Public booking pages (/book/:slug), waitlist offers (/waitlist/:token), appointment manage links
+// (/appointment/:token) and rating links (/rate/:token) are for clients: no sign-in, no owner app
+const bookingSlug = window.location.pathname.match(/^\/book\/([^/?#]+)\/?$/)?.[1];
+const offerToken = window.location.pathname.match(/^\/waitlist\/([^/?#]+)\/?$/)?.[1];
+const appointmentToken = window.location.pathname.match(/^\/appointment\/([^/?#]+)\/?$/)?.[1];
+const ratingToken = window.location.pathname.match(/^\/rate\/([^/?#]+)\/?$/)?.[1];
+
+const AppWrapper = bookingSlug ? (
+  <PublicBookingPage slug={decodeURIComponent(bookingSlug)} />
+) : offerToken ? (
+  <WaitlistOfferPage token={decodeURIComponent(offerToken)} />
+) : appointmentToken ? (
+  <AppointmentLinkPage
+    token={decodeURIComponent(appointmentToken)}
+    action={new URLSearchParams(window.location.search).get('action') || undefined}
+  />
+) : ratingToken ? (
+  <RatingPage token={decodeURIComponent(ratingToken)} />
+) : (
   <GoogleOAuthProvider clientId={isValidClientId ? GOOGLE_CLIENT_ID : 'dummy-client-id'}>
     <AuthProvider>
       <App />
@@ -47,7 +47,8 @@ self.addEventListener('fetch', (event) => {
   const { request } = event;
   const url = new URL(request.url);
 
-  // Skip non-GET requests (POST, PUT, DELETE go straight to network)
+  // Skip non-GET requests (POST, PUT, DELETE go straight to network;
+  // writes made offline are queued by the app and replayed by the sync handler below)
   if (request.method !== 'GET') return;
 
   // Skip chrome-extension and other non-http(s) requests
@@ -144,3 +145,108 @@ self.addEventListener('message', (event) => {
     });
   }
 });
+
+// --- Offline mutation queue ---
+// Writes made while offline are stored in IndexedDB by services/syncQueue.ts.
+// Background Sync wakes us when connectivity returns so the queue is replayed
+// even if no tab is open. The replay rules mirror classify() in syncQueue.ts.
+const SYNC_TAG = 'halo-sync';
+const SYNC_DB = 'halo-sync';
+const SYNC_STORE = 'mutations';
+
+self.addEventListener('sync', (event) => {
+  if (event.tag === SYNC_TAG) {
+    event.waitUntil(replayWithLock());
+  }
+});
+
+function replayWithLock() {
+  // The page may be replaying the same queue; take turns
+  if (self.navigator.locks) {
+    return self.navigator.locks.request('halo-sync-replay', replayQueuedMutations);
+  }
+  return replayQueuedMutations();
+}
+
+function openSyncDB() {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(SYNC_DB, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(SYNC_STORE, { keyPath: 'seq', autoIncrement: true });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function syncStore(db, mode, run) {
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(SYNC_STORE, mode);
+    const request = run(tx.objectStore(SYNC_STORE));
+    tx.oncomplete = () => resolve(request ? request.result : undefined);
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+function classifyReplay(mutation, status) {
+  const isSave = mutation.url.endsWith('/save');
+  if (status < 300) return 'done';
+  if (mutation.method === 'POST' && status === 409 && !isSave) return 'done';
+  if (mutation.method === 'DELETE' && status === 404) return 'done';
+  if (status === 401 || status >= 500) return 'retry';
+  return 'failed';
+}
+
+async function replayQueuedMutations() {
+  const db = await openSyncDB();
+  const queued = await syncStore(db, 'readonly', (store) => store.getAll());
+  const results = [];
+  let rebase = null; // see replayQueue() in syncQueue.ts
+  let stopped = false;
+
+  for (const mutation of queued) {
+    if (mutation.failed) continue;
+
+    const isSave = mutation.url.endsWith('/save');
+    const base = mutation.body && mutation.body.revision;
+    const body = isSave && rebase && base === rebase.from
+      ? { ...mutation.body, revision: rebase.to }
+      : mutation.body;
+
+    let response;
+    try {
+      response = await fetch(mutation.url, {
+        method: mutation.method,
+        headers: body !== undefined ? { 'Content-Type': 'application/json' } : undefined,
+        credentials: 'include',
+        body: body !== undefined ? JSON.stringify(body) : undefined
+      });
+    } catch (error) {
+      stopped = true; // still offline
+      break;
+    }
+
+    const json = await response.json().catch(() => null);
+    const action = classifyReplay(mutation, response.status);
+    const lastError = (json && json.error) || `HTTP ${response.status}`;
+    if (action === 'retry') {
+      await syncStore(db, 'readwrite', (store) => store.put({ ...mutation, attempts: mutation.attempts + 1, lastError }));
+      stopped = true;
+      break;
+    }
+    if (action === 'done') {
+      await syncStore(db, 'readwrite', (store) => store.delete(mutation.seq));
+      if (isSave && json && typeof json.revision === 'number') rebase = { from: base, to: json.revision };
+    } else {
+      await syncStore(db, 'readwrite', (store) => store.put({ ...mutation, attempts: mutation.attempts + 1, failed: true, lastError }));
+    }
+    results.push({ mutation, status: response.status, body: json });
+  }
+
+  // Let open tabs update their sync status and pick up new revisions
+  const windows = await self.clients.matchAll({ type: 'window' });
+  windows.forEach((client) => client.postMessage({ type: 'SYNC_REPLAYED', results }));
+
+  // Rejecting makes the browser retry the sync later
+  if (stopped) throw new Error('Sync incomplete; will retry');
+}
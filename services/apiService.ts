@@ -3,11 +3,13 @@
  * Handles authentication and data persistence
  */
 
+import { submitMutation } from './syncQueue';
+
 // @ts-ignore - Vite environment variables
 // In production (Vercel), use same-origin /api routes. Locally, use the backend dev server.
 const API_URL = import.meta.env.VITE_API_URL || (typeof window !== 'undefined' && window.location.hostname !== 'localhost' ? '/api' : 'http://localhost:3001');
 
-interface ApiResponse<T> {
+export interface ApiResponse<T> {
   data?: T;
   error?: string;
 }
@@ -111,6 +113,68 @@ export async function authenticateWithEmail(email: string, password: string): Pr
   }
 }
 
+/**
+ * Request a password reset code by email
+ */
+export async function requestPasswordReset(email: string): Promise<ApiResponse<{ success: boolean }>> {
+  try {
+    const response = await fetch(`${API_URL}/auth/reset/request`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      credentials: 'include',
+      body: JSON.stringify({ email }),
+      signal: AbortSignal.timeout(15000) // 15 second timeout (Vercel cold starts)
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ error: 'Server error' }));
+      return { error: error.error || 'Failed to send reset code' };
+    }
+
+    const data = await response.json();
+    return { data };
+  } catch (error: any) {
+    if (error.name === 'AbortError' || error.message?.includes('fetch') || error.message?.includes('Failed to fetch')) {
+      return { error: 'API_UNAVAILABLE' };
+    }
+    console.error('Reset request API error:', error);
+    return { error: 'Failed to send reset code' };
+  }
+}
+
+/**
+ * Confirm a password reset code and set the new password
+ */
+export async function confirmPasswordReset(email: string, code: string, newPassword: string): Promise<ApiResponse<{ success: boolean }>> {
+  try {
+    const response = await fetch(`${API_URL}/auth/reset/confirm`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      credentials: 'include',
+      body: JSON.stringify({ email, code, newPassword }),
+      signal: AbortSignal.timeout(15000) // 15 second timeout (Vercel cold starts)
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ error: 'Server error' }));
+      return { error: error.error || 'Failed to reset password' };
+    }
+
+    const data = await response.json();
+    return { data };
+  } catch (error: any) {
+    if (error.name === 'AbortError' || error.message?.includes('fetch') || error.message?.includes('Failed to fetch')) {
+      return { error: 'API_UNAVAILABLE' };
+    }
+    console.error('Reset confirm API error:', error);
+    return { error: 'Failed to reset password' };
+  }
+}
+
 /**
  * Get current authenticated user
  */
@@ -137,32 +201,63 @@ export async function getCurrentUser(): Promise<ApiResponse<{ email: string }>>
   }
 }
 
-/**
- * Save user data to database
- */
-export async function saveUserData(data: {
+export interface UserData {
   businessProfile: any;
   clients: any[];
   appointments: any[];
   expenses: any[];
   ratings: any[];
-  bonusEntries?: any[];
-}): Promise<ApiResponse<{ success: boolean }>> {
+  bonusEntries: any[];
+}
+
+/** User data as stored on the server, tagged with the revision it was read at */
+export interface ServerUserData extends UserData {
+  revision: number;
+}
+
+// Backend might return null for any part
+export const normalizeUserData = (data: any): ServerUserData => ({
+  businessProfile: data.businessProfile || null,
+  clients: data.clients || [],
+  appointments: data.appointments || [],
+  expenses: data.expenses || [],
+  ratings: data.ratings || [],
+  bonusEntries: data.bonusEntries || [],
+  revision: data.revision ?? 0
+});
+
+/**
+ * Save the business profile (with its services and staff).
+ * The other collections are written through the per-entity API below.
+ * `revision` is the revision the data was based on; if someone else saved
+ * since, nothing is written and the result carries error 'CONFLICT' plus the
+ * current server state in `conflict`.
+ * While offline the save is queued and the result is { error: 'QUEUED' }.
+ */
+export async function saveUserData(
+  data: Pick<UserData, 'businessProfile'>,
+  revision?: number
+): Promise<ApiResponse<{ success: boolean; revision: number }> & { conflict?: ServerUserData }> {
   try {
-    const response = await fetch(`${API_URL}/save`, {
+    // Saves supersede each other while queued
+    const response = await submitMutation({
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      credentials: 'include', // Include cookies
-      body: JSON.stringify(data),
-      signal: AbortSignal.timeout(15000) // 15 second timeout (Vercel cold starts)
+      url: `${API_URL}/save`,
+      body: { businessProfile: data.businessProfile, revision },
+      label: 'Save business profile',
+      coalesceKey: 'save-profile'
     });
+    if (!response) return { error: 'QUEUED' };
 
     if (!response.ok) {
       if (response.status === 401) {
         return { error: 'Not authenticated' };
       }
+      if (response.status === 409) {
+        const body = await response.json().catch(() => ({}));
+        if (body.serverData) return { error: 'CONFLICT', conflict: normalizeUserData(body.serverData) };
+        return { error: body.error || 'Failed to save data' };
+      }
       const error = await response.json().catch(() => ({ error: 'Server error' }));
       return { error: error.error || 'Failed to save data' };
     }
@@ -183,14 +278,7 @@ export async function saveUserData(data: {
 /**
  * Load user data from database
  */
-export async function loadUserData(): Promise<ApiResponse<{
-  businessProfile: any;
-  clients: any[];
-  appointments: any[];
-  expenses: any[];
-  ratings: any[];
-  bonusEntries: any[];
-}>> {
+export async function loadUserData(): Promise<ApiResponse<ServerUserData>> {
   try {
     const response = await fetch(`${API_URL}/load`, {
       method: 'GET',
@@ -209,16 +297,7 @@ export async function loadUserData(): Promise<ApiResponse<{
     const data = await response.json();
     
     // Ensure all arrays exist (backend might return null)
-    return { 
-      data: {
-        businessProfile: data.businessProfile || null,
-        clients: data.clients || [],
-        appointments: data.appointments || [],
-        expenses: data.expenses || [],
-        ratings: data.ratings || [],
-        bonusEntries: data.bonusEntries || []
-      }
-    };
+    return { data: normalizeUserData(data) };
   } catch (error: any) {
     // If it's a network error (backend not available), return special error
     if (error.name === 'AbortError' || error.message?.includes('fetch') || error.message?.includes('Failed to fetch')) {
@@ -253,6 +332,556 @@ export async function logout(): Promise<ApiResponse<{ success: boolean }>> {
   }
 }
 
+/**
+ * Revoke every session for the current user (sign out of all devices)
+ */
+export async function logoutAllDevices(): Promise<ApiResponse<{ success: boolean; revoked: number }>> {
+  try {
+    const response = await fetch(`${API_URL}/logout-all`, {
+      method: 'POST',
+      credentials: 'include', // Include cookies
+    });
+
+    if (!response.ok) {
+      if (response.status === 401) return { error: 'Not authenticated' };
+      const error = await response.json().catch(() => ({ error: 'Server error' }));
+      return { error: error.error || 'Failed to sign out of all devices' };
+    }
+
+    const result = await response.json();
+    return { data: result };
+  } catch (error) {
+    console.error('Logout all API error:', error);
+    return { error: 'Failed to sign out of all devices' };
+  }
+}
+
+// ================================================================
+// PER-ENTITY API (clients, appointments, expenses, bonus entries, ratings)
+// ================================================================
+
+import type { Client, Appointment, Expense, BonusEntry, ClientRating, Service, Staff, TimeOfDay, WaitlistEntry, ReminderDelivery, SurveyQuestion, SurveyAnswer, EmailKind, EmailLogEntry } from '../types';
+import { withClearedFields } from '../backend/lib/validation';
+
+/**
+ * Send one entity request. Validation failures come back as
+ * "<error>: <first detail>" so callers can show a useful message.
+ * While offline the request is queued and the result is { error: 'QUEUED' }.
+ */
+async function entityRequest<T>(method: 'POST' | 'PATCH' | 'DELETE', path: string, label: string, body?: unknown): Promise<ApiResponse<T>> {
+  try {
+    const response = await submitMutation({ method, url: `${API_URL}${path}`, body, label });
+    if (!response) return { error: 'QUEUED' };
+
+    if (!response.ok) {
+      if (response.status === 401) return { error: 'Not authenticated' };
+      const error = await response.json().catch(() => ({ error: 'Server error' }));
+      const detail = Array.isArray(error.details) && error.details.length > 0 ? `: ${error.details[0]}` : '';
+      return { error: `${error.error || 'Request failed'}${detail}` };
+    }
+
+    const data = await response.json();
+    return { data };
+  } catch (error: any) {
+    if (error.name === 'AbortError' || error.message?.includes('fetch') || error.message?.includes('Failed to fetch')) {
+      return { error: 'API_UNAVAILABLE' };
+    }
+    console.error(`${method} ${path} API error:`, error);
+    return { error: 'Failed to reach server' };
+  }
+}
+
+// Updates send whole entities, with null for every optional field that was cleared
+const entityPath = (collection: string, id?: string) =>
+  id === undefined ? `/${collection}` : `/${collection}/${encodeURIComponent(id)}`;
+
+export const createClient = (client: Client) =>
+  entityRequest<Client>('POST', entityPath('clients'), `Add client ${client.name}`, client);
+export const updateClient = (client: Client) =>
+  entityRequest<Client>('PATCH', entityPath('clients', client.id), `Update client ${client.name}`, withClearedFields('clients', client));
+export const deleteClient = (id: string) =>
+  entityRequest<{ success: boolean }>('DELETE', entityPath('clients', id), 'Remove client');
+
+// Appointment.rating is derived from the ratings collection on the server
+export const createAppointment = ({ rating, ...appointment }: Appointment) =>
+  entityRequest<Appointment>('POST', entityPath('appointments'), `Add appointment on ${appointment.date}`, appointment);
+export const updateAppointment = ({ rating, ...appointment }: Appointment) =>
+  entityRequest<Appointment>('PATCH', entityPath('appointments', appointment.id), `Update appointment on ${appointment.date}`, withClearedFields('appointments', appointment));
+export const deleteAppointment = (id: string) =>
+  entityRequest<{ success: boolean }>('DELETE', entityPath('appointments', id), 'Remove appointment');
+
+export const createExpense = (expense: Expense) =>
+  entityRequest<Expense>('POST', entityPath('expenses'), `Add expense ${expense.name}`, expense);
+export const updateExpense = (expense: Expense) =>
+  entityRequest<Expense>('PATCH', entityPath('expenses', expense.id), `Update expense ${expense.name}`, withClearedFields('expenses', expense));
+export const deleteExpense = (id: string) =>
+  entityRequest<{ success: boolean }>('DELETE', entityPath('expenses', id), 'Delete expense');
+
+export const createBonusEntry = (entry: BonusEntry) =>
+  entityRequest<BonusEntry>('POST', entityPath('bonus-entries'), `Add bonus ${entry.description}`, entry);
+export const updateBonusEntry = (entry: BonusEntry) =>
+  entityRequest<BonusEntry>('PATCH', entityPath('bonus-entries', entry.id), `Update bonus ${entry.description}`, withClearedFields('bonusEntries', entry));
+export const deleteBonusEntry = (id: string) =>
+  entityRequest<{ success: boolean }>('DELETE', entityPath('bonus-entries', id), 'Delete bonus');
+
+export const createRating = (rating: ClientRating) =>
+  entityRequest<ClientRating>('POST', entityPath('ratings'), 'Save rating', rating);
+export const updateRating = (rating: ClientRating) =>
+  entityRequest<ClientRating>('PATCH', entityPath('ratings', rating.id), 'Update review', withClearedFields('ratings', rating));
+
+export const deleteRating = (id: string) =>
+  entityRequest<{ success: boolean }>('DELETE', entityPath('ratings', id), 'Delete rating');
+
+export const deleteWaitlistEntry = (id: string) =>
+  entityRequest<{ success: boolean }>('DELETE', entityPath('waitlist', id), 'Remove from waitlist');
+
+/**
+ * The signed-in owner's waitlist, in the order offers go out
+ */
+export async function listWaitlist(): Promise<ApiResponse<WaitlistEntry[]>> {
+  try {
+    const response = await fetch(`${API_URL}/waitlist`, {
+      method: 'GET',
+      credentials: 'include',
+      signal: AbortSignal.timeout(15000)
+    });
+    if (!response.ok) {
+      if (response.status === 401) return { error: 'Not authenticated' };
+      const error = await response.json().catch(() => ({ error: 'Server error' }));
+      return { error: error.error || 'Failed to load waitlist' };
+    }
+    return { data: await response.json() };
+  } catch (error: any) {
+    if (error.name === 'AbortError' || error.message?.includes('fetch')) return { error: 'API_UNAVAILABLE' };
+    return { error: 'Failed to load waitlist' };
+  }
+}
+
+// ================================================================
+// PUBLIC BOOKING API
+// ================================================================
+
+/** A busy interval on a business's calendar, as published to the booking page */
+export interface BusyTime {
+  date: string; // YYYY-MM-DD
+  time: string; // HH:mm
+  durationMin: number;
+  staffId?: string;
+  status?: 'BLOCKED'; // the business is closed (not just one staff member busy)
+}
+
+/** A featured review on the public booking page */
+export interface Testimonial {
+  rating?: number; // 1-5
+  comment: string;
+  name: string; // first name and last initial
+  date: string; // YYYY-MM-DD
+  reply?: string; // the owner's reply
+}
+
+export interface PublicBookingPage {
+  slug: string;
+  business: {
+    name: string;
+    category?: string;
+    avatarUrl?: string;
+    workingHours: { start: string; end: string };
+    bufferMin?: number;
+    timeZone: string; // IANA zone the dates and busy times are in
+    services: Service[];
+    staff: (Pick<Staff, 'id' | 'name' | 'role' | 'schedule' | 'serviceIds'> & {
+      timeOff: { startDate: string; endDate: string }[]; // dates only
+    })[];
+    testimonials?: Testimonial[]; // featured reviews, when the business shows them
+  };
+  availability: {
+    from: string;
+    to: string;
+    busy: BusyTime[];
+  };
+}
+
+export interface PublicBookingRequest {
+  serviceId: string;
+  date: string;
+  time: string;
+  staffId?: string;
+  notes?: string;
+  clients: { name: string; email: string; phone: string }[];
+}
+
+/**
+ * Get the signed-in owner's booking slug (created on first use)
+ */
+export async function getBookingLink(): Promise<ApiResponse<{ slug: string }>> {
+  try {
+    const response = await fetch(`${API_URL}/booking-link`, {
+      method: 'GET',
+      credentials: 'include',
+      signal: AbortSignal.timeout(15000)
+    });
+    if (!response.ok) {
+      if (response.status === 401) return { error: 'Not authenticated' };
+      const error = await response.json().catch(() => ({ error: 'Server error' }));
+      return { error: error.error || 'Failed to get booking link' };
+    }
+    return { data: await response.json() };
+  } catch (error: any) {
+    if (error.name === 'AbortError' || error.message?.includes('fetch')) return { error: 'API_UNAVAILABLE' };
+    return { error: 'Failed to get booking link' };
+  }
+}
+
+/**
+ * Load a business's public booking page (no auth)
+ */
+export async function getPublicBookingPage(slug: string): Promise<ApiResponse<PublicBookingPage>> {
+  try {
+    const response = await fetch(`${API_URL}/public/${encodeURIComponent(slug)}`, {
+      method: 'GET',
+      signal: AbortSignal.timeout(15000)
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ error: 'Server error' }));
+      return { error: error.error || 'Failed to load booking page' };
+    }
+    return { data: await response.json() };
+  } catch (error: any) {
+    if (error.name === 'AbortError' || error.message?.includes('fetch')) return { error: 'API_UNAVAILABLE' };
+    return { error: 'Failed to load booking page' };
+  }
+}
+
+/**
+ * Book an appointment through a public booking page (no auth).
+ * The appointment is created as pending for the owner to confirm.
+ */
+export async function submitPublicBooking(
+  slug: string,
+  booking: PublicBookingRequest
+): Promise<ApiResponse<{ appointmentId: string; date: string; time: string; status: string }>> {
+  try {
+    const response = await fetch(`${API_URL}/public/${encodeURIComponent(slug)}/bookings`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(booking),
+      signal: AbortSignal.timeout(15000)
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ error: 'Server error' }));
+      return { error: error.error || 'Failed to book appointment' };
+    }
+    return { data: await response.json() };
+  } catch (error: any) {
+    if (error.name === 'AbortError' || error.message?.includes('fetch')) return { error: 'API_UNAVAILABLE' };
+    return { error: 'Failed to book appointment' };
+  }
+}
+
+export interface WaitlistRequest {
+  serviceId: string;
+  staffId?: string;
+  startDate: string; // YYYY-MM-DD, business's time zone
+  endDate: string;
+  preferredTimes?: TimeOfDay[];
+  client: { name: string; email: string; phone: string };
+}
+
+/** A time offered to a waitlisted client, as shown on the claim page */
+export interface WaitlistOffer {
+  businessName: string;
+  serviceName: string;
+  staffName?: string;
+  clientName: string;
+  date: string; // YYYY-MM-DD, business's time zone
+  time: string; // HH:mm
+  timeZone: string;
+  expiresAt: string; // ISO timestamp
+}
+
+/**
+ * Send a request to a public (no auth) endpoint. Errors carry the server's message.
+ */
+async function publicRequest<T>(method: 'GET' | 'POST', path: string, fallback: string, body?: unknown): Promise<ApiResponse<T>> {
+  try {
+    const response = await fetch(`${API_URL}${path}`, {
+      method,
+      headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+      signal: AbortSignal.timeout(15000)
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ error: 'Server error' }));
+      return { error: error.error || fallback };
+    }
+    return { data: await response.json() };
+  } catch (error: any) {
+    if (error.name === 'AbortError' || error.message?.includes('fetch')) return { error: 'API_UNAVAILABLE' };
+    return { error: fallback };
+  }
+}
+
+/**
+ * Join a business's waitlist from its booking page
+ */
+export const joinWaitlist = (slug: string, request: WaitlistRequest) =>
+  publicRequest<{ entryId: string }>('POST', `/public/${encodeURIComponent(slug)}/waitlist`, 'Failed to join the waitlist', request);
+
+/**
+ * What a waitlist claim link offers
+ */
+export const getWaitlistOffer = (token: string) =>
+  publicRequest<WaitlistOffer>('GET', `/waitlist-offers/${encodeURIComponent(token)}`, 'Failed to load the offer');
+
+/**
+ * Book the offered time
+ */
+export const claimWaitlistOffer = (token: string) =>
+  publicRequest<{ appointmentId: string; date: string; time: string; status: string }>(
+    'POST', `/waitlist-offers/${encodeURIComponent(token)}/claim`, 'Failed to book the offered time', {}
+  );
+
+/**
+ * Pass the offered time on to the next client; with `leave`, also come off the waitlist
+ */
+export const declineWaitlistOffer = (token: string, leave = false) =>
+  publicRequest<{ success: boolean }>('POST', `/waitlist-offers/${encodeURIComponent(token)}/decline`, 'Failed to pass on the offer', { leave });
+
+// ================================================================
+// REMINDERS API
+// ================================================================
+
+/**
+ * Reminder emails sent for one of the signed-in owner's appointments
+ */
+export async function listReminderDeliveries(appointmentId: string): Promise<ApiResponse<ReminderDelivery[]>> {
+  try {
+    const response = await fetch(`${API_URL}/appointment-reminders/${encodeURIComponent(appointmentId)}`, {
+      method: 'GET',
+      credentials: 'include',
+      signal: AbortSignal.timeout(15000)
+    });
+    if (!response.ok) {
+      if (response.status === 401) return { error: 'Not authenticated' };
+      const error = await response.json().catch(() => ({ error: 'Server error' }));
+      return { error: error.error || 'Failed to load reminders' };
+    }
+    return { data: await response.json() };
+  } catch (error: any) {
+    if (error.name === 'AbortError' || error.message?.includes('fetch')) return { error: 'API_UNAVAILABLE' };
+    return { error: 'Failed to load reminders' };
+  }
+}
+
+/** The appointment behind the manage link in a booking or reminder email */
+export interface LinkedAppointment {
+  businessName: string;
+  contactEmail?: string;
+  serviceName: string;
+  staffName?: string;
+  clientName: string;
+  date: string; // YYYY-MM-DD, business's time zone
+  time: string; // HH:mm
+  durationMin: number;
+  timeZone: string;
+  status: string;
+  canChange: boolean; // cancel and reschedule are still open
+  changeDeadline?: string; // ISO timestamp they close at
+}
+
+/**
+ * What a manage link is for (no auth)
+ */
+export const getAppointmentLink = (token: string) =>
+  publicRequest<LinkedAppointment>('GET', `/appointment-links/${encodeURIComponent(token)}`, 'Failed to load the appointment');
+
+/**
+ * Confirm the appointment from a manage link
+ */
+export const confirmAppointmentLink = (token: string) =>
+  publicRequest<{ status: string }>('POST', `/appointment-links/${encodeURIComponent(token)}/confirm`, 'Failed to confirm the appointment', {});
+
+/**
+ * Cancel the appointment from a manage link
+ */
+export const cancelAppointmentLink = (token: string) =>
+  publicRequest<{ status: string }>('POST', `/appointment-links/${encodeURIComponent(token)}/cancel`, 'Failed to cancel the appointment', {});
+
+/**
+ * Open times (HH:mm, business's time zone) the appointment could move to on `date`
+ */
+export const getRescheduleSlots = (token: string, date: string) =>
+  publicRequest<string[]>(
+    'GET', `/appointment-links/${encodeURIComponent(token)}/slots?date=${encodeURIComponent(date)}`, 'Failed to load open times'
+  );
+
+/**
+ * Move the appointment; the returned token replaces the old link's
+ */
+export const rescheduleAppointmentLink = (token: string, date: string, time: string) =>
+  publicRequest<{ status: string; date: string; time: string; token: string }>(
+    'POST', `/appointment-links/${encodeURIComponent(token)}/reschedule`, 'Failed to reschedule the appointment', { date, time }
+  );
+
+// ================================================================
+// RATING LINKS API
+// ================================================================
+
+/**
+ * Sign a link a client can rate a completed appointment with
+ */
+export async function createRatingLink(appointmentId: string, date: string, clientId: string): Promise<ApiResponse<{ url: string }>> {
+  try {
+    const response = await fetch(`${API_URL}/rating-links`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify({ appointmentId, date, clientId }),
+      signal: AbortSignal.timeout(15000)
+    });
+    if (!response.ok) {
+      if (response.status === 401) return { error: 'Not authenticated' };
+      const error = await response.json().catch(() => ({ error: 'Server error' }));
+      return { error: error.error || 'Failed to create rating link' };
+    }
+    return { data: await response.json() };
+  } catch (error: any) {
+    if (error.name === 'AbortError' || error.message?.includes('fetch')) return { error: 'API_UNAVAILABLE' };
+    return { error: 'Failed to create rating link' };
+  }
+}
+
+/** The appointment behind a rating link */
+export interface RatingRequest {
+  businessName: string;
+  avatarUrl?: string;
+  serviceName: string;
+  clientName: string;
+  date: string; // YYYY-MM-DD, business's time zone
+  time: string; // HH:mm
+  timeZone: string;
+  staffId?: string; // who the appointment was with
+  staff: { id: string; name: string }[];
+  questions: SurveyQuestion[]; // survey questions for this appointment's service
+  alreadyRated: boolean;
+}
+
+/**
+ * What a rating link is for (no auth)
+ */
+export const getRatingRequest = (token: string) =>
+  publicRequest<RatingRequest>('GET', `/public/ratings/${encodeURIComponent(token)}`, 'Failed to load the rating page');
+
+/**
+ * Submit a client's rating; each link takes one (no auth)
+ */
+export const submitRating = (
+  token: string,
+  rating: Pick<ClientRating, 'businessRating' | 'staffRating' | 'staffId' | 'comment'> & {
+    answers?: Pick<SurveyAnswer, 'questionId' | 'value'>[];
+  }
+) =>
+  publicRequest<{ id: string }>('POST', `/public/ratings/${encodeURIComponent(token)}`, 'Failed to save your rating', rating);
+
+// ================================================================
+// EMAIL API
+// ================================================================
+
+/**
+ * Send an email through the server as the signed-in owner; every attempt shows in the email log
+ */
+export async function sendEmail(message: {
+  to: string;
+  subject: string;
+  html: string;
+  text?: string;
+  kind?: Extract<EmailKind, 'MESSAGE' | 'RATING_REQUEST' | 'FOLLOW_UP' | 'EARNINGS_REPORT'>;
+}): Promise<ApiResponse<{ id: string }>> {
+  try {
+    const response = await fetch(`${API_URL}/email/send`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify(message),
+      signal: AbortSignal.timeout(15000)
+    });
+    if (!response.ok) {
+      if (response.status === 401) return { error: 'Not authenticated' };
+      const error = await response.json().catch(() => ({ error: 'Server error' }));
+      return { error: error.error || 'Failed to send email' };
+    }
+    return { data: await response.json() };
+  } catch (error: any) {
+    if (error.name === 'AbortError' || error.message?.includes('fetch')) return { error: 'API_UNAVAILABLE' };
+    return { error: 'Failed to send email' };
+  }
+}
+
+/**
+ * The signed-in owner's email log, newest first; pass the last entry's id as `before` for the next page
+ */
+export async function listEmailLog(
+  options: { before?: number; status?: EmailLogEntry['status']; kind?: EmailKind } = {}
+): Promise<ApiResponse<EmailLogEntry[]>> {
+  const query = new URLSearchParams();
+  if (options.before) query.set('before', String(options.before));
+  if (options.status) query.set('status', options.status);
+  if (options.kind) query.set('kind', options.kind);
+  try {
+    const response = await fetch(`${API_URL}/email/log?${query}`, {
+      method: 'GET',
+      credentials: 'include',
+      signal: AbortSignal.timeout(15000)
+    });
+    if (!response.ok) {
+      if (response.status === 401) return { error: 'Not authenticated' };
+      const error = await response.json().catch(() => ({ error: 'Server error' }));
+      return { error: error.error || 'Failed to load the email log' };
+    }
+    return { data: await response.json() };
+  } catch (error: any) {
+    if (error.name === 'AbortError' || error.message?.includes('fetch')) return { error: 'API_UNAVAILABLE' };
+    return { error: 'Failed to load the email log' };
+  }
+}
+
+// ================================================================
+// CALENDAR FEED API
+// ================================================================
+
+/** The subscribable .ics URL for a feed token */
+export const calendarFeedUrl = (token: string): string =>
+  new URL(`${API_URL}/calendar/${token}.ics`, window.location.origin).href;
+
+async function calendarFeedRequest(method: 'GET' | 'POST', path: string): Promise<ApiResponse<{ token: string }>> {
+  try {
+    const response = await fetch(`${API_URL}${path}`, {
+      method,
+      credentials: 'include',
+      signal: AbortSignal.timeout(15000)
+    });
+    if (!response.ok) {
+      if (response.status === 401) return { error: 'Not authenticated' };
+      const error = await response.json().catch(() => ({ error: 'Server error' }));
+      return { error: error.error || 'Failed to get calendar feed' };
+    }
+    return { data: await response.json() };
+  } catch (error: any) {
+    if (error.name === 'AbortError' || error.message?.includes('fetch')) return { error: 'API_UNAVAILABLE' };
+    return { error: 'Failed to get calendar feed' };
+  }
+}
+
+/**
+ * Get the signed-in owner's calendar feed token (created on first use)
+ */
+export const getCalendarFeed = () => calendarFeedRequest('GET', '/calendar-feed');
+
+/**
+ * Replace the calendar feed token; subscriptions to the old URL stop updating
+ */
+export const resetCalendarFeed = () => calendarFeedRequest('POST', '/calendar-feed/reset');
+
 // ================================================================
 // SAVEPOINT API
 // ================================================================
@@ -133,28 +133,3 @@ export const generateWelcomeEmailContent = async (ownerName: string, businessNam
       return `Welcome to Halo, ${ownerName}! Your business ${businessName} is all set up.`;
   }
 }
-
-/**
- * Generates a password reset email content with the code.
- */
-export const generateResetCodeEmail = async (email: string, code: string): Promise<string> => {
-    try {
-        const openai = getAiClient();
-
-        const prompt = `
-          Write the body of a security email for "Halo Assistant" to the user ${email}. 
-          The email contains their password reset code: ${code}.
-          Keep it security-focused, urgent but professional. Max 30 words.
-          Return only the email body text, no subject line.
-        `;
-  
-        const response = await openai.chat.completions.create({
-          model: AI_MODEL,
-          messages: [{ role: 'user', content: prompt }],
-        });
-  
-        return response.choices[0]?.message?.content || `Your Halo verification code is ${code}. Do not share this with anyone.`;
-    } catch (e) {
-        return `Your security verification code is: ${code}`;
-    }
-}
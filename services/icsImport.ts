@@ -0,0 +1,234 @@
+/**
+ * .ics import: turns events parsed from another calendar into appointments.
+ * Attendees are matched to existing clients by email (new ones are created),
+ * and events that are already on the calendar are flagged as duplicates so
+ * the preview can leave them out.
+ */
+
+import { Appointment, AppointmentStatus, Client, EventType, RecurrenceRule, Service } from '../types';
+import { ParsedEvent, ParsedAttendee } from '../backend/lib/ical';
+import { occurrencesOn } from '../backend/lib/recurrence';
+
+/** What an event becomes: an appointment, an event type, or blocked time */
+export type ImportKind = EventType | 'BLOCK';
+
+export interface ImportRow {
+  event: ParsedEvent;
+  kind: ImportKind;
+  appointment: Appointment;
+  duplicateOf?: Appointment; // an existing appointment at the same time
+  warnings: string[];
+}
+
+export interface ImportContext {
+  clients: Client[];
+  services: Service[];
+  appointments: Appointment[];
+  ownerEmail?: string; // the business's own address is left out of the attendees
+}
+
+export interface ImportPlan {
+  rows: ImportRow[];
+  newClients: Client[]; // attendees with an email that no client has yet
+}
+
+const newId = () => Math.random().toString(36).substring(2, 9);
+
+// Our own export writes UIDs as <appointment id>@halo.app
+const HALO_UID = /^(.+)@halo\.app$/;
+
+const EVENT_PREFIX = /^(meeting|interview|task)\s*:\s*/i;
+
+const BLOCK_WORDS = /\b(busy|blocked?|closed|lunch|break|holiday|vacation|time off|out of office|ooo)\b/i;
+
+function serviceFor(summary: string, services: Service[]): Service | undefined {
+  const text = summary.toLowerCase();
+  return [...services]
+    .sort((a, b) => b.name.length - a.name.length)
+    .find(s => s.name.trim() && text.includes(s.name.trim().toLowerCase()));
+}
+
+/** The kind an event most likely is, from its categories (set by our export) or its summary. */
+export function guessKind(event: ParsedEvent, services: Service[]): ImportKind {
+  if (event.categories.includes('BLOCKED')) return 'BLOCK';
+  const category = event.categories.find(c => ['APPOINTMENT', 'MEETING', 'INTERVIEW', 'TASK'].includes(c)) as EventType | undefined;
+  if (category && (category !== 'APPOINTMENT' || services.length > 0)) return category;
+
+  const prefix = EVENT_PREFIX.exec(event.summary);
+  if (prefix) return prefix[1].toUpperCase() as EventType;
+  if (services.length > 0 && serviceFor(event.summary, services)) return 'APPOINTMENT';
+  if (event.allDay || (event.busy && BLOCK_WORDS.test(event.summary))) return 'BLOCK';
+  if (event.attendees.length > 0) return 'MEETING';
+  return event.busy ? 'BLOCK' : 'TASK';
+}
+
+const STATUSES: Record<string, AppointmentStatus> = {
+  TENTATIVE: AppointmentStatus.PENDING,
+  CANCELLED: AppointmentStatus.CANCELLED
+};
+
+interface ResolvedClient {
+  id: string;
+  name: string;
+}
+
+function resolveAttendees(attendees: ParsedAttendee[], context: ImportContext, newClients: Client[]): ResolvedClient[] {
+  const owner = context.ownerEmail?.trim().toLowerCase();
+  return attendees
+    // Calendars keep whatever case the organizer typed
+    .map(a => ({ ...a, email: a.email?.trim().toLowerCase() || undefined }))
+    .filter(a => !a.email || a.email !== owner)
+    .map(a => {
+      const existing = a.email
+        ? [...context.clients, ...newClients].find(c => c.email && c.email.trim().toLowerCase() === a.email)
+        : context.clients.find(c => a.name && c.name.toLowerCase() === a.name.toLowerCase());
+      if (existing) return { id: existing.id, name: existing.name };
+      if (!a.email) return { id: `temp_${Date.now()}_${newId()}`, name: a.name! };
+
+      const client: Client = {
+        id: newId(),
+        name: a.name || a.email.split('@')[0],
+        email: a.email,
+        phone: '',
+        notes: [],
+        preferences: '',
+        lastVisit: null
+      };
+      newClients.push(client);
+      return { id: client.id, name: client.name };
+    });
+}
+
+/**
+ * The appointment for `event` imported as `kind`. Attendees that are new
+ * clients are added to `newClients` (shared across rows, so one client is
+ * created per email).
+ */
+export function importRow(
+  event: ParsedEvent,
+  kind: ImportKind,
+  context: ImportContext,
+  newClients: Client[],
+  id = newId()
+): ImportRow {
+  const warnings: string[] = [];
+  const summary = event.summary.replace(EVENT_PREFIX, '').trim();
+  // An all-day event spanning several days becomes one full day per day
+  const days = event.allDay && !event.recurrence ? Math.ceil(event.durationMin / 1440) : 1;
+  const base = {
+    id,
+    date: event.date,
+    time: event.time,
+    status: STATUSES[event.status || ''] || AppointmentStatus.CONFIRMED,
+    notes: event.description || '',
+    recurrence: (days > 1 ? { frequency: 'DAILY', interval: 1, count: days } : event.recurrence) as RecurrenceRule | undefined,
+    durationMin: days > 1 ? 1440 : event.durationMin
+  };
+
+  let appointment: Appointment;
+  if (kind === 'BLOCK' || kind === 'TASK') {
+    const label = summary || (kind === 'BLOCK' ? 'Blocked Time' : 'Task');
+    appointment = {
+      ...base,
+      clientId: kind,
+      clientName: label,
+      clientIds: [kind],
+      clientNames: [label],
+      serviceId: kind === 'BLOCK' ? 'BLOCK' : 'EVENT',
+      status: kind === 'BLOCK' ? AppointmentStatus.BLOCKED : base.status,
+      eventType: kind === 'BLOCK' ? undefined : 'TASK'
+    };
+  } else {
+    const service = kind === 'APPOINTMENT' ? serviceFor(event.summary, context.services) || context.services[0] : undefined;
+    if (kind === 'APPOINTMENT' && service && !serviceFor(event.summary, context.services)) {
+      warnings.push(`No service matches "${event.summary}"; booked as ${service.name}`);
+    }
+
+    let clients = resolveAttendees(event.attendees, context, newClients);
+    if (clients.length === 0) {
+      // Our export writes "<service> - <clients>" when there are no attendees
+      const name = service ? summary.replace(new RegExp(`^${service.name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\s*-\\s*`, 'i'), '') : summary;
+      const known = context.clients.find(c => c.name.toLowerCase() === name.toLowerCase());
+      clients = [known ? { id: known.id, name: known.name } : { id: `temp_${Date.now()}_${newId()}`, name: name || 'Imported' }];
+    }
+
+    appointment = {
+      ...base,
+      clientId: clients[0].id,
+      clientName: clients[0].name,
+      clientIds: clients.map(c => c.id),
+      clientNames: clients.map(c => c.name),
+      serviceId: service ? service.id : 'EVENT',
+      eventType: kind,
+      numberOfPeople: service?.pricePerPerson ? clients.length : undefined
+    };
+    // Appointments that take exactly their service's time keep following it
+    if (service && service.durationMin === event.durationMin) appointment.durationMin = undefined;
+  }
+
+  if (event.unsupportedRule) warnings.push('Repeat rule not supported; only the first date is imported');
+
+  return { event, kind, appointment, duplicateOf: findDuplicate(appointment, event, context.appointments), warnings };
+}
+
+/** An existing appointment that `appointment` repeats: re-imported from our own export, or the same slot and client/service. */
+function findDuplicate(appointment: Appointment, event: ParsedEvent, existing: Appointment[]): Appointment | undefined {
+  const haloId = HALO_UID.exec(event.uid)?.[1];
+  if (haloId && !event.recurrenceId) {
+    const same = existing.find(a => a.id === haloId);
+    if (same) return same;
+  }
+  return occurrencesOn<Appointment>(existing, appointment.date)
+    .map(o => o.entry)
+    .find(a =>
+      a.time === appointment.time &&
+      (a.serviceId === appointment.serviceId || (a.clientName || '').toLowerCase() === appointment.clientName.toLowerCase())
+    );
+}
+
+/**
+ * Rows for every event, with a guessed kind. Events that replace one
+ * occurrence of an imported recurring event (RECURRENCE-ID) are linked to it.
+ */
+export function planImport(events: ParsedEvent[], context: ImportContext): ImportPlan {
+  const newClients: Client[] = [];
+  const rows = events.map(event => importRow(event, guessKind(event, context.services), context, newClients));
+
+  for (const row of rows) {
+    if (!row.event.recurrenceId) continue;
+    const parent = rows.find(r => r.event.uid === row.event.uid && r.appointment.recurrence);
+    if (parent) {
+      row.appointment.recurrenceParentId = parent.appointment.id;
+      row.appointment.occurrenceDate = row.event.recurrenceId;
+      // Overrides usually leave out the attendees; they're the series' clients
+      if (row.event.attendees.length === 0 && row.kind === parent.kind) {
+        const { clientId, clientName, clientIds, clientNames, serviceId } = parent.appointment;
+        Object.assign(row.appointment, { clientId, clientName, clientIds, clientNames, serviceId });
+      }
+    }
+  }
+  return { rows, newClients };
+}
+
+/** `row` imported as a different kind, keeping its id and any link to a recurring event. */
+export function changeKind(row: ImportRow, kind: ImportKind, context: ImportContext, newClients: Client[]): ImportRow {
+  const changed = importRow(row.event, kind, context, newClients, row.appointment.id);
+  changed.appointment.recurrenceParentId = row.appointment.recurrenceParentId;
+  changed.appointment.occurrenceDate = row.appointment.occurrenceDate;
+  return changed;
+}
+
+/**
+ * What to add for the chosen rows: the appointments, and the new clients
+ * they refer to. Overrides whose recurring event was left out stand alone.
+ */
+export function collectImport(rows: ImportRow[], newClients: Client[]): { clients: Client[]; appointments: Appointment[] } {
+  const ids = new Set(rows.map(r => r.appointment.id));
+  const appointments = rows.map(({ appointment }) =>
+    appointment.recurrenceParentId && !ids.has(appointment.recurrenceParentId)
+      ? { ...appointment, recurrenceParentId: undefined, occurrenceDate: undefined }
+      : appointment
+  );
+  const used = new Set(appointments.flatMap(a => a.clientIds || [a.clientId]));
+  return { clients: newClients.filter(c => used.has(c.id)), appointments };
+}
@@ -0,0 +1,98 @@
+/**
+ * Resolving save conflicts between this device and the server.
+ * When /save is rejected because another device saved first, the user picks,
+ * per section, whether to keep this device's version, the server's version,
+ * or (for lists) both.
+ */
+import { UserData } from './apiService';
+
+export type ConflictSection = keyof UserData;
+export type ConflictChoice = 'mine' | 'theirs' | 'both';
+
+export const CONFLICT_SECTIONS: { key: ConflictSection; label: string }[] = [
+  { key: 'businessProfile', label: 'Business Profile' },
+  { key: 'clients', label: 'Clients' },
+  { key: 'appointments', label: 'Appointments' },
+  { key: 'expenses', label: 'Expenses' },
+  { key: 'ratings', label: 'Ratings' },
+  { key: 'bonusEntries', label: 'Bonus Entries' }
+];
+
+// Stable JSON for comparison: sorted keys, and empty values ('' / null / undefined)
+// dropped so a client stored as `lastVisit: ''` matches the server's `null`
+function canonical(value: any): string {
+  if (Array.isArray(value)) return `[${value.map(canonical).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .filter(k => value[k] !== undefined && value[k] !== null && value[k] !== '')
+      .sort()
+      .map(k => `${JSON.stringify(k)}:${canonical(value[k])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+export function sameData(a: any, b: any): boolean {
+  return canonical(a) === canonical(b);
+}
+
+// Lists are compared as sets, so a different order alone isn't a conflict
+function sameList(a: any[], b: any[]): boolean {
+  const byId = (list: any[]) => [...list].sort((x, y) => String(x.id).localeCompare(String(y.id)));
+  return sameData(byId(a), byId(b));
+}
+
+/** The sections where this device and the server disagree. */
+export function conflictingSections(local: UserData, server: UserData): ConflictSection[] {
+  return CONFLICT_SECTIONS
+    .map(s => s.key)
+    .filter(key => key === 'businessProfile'
+      ? !sameData(local.businessProfile, server.businessProfile)
+      : !sameList(local[key], server[key]));
+}
+
+/** Union of two lists by id; items on both sides keep this device's version. */
+export function mergeById<T extends { id: string }>(mine: T[], theirs: T[]): T[] {
+  const mineIds = new Set(mine.map(item => item.id));
+  return [...mine, ...theirs.filter(item => !mineIds.has(item.id))];
+}
+
+export interface ListChanges<T> {
+  created: T[];
+  updated: T[];
+  removed: T[];
+}
+
+/** The per-item writes that turn `before` into `after` (matched by id). */
+export function diffById<T extends { id: string }>(before: T[], after: T[]): ListChanges<T> {
+  const beforeById = new Map(before.map(item => [item.id, item]));
+  const afterIds = new Set(after.map(item => item.id));
+  return {
+    created: after.filter(item => !beforeById.has(item.id)),
+    updated: after.filter(item => beforeById.has(item.id) && !sameData(item, beforeById.get(item.id))),
+    removed: before.filter(item => !afterIds.has(item.id))
+  };
+}
+
+/** Build the resolved data from the per-section choices (unlisted sections take the server's version). */
+export function resolveConflict(
+  local: UserData,
+  server: UserData,
+  choices: Partial<Record<ConflictSection, ConflictChoice>>
+): UserData {
+  const pick = <K extends ConflictSection>(key: K): UserData[K] => {
+    const choice = choices[key] || 'theirs';
+    if (choice === 'mine') return local[key];
+    if (choice === 'both' && key !== 'businessProfile') return mergeById(local[key], server[key]) as UserData[K];
+    return server[key] ?? local[key];
+  };
+
+  return {
+    businessProfile: pick('businessProfile'),
+    clients: pick('clients'),
+    appointments: pick('appointments'),
+    expenses: pick('expenses'),
+    ratings: pick('ratings'),
+    bonusEntries: pick('bonusEntries')
+  };
+}
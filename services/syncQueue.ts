@@ -0,0 +1,324 @@
+/**
+ * Offline mutation queue.
+ * Every write to the backend goes through `submitMutation`. While the backend
+ * can't be reached (or earlier writes are still waiting) the request is stored
+ * in IndexedDB instead of being sent, and the queue is replayed in order once
+ * connectivity returns — from the page (online listener / app start) or from
+ * the service worker via Background Sync (see public/sw.js, which reads the
+ * same database and follows the same replay rules).
+ */
+
+const DB_NAME = 'halo-sync';
+const DB_VERSION = 1;
+const STORE = 'mutations';
+export const SYNC_TAG = 'halo-sync';
+const REPLAY_LOCK = 'halo-sync-replay';
+
+export interface MutationRequest {
+  method: 'POST' | 'PATCH' | 'DELETE';
+  url: string;
+  body?: unknown;
+  label: string; // human-readable, shown for failed mutations
+  coalesceKey?: string; // a newer mutation with the same key replaces a queued one
+}
+
+export interface QueuedMutation extends MutationRequest {
+  seq?: number; // IndexedDB key, assigned on insert; gives the replay order
+  createdAt: string;
+  attempts: number;
+  failed?: boolean; // rejected by the server; kept until retried or discarded
+  lastError?: string;
+}
+
+export interface SyncStatus {
+  pending: number;
+  failed: number;
+  syncing: boolean;
+}
+
+/** A queued mutation the server has answered during replay */
+export interface ReplayedMutation {
+  mutation: QueuedMutation;
+  status: number;
+  body: any;
+}
+
+// ================================================================
+// INDEXEDDB
+// ================================================================
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDB(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE, { keyPath: 'seq', autoIncrement: true });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T> | void): Promise<T | undefined> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const request = run(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(request ? request.result : undefined);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+/** All queued mutations, oldest first */
+export async function listMutations(): Promise<QueuedMutation[]> {
+  return (await withStore<QueuedMutation[]>('readonly', store => store.getAll())) || [];
+}
+
+async function putMutation(mutation: QueuedMutation): Promise<void> {
+  await withStore('readwrite', store => store.put(mutation));
+}
+
+async function deleteMutation(seq: number): Promise<void> {
+  await withStore('readwrite', store => store.delete(seq));
+}
+
+async function addMutation(request: MutationRequest): Promise<void> {
+  if (request.coalesceKey) {
+    const queued = await listMutations();
+    for (const m of queued) {
+      if (m.coalesceKey === request.coalesceKey && !m.failed && m.seq !== undefined) await deleteMutation(m.seq);
+    }
+  }
+  await putMutation({ ...request, createdAt: new Date().toISOString(), attempts: 0 });
+}
+
+// ================================================================
+// STATUS
+// ================================================================
+
+let status: SyncStatus = { pending: 0, failed: 0, syncing: false };
+const statusListeners = new Set<(status: SyncStatus) => void>();
+const replayListeners = new Set<(replayed: ReplayedMutation) => void>();
+
+async function refreshStatus(syncing = status.syncing): Promise<void> {
+  const queued = await listMutations().catch(() => []);
+  status = {
+    pending: queued.filter(m => !m.failed).length,
+    failed: queued.filter(m => m.failed).length,
+    syncing
+  };
+  statusListeners.forEach(listener => listener(status));
+}
+
+export function subscribeSyncStatus(listener: (status: SyncStatus) => void): () => void {
+  statusListeners.add(listener);
+  listener(status);
+  refreshStatus();
+  return () => { statusListeners.delete(listener); };
+}
+
+/** Called for each queued mutation the server answered during a replay (page or service worker). */
+export function onMutationReplayed(listener: (replayed: ReplayedMutation) => void): () => void {
+  replayListeners.add(listener);
+  return () => { replayListeners.delete(listener); };
+}
+
+// ================================================================
+// SEND / QUEUE / REPLAY
+// ================================================================
+
+const isNetworkError = (error: any) =>
+  error?.name === 'AbortError' || error?.name === 'TimeoutError' || error instanceof TypeError;
+
+function send(request: MutationRequest): Promise<Response> {
+  return fetch(request.url, {
+    method: request.method,
+    headers: request.body !== undefined ? { 'Content-Type': 'application/json' } : undefined,
+    credentials: 'include', // Include cookies
+    body: request.body !== undefined ? JSON.stringify(request.body) : undefined,
+    signal: AbortSignal.timeout(15000) // 15 second timeout (Vercel cold starts)
+  });
+}
+
+const isSave = (mutation: MutationRequest) => mutation.url.endsWith('/save');
+
+/**
+ * How a replayed mutation's response is handled (mirrored in public/sw.js):
+ * - 2xx, or a create that already exists (409 on POST) / a delete of something
+ *   already gone (404 on DELETE): done, remove it
+ * - 401, 5xx: stop and retry later (signed out / server trouble)
+ * - any other 4xx, including a /save conflict: the server won't accept it as
+ *   is; mark failed and move on
+ */
+type ReplayAction = 'done' | 'retry' | 'failed';
+
+function classify(mutation: QueuedMutation, responseStatus: number): ReplayAction {
+  if (responseStatus < 300) return 'done';
+  if (mutation.method === 'POST' && responseStatus === 409 && !isSave(mutation)) return 'done';
+  if (mutation.method === 'DELETE' && responseStatus === 404) return 'done';
+  if (responseStatus === 401 || responseStatus >= 500) return 'retry';
+  return 'failed';
+}
+
+async function requestBackgroundSync(): Promise<void> {
+  try {
+    const registration: any = await navigator.serviceWorker?.ready;
+    await registration?.sync?.register(SYNC_TAG);
+  } catch {
+    // Background Sync isn't supported everywhere; the online listener covers it
+  }
+}
+
+/**
+ * Send a mutation now, or queue it if the backend is unreachable or earlier
+ * mutations are still waiting (so the server sees changes in order).
+ * Resolves to the server's response, or null when the mutation was queued.
+ */
+export async function submitMutation(request: MutationRequest): Promise<Response | null> {
+  let hasBacklog = false;
+  try {
+    hasBacklog = (await listMutations()).some(m => !m.failed);
+  } catch {
+    // IndexedDB unavailable (e.g. private mode) — just send directly
+  }
+
+  if (!hasBacklog && navigator.onLine) {
+    try {
+      return await send(request);
+    } catch (error) {
+      if (!isNetworkError(error)) throw error;
+    }
+  }
+
+  try {
+    await addMutation(request);
+  } catch (error) {
+    console.error('Could not queue mutation:', error);
+    throw error;
+  }
+  console.warn(`📥 Queued "${request.label}" until the backend is reachable`);
+  await refreshStatus();
+  requestBackgroundSync();
+  if (hasBacklog && navigator.onLine) replayMutations();
+  return null;
+}
+
+async function replayQueue(): Promise<void> {
+  const queued = await listMutations();
+  // Saves queued offline all carry the revision loaded before going offline;
+  // once the first one lands, the rest build on the revision it produced
+  let rebase: { from: number; to: number } | null = null;
+
+  for (const mutation of queued) {
+    if (mutation.failed || mutation.seq === undefined) continue;
+
+    const base = (mutation.body as any)?.revision;
+    const outgoing = isSave(mutation) && rebase && base === rebase.from
+      ? { ...mutation, body: { ...(mutation.body as object), revision: rebase.to } }
+      : mutation;
+
+    let response: Response;
+    try {
+      response = await send(outgoing);
+    } catch (error) {
+      if (isNetworkError(error)) return scheduleRetry(); // still offline
+      throw error;
+    }
+
+    const body = await response.json().catch(() => null);
+    const action = classify(mutation, response.status);
+    if (action === 'retry') {
+      await putMutation({ ...mutation, attempts: mutation.attempts + 1, lastError: body?.error || `HTTP ${response.status}` });
+      return scheduleRetry();
+    }
+    if (action === 'done') {
+      await deleteMutation(mutation.seq);
+      if (isSave(mutation) && typeof body?.revision === 'number') rebase = { from: base, to: body.revision };
+    } else {
+      await putMutation({ ...mutation, attempts: mutation.attempts + 1, failed: true, lastError: body?.error || `HTTP ${response.status}` });
+    }
+    replayListeners.forEach(listener => listener({ mutation, status: response.status, body }));
+    await refreshStatus(true);
+  }
+}
+
+let replaying: Promise<void> | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+const RETRY_DELAY_MS = 30000;
+
+// The browser can report "online" while the backend is down, so also retry on a timer
+function scheduleRetry(): void {
+  if (retryTimer) return;
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    replayMutations();
+  }, RETRY_DELAY_MS);
+}
+
+/** Replay queued mutations in order. Safe to call often; overlapping calls share one run. */
+export function replayMutations(): Promise<void> {
+  if (replaying) return replaying;
+  replaying = (async () => {
+    await refreshStatus(true);
+    try {
+      const locks = (navigator as any).locks;
+      // The service worker may be replaying the same queue; take turns
+      if (locks) await locks.request(REPLAY_LOCK, replayQueue);
+      else await replayQueue();
+    } catch (error) {
+      console.error('Mutation replay failed:', error);
+    } finally {
+      replaying = null;
+      await refreshStatus(false);
+    }
+  })();
+  return replaying;
+}
+
+/** Put failed mutations back in line and replay them. */
+export async function retryFailedMutations(): Promise<void> {
+  const queued = await listMutations();
+  for (const m of queued) {
+    if (m.failed) await putMutation({ ...m, failed: false });
+  }
+  await replayMutations();
+}
+
+/** Drop one queued mutation, e.g. a save whose conflict the user resolved. */
+export async function discardMutation(seq: number): Promise<void> {
+  await deleteMutation(seq);
+  await refreshStatus();
+}
+
+/** Drop failed mutations (the user has given up on them). */
+export async function discardFailedMutations(): Promise<void> {
+  const queued = await listMutations();
+  for (const m of queued) {
+    if (m.failed && m.seq !== undefined) await deleteMutation(m.seq);
+  }
+  await refreshStatus();
+}
+
+/** Forget everything queued, e.g. on sign-out. */
+export async function clearMutations(): Promise<void> {
+  await withStore('readwrite', store => store.clear());
+  await refreshStatus();
+}
+
+// Replay when connectivity returns, and relay replays done by the service worker
+if (typeof window !== 'undefined') {
+  window.addEventListener('online', () => { replayMutations(); });
+  navigator.serviceWorker?.addEventListener('message', (event) => {
+    if (event.data?.type !== 'SYNC_REPLAYED') return;
+    (event.data.results as ReplayedMutation[]).forEach(replayed => replayListeners.forEach(listener => listener(replayed)));
+    refreshStatus();
+  });
+}
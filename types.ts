@@ -7,8 +7,8 @@ export enum ViewState {
   SETTINGS = 'SETTINGS',
   MY_BUSINESS = 'MY_BUSINESS',
   SAVE_POINTS = 'SAVE_POINTS', // Manual save/load snapshots across devices
-  BOOKING_PUBLIC = 'BOOKING_PUBLIC', // The client-facing view
-  RATING_PAGE = 'RATING_PAGE' // Public rating page
+  REVIEWS = 'REVIEWS', // Rating stats and comment moderation
+  BOOKING_PUBLIC = 'BOOKING_PUBLIC' // The client-facing view
 }
 
 export interface Service {
@@ -20,12 +20,26 @@ export interface Service {
   pricePerPerson?: boolean; // If true, price is per person and allows multiple clients
 }
 
+export interface WorkingHours {
+  start: string; // HH:mm
+  end: string;   // HH:mm
+}
+
+export interface TimeOff {
+  startDate: string; // YYYY-MM-DD
+  endDate: string;   // YYYY-MM-DD, inclusive
+  reason?: string;
+}
+
 export interface Staff {
   id: string;
   name: string;
   role?: string;
   email?: string;
   phone?: string;
+  schedule?: (WorkingHours | null)[]; // Hours per weekday, Sunday first (null = day off); unset = business hours every day
+  timeOff?: TimeOff[]; // Whole days off (holidays, sick days); shorter breaks are BLOCKED entries assigned to them
+  serviceIds?: string[]; // Services they perform; unset = all
 }
 
 export interface BusinessProfile {
@@ -43,7 +57,35 @@ export interface BusinessProfile {
     start: string; // HH:mm
     end: string;   // HH:mm
   };
+  bufferMin?: number; // Minutes kept free between appointments
+  timeZone?: string; // IANA zone (e.g. "America/New_York") appointment dates and times are in; defaults to the device's
   staff?: Staff[]; // People who work with the business
+  reminderHours?: number[]; // Email clients a reminder this many hours before each appointment (e.g. [24, 2]); unset = no reminders
+  cancellationWindowHours?: number; // Clients can't cancel or reschedule from their link this many hours before the start; unset = until it starts
+  showTestimonials?: boolean; // Show featured reviews on the public booking page
+  surveyQuestions?: SurveyQuestion[]; // Extra questions on the rating page
+  emailTemplates?: Partial<Record<EmailTemplateKey, EmailTemplate>>; // Owner's edits; missing ones use the defaults
+}
+
+export type EmailTemplateKey = 'RATING_REQUEST' | 'FOLLOW_UP' | 'EARNINGS_REPORT';
+
+// Plain text with {{variables}}; see backend/lib/emailTemplates.ts
+export interface EmailTemplate {
+  subject: string;
+  heading: string;
+  body: string; // Blank lines separate paragraphs
+  buttonLabel?: string; // Rating request only
+}
+
+export type SurveyQuestionType = 'NPS' | 'CHOICE' | 'TEXT';
+
+export interface SurveyQuestion {
+  id: string;
+  type: SurveyQuestionType; // NPS = 0-10 "how likely are you to recommend", CHOICE = one of options, TEXT = free text
+  prompt: string;
+  options?: string[]; // CHOICE only
+  serviceIds?: string[]; // Only asked after these services; unset = every appointment
+  required?: boolean;
 }
 
 export interface Client {
@@ -79,11 +121,17 @@ export enum AppointmentStatus {
   BLOCKED = 'BLOCKED'
 }
 
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+// Mirrors a subset of an RFC 5545 RRULE; see toRRule/parseRRule in backend/lib/recurrence.ts
 export interface RecurrenceRule {
-  frequency: 'WEEKLY' | 'MONTHLY';
+  frequency: RecurrenceFrequency;
   interval: number; // e.g. 1 = every week, 2 = every other week
-  endDate?: string; // ISO Date YYYY-MM-DD
-  daysOfWeek?: number[]; // 0=Sun, 1=Mon, ..., 6=Sat — which days the lesson repeats on
+  endDate?: string; // ISO Date YYYY-MM-DD (UNTIL)
+  count?: number; // Stop after this many occurrences (COUNT)
+  daysOfWeek?: number[]; // 0=Sun, 1=Mon, ..., 6=Sat — which days the lesson repeats on (BYDAY)
+  setPos?: number; // MONTHLY/YEARLY with daysOfWeek: 2 = second, -1 = last (BYSETPOS), e.g. second Tuesday
+  exceptionDates?: string[]; // ISO Dates of occurrences that were removed (EXDATE)
 }
 
 export interface ClientRating {
@@ -95,6 +143,19 @@ export interface ClientRating {
   staffId?: string; // Which staff member was rated
   comment?: string; // Optional feedback comment
   date: string; // When the rating was submitted
+  hidden?: boolean; // Comment hidden by the owner
+  flagged?: boolean; // Marked by the owner for follow-up
+  featured?: boolean; // Shown as a testimonial on the public booking page
+  reply?: string; // The owner's reply, shown with the testimonial
+  repliedAt?: string; // ISO timestamp
+  answers?: SurveyAnswer[]; // Answers to the business's survey questions
+}
+
+export interface SurveyAnswer {
+  questionId: string;
+  type: SurveyQuestionType; // Copied from the question when answered
+  prompt: string; // Copied too, so results read the same after the question changes
+  value: number | string; // NPS score 0-10, the chosen option, or the text
 }
 
 export type EventType = 'APPOINTMENT' | 'MEETING' | 'INTERVIEW' | 'TASK';
@@ -116,6 +177,60 @@ export interface Appointment {
   numberOfPeople?: number; // Number of people for price-per-person services
   overridePrice?: number; // Manual price override for revenue editing
   eventType?: EventType; // Type of calendar entry (default: APPOINTMENT)
+  recurrenceParentId?: string; // Set when this replaces one occurrence of a recurring appointment
+  occurrenceDate?: string; // ISO Date of the parent's occurrence this replaces
+  durationMin?: number; // Overrides the service's duration (e.g. events imported from another calendar)
+}
+
+// One reminder email sent to an appointment's clients (recorded by the server)
+export interface ReminderDelivery {
+  appointmentId: string;
+  date: string; // ISO Date YYYY-MM-DD of the occurrence reminded of
+  hoursBefore: number;
+  status: 'SENT' | 'FAILED';
+  error?: string;
+  sentAt: string; // ISO timestamp
+}
+
+export type EmailKind =
+  | 'MESSAGE' | 'RATING_REQUEST' | 'FOLLOW_UP' | 'EARNINGS_REPORT' // sent from the app
+  | 'BOOKING' | 'REMINDER' | 'WAITLIST_OFFER' | 'OWNER_NOTICE' | 'PASSWORD_RESET'; // sent by the server
+
+export interface EmailLogEntry {
+  id: number;
+  to: string;
+  subject: string;
+  kind: EmailKind;
+  status: 'SENT' | 'FAILED';
+  transport?: string; // resend | console | file
+  providerId?: string;
+  error?: string;
+  sentAt: string; // ISO timestamp
+}
+
+export type TimeOfDay = 'MORNING' | 'AFTERNOON' | 'EVENING'; // before 12:00, 12:00-17:00, from 17:00
+
+// WAITING until a cancelled time is offered; OFFERED while the claim link is live; BOOKED once claimed
+export type WaitlistStatus = 'WAITING' | 'OFFERED' | 'BOOKED';
+
+export interface WaitlistEntry {
+  id: string;
+  clientName: string;
+  clientEmail: string; // Offers are sent here
+  clientPhone?: string;
+  serviceId: string;
+  staffId?: string; // Only offer times with this staff member
+  startDate: string; // ISO Date YYYY-MM-DD; the days the client can make, in the business's time zone
+  endDate: string; // ISO Date YYYY-MM-DD, inclusive
+  preferredTimes?: TimeOfDay[]; // Unset or empty = any time
+  status: WaitlistStatus;
+  offerDate?: string; // The time currently offered (business's time zone)
+  offerTime?: string; // HH:mm
+  offerStaffId?: string;
+  offerToken?: string; // Secret in the claim link
+  offerExpiresAt?: string; // ISO timestamp
+  declinedSlots?: string[]; // "YYYY-MM-DD HH:mm" times already passed on; not offered again
+  appointmentId?: string; // The appointment booked from a claimed offer
 }
 
 export interface AISummaryResponse {